@@ -0,0 +1,10 @@
+import MessagesScreen from '@/components/messages/MessagesScreen';
+import RouteGuard from '@/components/auth/RouteGuard';
+
+export default function MessagesPage() {
+  return (
+    <RouteGuard requireAuth={true} redirectTo="/home">
+      <MessagesScreen />
+    </RouteGuard>
+  );
+}
@@ -6,11 +6,14 @@ import { Stack, usePathname } from 'expo-router';
 import { View, StyleSheet, Platform, ActivityIndicator, Pressable, useWindowDimensions, KeyboardAvoidingView, StyleProp, ViewStyle } from 'react-native';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import { AtpProvider, useAtp } from '@/context/AtpContext';
+import { ActionQueueProvider } from '@/context/ActionQueueContext';
+import { ScheduledPostsProvider } from '@/context/ScheduledPostsContext';
 import { UIProvider, useUI } from '@/context/UIContext';
 import { HiddenPostsProvider } from '@/context/HiddenPostsContext';
 import { ModerationProvider } from '@/context/ModerationContext';
 import { ProfileCacheProvider } from '@/context/ProfileCacheContext';
 import { BookmarksProvider } from '@/context/BookmarksContext';
+import { WatchHistoryProvider } from '@/context/WatchHistoryContext';
 import { AccessibilityProvider } from '@/context/AccessibilityContext';
 import { Toaster, ToastProvider } from '@/components/shared';
 import { StatusBar } from 'expo-status-bar';
@@ -31,6 +34,7 @@ import { initializeServiceWorker } from '@/lib/serviceWorker';
 // Use optimized lazy components
 const {
   LoginScreen,
+  AccountSwitcherModal,
   Composer,
   FeedHeaderModal,
   EditProfileModal,
@@ -38,6 +42,7 @@ const {
   UpdateHandleModal,
   MediaActionsModal,
   RepostModal,
+  ReportModal,
   RepliesModal,
 } = lazyComponents;
 
@@ -222,14 +227,16 @@ function ThemedAppLayout() {
   
   const styles = createStyles(theme);
   const {
-    isLoginModalOpen, closeLoginModal,
-    isComposerOpen, closeComposer, composerReplyTo, composerInitialText,
+    isLoginModalOpen, isAddingAccount, closeLoginModal,
+    isAccountSwitcherOpen, closeAccountSwitcher,
+    isComposerOpen, closeComposer, composerReplyTo, composerInitialText, composerScheduledPostId,
     isFeedModalOpen, closeFeedModal,
     isEditProfileModalOpen, closeEditProfileModal,
     isUpdateEmailModalOpen, closeUpdateEmailModal,
     isUpdateHandleModalOpen, closeUpdateHandleModal,
     isMediaActionsModalOpen, closeMediaActionsModal, mediaActionsModalPost,
     isRepostModalOpen, closeRepostModal, repostModalPost,
+    isReportModalOpen, closeReportModal, reportSubject,
     isRepliesModalOpen, repliesModalData, closeRepliesModal,
   } = useUI();
 
@@ -280,12 +287,23 @@ function ThemedAppLayout() {
               <Pressable style={styles.modalDialogWrapper as StyleProp<ViewStyle>} onPress={(e) => e.stopPropagation()}>
                 <LazyLoadErrorBoundary>
                   <Suspense fallback={<ModalSuspenseFallback />}>
-                      <LoginScreen onSuccess={closeLoginModal} />
+                      <LoginScreen onSuccess={closeLoginModal} isAddingAccount={isAddingAccount} />
                   </Suspense>
                 </LazyLoadErrorBoundary>
               </Pressable>
             </Pressable>
           )}
+          {isAccountSwitcherOpen && (
+             <Pressable style={styles.modalBackdrop as StyleProp<ViewStyle>} onPress={closeAccountSwitcher}>
+                <Pressable style={styles.bottomSheet as StyleProp<ViewStyle>} onPress={(e) => e.stopPropagation()}>
+                    <LazyLoadErrorBoundary>
+                      <Suspense fallback={<ModalSuspenseFallback />}>
+                          <AccountSwitcherModal onClose={closeAccountSwitcher} />
+                      </Suspense>
+                    </LazyLoadErrorBoundary>
+                </Pressable>
+             </Pressable>
+          )}
           {isComposerOpen && (
             <KeyboardAvoidingView
               behavior={Platform.OS === "ios" ? "padding" : "height"}
@@ -294,7 +312,7 @@ function ThemedAppLayout() {
               <Pressable style={styles.composerWrapper as StyleProp<ViewStyle>} onPress={(e) => e.stopPropagation()}>
                 <LazyLoadErrorBoundary>
                   <Suspense fallback={<ModalSuspenseFallback />}>
-                      <Composer onClose={closeComposer} onPostSuccess={closeComposer} replyTo={composerReplyTo} initialText={composerInitialText} />
+                      <Composer onClose={closeComposer} onPostSuccess={closeComposer} replyTo={composerReplyTo} initialText={composerInitialText} scheduledPostId={composerScheduledPostId} />
                   </Suspense>
                 </LazyLoadErrorBoundary>
               </Pressable>
@@ -366,6 +384,17 @@ function ThemedAppLayout() {
                 </Pressable>
              </Pressable>
           )}
+          {isReportModalOpen && reportSubject && (
+             <Pressable style={styles.modalBackdrop as StyleProp<ViewStyle>} onPress={closeReportModal}>
+              <Pressable style={styles.modalDialogWrapper as StyleProp<ViewStyle>} onPress={(e) => e.stopPropagation()}>
+                <LazyLoadErrorBoundary>
+                  <Suspense fallback={<ModalSuspenseFallback />}>
+                      <ReportModal subject={reportSubject} onClose={closeReportModal} />
+                  </Suspense>
+                </LazyLoadErrorBoundary>
+              </Pressable>
+             </Pressable>
+          )}
           {isRepliesModalOpen && repliesModalData && (
              <Pressable style={styles.modalBackdrop as StyleProp<ViewStyle>} onPress={closeRepliesModal}>
                 <Pressable style={[styles.bottomSheet, styles.repliesSheet] as StyleProp<ViewStyle>} onPress={(e) => e.stopPropagation()}>
@@ -390,29 +419,35 @@ export default function RootLayout() {
       <ThemeProvider defaultColorScheme="dark">
         <ToastProvider>
           <AtpProvider>
-            <ModerationProvider>
-              <UIProvider>
-                <HiddenPostsProvider>
-                  <BookmarksProvider>
-                    <ProfileCacheProvider>
-                      <SafeAreaProvider>
-                        <GlobalAuthGuard>
-                          <Head>
-                            {/* Default meta tags */}
-                            <meta property="og:site_name" content="Takaka" />
-                            <meta property="og:type" content="website" />
-                            <meta property="og:image" content="https://github.com/user-attachments/assets/0aa67016-6eaf-458a-adb2-6e31a0763ed6" />
-                          </Head>
-                          <StatusBar style="light" />
-                          <ThemedAppLayout />
-                          <Toaster />
-                        </GlobalAuthGuard>
-                      </SafeAreaProvider>
-                    </ProfileCacheProvider>
-                  </BookmarksProvider>
-                </HiddenPostsProvider>
-              </UIProvider>
-            </ModerationProvider>
+            <ActionQueueProvider>
+              <ScheduledPostsProvider>
+                <ModerationProvider>
+                  <UIProvider>
+                    <HiddenPostsProvider>
+                      <BookmarksProvider>
+                        <WatchHistoryProvider>
+                          <ProfileCacheProvider>
+                            <SafeAreaProvider>
+                              <GlobalAuthGuard>
+                                <Head>
+                                  {/* Default meta tags */}
+                                  <meta property="og:site_name" content="Takaka" />
+                                  <meta property="og:type" content="website" />
+                                  <meta property="og:image" content="https://github.com/user-attachments/assets/0aa67016-6eaf-458a-adb2-6e31a0763ed6" />
+                                </Head>
+                                <StatusBar style="light" />
+                                <ThemedAppLayout />
+                                <Toaster />
+                              </GlobalAuthGuard>
+                            </SafeAreaProvider>
+                          </ProfileCacheProvider>
+                        </WatchHistoryProvider>
+                      </BookmarksProvider>
+                    </HiddenPostsProvider>
+                  </UIProvider>
+                </ModerationProvider>
+              </ScheduledPostsProvider>
+            </ActionQueueProvider>
           </AtpProvider>
         </ToastProvider>
       </ThemeProvider>
@@ -0,0 +1,14 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import BookmarkCollectionScreen from '@/components/bookmarks/BookmarkCollectionScreen';
+import { ALL_BOOKMARKS_ID } from '@/components/bookmarks/BookmarksScreen';
+import RouteGuard from '@/components/auth/RouteGuard';
+
+export default function BookmarkCollectionPage() {
+    const { collection } = useLocalSearchParams<{ collection: string }>();
+    return (
+        <RouteGuard requireAuth={true} redirectTo="/home">
+            <BookmarkCollectionScreen collectionId={collection || ALL_BOOKMARKS_ID} />
+        </RouteGuard>
+    );
+}
@@ -0,0 +1,11 @@
+import React from 'react';
+import HistoryScreen from '@/components/history/HistoryScreen';
+import RouteGuard from '@/components/auth/RouteGuard';
+
+export default function HistoryPage() {
+    return (
+        <RouteGuard requireAuth={true} redirectTo="/home">
+            <HistoryScreen />
+        </RouteGuard>
+    );
+}
@@ -0,0 +1,13 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import ConversationScreen from '@/components/messages/ConversationScreen';
+import RouteGuard from '@/components/auth/RouteGuard';
+
+export default function ConversationPage() {
+    const { convoId } = useLocalSearchParams<{ convoId: string }>();
+    return (
+        <RouteGuard requireAuth={true} redirectTo="/home">
+            <ConversationScreen convoId={convoId} />
+        </RouteGuard>
+    );
+}
@@ -0,0 +1,48 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { ShieldAlert } from 'lucide-react';
+import { useAtp } from '@/context/AtpContext';
+import { useTheme } from '@/components/shared/Theme/ThemeProvider';
+import ErrorState from '@/components/shared/ErrorState';
+import { OAuthCallbackParams } from '@/lib/oauth';
+
+export default function OAuthCallbackPage() {
+  const params = useLocalSearchParams<{ code?: string; state?: string; iss?: string; error?: string; error_description?: string }>();
+  const { completeOAuthLogin, isLoadingSession } = useAtp();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    // Wait for the stored accounts to load so resuming the previous account can't override this one
+    if (isLoadingSession || hasStarted.current) return;
+    hasStarted.current = true;
+    const callbackParams: OAuthCallbackParams = {
+      code: params.code,
+      state: params.state,
+      iss: params.iss,
+      error: params.error,
+      error_description: params.error_description,
+    };
+    completeOAuthLogin(callbackParams)
+      .then(() => router.replace('/home'))
+      .catch((err: unknown) => {
+        console.error('OAuth sign-in failed', err);
+        setError(err instanceof Error && err.message ? err.message : t('signIn.loginFailed'));
+      });
+  }, [isLoadingSession]);
+
+  if (error) {
+    return <ErrorState icon={ShieldAlert} title={t('signIn.oauthFailed')} message={error} />;
+  }
+
+  return (
+    <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: theme.colors.background }}>
+      <ActivityIndicator size="large" color={theme.colors.primary} />
+    </View>
+  );
+}
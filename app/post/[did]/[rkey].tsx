@@ -11,6 +11,7 @@ import Head from 'expo-router/head';
 import FullPostCardSkeleton from '@/components/post/FullPostCardSkeleton';
 import ErrorState from '@/components/shared/ErrorState';
 import { FileX2 } from 'lucide-react';
+import { resolveActorDid } from '@/lib/identity';
 
 export default function PostPage() {
   const { did, rkey } = useLocalSearchParams<{ did: string; rkey: string }>();
@@ -33,7 +34,15 @@ export default function PostPage() {
       setIsLoading(true);
       setError(null);
       
-      const postUri = `at://${did}/app.bsky.feed.post/${rkey}`;
+      // Shared links may use the author's handle instead of their DID
+      let postUri: string;
+      try {
+        postUri = `at://${await resolveActorDid(did)}/app.bsky.feed.post/${rkey}`;
+      } catch {
+        setError(t('post.notFound'));
+        setIsLoading(false);
+        return;
+      }
       console.log('🔍 DEBUG: Fetching post thread for:', postUri, 'Session exists:', !!session);
       
       // Strategy 1: Try public API agent first (works for both authenticated and non-authenticated)
@@ -11,6 +11,7 @@ import Head from 'expo-router/head';
 import FullPostCardSkeleton from '@/components/post/FullPostCardSkeleton';
 import ErrorState from '@/components/shared/ErrorState';
 import { FileX2 } from 'lucide-react';
+import { resolveActorDid } from '@/lib/identity';
 
 /**
  * Public Post Page - Accessible without authentication
@@ -40,7 +41,15 @@ export default function PublicPostPage() {
       setIsLoading(true);
       setError(null);
       
-      const postUri = `at://${did}/app.bsky.feed.post/${rkey}`;
+      // Shared links may use the author's handle instead of their DID
+      let postUri: string;
+      try {
+        postUri = `at://${await resolveActorDid(did)}/app.bsky.feed.post/${rkey}`;
+      } catch {
+        setError(t('post.notFound'));
+        setIsLoading(false);
+        return;
+      }
       console.log('🔍 DEBUG: Fetching post thread for public access:', postUri);
       
       // Strategy 1: Always try public API agent first for maximum accessibility
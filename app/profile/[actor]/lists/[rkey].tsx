@@ -0,0 +1,11 @@
+import ListScreen from '@/components/lists/ListScreen';
+import { useLocalSearchParams } from 'expo-router';
+import { View, Text } from 'react-native';
+
+export default function ListPage() {
+  const { actor, rkey } = useLocalSearchParams<{ actor: string; rkey: string }>();
+  if (!actor || !rkey) {
+    return <View><Text>Error: Invalid list identifier.</Text></View>;
+  }
+  return <ListScreen actor={actor} rkey={rkey} />;
+}
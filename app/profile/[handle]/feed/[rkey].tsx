@@ -3,9 +3,9 @@ import { useLocalSearchParams } from 'expo-router';
 import { View, Text } from 'react-native';
 
 export default function FeedViewPage() {
-  const { handle, rkey } = useLocalSearchParams<{ handle: string; rkey: string }>();
+  const { handle, rkey, preview } = useLocalSearchParams<{ handle: string; rkey: string; preview?: string }>();
   if (!handle || !rkey) {
       return <View><Text>Error: Invalid feed identifier.</Text></View>;
   }
-  return <FeedViewScreen handle={handle} rkey={rkey} />;
+  return <FeedViewScreen handle={handle} rkey={rkey} isPreview={!!preview} />;
 }
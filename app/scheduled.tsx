@@ -0,0 +1,11 @@
+import React from 'react';
+import ScheduledScreen from '@/components/scheduled/ScheduledScreen';
+import RouteGuard from '@/components/auth/RouteGuard';
+
+export default function ScheduledPage() {
+    return (
+        <RouteGuard requireAuth={true} redirectTo="/home">
+            <ScheduledScreen />
+        </RouteGuard>
+    );
+}
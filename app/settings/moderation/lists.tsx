@@ -0,0 +1,2 @@
+import ModerationListsScreen from '@/components/settings/ModerationListsScreen';
+export default ModerationListsScreen;
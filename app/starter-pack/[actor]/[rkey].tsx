@@ -0,0 +1,11 @@
+import StarterPackScreen from '@/components/lists/StarterPackScreen';
+import { useLocalSearchParams } from 'expo-router';
+import { View, Text } from 'react-native';
+
+export default function StarterPackPage() {
+  const { actor, rkey } = useLocalSearchParams<{ actor: string; rkey: string }>();
+  if (!actor || !rkey) {
+    return <View><Text>Error: Invalid starter pack identifier.</Text></View>;
+  }
+  return <StarterPackScreen actor={actor} rkey={rkey} />;
+}
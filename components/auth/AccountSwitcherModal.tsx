@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import { AppBskyActorDefs } from '@atproto/api';
+import { Check, UserPlus, X, LogOut } from 'lucide-react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useAtp } from '../../context/AtpContext';
+import { useUI } from '../../context/UIContext';
+import { useToast } from '@/components/shared';
+import { useTheme } from '@/components/shared/Theme';
+import { OptimizedImage } from '../ui';
+
+interface AccountSwitcherModalProps {
+  onClose: () => void;
+}
+
+const AccountSwitcherModal: React.FC<AccountSwitcherModalProps> = ({ onClose }) => {
+    const { theme } = useTheme();
+    const styles = React.useMemo(() => createStyles(theme), [theme]);
+    const { t } = useTranslation();
+    const { toast } = useToast();
+    const router = useRouter();
+    const { accounts, session, switchAccount, removeAccount, publicApiAgent } = useAtp();
+    const { openAddAccountModal } = useUI();
+    const [profiles, setProfiles] = useState<Map<string, AppBskyActorDefs.ProfileViewDetailed>>(new Map());
+    const [pendingDid, setPendingDid] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (accounts.length === 0) return;
+        // Stored accounts may live on different PDSes, so profiles are read through the public AppView.
+        publicApiAgent.getProfiles({ actors: accounts.map(a => a.did) })
+            .then(({ data }) => setProfiles(new Map(data.profiles.map(p => [p.did, p]))))
+            .catch(err => console.error("Failed to fetch profiles for account switcher:", err));
+    }, [accounts, publicApiAgent]);
+
+    const handleSwitch = async (did: string) => {
+        if (did === session?.did) {
+            onClose();
+            return;
+        }
+        setPendingDid(did);
+        try {
+            await switchAccount(did);
+            const handle = accounts.find(a => a.did === did)?.handle;
+            toast({ title: t('accountSwitcher.switched', { handle }) });
+            onClose();
+            router.replace('/home');
+        } catch (error) {
+            console.error("Failed to switch account:", error);
+            toast({ title: t('common.error'), description: t('accountSwitcher.switchError'), variant: "destructive" });
+        } finally {
+            setPendingDid(null);
+        }
+    };
+
+    const handleRemove = (did: string, handle: string) => {
+        const performRemove = async () => {
+            setPendingDid(did);
+            try {
+                await removeAccount(did);
+            } catch (error) {
+                console.error("Failed to remove account:", error);
+            } finally {
+                setPendingDid(null);
+            }
+        };
+
+        const message = t('accountSwitcher.removeConfirm', { handle });
+        if (Platform.OS === 'web') {
+            if (window.confirm(message)) performRemove();
+        } else {
+            Alert.alert(t('accountSwitcher.remove'), message, [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Confirm', style: 'destructive', onPress: performRemove }
+            ]);
+        }
+    };
+
+    return (
+        <View>
+            <View style={styles.header}>
+                <Text style={styles.headerTitle}>{t('accountSwitcher.title')}</Text>
+                <Pressable onPress={onClose} style={styles.closeButton}><X color={theme.colors.onSurface} /></Pressable>
+            </View>
+
+            <View style={styles.content}>
+                {accounts.map(account => {
+                    const profile = profiles.get(account.did);
+                    const isActive = account.did === session?.did;
+                    return (
+                        <Pressable
+                            key={account.did}
+                            onPress={() => handleSwitch(account.did)}
+                            disabled={!!pendingDid}
+                            style={({ pressed }) => [styles.accountItem, pressed && styles.accountItemPressed]}
+                        >
+                            <OptimizedImage source={{ uri: profile?.avatar }} style={styles.avatar} />
+                            <View style={styles.accountText}>
+                                <Text style={styles.displayName} numberOfLines={1}>{profile?.displayName || `@${account.handle}`}</Text>
+                                <Text style={styles.handle} numberOfLines={1}>@{account.handle}</Text>
+                            </View>
+                            {pendingDid === account.did ? (
+                                <ActivityIndicator size="small" color={theme.colors.onSurface} />
+                            ) : (
+                                <>
+                                    {isActive && <Check color={theme.colors.primary} size={20} />}
+                                    <Pressable
+                                        onPress={() => handleRemove(account.did, account.handle)}
+                                        disabled={!!pendingDid}
+                                        style={styles.removeButton}
+                                        accessibilityLabel={t('accountSwitcher.remove')}
+                                    >
+                                        <LogOut color={theme.colors.onSurfaceVariant} size={18} />
+                                    </Pressable>
+                                </>
+                            )}
+                        </Pressable>
+                    );
+                })}
+
+                <Pressable
+                    onPress={openAddAccountModal}
+                    disabled={!!pendingDid}
+                    style={({ pressed }) => [styles.accountItem, pressed && styles.accountItemPressed]}
+                >
+                    <View style={styles.addIconContainer}>
+                        <UserPlus color={theme.colors.onSurface} size={22} />
+                    </View>
+                    <Text style={styles.displayName}>{t('accountSwitcher.addAccount')}</Text>
+                </Pressable>
+            </View>
+        </View>
+    );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+    header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: theme.spacing.l },
+    headerTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+    closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+    content: { padding: theme.spacing.s, gap: theme.spacing.xs },
+    accountItem: { width: '100%', flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, padding: theme.spacing.m, borderRadius: theme.radius.md },
+    accountItemPressed: { backgroundColor: theme.colors.surfaceContainerHigh },
+    avatar: { width: 44, height: 44, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+    addIconContainer: { width: 44, height: 44, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh, justifyContent: 'center', alignItems: 'center' },
+    accountText: { flex: 1 },
+    displayName: { ...theme.typography.bodyLarge, fontWeight: '600', color: theme.colors.onSurface },
+    handle: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+    removeButton: { padding: theme.spacing.s },
+});
+
+export default AccountSwitcherModal;
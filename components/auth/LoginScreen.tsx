@@ -1,21 +1,26 @@
 
 
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation, Trans } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
-import { AtSign, KeyRound, LogIn, ShieldCheck, Globe, Pencil, Check, X } from 'lucide-react';
+import { AtSign, KeyRound, LogIn, ShieldCheck, Globe, Pencil, Check, X, ExternalLink } from 'lucide-react';
 import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator, Linking, Platform, Modal } from 'react-native';
 import { useTheme } from '@/components/shared';
 import { PDS_URL } from '@/lib/config';
+import { isOAuthSupported } from '@/lib/oauth';
+import { isValidDid, isValidHandle, resolveIdentity } from '@/lib/identity';
+import { useDebounce } from '@/hooks/useDebounce';
 import i18n from '@/lib/i18n';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
 
 interface LoginScreenProps {
   onSuccess: () => void;
+  /** Sign in to an additional account while another one is active */
+  isAddingAccount?: boolean;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, isAddingAccount = false }) => {
   const [identifier, setIdentifier] = useState('');
   const [appPassword, setAppPassword] = useState('');
   const [token, setToken] = useState('');
@@ -23,7 +28,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
   const [emailHint, setEmailHint] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { login } = useAtp();
+  const { login, loginWithOAuth } = useAtp();
   const { requireAuth } = useAuthGuard();
   const { t } = useTranslation();
   const { theme } = useTheme();
@@ -35,15 +40,40 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
   const [isProviderModalVisible, setProviderModalVisible] = useState(false);
   const [providerSelection, setProviderSelection] = useState<'bluesky' | 'custom'>('bluesky');
   const [customUrlInput, setCustomUrlInput] = useState('');
+  // PDS found by resolving the typed handle or DID; takes precedence over the chosen provider
+  const [discoveredServiceUrl, setDiscoveredServiceUrl] = useState<string | null>(null);
+  const debouncedIdentifier = useDebounce(identifier, 500);
+
+  useEffect(() => {
+    const input = debouncedIdentifier.trim();
+    setDiscoveredServiceUrl(null);
+    if (!isValidHandle(input) && !isValidDid(input)) return;
+    let isCancelled = false;
+    resolveIdentity(input)
+      .then(identity => { if (!isCancelled) setDiscoveredServiceUrl(identity.pdsUrl); })
+      .catch(() => {});
+    return () => { isCancelled = true; };
+  }, [debouncedIdentifier]);
+
+  // Handles and DIDs know their own PDS; email sign-ins fall back to the chosen provider
+  const resolveLoginServiceUrl = async () => {
+    const input = identifier.trim();
+    if (!isValidHandle(input) && !isValidDid(input)) return serviceUrl;
+    try {
+      return (await resolveIdentity(input)).pdsUrl;
+    } catch {
+      return serviceUrl;
+    }
+  };
 
   // Verificar se o usuário já está autenticado
   React.useEffect(() => {
     // Se já está autenticado, fechar o modal
     // requireAuth retorna true se autenticado, false se não
-    if (requireAuth('login')) {
+    if (!isAddingAccount && requireAuth('login')) {
       onSuccess();
     }
-  }, [requireAuth, onSuccess]);
+  }, [requireAuth, onSuccess, isAddingAccount]);
 
 
   const handleLogin = async () => {
@@ -54,7 +84,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
         identifier,
         appPassword_DO_NOT_USE_REGULAR_PASSWORD_HERE: appPassword,
         token: loginStep === 'token' ? token : undefined,
-        serviceUrl: serviceUrl
+        serviceUrl: await resolveLoginServiceUrl()
       });
       onSuccess();
     } catch (err: any) {
@@ -75,6 +105,18 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
     }
   };
   
+  // Leaves the app for the authorization server; app/oauth/callback finishes the sign-in
+  const handleOAuthLogin = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await loginWithOAuth({ identifier, serviceUrl });
+    } catch (err: any) {
+      setError(err.message || t('signIn.oauthFailed'));
+      setIsLoading(false);
+    }
+  };
+
   const openAppPasswordLink = () => {
       Linking.openURL('https://bsky.app/settings/app-passwords');
   }
@@ -164,8 +206,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
     <>
       <View style={styles.container}>
         <View style={styles.textCenter}>
-          <Text style={styles.title}>{t('signIn.title')}</Text>
-          <Text style={styles.description}>{t('signIn.description')}</Text>
+          <Text style={styles.title}>{isAddingAccount ? t('signIn.addAccountTitle') : t('signIn.title')}</Text>
+          <Text style={styles.description}>{isAddingAccount ? t('signIn.addAccountDescription') : t('signIn.description')}</Text>
         </View>
         <View style={styles.formContainer}>
           <View>
@@ -173,10 +215,11 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
             <Pressable style={styles.inputContainer} onPress={openProviderModal}>
                 <Globe style={styles.icon} color={theme.colors.onSurfaceVariant} size={20} />
                 <Text style={[styles.input, styles.providerInput]} numberOfLines={1}>
-                    {serviceUrl === PDS_URL ? 'Bluesky Social' : serviceUrl}
+                    {discoveredServiceUrl ? new URL(discoveredServiceUrl).host : serviceUrl === PDS_URL ? 'Bluesky Social' : serviceUrl}
                 </Text>
                 <Pencil style={styles.providerEditIcon} color={theme.colors.onSurfaceVariant} size={16} />
             </Pressable>
+            {discoveredServiceUrl && <Text style={styles.providerHint}>{t('signIn.providerDetected')}</Text>}
           </View>
           <View>
             <Text style={styles.label}>{t('signIn.account')}</Text>
@@ -232,6 +275,24 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess }) => {
               </>
             )}
           </Pressable>
+          {isOAuthSupported() && (
+            <>
+              <View style={styles.dividerRow}>
+                <View style={styles.dividerLine} />
+                <Text style={styles.dividerText}>{t('signIn.or')}</Text>
+                <View style={styles.dividerLine} />
+              </View>
+              <Pressable
+                onPress={handleOAuthLogin}
+                disabled={isLoading}
+                style={({ pressed }) => [styles.button, styles.secondaryButton, (isLoading || pressed) && styles.buttonDisabled]}
+              >
+                <ExternalLink color={theme.colors.onSurface} size={20} />
+                <Text style={[styles.buttonText, styles.secondaryButtonText]}>{t('signIn.oauthButton')}</Text>
+              </Pressable>
+              <Text style={styles.noticeText}>{t('signIn.oauthNotice')}</Text>
+            </>
+          )}
         </View>
       </View>
       <Modal visible={isProviderModalVisible} transparent animationType="fade" onRequestClose={() => setProviderModalVisible(false)}>
@@ -361,6 +422,12 @@ const createStyles = (theme: any) => StyleSheet.create({
     paddingHorizontal: 8,
     lineHeight: 16
   },
+  providerHint: {
+    fontSize: 12,
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 6,
+    paddingLeft: 4,
+  },
   link: {
     color: theme.colors.primary,
     textDecorationLine: 'underline',
@@ -389,6 +456,26 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 16
   },
+  secondaryButton: {
+    backgroundColor: theme.colors.surfaceContainerHigh,
+  },
+  secondaryButtonText: {
+    color: theme.colors.onSurface,
+  },
+  dividerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: theme.colors.outline,
+  },
+  dividerText: {
+    fontSize: 12,
+    color: theme.colors.onSurfaceVariant,
+  },
   // Modal Styles
   modalBackdrop: {
     ...StyleSheet.absoluteFillObject,
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, ScrollView } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, Check, FolderOpen, Plus } from 'lucide-react';
+import { useTheme } from '@/components/shared/Theme';
+import { useBookmarks } from '../../context/BookmarksContext';
+import { MAX_COLLECTION_NAME_LENGTH } from '@/lib/bookmarks';
+
+interface BookmarkCollectionPickerProps {
+  title: string;
+  // The collection the post is currently in; undefined for unsorted or not yet bookmarked posts
+  selectedId?: string;
+  onSelect: (collectionId: string | null) => void;
+  onBack: () => void;
+}
+
+/** Lists the user's bookmark collections, with an inline field to create a new one. */
+const BookmarkCollectionPicker: React.FC<BookmarkCollectionPickerProps> = ({ title, selectedId, onSelect, onBack }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { collections, createCollection } = useBookmarks();
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      const collection = await createCollection(newName);
+      setNewName('');
+      onSelect(collection.id);
+    } catch (error) {
+      console.error("Failed to create bookmark collection", error);
+    }
+  };
+
+  const renderOption = (id: string | null, label: string) => {
+    const isSelected = (selectedId ?? null) === id;
+    return (
+      <Pressable
+        key={id ?? 'none'}
+        onPress={() => onSelect(id)}
+        style={({ pressed }) => [styles.option, pressed && styles.optionPressed]}
+      >
+        <FolderOpen color={theme.colors.onSurfaceVariant} size={22} />
+        <Text style={styles.optionLabel} numberOfLines={1}>{label}</Text>
+        {isSelected && <Check color={theme.colors.primary} size={20} />}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Pressable onPress={onBack} style={styles.backButton} accessibilityLabel={t('common.back')}>
+          <ArrowLeft color={theme.colors.onSurface} size={22} />
+        </Pressable>
+        <Text style={styles.headerTitle}>{title}</Text>
+      </View>
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {renderOption(null, t('bookmarks.noCollection'))}
+        {collections.map(collection => renderOption(collection.id, collection.name))}
+      </ScrollView>
+      <View style={styles.createRow}>
+        <TextInput
+          value={newName}
+          onChangeText={setNewName}
+          placeholder={t('bookmarks.newCollection')}
+          placeholderTextColor={theme.colors.onSurfaceVariant}
+          style={styles.input}
+          maxLength={MAX_COLLECTION_NAME_LENGTH}
+          onSubmitEditing={handleCreate}
+        />
+        <Pressable
+          onPress={handleCreate}
+          disabled={!newName.trim()}
+          style={[styles.createButton, !newName.trim() && styles.disabledButton]}
+          accessibilityLabel={t('bookmarks.newCollection')}
+        >
+          <Plus color={theme.colors.onPrimary} size={20} />
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  header: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, padding: theme.spacing.l },
+  headerTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  backButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+  list: { maxHeight: 320 },
+  listContent: { padding: theme.spacing.s, gap: theme.spacing.xs },
+  option: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.l, padding: theme.spacing.m, borderRadius: theme.radius.md },
+  optionPressed: { backgroundColor: theme.colors.surfaceContainerHigh },
+  optionLabel: { ...theme.typography.bodyLarge, fontWeight: '600', color: theme.colors.onSurface, flex: 1 },
+  createRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.s, padding: theme.spacing.l, paddingTop: theme.spacing.s },
+  input: {
+    flex: 1,
+    paddingHorizontal: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  createButton: { padding: theme.spacing.m, borderRadius: theme.radius.md, backgroundColor: theme.colors.primary },
+  disabledButton: { opacity: 0.5 },
+});
+
+export default BookmarkCollectionPicker;
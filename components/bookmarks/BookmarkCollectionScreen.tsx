@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Head from 'expo-router/head';
+import { useRouter } from 'expo-router';
+import { Pencil, Search, Trash2 } from 'lucide-react';
+import ScreenHeader from '@/components/layout/ScreenHeader';
+import Feed from '@/components/shared/Feed';
+import { useTheme } from '@/components/shared';
+import { useAtp } from '@/context/AtpContext';
+import { useBookmarks } from '@/context/BookmarksContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import CollectionNameModal from './CollectionNameModal';
+import { ALL_BOOKMARKS_ID } from './BookmarksScreen';
+
+interface BookmarkCollectionScreenProps {
+  collectionId: string;
+}
+
+const BookmarkCollectionScreen: React.FC<BookmarkCollectionScreenProps> = ({ collectionId }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { session } = useAtp();
+  const { isReady, collections, renameCollection, deleteCollection } = useBookmarks();
+  const [searchQuery, setSearchQuery] = useState('');
+  const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  const isAll = collectionId === ALL_BOOKMARKS_ID;
+  const collection = collections.find(c => c.id === collectionId);
+  const title = isAll ? t('bookmarks.allBookmarks') : collection?.name || t('nav.bookmarks');
+
+  const handleDelete = () => {
+    if (!collection) return;
+    const onConfirm = async () => {
+      try {
+        await deleteCollection(collection.id);
+        router.replace('/bookmarks' as any);
+      } catch (error) {
+        console.error("Failed to delete bookmark collection", error);
+      }
+    };
+    const message = t('bookmarks.confirmDelete', { name: collection.name });
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) onConfirm();
+    } else {
+      Alert.alert(t('bookmarks.deleteCollection'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('bookmarks.deleteCollection'), style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const headerActions = collection && (
+    <View style={styles.headerActions}>
+      <Pressable onPress={() => setIsRenaming(true)} style={styles.headerButton} accessibilityLabel={t('bookmarks.renameCollection')}>
+        <Pencil size={22} color={theme.colors.onSurface} />
+      </Pressable>
+      <Pressable onPress={handleDelete} style={styles.headerButton} accessibilityLabel={t('bookmarks.deleteCollection')}>
+        <Trash2 size={22} color={theme.colors.error} />
+      </Pressable>
+    </View>
+  );
+
+  // Collections live on the device, so an unknown id is most likely a deleted collection or one from another device
+  const isMissing = isReady && !isAll && !collection;
+
+  return (
+    <>
+      <Head><title>{title}</title></Head>
+      <View style={{ flex: 1 }}>
+        <ScreenHeader title={title}>{headerActions}</ScreenHeader>
+        {isMissing ? (
+          <View style={styles.centered}>
+            <Text style={styles.infoText}>{t('bookmarks.collectionNotFound')}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.searchContainer}>
+              <View style={styles.inputContainer}>
+                <Search style={styles.searchIcon} color={theme.colors.onSurfaceVariant} size={20} />
+                <TextInput
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder={t('search.placeholderSaved')}
+                  placeholderTextColor={theme.colors.onSurfaceVariant}
+                  style={styles.input}
+                />
+              </View>
+            </View>
+
+            {session && (
+              <Feed
+                key={`bookmarks-${collectionId}`}
+                feedUri={session.did} // Pass DID for context
+                postFilter="bookmarks_only"
+                bookmarkCollectionId={isAll ? undefined : collectionId}
+                layout="grid"
+                searchQuery={debouncedSearchQuery}
+              />
+            )}
+          </>
+        )}
+      </View>
+
+      {collection && (
+        <CollectionNameModal
+          visible={isRenaming}
+          title={t('bookmarks.renameCollection')}
+          initialName={collection.name}
+          onSubmit={(name) => renameCollection(collection.id, name)}
+          onClose={() => setIsRenaming(false)}
+        />
+      )}
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  headerActions: { flexDirection: 'row', alignItems: 'center' },
+  headerButton: { padding: theme.spacing.sm },
+  searchContainer: {
+    paddingHorizontal: theme.spacing.l,
+    paddingBottom: theme.spacing.l,
+    backgroundColor: theme.colors.background,
+  },
+  inputContainer: {
+    position: 'relative',
+    justifyContent: 'center',
+  },
+  searchIcon: {
+    position: 'absolute',
+    left: theme.spacing.l,
+    zIndex: 1,
+  },
+  input: {
+    width: '100%',
+    paddingLeft: 48,
+    paddingRight: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainer,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: theme.spacing.xl },
+  infoText: { ...theme.typography.bodyLarge, color: theme.colors.onSurfaceVariant, textAlign: 'center' },
+});
+
+export default BookmarkCollectionScreen;
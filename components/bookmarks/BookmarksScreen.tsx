@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Head from 'expo-router/head';
+import { Link } from 'expo-router';
+import { AppBskyEmbedImages, AppBskyEmbedVideo, AppBskyFeedDefs } from '@atproto/api';
+import { Bookmark as BookmarkIcon, FolderPlus, Search } from 'lucide-react';
+import ScreenHeader from '@/components/layout/ScreenHeader';
+import Feed from '@/components/shared/Feed';
+import { useTheme } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import { useAtp } from '@/context/AtpContext';
+import { useBookmarks } from '@/context/BookmarksContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { Bookmark } from '@/lib/bookmarks';
+import CollectionNameModal from './CollectionNameModal';
+
+// Route segment for the collection holding every bookmark
+export const ALL_BOOKMARKS_ID = 'all';
+
+interface CollectionCover {
+  id: string;
+  name: string;
+  count: number;
+  coverUri?: string;
+}
+
+interface CoverImage {
+  uri: string;
+  aspectRatio: number;
+}
+
+const getCoverImage = (post?: AppBskyFeedDefs.PostView): CoverImage | undefined => {
+  const embed = post?.embed;
+  if (AppBskyEmbedImages.isView(embed) && embed.images.length > 0) {
+    const image = embed.images[0];
+    return { uri: image.thumb, aspectRatio: image.aspectRatio ? image.aspectRatio.width / image.aspectRatio.height : 1 };
+  }
+  if (AppBskyEmbedVideo.isView(embed) && embed.thumbnail) {
+    return { uri: embed.thumbnail, aspectRatio: embed.aspectRatio ? embed.aspectRatio.width / embed.aspectRatio.height : 16 / 9 };
+  }
+  return undefined;
+};
+
+const newestFirst = (a: Bookmark, b: Bookmark) => b.createdAt.localeCompare(a.createdAt);
+
+const BookmarksScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent, session } = useAtp();
+  const { isReady, bookmarks, collections, getCollectionId, createCollection } = useBookmarks();
+  const [searchQuery, setSearchQuery] = useState('');
+  const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const [isCreating, setIsCreating] = useState(false);
+  const [fetchedPosts, setFetchedPosts] = useState<Map<string, AppBskyFeedDefs.PostView>>(new Map());
+
+  const covers = useMemo<CollectionCover[]>(() => {
+    const sorted = Array.from(bookmarks.values()).sort(newestFirst);
+    const all: CollectionCover = { id: ALL_BOOKMARKS_ID, name: t('bookmarks.allBookmarks'), count: sorted.length, coverUri: sorted[0]?.subject.uri };
+    return [all, ...collections.map(collection => {
+      const items = sorted.filter(b => getCollectionId(b.subject.uri) === collection.id);
+      return { id: collection.id, name: collection.name, count: items.length, coverUri: items[0]?.subject.uri };
+    })];
+  }, [bookmarks, collections, getCollectionId, t]);
+
+  // Repo-backed bookmarks carry no post views, so fetch the ones used as covers
+  useEffect(() => {
+    const missing = covers
+      .map(cover => cover.coverUri)
+      .filter((uri): uri is string => !!uri && !bookmarks.get(uri)?.post && !fetchedPosts.has(uri));
+    const uris = Array.from(new Set(missing)).slice(0, 25);
+    if (uris.length === 0) return;
+
+    let isCancelled = false;
+    agent.getPosts({ uris })
+      .then(res => {
+        if (isCancelled) return;
+        setFetchedPosts(prev => {
+          const next = new Map(prev);
+          res.data.posts.forEach(post => next.set(post.uri, post));
+          return next;
+        });
+      })
+      .catch(error => console.error("Failed to load bookmark covers", error));
+    return () => { isCancelled = true; };
+  }, [agent, covers, bookmarks, fetchedPosts]);
+
+  const getCover = (cover: CollectionCover) => {
+    if (!cover.coverUri) return undefined;
+    return getCoverImage(bookmarks.get(cover.coverUri)?.post || fetchedPosts.get(cover.coverUri));
+  };
+
+  const renderCover = (cover: CollectionCover) => {
+    const image = getCover(cover);
+    // Clamp like PostCard so a single panorama or tall screenshot doesn't dominate the grid
+    const aspectRatio = image ? Math.min(Math.max(image.aspectRatio, 0.6), 1.5) : 1;
+    return (
+      <Link key={cover.id} href={`/bookmarks/${cover.id}` as any} asChild>
+        <Pressable style={styles.card}>
+          {image ? (
+            <OptimizedImage source={image.uri} style={[styles.coverImage, { aspectRatio }]} contentFit="cover" accessibilityLabel={cover.name} />
+          ) : (
+            <View style={[styles.coverImage, styles.coverPlaceholder, { aspectRatio }]}>
+              <BookmarkIcon color={theme.colors.onSurfaceVariant} size={32} />
+            </View>
+          )}
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{cover.name}</Text>
+            <Text style={styles.cardCount}>{t('bookmarks.postCount', { count: cover.count })}</Text>
+          </View>
+        </Pressable>
+      </Link>
+    );
+  };
+
+  // Same shortest-column distribution as the feed's masonry grid
+  const columns = useMemo(() => {
+    const result: CollectionCover[][] = [[], []];
+    const heights = [0, 0];
+    covers.forEach(cover => {
+      const image = getCover(cover);
+      const aspectRatio = image ? Math.min(Math.max(image.aspectRatio, 0.6), 1.5) : 1;
+      const target = heights[0] <= heights[1] ? 0 : 1;
+      result[target].push(cover);
+      heights[target] += 1 / aspectRatio + 0.3;
+    });
+    return result;
+  }, [covers, fetchedPosts]);
+
+  const headerActions = (
+    <Pressable onPress={() => setIsCreating(true)} style={styles.headerButton} accessibilityLabel={t('bookmarks.newCollection')}>
+      <FolderPlus size={24} color={theme.colors.onSurface} />
+    </Pressable>
+  );
+
+  return (
+    <>
+      <Head><title>{t('nav.bookmarks')}</title></Head>
+      <View style={{ flex: 1 }}>
+        <ScreenHeader title={t('nav.bookmarks')}>{headerActions}</ScreenHeader>
+        <View style={styles.searchContainer}>
+          <View style={styles.inputContainer}>
+            <Search style={styles.searchIcon} color={theme.colors.onSurfaceVariant} size={20} />
+            <TextInput
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder={t('search.placeholderSaved')}
+              placeholderTextColor={theme.colors.onSurfaceVariant}
+              style={styles.input}
+            />
+          </View>
+        </View>
+
+        {debouncedSearchQuery && session ? (
+          <Feed
+            key="bookmarks-search"
+            feedUri={session.did} // Pass DID for context
+            postFilter="bookmarks_only"
+            layout="grid"
+            searchQuery={debouncedSearchQuery}
+          />
+        ) : !isReady ? (
+          <View style={styles.centered}><ActivityIndicator size="large" color={theme.colors.primary} /></View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.grid}>
+            {columns.map((column, index) => (
+              <View key={index} style={styles.column}>
+                {column.map(renderCover)}
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
+      <CollectionNameModal
+        visible={isCreating}
+        title={t('bookmarks.newCollection')}
+        onSubmit={async (name) => { await createCollection(name); }}
+        onClose={() => setIsCreating(false)}
+      />
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  headerButton: { padding: theme.spacing.sm },
+  searchContainer: {
+    paddingHorizontal: theme.spacing.l,
+    paddingBottom: theme.spacing.l,
+    backgroundColor: theme.colors.background,
+  },
+  inputContainer: {
+    position: 'relative',
+    justifyContent: 'center',
+  },
+  searchIcon: {
+    position: 'absolute',
+    left: theme.spacing.l,
+    zIndex: 1,
+  },
+  input: {
+    width: '100%',
+    paddingLeft: 48,
+    paddingRight: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainer,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  grid: { flexDirection: 'row', paddingHorizontal: theme.spacing.sm, paddingBottom: 60 },
+  column: { flex: 1, marginHorizontal: theme.spacing.xs },
+  card: { marginBottom: theme.spacing.sm, borderRadius: theme.radius.lg, overflow: 'hidden', backgroundColor: theme.colors.surfaceContainer },
+  coverImage: { width: '100%' },
+  coverPlaceholder: { justifyContent: 'center', alignItems: 'center', backgroundColor: theme.colors.surfaceContainerHigh },
+  cardInfo: { padding: theme.spacing.m, gap: 2 },
+  cardTitle: { ...theme.typography.titleSmall, color: theme.colors.onSurface },
+  cardCount: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+});
+
+export default BookmarksScreen;
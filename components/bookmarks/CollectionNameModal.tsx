@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '@/components/shared/Theme';
+import { MAX_COLLECTION_NAME_LENGTH } from '@/lib/bookmarks';
+
+interface CollectionNameModalProps {
+  visible: boolean;
+  title: string;
+  initialName?: string;
+  onSubmit: (name: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Dialog used to name a new bookmark collection or rename an existing one. */
+const CollectionNameModal: React.FC<CollectionNameModalProps> = ({ visible, title, initialName = '', onSubmit, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialName);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) setName(initialName);
+  }, [visible, initialName]);
+
+  const canSubmit = !!name.trim() && !isSaving;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSaving(true);
+    try {
+      await onSubmit(name.trim());
+      onClose();
+    } catch (error) {
+      console.error("Failed to save bookmark collection", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{title}</Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder={t('bookmarks.namePlaceholder')}
+            placeholderTextColor={theme.colors.onSurfaceVariant}
+            style={styles.input}
+            maxLength={MAX_COLLECTION_NAME_LENGTH}
+            autoFocus
+            onSubmitEditing={handleSubmit}
+          />
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </Pressable>
+            <Pressable onPress={handleSubmit} disabled={!canSubmit} style={[styles.primaryButton, !canSubmit && styles.disabledButton]}>
+              {isSaving
+                ? <ActivityIndicator color={theme.colors.onPrimary} />
+                : <Text style={styles.primaryButtonText}>{t('common.save')}</Text>}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 400, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.l },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  input: {
+    paddingHorizontal: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  disabledButton: { opacity: 0.5 },
+});
+
+export default CollectionNameModal;
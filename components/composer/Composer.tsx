@@ -2,15 +2,29 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
-import { RichText, AppBskyActorDefs } from '@atproto/api';
+import { AppBskyActorDefs, AppBskyGraphDefs } from '@atproto/api';
 import { Ionicons } from '@expo/vector-icons';
-import { useToast, useTheme } from '@/components/shared';
+import { useToast, useTheme, Switch } from '@/components/shared';
 import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator, ScrollView, Modal, Platform } from 'react-native';
 import { OptimizedImage } from '../ui';
 import * as ImagePicker from 'expo-image-picker';
-import { FEATURES, MEDIA_CONFIG, isFeatureEnabled } from '@/lib/config';
+import { FEATURES, MEDIA_CONFIG, VIDEO_SERVICE_CONFIG, LINK_CARD_CONFIG, isFeatureEnabled } from '@/lib/config';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
 import { useDebounce, useDebouncedAction } from '@/hooks/useDebounce';
+import { useComposerDrafts, ComposerDraft, DraftSegment, DRAFTS_LIMIT } from '@/hooks/useComposerDrafts';
+import { formatCompactDate, formatDateTime } from '@/lib/formatters';
+import { useAccessibility } from '../../context/AccessibilityContext';
+import { useScheduledPosts } from '../../context/ScheduledPostsContext';
+import { InteractionSettings, DEFAULT_INTERACTION_SETTINGS, REPLY_RESTRICTIONS } from '@/lib/threadgate';
+import { publishThread, StrongRef } from '@/lib/publish';
+import ScheduleModal from '../scheduled/ScheduleModal';
+import { DEFAULT_IMAGE_EDIT, ImageEdit, processImage } from '@/lib/imageProcessing';
+import ImageEditorModal from './ImageEditorModal';
+import ReorderableMediaGrid from './ReorderableMediaGrid';
+import { VideoCaption, VideoUploadStatus, getVideoUploadLimits, isAbortError } from '@/lib/videoUpload';
+import VideoCaptionsModal from './VideoCaptionsModal';
+import { LinkMetadata, createLinkMetadataFetcher, findFirstLink } from '@/lib/linkCards';
+import LinkCardPreview from './LinkCardPreview';
 
 interface ComposerProps {
   onPostSuccess: () => void;
@@ -20,20 +34,57 @@ interface ComposerProps {
     cid: string;
   };
   initialText?: string;
+  // Opens a queued scheduled post for editing instead of starting a new one
+  scheduledPostId?: string;
 }
 
 interface MediaFile {
+    id: string;
     asset: ImagePicker.ImagePickerAsset;
     preview: string;
     type: 'image' | 'video' | 'gif';
     thumbnail?: string; // For video thumbnails
     uploadProgress?: number; // For upload progress tracking
+    videoStatus?: VideoUploadStatus; // Videos go through the video service instead
+    alt?: string;
+    captions?: VideoCaption[];
+    // Images are uploaded as processed; the picked original is kept so edits start from it
+    original?: ImagePicker.ImagePickerAsset;
+    edit?: ImageEdit;
+    isProcessing?: boolean;
 }
 
+// One post of a thread; the first segment is the thread root (or the reply)
+interface ThreadSegment {
+    id: string;
+    text: string;
+    mediaFiles: MediaFile[];
+    posted?: StrongRef;
+    // Embedded when the segment has no media; `linkCardUrl` is the link it was looked up for
+    linkCard?: LinkMetadata;
+    linkCardUrl?: string;
+    isLinkCardLoading?: boolean;
+    // A removed card stays removed until the link changes
+    dismissedLinkUrl?: string;
+}
+
+const linkMetadataFetcher = createLinkMetadataFetcher();
+
+const createSegment = (text = ''): ThreadSegment => ({ id: crypto.randomUUID(), text, mediaFiles: [] });
+
+const toDraftSegments = (segments: ThreadSegment[]): DraftSegment[] => segments.map(({ text, mediaFiles, posted, linkCard }) => ({
+    text,
+    media: mediaFiles.map(({ asset, type, alt, original, edit, captions }) => ({ asset, type, alt, original, edit, captions })),
+    linkCard: mediaFiles.length === 0 ? linkCard : undefined,
+    posted,
+}));
+
 const MAX_CHARS = 300;
 const MAX_IMAGES = MEDIA_CONFIG.MAX_IMAGES_PER_POST;
 const MAX_VIDEOS = MEDIA_CONFIG.MAX_VIDEOS_PER_POST;
 const MAX_LANGS = 3;
+const DRAFT_AUTOSAVE_DELAY = 1000;
+const MAX_ALT_TEXT_LENGTH = 2000;
 
 const LANGUAGES = [
     { code: 'en', name: 'English' }, { code: 'es', name: 'Español' }, { code: 'pt', name: 'Português' },
@@ -57,22 +108,44 @@ const CharacterCount: React.FC<{ remainingChars: number }> = ({ remainingChars }
     );
 };
 
-const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, initialText }) => {
+const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, initialText, scheduledPostId }) => {
   const { agent, session } = useAtp();
   const { toast } = useToast();
   const { requireAuth } = useAuthGuard();
   const { t } = useTranslation();
   const { theme } = useTheme();
+  const { settings: accessibilitySettings } = useAccessibility();
   
   const styles = createStyles(theme);
-  const [text, setText] = useState(initialText || '');
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const { drafts, saveDraft, deleteDraft } = useComposerDrafts();
+  const { scheduledPosts, isLoaded: isScheduleLoaded, schedulePost, cancelScheduledPost } = useScheduledPosts();
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const scheduledPost = scheduledPostId ? scheduledPosts.find(p => p.id === scheduledPostId) : undefined;
+  const hasLoadedScheduledPostRef = useRef(false);
+  const [replyTarget, setReplyTarget] = useState(replyTo);
+  const [draftId, setDraftId] = useState<string>(() => crypto.randomUUID());
+  const [isDraftsOpen, setIsDraftsOpen] = useState(false);
+  const [isClosePromptOpen, setIsClosePromptOpen] = useState(false);
+  const hasPostedRef = useRef(false);
+  const [segments, setSegments] = useState<ThreadSegment[]>(() => [createSegment(initialText)]);
+  const [activeSegmentId, setActiveSegmentId] = useState(() => segments[0].id);
   const [isPosting, setIsPosting] = useState(false);
   const [profile, setProfile] = useState<AppBskyActorDefs.ProfileViewDetailed | null>(null);
   const [selectedLangs, setSelectedLangs] = useState<string[]>([]);
   const [isLangMenuOpen, setIsLangMenuOpen] = useState(false);
   const [langSearchTerm, setLangSearchTerm] = useState('');
   const debouncedLangSearch = useDebounce(langSearchTerm, 300);
+  const [altEditorTarget, setAltEditorTarget] = useState<{ segmentId: string; index: number } | null>(null);
+  const [altTextInput, setAltTextInput] = useState('');
+  const [imageEditorTarget, setImageEditorTarget] = useState<{ segmentId: string; mediaId: string } | null>(null);
+  const [captionsEditorTarget, setCaptionsEditorTarget] = useState<{ segmentId: string; mediaId: string } | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const [interactionSettings, setInteractionSettings] = useState<InteractionSettings>(DEFAULT_INTERACTION_SETTINGS);
+  const [isInteractionMenuOpen, setIsInteractionMenuOpen] = useState(false);
+  const [curateLists, setCurateLists] = useState<AppBskyGraphDefs.ListView[] | null>(null);
+
+  const activeSegment = segments.find(s => s.id === activeSegmentId) || segments[0];
+  const mediaFiles = activeSegment.mediaFiles;
 
   // Verificar autenticação ao montar o componente
   useEffect(() => {
@@ -91,7 +164,26 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
     }
   }, [agent, session?.did]);
 
+  const updateSegment = (id: string, update: (segment: ThreadSegment) => ThreadSegment) => {
+    setSegments(prev => prev.map(s => s.id === id ? update(s) : s));
+  };
+
+  const setUploadProgress = (segmentId: string, index: number, uploadProgress: number) => {
+    updateSegment(segmentId, s => ({
+        ...s,
+        mediaFiles: s.mediaFiles.map((f, i) => i === index ? { ...f, uploadProgress } : f),
+    }));
+  };
+
+  const setVideoStatus = (segmentId: string, index: number, videoStatus: VideoUploadStatus) => {
+    updateSegment(segmentId, s => ({
+        ...s,
+        mediaFiles: s.mediaFiles.map((f, i) => i === index ? { ...f, videoStatus } : f),
+    }));
+  };
+
   const pickMedia = async (options: ImagePicker.ImagePickerOptions) => {
+    const segmentId = activeSegment.id;
     let result = await ImagePicker.launchImageLibraryAsync(options);
 
     if (result.canceled) return;
@@ -141,6 +233,17 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
                 toast({ title: t('composer.toast.noImagesWithVideo'), variant: 'destructive' });
                 continue;
             }
+
+            // Checked again before uploading; asking now saves writing a post that can't go out
+            try {
+                const limits = await getVideoUploadLimits(agent);
+                if (!limits.canUpload) {
+                    toast({ title: t('composer.toast.videoLimitReached'), description: limits.message, variant: 'destructive' });
+                    continue;
+                }
+            } catch (error) {
+                console.warn('Failed to check video upload limits:', error);
+            }
         } else {
             // Image validation
             const fileSizeMB = (asset.fileSize || 0) / (1024 * 1024);
@@ -165,11 +268,14 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
             }
         }
 
-        // Create media file entry
+        // Create media file entry. Still images are processed before they can be posted;
+        // GIFs are left alone so they keep their animation.
         const mediaFile: MediaFile = {
+            id: crypto.randomUUID(),
             asset,
             preview: asset.uri,
             type,
+            ...(type === 'image' && { original: asset, edit: DEFAULT_IMAGE_EDIT, isProcessing: true }),
         };
 
         // Generate thumbnail for videos
@@ -185,11 +291,255 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
         newMediaFiles.push(mediaFile);
     }
     
-    setMediaFiles(newMediaFiles);
+    updateSegment(segmentId, s => ({ ...s, mediaFiles: newMediaFiles }));
+    newMediaFiles
+        .filter(mf => mf.isProcessing && mf.original)
+        .forEach(mf => applyImageEdit(segmentId, mf.id, mf.original!, DEFAULT_IMAGE_EDIT));
+  };
+
+  const updateMedia = (segmentId: string, mediaId: string, update: (media: MediaFile) => MediaFile) => {
+    updateSegment(segmentId, s => ({ ...s, mediaFiles: s.mediaFiles.map(mf => mf.id === mediaId ? update(mf) : mf) }));
+  };
+
+  const applyImageEdit = async (segmentId: string, mediaId: string, original: ImagePicker.ImagePickerAsset, edit: ImageEdit) => {
+    updateMedia(segmentId, mediaId, mf => ({ ...mf, isProcessing: true }));
+    try {
+        const processed = await processImage(original, edit);
+        updateMedia(segmentId, mediaId, mf => ({
+            ...mf,
+            asset: {
+                ...original,
+                uri: processed.uri,
+                width: processed.width,
+                height: processed.height,
+                mimeType: processed.mimeType,
+                fileSize: processed.fileSize,
+                fileName: original.fileName?.replace(/\.\w+$/, '.jpg'),
+                exif: undefined,
+                base64: undefined,
+            },
+            preview: processed.uri,
+            edit,
+            isProcessing: false,
+        }));
+    } catch (error) {
+        console.error("Failed to process image:", error);
+        toast({ title: t('composer.toast.imageProcessingFailed'), variant: 'destructive' });
+        updateSegment(segmentId, s => ({ ...s, mediaFiles: s.mediaFiles.filter(mf => mf.id !== mediaId) }));
+    }
+  };
+
+  const moveMedia = (segmentId: string, from: number, to: number) => {
+    updateSegment(segmentId, s => {
+        const mediaFiles = [...s.mediaFiles];
+        const [moved] = mediaFiles.splice(from, 1);
+        mediaFiles.splice(to, 0, moved);
+        return { ...s, mediaFiles };
+    });
+  };
+
+  const imageEditorMedia = imageEditorTarget
+    ? segments.find(s => s.id === imageEditorTarget.segmentId)?.mediaFiles.find(mf => mf.id === imageEditorTarget.mediaId)
+    : undefined;
+
+  const saveImageEdit = (edit: ImageEdit) => {
+    if (imageEditorTarget && imageEditorMedia?.original) {
+        applyImageEdit(imageEditorTarget.segmentId, imageEditorTarget.mediaId, imageEditorMedia.original, edit);
+    }
+    setImageEditorTarget(null);
   };
   
-  const removeMedia = (index: number) => {
-    setMediaFiles(prev => prev.filter((_, i) => i !== index));
+  const removeMedia = (segmentId: string, index: number) => {
+    updateSegment(segmentId, s => ({ ...s, mediaFiles: s.mediaFiles.filter((_, i) => i !== index) }));
+  };
+
+  // Looks up a card for the first link of each segment without media, once typing settles
+  const debouncedSegments = useDebounce(segments, LINK_CARD_CONFIG.DETECT_DELAY_MS);
+  useEffect(() => {
+    if (!isFeatureEnabled('LINK_CARDS')) return;
+    debouncedSegments.forEach(segment => {
+        if (segment.posted || segment.mediaFiles.length > 0) return;
+        const url = findFirstLink(segment.text);
+        if (url === segment.linkCardUrl) return;
+        const shouldFetch = !!url && url !== segment.dismissedLinkUrl;
+        updateSegment(segment.id, s => ({ ...s, linkCardUrl: url, linkCard: undefined, isLinkCardLoading: shouldFetch }));
+        if (!url || !shouldFetch) return;
+        linkMetadataFetcher.fetchMetadata(url)
+            .then(linkCard => updateSegment(segment.id, s => s.linkCardUrl === url ? { ...s, linkCard, isLinkCardLoading: false } : s))
+            .catch(error => {
+                console.warn('Failed to fetch link card:', error);
+                updateSegment(segment.id, s => s.linkCardUrl === url ? { ...s, isLinkCardLoading: false } : s);
+            });
+    });
+  }, [debouncedSegments]);
+
+  const removeLinkCard = (segmentId: string) => {
+    updateSegment(segmentId, s => ({ ...s, linkCard: undefined, isLinkCardLoading: false, dismissedLinkUrl: s.linkCardUrl }));
+  };
+
+  const openAltEditor = (segmentId: string, index: number) => {
+    const segment = segments.find(s => s.id === segmentId);
+    setAltTextInput(segment?.mediaFiles[index]?.alt || '');
+    setAltEditorTarget({ segmentId, index });
+  };
+
+  const saveAltText = () => {
+    if (!altEditorTarget) return;
+    const { segmentId, index } = altEditorTarget;
+    const alt = altTextInput.trim();
+    updateSegment(segmentId, s => ({
+        ...s,
+        mediaFiles: s.mediaFiles.map((f, i) => i === index ? { ...f, alt: alt || undefined } : f),
+    }));
+    setAltEditorTarget(null);
+  };
+
+  const altEditorMedia = altEditorTarget
+    ? segments.find(s => s.id === altEditorTarget.segmentId)?.mediaFiles[altEditorTarget.index]
+    : undefined;
+  const altTextLimit = altEditorMedia?.type === 'video' ? VIDEO_SERVICE_CONFIG.MAX_ALT_TEXT_LENGTH : MAX_ALT_TEXT_LENGTH;
+
+  const captionsEditorMedia = captionsEditorTarget
+    ? segments.find(s => s.id === captionsEditorTarget.segmentId)?.mediaFiles.find(mf => mf.id === captionsEditorTarget.mediaId)
+    : undefined;
+
+  const saveCaptions = (captions: VideoCaption[]) => {
+    if (!captionsEditorTarget) return;
+    updateMedia(captionsEditorTarget.segmentId, captionsEditorTarget.mediaId, mf => ({ ...mf, captions: captions.length > 0 ? captions : undefined }));
+  };
+
+  const addSegment = () => {
+    const segment = createSegment();
+    setSegments(prev => {
+        const index = prev.findIndex(s => s.id === activeSegment.id);
+        return [...prev.slice(0, index + 1), segment, ...prev.slice(index + 1)];
+    });
+    setActiveSegmentId(segment.id);
+  };
+
+  const removeSegment = (id: string) => {
+    const index = segments.findIndex(s => s.id === id);
+    const remaining = segments.filter(s => s.id !== id);
+    setSegments(remaining);
+    if (id === activeSegment.id) {
+        setActiveSegmentId(remaining[Math.max(0, index - 1)].id);
+    }
+  };
+
+  const isEmpty = segments.every(s => !s.posted && !s.text.trim() && s.mediaFiles.length === 0);
+
+  const persistDraft = useCallback(() => saveDraft({
+    id: draftId,
+    segments: toDraftSegments(segments),
+    langs: selectedLangs,
+    replyTo: replyTarget,
+    interaction: interactionSettings,
+  }), [saveDraft, draftId, segments, selectedLangs, replyTarget, interactionSettings]);
+
+  // Drafts are full; nothing is evicted, so the user has to delete one for this post to be kept
+  const warnDraftsFull = useCallback(() => {
+    toast({ title: t('composer.drafts.limitReached', { max: DRAFTS_LIMIT }), description: t('composer.drafts.limitReachedDescription'), variant: 'destructive' });
+  }, [toast, t]);
+  // Autosave only warns once, not on every keystroke
+  const hasWarnedDraftsFullRef = useRef(false);
+
+  // Autosave while typing; an emptied composer drops its draft. Edits to a
+  // scheduled post are only kept when it is rescheduled.
+  useEffect(() => {
+    if (isPosting || hasPostedRef.current || scheduledPostId) return;
+    const timer = setTimeout(() => {
+      if (isEmpty) {
+        deleteDraft(draftId);
+      } else {
+        persistDraft().then(savedId => {
+          if (savedId) {
+            hasWarnedDraftsFullRef.current = false;
+          } else if (!hasWarnedDraftsFullRef.current) {
+            hasWarnedDraftsFullRef.current = true;
+            warnDraftsFull();
+          }
+        });
+      }
+    }, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isPosting, isEmpty, draftId, persistDraft, deleteDraft, scheduledPostId, warnDraftsFull]);
+
+  // A reply composer only offers drafts for the same post; a new post can resume any draft
+  const availableDrafts = drafts.filter(d =>
+    d.id !== draftId && (!replyTo || d.replyTo?.uri === replyTo.uri)
+  );
+
+  const loadDraft = (draft: Omit<ComposerDraft, 'updatedAt'>) => {
+    const resumed = draft.segments.map(({ text, media, posted, linkCard }) => ({
+        ...createSegment(text),
+        posted,
+        linkCard,
+        linkCardUrl: linkCard?.url,
+        mediaFiles: media.map(({ asset, type, alt, original, edit, captions }) => ({
+            id: crypto.randomUUID(),
+            asset,
+            original,
+            edit,
+            captions,
+            preview: asset.uri,
+            type,
+            alt,
+            thumbnail: type === 'video' && isFeatureEnabled('VIDEO_THUMBNAILS') ? asset.uri : undefined,
+        })),
+    }));
+    setDraftId(draft.id);
+    setSegments(resumed);
+    setActiveSegmentId((resumed.find(s => !s.posted) || resumed[0]).id);
+    setSelectedLangs(draft.langs);
+    setReplyTarget(draft.replyTo);
+    setInteractionSettings(draft.interaction || DEFAULT_INTERACTION_SETTINGS);
+  };
+
+  const resumeDraft = async (draft: ComposerDraft) => {
+    // Switching away from a post that can't be saved would lose it
+    if (!isEmpty && !(await persistDraft())) {
+      warnDraftsFull();
+      return;
+    }
+    loadDraft(draft);
+    setIsDraftsOpen(false);
+  };
+
+  useEffect(() => {
+    if (!scheduledPostId || !isScheduleLoaded || hasLoadedScheduledPostRef.current) return;
+    hasLoadedScheduledPostRef.current = true;
+    if (scheduledPost) {
+        loadDraft(scheduledPost);
+    } else {
+        // Published or cancelled in the meantime
+        onClose?.();
+    }
+  }, [scheduledPostId, isScheduleLoaded, scheduledPost, onClose]);
+
+  const handleClose = () => {
+    if (isEmpty || scheduledPostId) {
+        if (!scheduledPostId) deleteDraft(draftId);
+        onClose?.();
+        return;
+    }
+    setIsClosePromptOpen(true);
+  };
+
+  const handleSaveAndClose = async () => {
+    const savedId = await persistDraft();
+    setIsClosePromptOpen(false);
+    if (!savedId) {
+      warnDraftsFull();
+      return;
+    }
+    toast({ title: t('composer.drafts.saved') });
+    onClose?.();
+  };
+
+  const handleDiscardAndClose = () => {
+    deleteDraft(draftId);
+    setIsClosePromptOpen(false);
+    onClose?.();
   };
 
   // Debounced post action to prevent double posting
@@ -200,108 +550,115 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
     1000
   );
 
-  const performPost = async () => {
-    if (mediaFiles.length === 0 && !replyTo) {
-        toast({ title: t('composer.toast.mediaRequired'), variant: "destructive" });
-        return;
+  const getValidationError = (): string | null => {
+    const [first] = segments;
+    // A link card with an image is enough for the visual feeds
+    if (!replyTarget && first.mediaFiles.length === 0 && !first.linkCard?.image) return 'composer.toast.mediaRequired';
+    if (segments.some(s => s.text.length > MAX_CHARS)) return 'composer.toast.postTooLong';
+    if (segments.some(s => !s.text.trim() && s.mediaFiles.length === 0)) return 'composer.toast.emptyPost';
+    if (segments.some(s => s.mediaFiles.some(mf => mf.isProcessing))) return 'composer.toast.mediaProcessing';
+    if (!replyTarget && interactionSettings.reply === 'list' && !interactionSettings.listUri) return 'composer.interaction.listRequired';
+    return null;
+  };
+
+  const openInteractionMenu = () => {
+    setIsInteractionMenuOpen(true);
+    if (curateLists || !session) return;
+    agent.app.bsky.graph.getLists({ actor: session.did, limit: 100 })
+        .then(({ data }) => setCurateLists(data.lists.filter(list => list.purpose === 'app.bsky.graph.defs#curatelist')))
+        .catch(err => {
+            console.error("Failed to fetch lists:", err);
+            setCurateLists([]);
+        });
+  };
+
+  const checkReadyToPublish = (): boolean => {
+    const validationError = getValidationError();
+    if (validationError) {
+        toast({ title: t(validationError), variant: "destructive" });
+        return false;
     }
-    if (text.length > MAX_CHARS) {
-        toast({ title: t('composer.toast.postTooLong'), variant: "destructive" });
-        return;
+    // Opt-in accessibility setting; checked here rather than disabling the button so the reason is shown
+    const isMissingAltText = segments.some(s => !s.posted && s.mediaFiles.some(mf => !mf.alt));
+    if (accessibilitySettings.requireAltText && isMissingAltText) {
+        toast({ title: t('composer.toast.altTextRequired'), variant: "destructive" });
+        return false;
     }
-    if (!text.trim() && mediaFiles.length === 0 && replyTo) {
-        toast({ title: t('composer.toast.emptyPost'), variant: "destructive" });
-        return;
+    return true;
+  };
+
+  const openSchedule = () => {
+    if (checkReadyToPublish()) setIsScheduleOpen(true);
+  };
+
+  const handleSchedule = async (date: Date) => {
+    try {
+        await schedulePost({
+            id: scheduledPostId,
+            segments: toDraftSegments(segments),
+            langs: selectedLangs,
+            replyTo: replyTarget,
+            interaction: interactionSettings,
+            scheduledAt: date.toISOString(),
+        });
+    } catch (error) {
+        toast({ title: t('scheduled.toast.scheduleFailed'), variant: "destructive" });
+        throw error;
     }
+    hasPostedRef.current = true;
+    if (!scheduledPostId) deleteDraft(draftId);
+    toast({ title: t('scheduled.toast.scheduled', { date: formatDateTime(date) }) });
+    onPostSuccess();
+  };
+
+  const performPost = async () => {
+    if (!checkReadyToPublish()) return;
     setIsPosting(true);
+    let postedCount = segments.filter(s => s.posted).length;
+    const uploadAbort = new AbortController();
+    uploadAbortRef.current = uploadAbort;
     try {
-        const rt = new RichText({ text });
-        await rt.detectFacets(agent);
-
-        let postRecord: any = {
-            $type: 'app.bsky.feed.post',
-            text: rt.text,
-            facets: rt.facets,
-            createdAt: new Date().toISOString(),
-        };
-        
-        if (mediaFiles.length > 0) {
-            const hasVideo = mediaFiles.some(mf => mf.type === 'video');
-            
-            if (hasVideo) {
-                // Handle video embed
-                const videoFile = mediaFiles.find(mf => mf.type === 'video');
-                if (videoFile) {
-                    // Update progress for video upload
-                    setMediaFiles(prev => prev.map(mf => 
-                        mf === videoFile ? { ...mf, uploadProgress: 0 } : mf
-                    ));
-                    
-                    const response = await fetch(videoFile.asset.uri);
-                    const blob = await response.blob();
-                    const fileBytes = new Uint8Array(await blob.arrayBuffer());
-                    
-                    // Upload video blob
-                    setMediaFiles(prev => prev.map(mf => 
-                        mf === videoFile ? { ...mf, uploadProgress: 50 } : mf
-                    ));
-                    
-                    const blobRes = await agent.uploadBlob(fileBytes, { 
-                        encoding: videoFile.asset.mimeType || 'video/mp4' 
-                    });
-                    
-                    setMediaFiles(prev => prev.map(mf => 
-                        mf === videoFile ? { ...mf, uploadProgress: 100 } : mf
-                    ));
-                    
-                    postRecord.embed = {
-                        $type: 'app.bsky.embed.video',
-                        video: blobRes.data.blob,
-                        alt: '', // Video alt text
-                    };
-                }
-            } else {
-                // Handle image embeds
-                const imageEmbeds = await Promise.all(mediaFiles.map(async (mf, index) => {
-                    setMediaFiles(prev => prev.map((f, i) => 
-                        i === index ? { ...f, uploadProgress: 0 } : f
-                    ));
-                    
-                    const response = await fetch(mf.asset.uri);
-                    const blob = await response.blob();
-                    const fileBytes = new Uint8Array(await blob.arrayBuffer());
-                    
-                    setMediaFiles(prev => prev.map((f, i) => 
-                        i === index ? { ...f, uploadProgress: 50 } : f
-                    ));
-                    
-                    const blobRes = await agent.uploadBlob(fileBytes, { encoding: blob.type });
-                    
-                    setMediaFiles(prev => prev.map((f, i) => 
-                        i === index ? { ...f, uploadProgress: 100 } : f
-                    ));
-                    
-                    return { image: blobRes.data.blob, alt: '' };
-                }));
-                
-                postRecord.embed = {
-                    $type: 'app.bsky.embed.images',
-                    images: imageEmbeds,
-                };
-            }
-        }
-        
-        await agent.post(postRecord);
+        await publishThread(agent, session!.did, {
+            segments: toDraftSegments(segments),
+            langs: selectedLangs,
+            replyTo: replyTarget,
+            interaction: interactionSettings,
+        }, {
+            onUploadProgress: (segmentIndex, mediaIndex, progress) => setUploadProgress(segments[segmentIndex].id, mediaIndex, progress),
+            onVideoStatus: (segmentIndex, mediaIndex, status) => setVideoStatus(segments[segmentIndex].id, mediaIndex, status),
+            signal: uploadAbort.signal,
+            onSegmentPosted: (segmentIndex, posted) => {
+                updateSegment(segments[segmentIndex].id, s => ({ ...s, posted }));
+                postedCount++;
+            },
+        });
 
-        toast({ title: replyTo ? t('composer.toast.replySuccess') : t('composer.toast.postSuccess') });
+        hasPostedRef.current = true;
+        if (scheduledPostId) {
+            cancelScheduledPost(scheduledPostId);
+        } else {
+            deleteDraft(draftId);
+        }
+        toast({ title: replyTarget ? t('composer.toast.replySuccess') : t('composer.toast.postSuccess') });
         onPostSuccess();
     } catch (error) {
         console.error('Failed to post:', error);
-        toast({ title: t('composer.toast.postFailed'), description: t('common.tryAgain'), variant: "destructive" });
+        if (isAbortError(error)) {
+            toast({ title: t('composer.video.cancelled') });
+        } else if (postedCount > 0) {
+            toast({
+                title: t('composer.thread.partialFailure', { posted: postedCount, total: segments.length }),
+                description: t('composer.thread.retryRemaining'),
+                variant: "destructive"
+            });
+        } else {
+            toast({ title: t('composer.toast.postFailed'), description: t('common.tryAgain'), variant: "destructive" });
+        }
     } finally {
         setIsPosting(false);
+        uploadAbortRef.current = null;
         // Reset upload progress
-        setMediaFiles(prev => prev.map(mf => ({ ...mf, uploadProgress: undefined })));
+        setSegments(prev => prev.map(s => ({ ...s, mediaFiles: s.mediaFiles.map(mf => ({ ...mf, uploadProgress: undefined, videoStatus: undefined })) })));
     }
   };
 
@@ -314,117 +671,256 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
   }
 
   const filteredLangs = LANGUAGES.filter(lang => lang.name.toLowerCase().includes(debouncedLangSearch.toLowerCase()));
-  const remainingChars = MAX_CHARS - text.length;
   const hasVideoOrGif = mediaFiles.some(mf => mf.type === 'video' || mf.type === 'gif');
-  const isPostButtonDisabled = isPosting || isPostingDebounced ||
-    (replyTo ? (!text.trim() && mediaFiles.length === 0) : mediaFiles.length === 0) ||
-    text.length > MAX_CHARS;
+  const isActiveSegmentLocked = !!activeSegment.posted;
+  const hasPartiallyPosted = segments.some(s => s.posted);
+  const isPostButtonDisabled = isPosting || isPostingDebounced || getValidationError() !== null;
 
   return (
     <View style={styles.container}>
         <View style={styles.header}>
-            <Pressable onPress={onClose} style={styles.cancelButton}>
+            <Pressable onPress={handleClose} style={styles.cancelButton}>
                 <Text style={styles.cancelButtonText}>Cancel</Text>
             </Pressable>
-            <Pressable
-                onPress={executePost}
-                disabled={isPostButtonDisabled}
-                style={[styles.postButton, isPostButtonDisabled && styles.postButtonDisabled]}
-            >
-                {(isPosting || isPostingDebounced) ? <ActivityIndicator color={theme.colors.onPrimary} /> : <Ionicons name="send" color={theme.colors.onPrimary} size={16} />}
-                <Text style={styles.postButtonText}>
-                    {(isPosting || isPostingDebounced) ? t('composer.posting') : (replyTo ? t('common.reply') : t('common.post'))}
-                </Text>
-            </Pressable>
+            <View style={styles.headerActions}>
+                {!scheduledPostId && availableDrafts.length > 0 && (
+                    <Pressable onPress={() => setIsDraftsOpen(true)} style={styles.draftsButton}>
+                        <Text style={styles.cancelButtonText}>{t('composer.drafts.title')} ({availableDrafts.length})</Text>
+                    </Pressable>
+                )}
+                <Pressable
+                    onPress={openSchedule}
+                    disabled={isPostButtonDisabled}
+                    style={[styles.iconButton, isPostButtonDisabled && styles.iconButtonDisabled]}
+                    accessibilityLabel={t(scheduledPostId ? 'scheduled.reschedule' : 'scheduled.schedule')}
+                >
+                    <Ionicons name="time-outline" color={theme.colors.primary} size={22} />
+                </Pressable>
+                <Pressable
+                    onPress={executePost}
+                    disabled={isPostButtonDisabled}
+                    style={[styles.postButton, isPostButtonDisabled && styles.postButtonDisabled]}
+                >
+                    {(isPosting || isPostingDebounced) ? <ActivityIndicator color={theme.colors.onPrimary} /> : <Ionicons name="send" color={theme.colors.onPrimary} size={16} />}
+                    <Text style={styles.postButtonText}>
+                        {(isPosting || isPostingDebounced) ? t('composer.posting') : hasPartiallyPosted ? t('composer.thread.retry') : (replyTarget ? t('common.reply') : t('common.post'))}
+                    </Text>
+                </Pressable>
+            </View>
         </View>
 
+        {scheduledPost && (
+            <View style={styles.scheduledBanner}>
+                <Ionicons name="time-outline" color={theme.colors.onSurfaceVariant} size={16} />
+                <Text style={styles.scheduledBannerText}>{t('scheduled.editing', { date: formatDateTime(scheduledPost.scheduledAt) })}</Text>
+            </View>
+        )}
+
         <ScrollView contentContainerStyle={styles.main}>
-            <OptimizedImage 
-                source={{ uri: profile?.avatar?.replace('/img/avatar/', '/img/avatar_thumbnail/') || `https://picsum.photos/seed/${session?.did}/48` }} 
-                style={styles.avatar} 
-            />
-            <View style={{ flex: 1 }}>
-                <TextInput
-                    value={text}
-                    onChangeText={setText}
-                    placeholder={replyTo ? t('composer.replyPlaceholder') : t('composer.placeholder')}
-                    placeholderTextColor={theme.colors.onSurfaceVariant}
-                    style={styles.textInput}
-                    multiline
-                    autoFocus
-                />
-
-                {mediaFiles.length > 0 && (
-                    <View style={styles.mediaGrid}>
-                        {mediaFiles.map((mf, index) => (
-                            <View key={index} style={[styles.mediaItem, { width: mediaFiles.length > 1 ? '48%' : '100%' }]}>
-                                <OptimizedImage source={{ uri: mf.preview }} style={styles.mediaPreview} />
-                                
-                                {/* Video play icon overlay */}
-                                {mf.type === 'video' && (
-                                    <View style={styles.videoOverlay}>
-                                        <View style={styles.playIconContainer}>
-                                            <Ionicons name="play" color="white" size={24} />
-                                        </View>
-                                        {mf.asset.duration && (
-                                            <View style={styles.durationContainer}>
-                                                <Text style={styles.durationText}>
-                                                    {Math.floor(mf.asset.duration / 60)}:{String(Math.floor(mf.asset.duration % 60)).padStart(2, '0')}
-                                                </Text>
-                                            </View>
-                                        )}
+            {segments.map((segment, segmentIndex) => {
+                const isLocked = !!segment.posted;
+                return (
+                    <View key={segment.id} style={[styles.segment, isLocked && styles.segmentPosted]}>
+                        <View style={styles.avatarColumn}>
+                            <OptimizedImage 
+                                source={{ uri: profile?.avatar?.replace('/img/avatar/', '/img/avatar_thumbnail/') || `https://picsum.photos/seed/${session?.did}/48` }} 
+                                style={styles.avatar} 
+                            />
+                            {segmentIndex < segments.length - 1 && <View style={styles.threadLine} />}
+                        </View>
+                        <View style={{ flex: 1 }}>
+                            <TextInput
+                                value={segment.text}
+                                onChangeText={text => updateSegment(segment.id, s => ({ ...s, text }))}
+                                onFocus={() => setActiveSegmentId(segment.id)}
+                                editable={!isLocked}
+                                placeholder={segmentIndex > 0 ? t('composer.thread.placeholder') : (replyTarget ? t('composer.replyPlaceholder') : t('composer.placeholder'))}
+                                placeholderTextColor={theme.colors.onSurfaceVariant}
+                                style={[styles.textInput, segments.length > 1 && styles.textInputCompact]}
+                                multiline
+                                autoFocus={segment.id === activeSegmentId}
+                            />
+
+                            {segment.mediaFiles.length > 0 && (
+                                <ReorderableMediaGrid
+                                    itemIds={segment.mediaFiles.map(mf => mf.id)}
+                                    isReorderable={!isLocked && segment.mediaFiles.length > 1}
+                                    onMove={(from, to) => moveMedia(segment.id, from, to)}
+                                    style={styles.mediaGrid}
+                                    itemStyle={[styles.mediaItem, { width: segment.mediaFiles.length > 1 ? '48%' : '100%' }]}
+                                    renderItem={(_, index, dragHandlers) => {
+                                        const mf = segment.mediaFiles[index];
+                                        return (
+                                        <>
+                                            <OptimizedImage source={{ uri: mf.preview }} style={styles.mediaPreview} />
+                                            
+                                            {/* Video play icon overlay */}
+                                            {mf.type === 'video' && (
+                                                <View style={styles.videoOverlay}>
+                                                    <View style={styles.playIconContainer}>
+                                                        <Ionicons name="play" color="white" size={24} />
+                                                    </View>
+                                                    {mf.asset.duration && (
+                                                        <View style={styles.durationContainer}>
+                                                            <Text style={styles.durationText}>
+                                                                {Math.floor(mf.asset.duration / 60)}:{String(Math.floor(mf.asset.duration % 60)).padStart(2, '0')}
+                                                            </Text>
+                                                        </View>
+                                                    )}
+                                                </View>
+                                            )}
+                                            
+                                            {/* Upload progress overlay */}
+                                            {typeof mf.uploadProgress === 'number' && mf.uploadProgress < 100 && (
+                                                <View style={styles.uploadProgressOverlay}>
+                                                    <View style={styles.progressContainer}>
+                                                        <ActivityIndicator size="small" color="white" />
+                                                        <Text style={styles.progressText}>{mf.uploadProgress}%</Text>
+                                                    </View>
+                                                </View>
+                                            )}
+                                            
+                                            {mf.videoStatus && (
+                                                <View style={styles.uploadProgressOverlay}>
+                                                    <View style={styles.progressContainer}>
+                                                        <ActivityIndicator size="small" color="white" />
+                                                        <Text style={styles.progressText}>
+                                                            {t(`composer.video.${mf.videoStatus.phase}`, { progress: mf.videoStatus.progress })}
+                                                        </Text>
+                                                        <Pressable onPress={() => uploadAbortRef.current?.abort()} style={styles.cancelUploadButton}>
+                                                            <Text style={styles.cancelUploadText}>{t('composer.video.cancel')}</Text>
+                                                        </Pressable>
+                                                    </View>
+                                                </View>
+                                            )}
+
+                                            {mf.isProcessing && (
+                                                <View style={styles.uploadProgressOverlay}>
+                                                    <ActivityIndicator size="small" color="white" />
+                                                </View>
+                                            )}
+
+                                            {!isLocked && (
+                                                <Pressable
+                                                    onPress={() => openAltEditor(segment.id, index)}
+                                                    style={[styles.altButton, !mf.alt && styles.altButtonMissing]}
+                                                    accessibilityLabel={t('composer.altText.edit')}
+                                                >
+                                                    {mf.alt && <Ionicons name="checkmark" color="white" size={12} />}
+                                                    <Text style={styles.altButtonText}>ALT</Text>
+                                                </Pressable>
+                                            )}
+
+                                            {!isLocked && mf.type === 'image' && mf.original && !mf.isProcessing && (
+                                                <Pressable
+                                                    onPress={() => setImageEditorTarget({ segmentId: segment.id, mediaId: mf.id })}
+                                                    style={styles.editImageButton}
+                                                    accessibilityLabel={t('composer.imageEditor.title')}
+                                                >
+                                                    <Ionicons name="crop" color="white" size={16} />
+                                                </Pressable>
+                                            )}
+
+                                            {!isLocked && mf.type === 'video' && (
+                                                <Pressable
+                                                    onPress={() => setCaptionsEditorTarget({ segmentId: segment.id, mediaId: mf.id })}
+                                                    style={[styles.captionsButton, !!mf.captions?.length && styles.captionsButtonActive]}
+                                                    accessibilityLabel={t('composer.captions.title')}
+                                                >
+                                                    <Text style={styles.altButtonText}>CC</Text>
+                                                </Pressable>
+                                            )}
+
+                                            {dragHandlers && (
+                                                <View {...dragHandlers} style={styles.dragHandle} accessibilityLabel={t('composer.imageEditor.reorder')}>
+                                                    <Ionicons name="move" color="white" size={16} />
+                                                </View>
+                                            )}
+
+                                            {!isLocked && (
+                                                <Pressable onPress={() => removeMedia(segment.id, index)} style={styles.removeMediaButton}>
+                                                    <Ionicons name="close" color="white" size={16} />
+                                                </Pressable>
+                                            )}
+                                        </>
+                                        );
+                                    }}
+                                />
+                            )}
+
+                            {segment.mediaFiles.length === 0 && (segment.linkCard || segment.isLinkCardLoading) && (
+                                <LinkCardPreview
+                                    card={segment.linkCard ?? null}
+                                    onRemove={isLocked ? undefined : () => removeLinkCard(segment.id)}
+                                />
+                            )}
+
+                            <View style={styles.segmentFooter}>
+                                {isLocked ? (
+                                    <View style={styles.postedBadge}>
+                                        <Ionicons name="checkmark-circle" color={theme.colors.primary} size={16} />
+                                        <Text style={styles.postedBadgeText}>{t('composer.thread.posted')}</Text>
                                     </View>
+                                ) : (
+                                    <CharacterCount remainingChars={MAX_CHARS - segment.text.length} />
                                 )}
-                                
-                                {/* Upload progress overlay */}
-                                {typeof mf.uploadProgress === 'number' && mf.uploadProgress < 100 && (
-                                    <View style={styles.uploadProgressOverlay}>
-                                        <View style={styles.progressContainer}>
-                                            <ActivityIndicator size="small" color="white" />
-                                            <Text style={styles.progressText}>{mf.uploadProgress}%</Text>
-                                        </View>
-                                    </View>
+                                {segments.length > 1 && (
+                                    <Text style={styles.segmentIndex}>{segmentIndex + 1}/{segments.length}</Text>
+                                )}
+                                {segments.length > 1 && !isLocked && (
+                                    <Pressable onPress={() => removeSegment(segment.id)} style={styles.iconButton}>
+                                        <Ionicons name="trash-outline" color={theme.colors.onSurfaceVariant} size={18} />
+                                    </Pressable>
                                 )}
-                                
-                                <Pressable onPress={() => removeMedia(index)} style={styles.removeMediaButton}>
-                                    <Ionicons name="close" color="white" size={16} />
-                                </Pressable>
                             </View>
-                        ))}
+                        </View>
                     </View>
-                )}
-            </View>
+                );
+            })}
         </ScrollView>
         
         <View style={styles.footer}>
             <View style={{ flexDirection: 'row', alignItems: 'center', gap: theme.spacing.xs }}>
                 <Pressable 
                     onPress={() => pickMedia({ mediaTypes: ImagePicker.MediaTypeOptions.Images, allowsMultipleSelection: true, selectionLimit: MAX_IMAGES })} 
-                    style={[styles.iconButton, (!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif) && styles.iconButtonDisabled]}
-                    disabled={!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif}
+                    style={[styles.iconButton, (!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif || isActiveSegmentLocked) && styles.iconButtonDisabled]}
+                    disabled={!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif || isActiveSegmentLocked}
                 >
-                    <Ionicons name="image-outline" color={!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif ? theme.colors.onSurfaceVariant : theme.colors.primary} size={24} />
+                    <Ionicons name="image-outline" color={!isFeatureEnabled('IMAGE_POSTING') || mediaFiles.length >= MAX_IMAGES || hasVideoOrGif || isActiveSegmentLocked ? theme.colors.onSurfaceVariant : theme.colors.primary} size={24} />
                 </Pressable>
                 {isFeatureEnabled('VIDEO_POSTING') && (
                     <Pressable 
                         onPress={() => pickMedia({ mediaTypes: ImagePicker.MediaTypeOptions.Videos })} 
-                        style={[styles.iconButton, mediaFiles.length > 0 && styles.iconButtonDisabled]}
-                        disabled={mediaFiles.length > 0}
+                        style={[styles.iconButton, (mediaFiles.length > 0 || isActiveSegmentLocked) && styles.iconButtonDisabled]}
+                        disabled={mediaFiles.length > 0 || isActiveSegmentLocked}
                     >
-                        <Ionicons name="videocam-outline" color={mediaFiles.length > 0 ? theme.colors.onSurfaceVariant : theme.colors.primary} size={24} />
+                        <Ionicons name="videocam-outline" color={mediaFiles.length > 0 || isActiveSegmentLocked ? theme.colors.onSurfaceVariant : theme.colors.primary} size={24} />
                     </Pressable>
                 )}
+                <Pressable
+                    onPress={addSegment}
+                    style={[styles.iconButton, isPosting && styles.iconButtonDisabled]}
+                    disabled={isPosting}
+                    accessibilityLabel={t('composer.thread.addPost')}
+                >
+                    <Ionicons name="add-circle-outline" color={isPosting ? theme.colors.onSurfaceVariant : theme.colors.primary} size={24} />
+                </Pressable>
             </View>
 
             <View style={{ flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm }}>
+                <Pressable onPress={openInteractionMenu} style={styles.langButton} accessibilityLabel={t('composer.interaction.title')}>
+                    <Ionicons
+                        name={interactionSettings.reply === 'everyone' || replyTarget ? 'earth-outline' : 'lock-closed-outline'}
+                        color={theme.colors.primary}
+                        size={16}
+                    />
+                </Pressable>
                 <Pressable onPress={() => setIsLangMenuOpen(true)} style={styles.langButton}>
                     <Text style={styles.langButtonText}>
                         {selectedLangs.length > 0 ? LANGUAGES.find(l => l.code === selectedLangs[0])?.name : 'English'}
                         {selectedLangs.length > 1 && ` +${selectedLangs.length - 1}`}
                     </Text>
                 </Pressable>
-                <View style={styles.divider} />
-                <CharacterCount remainingChars={remainingChars} />
             </View>
         </View>
 
@@ -459,6 +955,176 @@ const Composer: React.FC<ComposerProps> = ({ onPostSuccess, onClose, replyTo, in
                 </View>
             </Pressable>
          </Modal>
+
+         <Modal
+            transparent
+            visible={isDraftsOpen}
+            onRequestClose={() => setIsDraftsOpen(false)}
+            animationType="fade"
+         >
+            <Pressable style={styles.langModalBackdrop} onPress={() => setIsDraftsOpen(false)}>
+                <View style={styles.langModalContent}>
+                    <Text style={styles.draftsTitle}>{t('composer.drafts.title')}</Text>
+                    <ScrollView>
+                        {availableDrafts.map(draft => {
+                            const [first] = draft.segments;
+                            return (
+                                <Pressable key={draft.id} onPress={() => resumeDraft(draft)} style={styles.draftItem}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.draftText} numberOfLines={2}>
+                                            {first.text.trim() || t('composer.drafts.mediaOnly', { count: first.media.length })}
+                                        </Text>
+                                        <Text style={styles.draftMeta}>
+                                            {draft.replyTo ? `${t('composer.drafts.reply')} · ` : ''}
+                                            {draft.segments.length > 1 ? `${t('composer.thread.postCount', { count: draft.segments.length })} · ` : ''}
+                                            {first.media.length > 0 && first.text.trim() ? `${t('composer.drafts.mediaCount', { count: first.media.length })} · ` : ''}
+                                            {formatCompactDate(draft.updatedAt)}
+                                        </Text>
+                                    </View>
+                                    <Pressable onPress={() => deleteDraft(draft.id)} style={styles.iconButton}>
+                                        <Ionicons name="trash-outline" color={theme.colors.onSurfaceVariant} size={20} />
+                                    </Pressable>
+                                </Pressable>
+                            );
+                        })}
+                    </ScrollView>
+                </View>
+            </Pressable>
+         </Modal>
+
+         <Modal
+            transparent
+            visible={!!altEditorTarget}
+            onRequestClose={() => setAltEditorTarget(null)}
+            animationType="fade"
+         >
+            <Pressable style={styles.langModalBackdrop} onPress={() => setAltEditorTarget(null)}>
+                <Pressable style={styles.langModalContent} onPress={(e) => e.stopPropagation()}>
+                    <Text style={styles.draftsTitle}>{t('composer.altText.title')}</Text>
+                    {altEditorMedia && altEditorMedia.type !== 'video' && (
+                        <OptimizedImage source={{ uri: altEditorMedia.preview }} style={styles.altEditorPreview} contentFit="contain" />
+                    )}
+                    <TextInput
+                        value={altTextInput}
+                        onChangeText={setAltTextInput}
+                        placeholder={t(altEditorMedia?.type === 'video' ? 'composer.altText.videoPlaceholder' : 'composer.altText.placeholder')}
+                        placeholderTextColor={theme.colors.onSurfaceVariant}
+                        style={styles.altEditorInput}
+                        maxLength={altTextLimit}
+                        multiline
+                        autoFocus
+                    />
+                    <View style={styles.altEditorActions}>
+                        <Text style={styles.altEditorCount}>{altTextInput.length}/{altTextLimit}</Text>
+                        <Pressable onPress={saveAltText} style={styles.postButton}>
+                            <Text style={styles.postButtonText}>{t('common.save')}</Text>
+                        </Pressable>
+                    </View>
+                </Pressable>
+            </Pressable>
+         </Modal>
+
+         <Modal
+            transparent
+            visible={isInteractionMenuOpen}
+            onRequestClose={() => setIsInteractionMenuOpen(false)}
+            animationType="fade"
+         >
+            <Pressable style={styles.langModalBackdrop} onPress={() => setIsInteractionMenuOpen(false)}>
+                <Pressable style={styles.langModalContent} onPress={(e) => e.stopPropagation()}>
+                    <Text style={styles.draftsTitle}>{t('composer.interaction.title')}</Text>
+                    <ScrollView>
+                        {!replyTarget && REPLY_RESTRICTIONS.map(option => {
+                            const isSelected = interactionSettings.reply === option;
+                            return (
+                                <Pressable
+                                    key={option}
+                                    onPress={() => setInteractionSettings(prev => ({ ...prev, reply: option }))}
+                                    style={[styles.langOption, isSelected && styles.langOptionSelected]}
+                                >
+                                    <Text style={isSelected ? styles.langOptionTextSelected : styles.langOptionText}>
+                                        {t(`composer.interaction.reply.${option}`)}
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                        {!replyTarget && interactionSettings.reply === 'list' && (
+                            curateLists === null ? (
+                                <ActivityIndicator style={{ padding: theme.spacing.md }} color={theme.colors.onSurface} />
+                            ) : curateLists.length === 0 ? (
+                                <Text style={styles.interactionHint}>{t('composer.interaction.noLists')}</Text>
+                            ) : curateLists.map(list => {
+                                const isSelected = interactionSettings.listUri === list.uri;
+                                return (
+                                    <Pressable
+                                        key={list.uri}
+                                        onPress={() => setInteractionSettings(prev => ({ ...prev, listUri: list.uri }))}
+                                        style={styles.interactionListOption}
+                                    >
+                                        <Ionicons name={isSelected ? 'radio-button-on' : 'radio-button-off'} color={theme.colors.primary} size={18} />
+                                        <Text style={styles.langOptionText}>{list.name}</Text>
+                                    </Pressable>
+                                );
+                            })
+                        )}
+                        <View style={styles.interactionToggle}>
+                            <Text style={styles.langOptionText}>{t('composer.interaction.disableQuotes')}</Text>
+                            <Switch
+                                checked={interactionSettings.quotesDisabled}
+                                onChange={(quotesDisabled) => setInteractionSettings(prev => ({ ...prev, quotesDisabled }))}
+                            />
+                        </View>
+                    </ScrollView>
+                </Pressable>
+            </Pressable>
+         </Modal>
+
+         <ImageEditorModal
+            source={imageEditorMedia?.original ?? null}
+            initialEdit={imageEditorMedia?.edit ?? DEFAULT_IMAGE_EDIT}
+            onApply={saveImageEdit}
+            onClose={() => setImageEditorTarget(null)}
+         />
+
+         <VideoCaptionsModal
+            visible={!!captionsEditorMedia}
+            captions={captionsEditorMedia?.captions ?? []}
+            languages={LANGUAGES}
+            defaultLang={selectedLangs[0] || 'en'}
+            onChange={saveCaptions}
+            onClose={() => setCaptionsEditorTarget(null)}
+         />
+
+         <ScheduleModal
+            visible={isScheduleOpen}
+            title={t(scheduledPostId ? 'scheduled.reschedule' : 'scheduled.schedule')}
+            initialDate={scheduledPost ? new Date(scheduledPost.scheduledAt) : undefined}
+            submitLabel={t(scheduledPostId ? 'common.save' : 'scheduled.schedule')}
+            onSubmit={handleSchedule}
+            onClose={() => setIsScheduleOpen(false)}
+         />
+
+         <Modal
+            transparent
+            visible={isClosePromptOpen}
+            onRequestClose={() => setIsClosePromptOpen(false)}
+            animationType="fade"
+         >
+            <Pressable style={styles.langModalBackdrop} onPress={() => setIsClosePromptOpen(false)}>
+                <View style={styles.langModalContent}>
+                    <Text style={styles.draftsTitle}>{t('composer.drafts.closePromptTitle')}</Text>
+                    <Pressable onPress={handleSaveAndClose} style={styles.promptOption}>
+                        <Text style={styles.promptOptionText}>{t('composer.drafts.save')}</Text>
+                    </Pressable>
+                    <Pressable onPress={handleDiscardAndClose} style={styles.promptOption}>
+                        <Text style={[styles.promptOptionText, { color: theme.colors.error }]}>{t('composer.drafts.discard')}</Text>
+                    </Pressable>
+                    <Pressable onPress={() => setIsClosePromptOpen(false)} style={styles.promptOption}>
+                        <Text style={styles.langOptionText}>{t('composer.drafts.keepEditing')}</Text>
+                    </Pressable>
+                </View>
+            </Pressable>
+         </Modal>
     </View>
   );
 };
@@ -468,22 +1134,48 @@ const createStyles = (theme: any) => StyleSheet.create({
     header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: theme.spacing.sm, flexShrink: 0 },
     cancelButton: { paddingHorizontal: theme.spacing.lg, paddingVertical: theme.spacing.sm },
     cancelButtonText: { color: theme.colors.primary, fontWeight: '500' },
+    headerActions: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm },
+    draftsButton: { paddingHorizontal: theme.spacing.md, paddingVertical: theme.spacing.sm },
+    scheduledBanner: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, paddingHorizontal: theme.spacing.lg, paddingVertical: theme.spacing.sm, backgroundColor: theme.colors.surfaceContainerHigh },
+    scheduledBannerText: { color: theme.colors.onSurfaceVariant, fontSize: 13 },
     postButton: { backgroundColor: theme.colors.primary, flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, paddingVertical: 6, paddingHorizontal: 20, borderRadius: theme.radius.full },
     postButtonDisabled: { opacity: 0.5 },
     postButtonText: { color: theme.colors.onPrimary, fontWeight: 'bold' },
-    main: { flexDirection: 'row', gap: theme.spacing.lg, padding: theme.spacing.lg, flexGrow: 1 },
+    main: { padding: theme.spacing.lg, flexGrow: 1 },
+    segment: { flexDirection: 'row', gap: theme.spacing.lg },
+    segmentPosted: { opacity: 0.6 },
+    avatarColumn: { alignItems: 'center' },
+    threadLine: { flex: 1, width: 2, marginVertical: theme.spacing.xs, backgroundColor: theme.colors.surfaceContainerHigh },
     avatar: { width: 48, height: 48, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
     textInput: { color: theme.colors.onSurface, fontSize: 20, textAlignVertical: 'top', minHeight: 100 },
+    textInputCompact: { minHeight: 60 },
+    segmentFooter: { flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', gap: theme.spacing.sm, minHeight: 32, marginBottom: theme.spacing.sm },
+    segmentIndex: { color: theme.colors.onSurfaceVariant, fontSize: 12 },
+    postedBadge: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.xs, marginRight: 'auto' },
+    postedBadgeText: { color: theme.colors.primary, fontSize: 12, fontWeight: '600' },
     mediaGrid: { marginTop: theme.spacing.lg, gap: theme.spacing.sm, flexDirection: 'row', flexWrap: 'wrap' },
     mediaItem: { position: 'relative' },
     mediaPreview: { width: '100%', aspectRatio: 1, borderRadius: theme.radius.md, resizeMode: 'cover' },
+    altButton: { position: 'absolute', bottom: theme.spacing.sm, left: theme.spacing.sm, flexDirection: 'row', alignItems: 'center', gap: 2, backgroundColor: 'rgba(0,0,0,0.6)', paddingHorizontal: theme.spacing.sm, paddingVertical: 2, borderRadius: theme.radius.sm },
+    altButtonMissing: { borderWidth: 1, borderColor: theme.colors.error },
+    altButtonText: { color: 'white', fontSize: 12, fontWeight: 'bold' },
+    altEditorPreview: { width: '100%', height: 200, backgroundColor: theme.colors.surfaceContainer },
+    altEditorInput: { minHeight: 100, margin: theme.spacing.md, padding: theme.spacing.md, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainer, color: theme.colors.onSurface, textAlignVertical: 'top' },
+    altEditorActions: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingHorizontal: theme.spacing.md, paddingBottom: theme.spacing.md },
+    altEditorCount: { color: theme.colors.onSurfaceVariant, fontSize: 12 },
+    captionsButton: { position: 'absolute', top: theme.spacing.sm, left: theme.spacing.sm, backgroundColor: 'rgba(0,0,0,0.6)', paddingHorizontal: theme.spacing.sm, paddingVertical: 2, borderRadius: theme.radius.sm },
+    captionsButtonActive: { backgroundColor: theme.colors.primary },
+    editImageButton: { position: 'absolute', bottom: theme.spacing.sm, right: theme.spacing.sm, backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.xs, borderRadius: theme.radius.full },
+    dragHandle: { position: 'absolute', top: theme.spacing.sm, left: theme.spacing.sm, backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.xs, borderRadius: theme.radius.full, cursor: 'grab' } as any,
     removeMediaButton: { position: 'absolute', top: theme.spacing.sm, right: theme.spacing.sm, backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.xs, borderRadius: theme.radius.full },
     footer: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: theme.spacing.sm, borderTopWidth: 1, borderTopColor: theme.colors.surfaceContainerHigh },
     iconButton: { padding: theme.spacing.sm },
     iconButtonDisabled: { opacity: 0.5 },
     langButton: { paddingHorizontal: theme.spacing.md, paddingVertical: theme.spacing.xs, borderRadius: theme.radius.full },
+    interactionHint: { color: theme.colors.onSurfaceVariant, paddingHorizontal: theme.spacing.xl, paddingVertical: theme.spacing.sm },
+    interactionListOption: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, paddingHorizontal: theme.spacing.xl, paddingVertical: theme.spacing.sm },
+    interactionToggle: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: theme.spacing.md, borderTopWidth: 1, borderTopColor: theme.colors.outline },
     langButtonText: { color: theme.colors.primary, fontSize: theme.typography.labelMedium.fontSize, fontWeight: '500' },
-    divider: { width: 1, height: 20, backgroundColor: theme.colors.surfaceContainerHigh },
     langModalBackdrop: { flex: 1, justifyContent: 'flex-end', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.5)' },
     langModalContent: { width: '100%', maxHeight: '50%', backgroundColor: theme.colors.surfaceContainerHigh, borderTopLeftRadius: theme.radius.lg, borderTopRightRadius: theme.radius.lg, overflow: 'hidden' },
     langSearchInput: { width: '100%', padding: theme.spacing.md, backgroundColor: theme.colors.surfaceContainer, borderBottomWidth: 1, borderBottomColor: theme.colors.outline, color: theme.colors.onSurface },
@@ -491,6 +1183,12 @@ const createStyles = (theme: any) => StyleSheet.create({
     langOptionSelected: { backgroundColor: theme.colors.primary },
     langOptionText: { color: theme.colors.onSurface },
     langOptionTextSelected: { color: theme.colors.onPrimary },
+    draftsTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface, padding: theme.spacing.md },
+    draftItem: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, paddingLeft: theme.spacing.md, paddingVertical: theme.spacing.xs, borderTopWidth: 1, borderTopColor: theme.colors.outline },
+    draftText: { color: theme.colors.onSurface },
+    draftMeta: { color: theme.colors.onSurfaceVariant, fontSize: 12, marginTop: 2 },
+    promptOption: { width: '100%', padding: theme.spacing.md, borderTopWidth: 1, borderTopColor: theme.colors.outline },
+    promptOptionText: { color: theme.colors.primary, fontWeight: '600' },
     
     // Video overlay styles
     videoOverlay: { 
@@ -542,7 +1240,9 @@ const createStyles = (theme: any) => StyleSheet.create({
         color: 'white', 
         fontSize: 14, 
         fontWeight: '600' 
-    }
+    },
+    cancelUploadButton: { paddingHorizontal: theme.spacing.md, paddingVertical: theme.spacing.xs, borderRadius: theme.radius.full, borderWidth: 1, borderColor: 'white' },
+    cancelUploadText: { color: 'white', fontSize: 12, fontWeight: '600' }
 });
 
 export default Composer;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/components/shared/Theme';
+import { OptimizedImage } from '../ui';
+import {
+  CROP_PRESETS, ImageEdit, SourceImage, ProcessedImage,
+  renderImagePreview, rotateClockwise,
+} from '@/lib/imageProcessing';
+
+interface ImageEditorModalProps {
+  // The image as picked, so edits never compound
+  source: SourceImage | null;
+  initialEdit: ImageEdit;
+  onApply: (edit: ImageEdit) => void;
+  onClose: () => void;
+}
+
+/** Crop presets and rotation for one picked image, previewed before they're applied. */
+const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ source, initialEdit, onApply, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const [edit, setEdit] = useState(initialEdit);
+  const [preview, setPreview] = useState<ProcessedImage | null>(null);
+
+  useEffect(() => {
+    if (source) setEdit(initialEdit);
+  }, [source, initialEdit]);
+
+  useEffect(() => {
+    if (!source) return;
+    let isCancelled = false;
+    setPreview(null);
+    renderImagePreview(source, edit)
+      .then(result => { if (!isCancelled) setPreview(result); })
+      .catch(error => console.error("Failed to render image preview", error));
+    return () => { isCancelled = true; };
+  }, [source, edit]);
+
+  return (
+    <Modal transparent visible={!!source} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{t('composer.imageEditor.title')}</Text>
+          <View style={styles.previewContainer}>
+            {preview ? (
+              <OptimizedImage
+                source={{ uri: preview.uri }}
+                style={[styles.preview, { aspectRatio: preview.width / preview.height }]}
+                contentFit="contain"
+              />
+            ) : (
+              <ActivityIndicator color={theme.colors.onSurface} />
+            )}
+          </View>
+          <View style={styles.presets}>
+            {CROP_PRESETS.map(crop => {
+              const isSelected = edit.crop === crop;
+              return (
+                <Pressable
+                  key={crop}
+                  onPress={() => setEdit(prev => ({ ...prev, crop }))}
+                  style={[styles.preset, isSelected && styles.presetSelected]}
+                >
+                  <Text style={[styles.presetText, isSelected && styles.presetTextSelected]}>
+                    {crop === 'original' ? t('composer.imageEditor.original') : crop}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            <Pressable
+              onPress={() => setEdit(prev => ({ ...prev, rotation: rotateClockwise(prev.rotation) }))}
+              style={styles.preset}
+              accessibilityLabel={t('composer.imageEditor.rotate')}
+            >
+              <Ionicons name="refresh" color={theme.colors.onSurface} size={16} />
+            </Pressable>
+          </View>
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </Pressable>
+            <Pressable onPress={() => onApply(edit)} style={styles.primaryButton}>
+              <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 480, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.l },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  previewContainer: { height: 320, justifyContent: 'center', alignItems: 'center', backgroundColor: theme.colors.surfaceContainerHigh, borderRadius: theme.radius.md, overflow: 'hidden' },
+  preview: { maxWidth: '100%', maxHeight: '100%', height: '100%' },
+  presets: { flexDirection: 'row', flexWrap: 'wrap', gap: theme.spacing.s },
+  preset: { minWidth: 40, alignItems: 'center', paddingHorizontal: theme.spacing.m, paddingVertical: theme.spacing.s, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  presetSelected: { backgroundColor: theme.colors.primary },
+  presetText: { ...theme.typography.labelMedium, color: theme.colors.onSurface },
+  presetTextSelected: { color: theme.colors.onPrimary },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+});
+
+export default ImageEditorModal;
@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import { LinkMetadata } from '@/lib/linkCards';
+
+interface LinkCardPreviewProps {
+  // Null while the card is being looked up
+  card: LinkMetadata | null;
+  onRemove?: () => void;
+}
+
+const getDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/** The external link card a post will embed, as it appears in the composer. */
+const LinkCardPreview: React.FC<LinkCardPreviewProps> = ({ card, onRemove }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+
+  if (!card) {
+    return (
+      <View style={[styles.card, styles.loading]}>
+        <ActivityIndicator size="small" color={theme.colors.onSurfaceVariant} />
+        <Text style={styles.description}>{t('composer.linkCard.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      {card.image && <OptimizedImage source={{ uri: card.image }} style={styles.image} contentFit="cover" />}
+      <View style={styles.body}>
+        <Text style={styles.domain} numberOfLines={1}>{getDomain(card.url)}</Text>
+        <Text style={styles.title} numberOfLines={2}>{card.title}</Text>
+        {!!card.description && <Text style={styles.description} numberOfLines={2}>{card.description}</Text>}
+      </View>
+      {onRemove && (
+        <Pressable onPress={onRemove} style={styles.removeButton} accessibilityLabel={t('composer.linkCard.remove')}>
+          <Ionicons name="close" color="white" size={16} />
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  card: { marginTop: theme.spacing.md, borderRadius: theme.radius.md, borderWidth: 1, borderColor: theme.colors.outline, overflow: 'hidden', backgroundColor: theme.colors.surfaceContainer },
+  loading: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, padding: theme.spacing.md },
+  image: { width: '100%', aspectRatio: 1.91, backgroundColor: theme.colors.surfaceContainerHigh },
+  body: { padding: theme.spacing.md, gap: 2 },
+  domain: { ...theme.typography.labelSmall, color: theme.colors.onSurfaceVariant },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  description: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  removeButton: { position: 'absolute', top: theme.spacing.sm, right: theme.spacing.sm, backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.xs, borderRadius: theme.radius.full },
+});
+
+export default LinkCardPreview;
@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import { Animated, PanResponder, View, StyleProp, ViewStyle, LayoutRectangle } from 'react-native';
+
+interface ReorderableMediaGridProps {
+  itemIds: string[];
+  // Off while a segment is locked or has a single item
+  isReorderable: boolean;
+  onMove: (from: number, to: number) => void;
+  // `dragHandlers` go on whatever the user should grab; dragging from anywhere else scrolls as usual
+  renderItem: (id: string, index: number, dragHandlers: object | undefined) => React.ReactNode;
+  style?: StyleProp<ViewStyle>;
+  itemStyle?: StyleProp<ViewStyle>;
+}
+
+interface DraggableItemProps {
+  id: string;
+  index: number;
+  isReorderable: boolean;
+  layouts: React.MutableRefObject<Map<string, LayoutRectangle>>;
+  onDrop: (from: number, centerX: number, centerY: number) => void;
+  style?: StyleProp<ViewStyle>;
+  children: (dragHandlers: object | undefined) => React.ReactNode;
+}
+
+const DraggableItem: React.FC<DraggableItemProps> = ({ id, index, isReorderable, layouts, onDrop, style, children }) => {
+  const position = useRef(new Animated.ValueXY()).current;
+  const [isDragging, setIsDragging] = React.useState(false);
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ id, index, onDrop });
+  latest.current = { id, index, onDrop };
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => setIsDragging(true),
+    onPanResponderMove: Animated.event([null, { dx: position.x, dy: position.y }], { useNativeDriver: false }),
+    onPanResponderRelease: (_, gesture) => {
+      const layout = layouts.current.get(latest.current.id);
+      if (layout) {
+        latest.current.onDrop(
+          latest.current.index,
+          layout.x + layout.width / 2 + gesture.dx,
+          layout.y + layout.height / 2 + gesture.dy,
+        );
+      }
+      position.setValue({ x: 0, y: 0 });
+      setIsDragging(false);
+    },
+    onPanResponderTerminate: () => {
+      position.setValue({ x: 0, y: 0 });
+      setIsDragging(false);
+    },
+  })).current;
+
+  return (
+    <Animated.View
+      style={[style, { transform: position.getTranslateTransform() }, isDragging && { zIndex: 1, opacity: 0.8 }]}
+      onLayout={(e) => layouts.current.set(id, e.nativeEvent.layout)}
+    >
+      {children(isReorderable ? panResponder.panHandlers : undefined)}
+    </Animated.View>
+  );
+};
+
+/** Wrapping grid of media whose items can be dragged into a new order by a handle. */
+const ReorderableMediaGrid: React.FC<ReorderableMediaGridProps> = ({ itemIds, isReorderable, onMove, renderItem, style, itemStyle }) => {
+  const layouts = useRef(new Map<string, LayoutRectangle>());
+
+  // Dropped over another item takes its place; dropped anywhere else stays put
+  const handleDrop = (from: number, centerX: number, centerY: number) => {
+    const to = itemIds.findIndex(itemId => {
+      const layout = layouts.current.get(itemId);
+      return !!layout
+        && centerX >= layout.x && centerX <= layout.x + layout.width
+        && centerY >= layout.y && centerY <= layout.y + layout.height;
+    });
+    if (to !== -1 && to !== from) onMove(from, to);
+  };
+
+  return (
+    <View style={style}>
+      {itemIds.map((id, index) => (
+        <DraggableItem
+          key={id}
+          id={id}
+          index={index}
+          isReorderable={isReorderable}
+          layouts={layouts}
+          onDrop={handleDrop}
+          style={itemStyle}
+        >
+          {(dragHandlers) => renderItem(id, index, dragHandlers)}
+        </DraggableItem>
+      ))}
+    </View>
+  );
+};
+
+export default ReorderableMediaGrid;
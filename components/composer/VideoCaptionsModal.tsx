@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, Modal, ScrollView } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useTheme, useToast } from '@/components/shared';
+import { VIDEO_SERVICE_CONFIG } from '@/lib/config';
+import { VideoCaption, getCaptionError } from '@/lib/videoUpload';
+
+interface VideoCaptionsModalProps {
+  visible: boolean;
+  captions: VideoCaption[];
+  languages: { code: string; name: string }[];
+  // Preselected for the next file, usually the post's language
+  defaultLang: string;
+  onChange: (captions: VideoCaption[]) => void;
+  onClose: () => void;
+}
+
+/** WebVTT caption files attached to a video, at most one per language. */
+const VideoCaptionsModal: React.FC<VideoCaptionsModalProps> = ({ visible, captions, languages, defaultLang, onChange, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [lang, setLang] = useState(defaultLang);
+
+  useEffect(() => {
+    if (visible) setLang(defaultLang);
+  }, [visible, defaultLang]);
+
+  const getLanguageName = (code: string) => languages.find(l => l.code === code)?.name ?? code;
+
+  const pickCaptionFile = async () => {
+    // .vtt has no MIME type every platform knows, so any file is offered and the contents checked
+    const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (result.canceled) return;
+    try {
+      const content = await (await fetch(result.assets[0].uri)).text();
+      const error = getCaptionError(content);
+      if (error) {
+        toast({ title: t(`composer.captions.${error}`, { size: VIDEO_SERVICE_CONFIG.MAX_CAPTION_BYTES / 1000 }), variant: 'destructive' });
+        return;
+      }
+      onChange([...captions.filter(c => c.lang !== lang), { lang, content }]);
+    } catch (error) {
+      console.error("Failed to read caption file:", error);
+      toast({ title: t('composer.captions.invalid'), variant: 'destructive' });
+    }
+  };
+
+  const isFull = captions.length >= VIDEO_SERVICE_CONFIG.MAX_CAPTIONS && !captions.some(c => c.lang === lang);
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{t('composer.captions.title')}</Text>
+          {captions.length === 0 ? (
+            <Text style={styles.hint}>{t('composer.captions.empty')}</Text>
+          ) : (
+            <View style={styles.list}>
+              {captions.map(caption => (
+                <View key={caption.lang} style={styles.caption}>
+                  <Ionicons name="document-text-outline" color={theme.colors.onSurfaceVariant} size={18} />
+                  <Text style={styles.captionText}>{getLanguageName(caption.lang)}</Text>
+                  <Pressable
+                    onPress={() => onChange(captions.filter(c => c.lang !== caption.lang))}
+                    accessibilityLabel={t('composer.captions.remove')}
+                  >
+                    <Ionicons name="trash-outline" color={theme.colors.error} size={18} />
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          )}
+          <Text style={styles.label}>{t('composer.captions.language')}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.languages}>
+            {languages.map(language => {
+              const isSelected = language.code === lang;
+              return (
+                <Pressable
+                  key={language.code}
+                  onPress={() => setLang(language.code)}
+                  style={[styles.language, isSelected && styles.languageSelected]}
+                >
+                  <Text style={[styles.languageText, isSelected && styles.languageTextSelected]}>{language.name}</Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.close')}</Text>
+            </Pressable>
+            <Pressable onPress={pickCaptionFile} disabled={isFull} style={[styles.primaryButton, isFull && styles.buttonDisabled]}>
+              <Text style={styles.primaryButtonText}>{t('composer.captions.add')}</Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 400, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.m },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  hint: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  list: { gap: theme.spacing.s },
+  caption: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.s, padding: theme.spacing.s, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+  captionText: { ...theme.typography.bodyMedium, color: theme.colors.onSurface, flex: 1 },
+  label: { ...theme.typography.labelMedium, color: theme.colors.onSurfaceVariant },
+  languages: { gap: theme.spacing.s },
+  language: { paddingHorizontal: theme.spacing.m, paddingVertical: theme.spacing.s, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  languageSelected: { backgroundColor: theme.colors.primary },
+  languageText: { ...theme.typography.labelMedium, color: theme.colors.onSurface },
+  languageTextSelected: { color: theme.colors.onPrimary },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  buttonDisabled: { opacity: 0.5 },
+});
+
+export default VideoCaptionsModal;
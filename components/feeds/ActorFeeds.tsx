@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, FlatList, Pressable } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyFeedDefs } from '@atproto/api';
+import { useAtp } from '../../context/AtpContext';
+import { useSavedFeeds } from '../../hooks/useSavedFeeds';
+import FeedSearchResultCard from './FeedSearchResultCard';
+import { useTheme } from '@/components/shared';
+import { getActorFeeds } from '@/lib/feeds';
+
+interface ActorFeedsProps {
+  actor: string;
+  ListHeaderComponent?: React.ComponentType<any> | React.ReactElement | null;
+}
+
+/** The Feeds tab of a profile: the feed generators the actor made, a page at a time. */
+const ActorFeeds: React.FC<ActorFeedsProps> = ({ actor, ListHeaderComponent }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent, publicApiAgent, session } = useAtp();
+  const { pinnedUris, togglePin, addFeed } = useSavedFeeds();
+  const [feeds, setFeeds] = useState<AppBskyFeedDefs.GeneratorView[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const readAgent = session ? agent : publicApiAgent;
+
+  const fetchFeeds = useCallback(async (isCancelled: () => boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await getActorFeeds(readAgent, actor);
+      if (isCancelled()) return;
+      setFeeds(page.feeds);
+      setCursor(page.cursor);
+    } catch (err) {
+      if (isCancelled()) return;
+      console.error("Failed to load actor feeds", err);
+      setFeeds([]);
+      setCursor(undefined);
+      setError(t('feeds.loadingError'));
+    } finally {
+      if (!isCancelled()) setIsLoading(false);
+    }
+  }, [readAgent, actor, t]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    fetchFeeds(() => isCancelled);
+    return () => { isCancelled = true; };
+  }, [fetchFeeds]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || isLoadingMore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await getActorFeeds(readAgent, actor, { cursor });
+      setFeeds(prev => [...prev, ...page.feeds]);
+      setCursor(page.cursor);
+    } catch (err) {
+      console.error("Failed to load more actor feeds", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [readAgent, actor, cursor, isLoading, isLoadingMore]);
+
+  const renderItem = ({ item }: { item: AppBskyFeedDefs.GeneratorView }) => (
+    <View style={styles.feedItem}>
+      <FeedSearchResultCard
+        feed={item}
+        isPinned={pinnedUris.has(item.uri)}
+        onTogglePin={() => pinnedUris.has(item.uri) ? togglePin(item.uri) : addFeed(item, true)}
+      />
+    </View>
+  );
+
+  const renderEmpty = () => {
+    if (isLoading) return <ActivityIndicator style={{ marginVertical: 32 }} size="large" color={theme.colors.primary} />;
+    if (error) {
+      return (
+        <View style={styles.messageContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Pressable onPress={() => fetchFeeds(() => false)}><Text style={styles.retryText}>{t('common.tryAgain')}</Text></Pressable>
+        </View>
+      );
+    }
+    return <View style={styles.messageContainer}><Text style={styles.infoText}>{t('feeds.creatorEmpty')}</Text></View>;
+  };
+
+  return (
+    <FlatList
+      data={isLoading ? [] : feeds}
+      renderItem={renderItem}
+      keyExtractor={item => item.uri}
+      ListHeaderComponent={ListHeaderComponent}
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} /> : null}
+      ListEmptyComponent={renderEmpty()}
+    />
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  feedItem: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.xs },
+  messageContainer: { padding: 32, alignItems: 'center', gap: theme.spacing.s },
+  errorText: { color: theme.colors.error },
+  infoText: { color: theme.colors.onSurfaceVariant },
+  retryText: { fontWeight: '600', color: theme.colors.primary, textDecorationLine: 'underline' },
+});
+
+export default ActorFeeds;
@@ -0,0 +1,135 @@
+import React, { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AppBskyFeedDefs } from '@atproto/api';
+import { Search, Sparkles, TrendingUp, X } from 'lucide-react';
+import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { useAtp } from '../../context/AtpContext';
+import { useSavedFeeds } from '../../hooks/useSavedFeeds';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useFeedDiscovery, FeedDiscoveryCategory } from '../../hooks/useFeedDiscovery';
+import FeedSearchResultCard from './FeedSearchResultCard';
+import { useTheme } from '@/components/shared';
+
+/** Search and browse feeds to add: suggested for the account or popular, a page at a time. */
+const FeedDiscovery: React.FC = () => {
+    const { session } = useAtp();
+    const { t } = useTranslation();
+    const { theme } = useTheme();
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const [query, setQuery] = useState('');
+    const [category, setCategory] = useState<FeedDiscoveryCategory>(session ? 'suggested' : 'popular');
+    const debouncedQuery = useDebounce(query, 300);
+    const { feeds, isLoading, isLoadingMore, hasMore, error, loadMore, refresh } = useFeedDiscovery(category, debouncedQuery);
+    const { pinnedUris, togglePin, addFeed } = useSavedFeeds();
+
+    const categories = [
+        ...(session ? [{ id: 'suggested' as const, label: t('feeds.suggested'), icon: Sparkles }] : []),
+        { id: 'popular' as const, label: t('feeds.popular'), icon: TrendingUp },
+    ];
+
+    const handlePinToggle = (feed: AppBskyFeedDefs.GeneratorView) => {
+        if (pinnedUris.has(feed.uri)) togglePin(feed.uri);
+        else addFeed(feed, true);
+    };
+
+    const renderResults = () => {
+        if (isLoading) {
+            return (
+                <View style={styles.listContainer}>
+                    {[...Array(3)].map((_, i) => <View key={i} style={styles.skeletonItem} />)}
+                </View>
+            );
+        }
+        if (error) {
+            return (
+                <View style={styles.emptyContainer}>
+                    <Text style={styles.emptyText}>{error}</Text>
+                    <Pressable onPress={refresh}><Text style={styles.emptyLink}>{t('common.tryAgain')}</Text></Pressable>
+                </View>
+            );
+        }
+        if (feeds.length === 0) {
+            return (
+                <View style={styles.emptyContainer}>
+                    <Text style={styles.emptyText}>{debouncedQuery.trim() ? t('feeds.noResults', { query: debouncedQuery.trim() }) : t('feeds.emptyDiscover')}</Text>
+                </View>
+            );
+        }
+        return (
+            <View style={styles.listContainer}>
+                {feeds.map(feed => (
+                    <FeedSearchResultCard
+                        key={feed.uri}
+                        feed={feed}
+                        isPinned={pinnedUris.has(feed.uri)}
+                        onTogglePin={() => handlePinToggle(feed)}
+                    />
+                ))}
+                {hasMore && (
+                    <Pressable onPress={loadMore} disabled={isLoadingMore} style={styles.moreButton}>
+                        {isLoadingMore
+                            ? <ActivityIndicator color={theme.colors.onSurface} />
+                            : <Text style={styles.moreButtonText}>{t('feeds.showMore')}</Text>}
+                    </Pressable>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <View style={{ gap: theme.spacing.lg }}>
+            <View style={styles.inputContainer}>
+                <Search size={20} color={theme.colors.onSurfaceVariant} style={styles.searchIcon} />
+                <TextInput
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder={t('feeds.searchPlaceholder')}
+                    placeholderTextColor={theme.colors.onSurfaceVariant}
+                    style={styles.input}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                {query.length > 0 && (
+                    <Pressable onPress={() => setQuery('')} style={styles.clearButton} accessibilityLabel={t('feeds.clearSearch')}>
+                        <X size={18} color={theme.colors.onSurfaceVariant} />
+                    </Pressable>
+                )}
+            </View>
+            {!debouncedQuery.trim() && categories.length > 1 && (
+                <View style={styles.categoryContainer}>
+                    {categories.map(item => {
+                        const isActive = category === item.id;
+                        return (
+                            <Pressable key={item.id} onPress={() => setCategory(item.id)} style={[styles.categoryButton, isActive && styles.activeCategoryButton]}>
+                                <item.icon size={16} color={isActive ? theme.colors.background : theme.colors.onSurface} />
+                                <Text style={[styles.categoryText, isActive && styles.activeCategoryText]}>{item.label}</Text>
+                            </Pressable>
+                        );
+                    })}
+                </View>
+            )}
+            {renderResults()}
+        </View>
+    );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+    inputContainer: { position: 'relative', justifyContent: 'center' },
+    searchIcon: { position: 'absolute', left: theme.spacing.l, zIndex: 1 },
+    input: { width: '100%', paddingLeft: 48, paddingRight: 48, paddingVertical: theme.spacing.m, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.md, color: theme.colors.onSurface, fontSize: 16 },
+    clearButton: { position: 'absolute', right: theme.spacing.sm, padding: theme.spacing.sm },
+    categoryContainer: { flexDirection: 'row', gap: theme.spacing.s },
+    categoryButton: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.s, paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.s, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainer },
+    activeCategoryButton: { backgroundColor: theme.colors.onSurface },
+    categoryText: { ...theme.typography.labelLarge, fontWeight: '500', color: theme.colors.onSurface },
+    activeCategoryText: { color: theme.colors.background, fontWeight: 'bold' },
+    listContainer: { gap: theme.spacing.md },
+    skeletonItem: { backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, height: 88, opacity: 0.5 },
+    moreButton: { alignItems: 'center', paddingVertical: theme.spacing.md, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg },
+    moreButtonText: { fontSize: theme.typography.labelLarge.fontSize, fontWeight: '600', color: theme.colors.onSurface },
+    emptyContainer: { alignItems: 'center', paddingVertical: theme.spacing.lg, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.md },
+    emptyText: { color: theme.colors.onSurfaceVariant, fontSize: theme.typography.bodyMedium.fontSize, textAlign: 'center', paddingHorizontal: theme.spacing.lg },
+    emptyLink: { fontSize: theme.typography.labelLarge.fontSize, fontWeight: '600', color: theme.colors.primary, textDecorationLine: 'underline', marginTop: theme.spacing.xs },
+});
+
+export default FeedDiscovery;
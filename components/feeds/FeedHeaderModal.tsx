@@ -14,7 +14,7 @@ import { useAuthGuard } from '@/hooks/useAuthGuard';
 import { PrimaryButton, SecondaryButton, LoadingState, Tooltip } from '@/components/shared';
 
 const FeedHeaderModal: React.FC = () => {
-    const { feedModalUri, closeFeedModal } = useUI();
+    const { feedModalUri, closeFeedModal, openReportModal } = useUI();
     const { t } = useTranslation();
     const { requireAuth } = useAuthGuard();
     const { theme } = useTheme();
@@ -113,7 +113,10 @@ const FeedHeaderModal: React.FC = () => {
                     <ActionButton
                         icon={AlertCircle}
                         text={t('feedModal.report')}
-                        onPress={() => alert(t('feedModal.reportNotImplemented'))}
+                        onPress={() => {
+                            closeFeedModal();
+                            openReportModal({ type: 'feed', uri: feedView.uri, cid: feedView.cid });
+                        }}
                         isDestructive
                         tooltipKey="post.report"
                     />
@@ -7,6 +7,7 @@ import FeedAvatar from './FeedAvatar';
 import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { Link } from 'expo-router';
 import { useTheme } from '@/components/shared';
+import { getFeedHref } from '@/lib/feeds';
 
 interface FeedSearchResultCardProps {
   feed:AppBskyFeedDefs.GeneratorView;
@@ -20,7 +21,8 @@ const FeedSearchResultCard: React.FC<FeedSearchResultCardProps> = ({ feed, isPin
     const { theme } = useTheme();
     
     const styles = createStyles(theme);
-    const feedLink = `/profile/${feed.creator.handle}/feed/${feed.uri.split('/').pop()}`;
+    // Opened from discovery, so the feed can be tried before saving it
+    const feedLink = getFeedHref(feed, { preview: true });
 
     const handleTogglePin = (e: any) => {
         e.preventDefault();
@@ -1,10 +1,13 @@
 
 import React from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
 import { useTheme } from '@/components/shared';
 import { BackHeader, IconButton, Tooltip } from '@/components/shared';
-import { MoreHorizontal, Share2 } from 'lucide-react';
+import { Heart, MoreHorizontal, Share2 } from 'lucide-react';
 import { useFeedActions } from '@/hooks/useFeedActions';
+import { useAtp } from '@/context/AtpContext';
+import { formatCompactNumber } from '@/lib/formatters';
 
 interface FeedViewHeaderProps {
     feedUri: string;
@@ -17,7 +20,9 @@ const FeedViewHeader: React.FC<FeedViewHeaderProps> = ({
     onBack, 
     openFeedModal 
 }) => {
-    const { feedView, isLoading, likeCount } = useFeedActions(feedUri);
+    const { feedView, isLoading, likeUri, likeCount, isLiking, handleLike, handleShare } = useFeedActions(feedUri);
+    const { session } = useAtp();
+    const { t } = useTranslation();
     const { theme } = useTheme();
     
     const styles = createStyles(theme);
@@ -42,10 +47,24 @@ const FeedViewHeader: React.FC<FeedViewHeaderProps> = ({
 
     const rightActions = (
         <View style={styles.actions}>
+            {session && (
+                <Tooltip contentKey={likeUri ? "post.unlike" : "post.like"} position="bottom">
+                    <View style={styles.likeAction}>
+                        <IconButton
+                            icon={<Heart size={20} color={likeUri ? theme.colors.error : theme.colors.onSurface} fill={likeUri ? theme.colors.error : 'none'} />}
+                            onPress={handleLike}
+                            disabled={isLiking}
+                            variant="ghost"
+                            accessibilityLabel={likeUri ? t('feedModal.unlike') : t('feedModal.like')}
+                        />
+                        {likeCount > 0 && <Text style={styles.likeCount}>{formatCompactNumber(likeCount)}</Text>}
+                    </View>
+                </Tooltip>
+            )}
             <Tooltip contentKey="common.share" position="bottom">
                 <IconButton
                     icon={<Share2 size={20} />}
-                    onPress={() => {/* TODO: Implement share */}}
+                    onPress={handleShare}
                     variant="ghost"
                     accessibilityLabel="Compartilhar"
                 />
@@ -92,8 +111,17 @@ const createStyles = (theme: any) => StyleSheet.create({
     },
     actions: {
         flexDirection: 'row',
+        alignItems: 'center',
         gap: 8,
     },
+    likeAction: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    likeCount: {
+        color: theme.colors.onSurfaceVariant,
+        fontSize: theme.typography.labelMedium.fontSize,
+    },
 });
 
 export default FeedViewHeader;
\ No newline at end of file
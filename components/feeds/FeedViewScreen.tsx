@@ -1,28 +1,35 @@
 
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useAtp } from '../../context/AtpContext';
 import { useUI } from '../../context/UIContext';
 import Feed from '../shared/Feed';
 import FeedViewHeader from './FeedViewHeader';
 import Head from 'expo-router/head';
 import { useFeedActions } from '../../hooks/useFeedActions';
-import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useSavedFeeds } from '../../hooks/useSavedFeeds';
+import { useAtp } from '../../context/AtpContext';
+import { View, Text, StyleSheet, ActivityIndicator, Pressable } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/components/shared';
 import ErrorState from '../shared/ErrorState';
-import { ListX } from 'lucide-react';
+import { ListX, Eye } from 'lucide-react';
 import ScreenHeader from '../layout/ScreenHeader';
+import { resolveActorDid } from '@/lib/identity';
+import { getFeedGeneratorUri } from '@/lib/feeds';
 
 interface FeedViewScreenProps {
     handle: string;
     rkey: string;
+    // Opened from discovery: offers to save the feed while it isn't saved yet
+    isPreview?: boolean;
 }
 
-const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey }) => {
-    const { agent } = useAtp();
+const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey, isPreview = false }) => {
     const { t } = useTranslation();
-    const { setCustomFeedHeaderVisible } = useUI();
+    const { session } = useAtp();
+    const { setCustomFeedHeaderVisible, openFeedModal } = useUI();
+    const { allUris, addFeed } = useSavedFeeds();
+    const [isSaving, setIsSaving] = useState(false);
     const { theme } = useTheme();
     
     const styles = createStyles(theme);
@@ -43,8 +50,8 @@ const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey }) => {
             setIsLoading(true);
             setError(null);
             try {
-                const { data } = await agent.resolveHandle({ handle });
-                const uri = `at://${data.did}/app.bsky.feed.generator/${rkey}`;
+                const did = await resolveActorDid(handle);
+                const uri = getFeedGeneratorUri(did, rkey);
                 setFeedUri(uri);
             } catch (err) {
                 console.error("Failed to resolve handle to create feed URI:", err);
@@ -54,7 +61,7 @@ const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey }) => {
             }
         };
         resolveHandleAndSetUri();
-    }, [agent, handle, rkey, t]);
+    }, [handle, rkey, t]);
     
     if (isLoading) {
         return (
@@ -80,6 +87,17 @@ const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey }) => {
     }
 
     const feedUrl = `https://bsky.app/profile/${handle}/feed/${rkey}`;
+    const showPreviewBanner = isPreview && !!session && !!feedView && !allUris.includes(feedUri);
+
+    const handleSave = async (pin: boolean) => {
+        if (!feedView || isSaving) return;
+        setIsSaving(true);
+        try {
+            await addFeed(feedView, pin);
+        } finally {
+            setIsSaving(false);
+        }
+    };
     const truncatedDescription = feedView?.description ? (feedView.description.length > 155 ? feedView.description.substring(0, 155) + '...' : feedView.description) : `View the '${feedView?.displayName}' feed on Takaka.`;
 
     return (
@@ -98,8 +116,20 @@ const FeedViewScreen: React.FC<FeedViewScreenProps> = ({ handle, rkey }) => {
                 <FeedViewHeader
                     feedUri={feedUri}
                     onBack={() => router.back()}
-                    openFeedModal={() => {/* TODO: Implement feed modal */}}
+                    openFeedModal={openFeedModal}
                 />
+                {showPreviewBanner && (
+                    <View style={styles.previewBanner}>
+                        <Eye size={18} color={theme.colors.onSurfaceVariant} />
+                        <Text style={styles.previewText}>{t('feedView.previewing')}</Text>
+                        <Pressable onPress={() => handleSave(false)} disabled={isSaving} style={styles.previewButton}>
+                            <Text style={styles.previewButtonText}>{t('feedView.save')}</Text>
+                        </Pressable>
+                        <Pressable onPress={() => handleSave(true)} disabled={isSaving} style={[styles.previewButton, styles.previewButtonPrimary]}>
+                            <Text style={[styles.previewButtonText, styles.previewButtonTextPrimary]}>{t('feeds.pinAction')}</Text>
+                        </Pressable>
+                    </View>
+                )}
                 <View style={styles.feedContainer}>
                     <Feed key={feedUri} feedUri={feedUri} />
                 </View>
@@ -116,7 +146,37 @@ const createStyles = (theme: any) => StyleSheet.create({
     },
     feedContainer: {
         flex: 1,
-    }
+    },
+    previewBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+        paddingHorizontal: theme.spacing.lg,
+        paddingVertical: theme.spacing.sm,
+        backgroundColor: theme.colors.surfaceContainer,
+    },
+    previewText: {
+        flex: 1,
+        color: theme.colors.onSurfaceVariant,
+        fontSize: theme.typography.bodyMedium.fontSize,
+    },
+    previewButton: {
+        paddingVertical: theme.spacing.xs,
+        paddingHorizontal: theme.spacing.md,
+        borderRadius: theme.radius.full,
+        backgroundColor: theme.colors.surfaceContainerHigh,
+    },
+    previewButtonPrimary: {
+        backgroundColor: theme.colors.primary,
+    },
+    previewButtonText: {
+        fontSize: theme.typography.labelLarge.fontSize,
+        fontWeight: '600',
+        color: theme.colors.onSurface,
+    },
+    previewButtonTextPrimary: {
+        color: theme.colors.onPrimary,
+    },
 });
 
 export default FeedViewScreen;
\ No newline at end of file
@@ -4,8 +4,8 @@ import { useTranslation } from 'react-i18next';
 import { useSavedFeeds } from '../../hooks/useSavedFeeds';
 import { useAtp } from '../../context/AtpContext';
 import {AppBskyFeedDefs } from '@atproto/api';
-import { Pin, Trash2, Search, ArrowUp, ArrowDown } from 'lucide-react';
-import PopularFeeds from './PopularFeeds';
+import { Pin, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import FeedDiscovery from './FeedDiscovery';
 import { useUI } from '../../context/UIContext';
 import ScreenHeader from '../layout/ScreenHeader';
 import FeedAvatar from './FeedAvatar';
@@ -13,6 +13,7 @@ import Head from 'expo-router/head';
 import { View, Text, Pressable, StyleSheet, ActivityIndicator, ScrollView } from 'react-native';
 import { Link } from 'expo-router';
 import { useTheme } from '@/components/shared';
+import { getFeedHref } from '@/lib/feeds';
 
 const EditableFeedItem: React.FC<{
     feed:AppBskyFeedDefs.GeneratorView;
@@ -29,7 +30,7 @@ const EditableFeedItem: React.FC<{
     const { theme } = useTheme();
     
     const styles = createStyles(theme);
-    const feedLink = `/profile/${feed.creator.handle}/feed/${feed.uri.split('/').pop()}`;
+    const feedLink = getFeedHref(feed);
 
     return (
         <View style={[styles.itemContainer, disabled && styles.itemDisabled]}>
@@ -112,15 +113,8 @@ const FeedsScreen: React.FC = () => {
                 <Head><title>{t('feeds.title')}</title></Head>
                 <ScreenHeader title={t('feeds.title')} />
                 <ScrollView contentContainerStyle={styles.contentContainer}>
-                    <View style={styles.discoverHeader}>
-                        <Text style={styles.sectionTitle}>{t('feeds.discover')}</Text>
-                        <Link href="/search?filter=feeds" asChild>
-                            <Pressable style={styles.searchButton}>
-                                <Search size={20} color={theme.colors.onSurfaceVariant} />
-                            </Pressable>
-                        </Link>
-                    </View>
-                    <PopularFeeds showHeader={false} />
+                    <Text style={styles.sectionTitle}>{t('feeds.discover')}</Text>
+                    <FeedDiscovery />
                 </ScrollView>
             </>
         );
@@ -196,6 +190,11 @@ const FeedsScreen: React.FC = () => {
                             </View>
                         )}
                     </View>
+
+                    <View>
+                        <Text style={styles.sectionTitle}>{t('feeds.discover')}</Text>
+                        <FeedDiscovery />
+                    </View>
                 </View>
             </ScrollView>
         </>
@@ -223,8 +222,6 @@ const createStyles = (theme: any) => StyleSheet.create({
     emptyContainer: { alignItems: 'center', paddingVertical: theme.spacing.lg, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.md },
     emptyText: { color: theme.colors.onSurfaceVariant, fontSize: theme.typography.bodyMedium.fontSize },
     emptyLink: { fontSize: theme.typography.labelLarge.fontSize, fontWeight: '600', color: theme.colors.primary, textDecorationLine: 'underline', marginTop: theme.spacing.xs },
-    discoverHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: theme.spacing.lg },
-    searchButton: { padding: theme.spacing.sm, marginRight: -theme.spacing.sm },
     skeletonItem: { backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, height: 84, opacity: 0.5 },
 });
 
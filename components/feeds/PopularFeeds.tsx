@@ -1,13 +1,14 @@
 
 
 
-import React, { useState, useEffect } from 'react';
-import { useAtp } from '../../context/AtpContext';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { useSavedFeeds } from '../../hooks/useSavedFeeds';
+import { useFeedDiscovery } from '../../hooks/useFeedDiscovery';
 import { AppBskyFeedDefs } from '@atproto/api';
 import { Search } from 'lucide-react';
 import FeedSearchResultCard from './FeedSearchResultCard';
-import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
 import { Link } from 'expo-router';
 
 
@@ -16,26 +17,9 @@ interface PopularFeedsProps {
 }
 
 const PopularFeeds: React.FC<PopularFeedsProps> = ({ showHeader = true }) => {
-    const { agent } = useAtp();
-    const [feeds, setFeeds] = useState<AppBskyFeedDefs.GeneratorView[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const { t } = useTranslation();
+    const { feeds, isLoading, isLoadingMore, hasMore, loadMore } = useFeedDiscovery('popular');
     const { pinnedUris, togglePin, addFeed } = useSavedFeeds();
-    
-    useEffect(() => {
-        const fetchFeeds = async () => {
-            setIsLoading(true);
-            try {
-                // This is an unspecced API but widely used by clients.
-                const response = await (agent.api.app.bsky.unspecced as any).getPopularFeedGenerators({ limit: 15 });
-                setFeeds(response.data.feeds);
-            } catch (error) {
-                console.error("Failed to fetch popular feeds:", error);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-        fetchFeeds();
-    }, [agent]);
 
     const handlePinToggle = (feed: AppBskyFeedDefs.GeneratorView) => {
         const isPinned = pinnedUris.has(feed.uri);
@@ -74,6 +58,13 @@ const PopularFeeds: React.FC<PopularFeedsProps> = ({ showHeader = true }) => {
                             onTogglePin={() => handlePinToggle(feed)}
                         />
                     ))}
+                    {hasMore && (
+                        <Pressable onPress={loadMore} disabled={isLoadingMore} style={styles.moreButton}>
+                            {isLoadingMore
+                                ? <ActivityIndicator color="#C3C6CF" />
+                                : <Text style={styles.moreButtonText}>{t('feeds.showMore')}</Text>}
+                        </Pressable>
+                    )}
                 </View>
              )}
         </View>
@@ -109,6 +100,17 @@ const styles = StyleSheet.create({
     listContainer: {
         gap: 12,
     },
+    moreButton: {
+        alignItems: 'center',
+        paddingVertical: 12,
+        backgroundColor: '#1E2021', // surface-2
+        borderRadius: 12,
+    },
+    moreButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#E2E2E6',
+    },
 });
 
 export default PopularFeeds;
\ No newline at end of file
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, FlatList, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import Head from 'expo-router/head';
+import { AtUri } from '@atproto/api';
+import { History, Trash2, X } from 'lucide-react';
+import ScreenHeader from '@/components/layout/ScreenHeader';
+import { useTheme } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import { useWatchHistory, WatchHistoryEntry } from '@/context/WatchHistoryContext';
+import { formatDateTime } from '@/lib/formatters';
+import { WATCH_HISTORY_CONFIG } from '@/lib/config';
+
+/** Videos watched in the Watch tab, most recent first, kept on this device. */
+const HistoryScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { entries, isLoaded, removeEntry, clearHistory } = useWatchHistory();
+
+  const confirmClear = () => {
+    const message = t('history.clearConfirm');
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) clearHistory();
+    } else {
+      Alert.alert(t('history.clear'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('history.clear'), style: 'destructive', onPress: clearHistory },
+      ]);
+    }
+  };
+
+  const openPost = (entry: WatchHistoryEntry) => {
+    const uri = new AtUri(entry.uri);
+    router.push(`/post/${uri.hostname}/${uri.rkey}` as any);
+  };
+
+  const renderEntry = ({ item }: { item: WatchHistoryEntry }) => {
+    const isCompleted = item.percent >= WATCH_HISTORY_CONFIG.COMPLETED_PERCENT;
+    return (
+      <Pressable onPress={() => openPost(item)} style={styles.item}>
+        <View style={styles.thumbnailContainer}>
+          {item.thumbnail
+            ? <OptimizedImage source={{ uri: item.thumbnail }} style={styles.thumbnail} contentFit="cover" />
+            : <View style={styles.thumbnail} />}
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(item.percent * 100)}%` }]} />
+          </View>
+        </View>
+        <View style={styles.itemText}>
+          <Text style={styles.author} numberOfLines={1}>{item.author.displayName || `@${item.author.handle}`}</Text>
+          {!!item.text && <Text style={styles.text} numberOfLines={2}>{item.text}</Text>}
+          <Text style={styles.meta}>
+            {isCompleted ? t('history.completed') : t('history.progress', { percent: Math.round(item.percent * 100) })}
+            {` · ${formatDateTime(item.watchedAt)}`}
+          </Text>
+        </View>
+        <Pressable onPress={() => removeEntry(item.uri)} style={styles.removeButton} accessibilityLabel={t('history.remove')}>
+          <X size={18} color={theme.colors.onSurfaceVariant} />
+        </Pressable>
+      </Pressable>
+    );
+  };
+
+  const headerActions = entries.length > 0 && (
+    <Pressable onPress={confirmClear} style={styles.headerButton} accessibilityLabel={t('history.clear')}>
+      <Trash2 size={22} color={theme.colors.error} />
+    </Pressable>
+  );
+
+  return (
+    <>
+      <Head><title>{t('history.title')}</title></Head>
+      <View style={{ flex: 1 }}>
+        <ScreenHeader title={t('history.title')}>{headerActions}</ScreenHeader>
+        {!isLoaded ? (
+          <View style={styles.centered}><ActivityIndicator size="large" color={theme.colors.primary} /></View>
+        ) : entries.length === 0 ? (
+          <View style={styles.centered}>
+            <History size={48} color={theme.colors.onSurfaceVariant} />
+            <Text style={styles.emptyTitle}>{t('history.emptyTitle')}</Text>
+            <Text style={styles.emptyMessage}>{t('history.emptyMessage')}</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={(item) => item.uri}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.list}
+            ListHeaderComponent={<Text style={styles.hint}>{t('history.hint')}</Text>}
+          />
+        )}
+      </View>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: theme.spacing.xl, gap: theme.spacing.m },
+  emptyTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface, textAlign: 'center' },
+  emptyMessage: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center' },
+  headerButton: { padding: theme.spacing.sm },
+  list: { padding: theme.spacing.l, gap: theme.spacing.m },
+  hint: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  item: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.m },
+  thumbnailContainer: { width: 64, height: 96, borderRadius: theme.radius.md, overflow: 'hidden', backgroundColor: theme.colors.surfaceContainerHigh },
+  thumbnail: { width: '100%', height: '100%' },
+  progressTrack: { position: 'absolute', left: 0, right: 0, bottom: 0, height: 3, backgroundColor: 'rgba(255,255,255,0.3)' },
+  progressFill: { height: '100%', backgroundColor: theme.colors.primary },
+  itemText: { flex: 1, gap: theme.spacing.xs },
+  author: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  text: { ...theme.typography.bodyMedium, color: theme.colors.onSurface },
+  meta: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  removeButton: { padding: theme.spacing.s, borderRadius: theme.radius.full },
+});
+
+export default HistoryScreen;
@@ -11,18 +11,20 @@ import { View, Pressable, Text, StyleSheet, useWindowDimensions } from 'react-na
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '@/components/shared';
 import { Tooltip } from '../shared/Tooltip';
+import SyncIndicator from './SyncIndicator';
 
 const NavItem: React.FC<{ item: any; isDesktop: boolean; }> = ({ item, isDesktop }) => {
   const { t } = useTranslation();
   const { theme } = useTheme();
-  const { unreadCount } = useAtp();
+  const { unreadCount, chatUnreadCount } = useAtp();
   const router = useRouter();
   
   // Create dynamic styles for this component
   const styles = createStyles(theme);
   
-  const isNotifications = item.labelKey === 'nav.notifications';
-  const hasNotificationBadge = isNotifications && unreadCount > 0;
+  const badgeCount = item.labelKey === 'nav.notifications' ? unreadCount
+    : item.labelKey === 'nav.messages' ? chatUnreadCount
+    : 0;
 
   const handlePress = (e: any) => {
     if (item.isAction) {
@@ -42,9 +44,9 @@ const NavItem: React.FC<{ item: any; isDesktop: boolean; }> = ({ item, isDesktop
           size={24}
           color={item.activeCondition ? theme.colors.onSurface : theme.colors.onSurfaceVariant}
         />
-        {hasNotificationBadge && (
+        {badgeCount > 0 && (
           <View style={styles.badge}>
-            <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+            <Text style={styles.badgeText}>{badgeCount > 99 ? '99+' : badgeCount}</Text>
           </View>
         )}
       </View>
@@ -90,6 +92,7 @@ const BottomNavbar = () => {
     ...(session ? [
       { href: '/search', labelKey: 'nav.search', iconName: 'search-outline', activeCondition: pathname.startsWith('/search') },
       { isAction: true, action: () => openComposer(), labelKey: 'nav.compose', iconName: 'add-outline', activeCondition: false, href: '#' },
+      { href: '/messages', labelKey: 'nav.messages', iconName: 'chatbubble-outline', activeCondition: pathname.startsWith('/messages') },
       { href: '/notifications', labelKey: 'nav.notifications', iconName: 'notifications-outline', activeCondition: pathname.startsWith('/notifications') },
       { href: '/more', labelKey: 'nav.more', iconName: 'grid-outline', activeCondition: pathname.startsWith('/settings') || pathname.startsWith('/more') },
     ] : [
@@ -111,6 +114,7 @@ const BottomNavbar = () => {
         <View style={styles.navRailSection}>
           {session ? (
             <>
+              <SyncIndicator isDesktop />
               <NavItem item={composeItem} isDesktop />
               <NavItem item={logoutItem} isDesktop />
             </>
@@ -123,6 +127,11 @@ const BottomNavbar = () => {
   // Render Bottom Navigation Bar for smaller screens
   return (
     <View style={[styles.navBar, { height: 60 + bottom, paddingBottom: bottom }]}>
+      {session && (
+        <View style={styles.syncIndicatorContainer} pointerEvents="box-none">
+          <SyncIndicator isDesktop={false} />
+        </View>
+      )}
       {navItems.map(item => <NavItem key={item.labelKey} item={item} isDesktop={false} />)}
     </View>
   );
@@ -177,6 +186,14 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderTopWidth: 0,
     zIndex: 50,
   },
+  // Floats just above the bar so it doesn't take a tab's place
+  syncIndicatorContainer: {
+    position: 'absolute',
+    top: -40,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+  },
   navBarItem: {
     flex: 1,
     height: '100%',
@@ -0,0 +1,86 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { View, Pressable, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useActionQueue } from '../../context/ActionQueueContext';
+import { useTheme } from '@/components/shared';
+import { Tooltip } from '../shared/Tooltip';
+
+/** Shows how many likes, follows etc. are still waiting to reach the server. Tapping retries now. */
+const SyncIndicator: React.FC<{ isDesktop: boolean }> = ({ isDesktop }) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const { pendingActions, isSyncing, flush } = useActionQueue();
+  const styles = createStyles(theme);
+
+  const count = pendingActions.length;
+  if (count === 0) return null;
+
+  const label = t('sync.pending', { count });
+
+  return (
+    <Tooltip content={t('sync.retryNow')} position="top">
+      <Pressable
+        onPress={() => flush()}
+        style={({ pressed }) => [isDesktop ? styles.railItem : styles.pill, pressed && styles.pressed]}
+        accessibilityRole="button"
+        accessibilityLabel={label}
+      >
+        {isSyncing
+          ? <ActivityIndicator size="small" color={theme.colors.onSurfaceVariant} />
+          : <Ionicons name="cloud-upload-outline" size={isDesktop ? 24 : 16} color={theme.colors.onSurfaceVariant} />}
+        {isDesktop ? (
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{count > 99 ? '99+' : count}</Text>
+          </View>
+        ) : (
+          <Text style={styles.pillText}>{label}</Text>
+        )}
+      </Pressable>
+    </Tooltip>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  pressed: {
+    opacity: 0.7,
+  },
+  railItem: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 2,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+    borderRadius: theme.radius.full,
+    paddingHorizontal: 4,
+    minWidth: 16,
+    height: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    ...theme.typography.labelSmall,
+    color: theme.colors.onSurface,
+    fontWeight: 'bold',
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.m,
+    borderRadius: theme.radius.full,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+  },
+  pillText: {
+    ...theme.typography.labelMedium,
+    color: theme.colors.onSurfaceVariant,
+  },
+});
+
+export default SyncIndicator;
@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, FlatList } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import { AppBskyGraphDefs } from '@atproto/api';
+import { Plus } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useTheme } from '@/components/shared';
+import ListCard from './ListCard';
+import StarterPackCard from './StarterPackCard';
+import ListEditorModal from './ListEditorModal';
+import { getListHref } from '@/lib/lists';
+
+type ActorListsItem =
+  | { type: 'header'; key: string; titleKey: string }
+  | { type: 'error'; key: string; messageKey: string }
+  | { type: 'list'; key: string; list: AppBskyGraphDefs.ListView }
+  | { type: 'starterPack'; key: string; pack: AppBskyGraphDefs.StarterPackViewBasic };
+
+interface ActorListsProps {
+  actor: string;
+  isMe: boolean;
+  ListHeaderComponent?: React.ComponentType<any> | React.ReactElement | null;
+}
+
+/** The Lists tab of a profile: the actor's curation and moderation lists, then their starter packs. */
+const ActorLists: React.FC<ActorListsProps> = ({ actor, isMe, ListHeaderComponent }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { agent, publicApiAgent, session } = useAtp();
+  const [lists, setLists] = useState<AppBskyGraphDefs.ListView[]>([]);
+  const [starterPacks, setStarterPacks] = useState<AppBskyGraphDefs.StarterPackViewBasic[]>([]);
+  const [listsCursor, setListsCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Each section loads on its own, so one failing request doesn't hide the other section
+  const [failedSections, setFailedSections] = useState<{ lists: boolean; starterPacks: boolean }>({ lists: false, starterPacks: false });
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const readAgent = session ? agent : publicApiAgent;
+
+  const fetchLists = useCallback(async () => {
+    const [listsResult, packsResult] = await Promise.allSettled([
+      readAgent.app.bsky.graph.getLists({ actor, limit: 50 }),
+      readAgent.app.bsky.graph.getActorStarterPacks({ actor, limit: 50 }),
+    ]);
+    if (listsResult.status === 'fulfilled') {
+      setLists(listsResult.value.data.lists);
+      setListsCursor(listsResult.value.data.cursor);
+    } else {
+      console.error("Failed to load lists", listsResult.reason);
+      setLists([]);
+      setListsCursor(undefined);
+    }
+    if (packsResult.status === 'fulfilled') {
+      setStarterPacks(packsResult.value.data.starterPacks);
+    } else {
+      console.error("Failed to load starter packs", packsResult.reason);
+      setStarterPacks([]);
+    }
+    setFailedSections({ lists: listsResult.status === 'rejected', starterPacks: packsResult.status === 'rejected' });
+  }, [readAgent, actor]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchLists().finally(() => setIsLoading(false));
+  }, [fetchLists]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoadingMore || !listsCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { data } = await readAgent.app.bsky.graph.getLists({ actor, limit: 50, cursor: listsCursor });
+      setLists(prev => [...prev, ...data.lists]);
+      setListsCursor(data.lists.length > 0 ? data.cursor : undefined);
+    } catch (err) {
+      console.error("Failed to load more lists", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [readAgent, actor, listsCursor, isLoadingMore]);
+
+  const items = useMemo<ActorListsItem[]>(() => {
+    const result: ActorListsItem[] = [];
+    if (lists.length > 0 || failedSections.lists) {
+      result.push({ type: 'header', key: 'lists-header', titleKey: 'lists.title' });
+      if (failedSections.lists) result.push({ type: 'error', key: 'lists-error', messageKey: 'lists.loadingError' });
+      lists.forEach(list => result.push({ type: 'list', key: list.uri, list }));
+    }
+    if (starterPacks.length > 0 || failedSections.starterPacks) {
+      result.push({ type: 'header', key: 'packs-header', titleKey: 'lists.starterPacks' });
+      if (failedSections.starterPacks) result.push({ type: 'error', key: 'packs-error', messageKey: 'lists.starterPacksLoadingError' });
+      starterPacks.forEach(pack => result.push({ type: 'starterPack', key: pack.uri, pack }));
+    }
+    return result;
+  }, [lists, starterPacks, failedSections]);
+
+  const renderItem = ({ item }: { item: ActorListsItem }) => {
+    if (item.type === 'header') return <Text style={styles.sectionTitle}>{t(item.titleKey)}</Text>;
+    if (item.type === 'error') return <View style={styles.sectionMessage}><Text style={styles.errorText}>{t(item.messageKey)}</Text></View>;
+    if (item.type === 'list') return <ListCard list={item.list} />;
+    return <StarterPackCard pack={item.pack} />;
+  };
+
+  const Header = (
+    <>
+      {ListHeaderComponent && (React.isValidElement(ListHeaderComponent) ? ListHeaderComponent : <ListHeaderComponent />)}
+      {isMe && (
+        <Pressable onPress={() => setIsEditorVisible(true)} style={styles.newListButton}>
+          <Plus size={18} color={theme.colors.onSurface} />
+          <Text style={styles.newListText}>{t('lists.newList')}</Text>
+        </Pressable>
+      )}
+    </>
+  );
+
+  return (
+    <>
+      <FlatList
+        data={isLoading ? [] : items}
+        renderItem={renderItem}
+        keyExtractor={item => item.key}
+        ListHeaderComponent={Header}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} /> : null}
+        ListEmptyComponent={
+          isLoading
+            ? <ActivityIndicator style={{ marginVertical: 32 }} size="large" color={theme.colors.primary} />
+            : <View style={styles.messageContainer}><Text style={styles.infoText}>{t('lists.empty')}</Text></View>
+        }
+      />
+      {isMe && (
+        <ListEditorModal
+          visible={isEditorVisible}
+          onClose={() => setIsEditorVisible(false)}
+          onSaved={(uri) => {
+            fetchLists();
+            if (session) router.push(getListHref({ uri, creator: { handle: session.handle } }) as any);
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  sectionTitle: { ...theme.typography.titleSmall, color: theme.colors.onSurfaceVariant, paddingHorizontal: theme.spacing.l, paddingTop: theme.spacing.l, paddingBottom: theme.spacing.s },
+  sectionMessage: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.s },
+  newListButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.s, marginHorizontal: theme.spacing.l, marginBottom: theme.spacing.s, padding: theme.spacing.m, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+  newListText: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+  messageContainer: { padding: 32, alignItems: 'center' },
+  errorText: { color: theme.colors.error },
+  infoText: { color: theme.colors.onSurfaceVariant },
+});
+
+export default ActorLists;
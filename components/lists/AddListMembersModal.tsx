@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, Modal, ActivityIndicator, FlatList } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyActorDefs, AppBskyGraphDefs } from '@atproto/api';
+import { X } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import { useDebounce } from '@/hooks/useDebounce';
+import { addListMember } from '@/lib/lists';
+
+interface AddListMembersModalProps {
+  visible: boolean;
+  list: AppBskyGraphDefs.ListView;
+  memberDids: Set<string>;
+  onAdded: (item: AppBskyGraphDefs.ListItemView) => void;
+  onClose: () => void;
+}
+
+/** Search-and-add dialog the list owner uses to put people on a list. */
+const AddListMembersModal: React.FC<AddListMembersModalProps> = ({ visible, list, memberDids, onAdded, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent } = useAtp();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<AppBskyActorDefs.ProfileViewBasic[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [addingDid, setAddingDid] = useState<string | null>(null);
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    if (!visible) setQuery('');
+  }, [visible]);
+
+  useEffect(() => {
+    const q = debouncedQuery.trim();
+    if (!q) {
+      setResults([]);
+      return;
+    }
+    let isCancelled = false;
+    setIsSearching(true);
+    agent.app.bsky.actor.searchActorsTypeahead({ q, limit: 15 })
+      .then(({ data }) => { if (!isCancelled) setResults(data.actors); })
+      .catch(error => console.error("Failed to search actors", error))
+      .finally(() => { if (!isCancelled) setIsSearching(false); });
+    return () => { isCancelled = true; };
+  }, [agent, debouncedQuery]);
+
+  const handleAdd = async (actor: AppBskyActorDefs.ProfileViewBasic) => {
+    if (addingDid) return;
+    setAddingDid(actor.did);
+    try {
+      const uri = await addListMember(agent, list.uri, actor.did);
+      onAdded({ uri, subject: { did: actor.did, handle: actor.handle, displayName: actor.displayName, avatar: actor.avatar } });
+    } catch (error) {
+      console.error("Failed to add list member", error);
+      toast({ title: t('lists.toast.membershipError'), variant: "destructive" });
+    } finally {
+      setAddingDid(null);
+    }
+  };
+
+  const renderItem = ({ item }: { item: AppBskyActorDefs.ProfileViewBasic }) => {
+    const isMember = memberDids.has(item.did);
+    return (
+      <View style={styles.actorRow}>
+        <OptimizedImage source={{ uri: item.avatar }} style={styles.avatar} />
+        <View style={styles.actorInfo}>
+          <Text style={styles.displayName} numberOfLines={1}>{item.displayName || `@${item.handle}`}</Text>
+          <Text style={styles.handle} numberOfLines={1}>@{item.handle}</Text>
+        </View>
+        <Pressable onPress={() => handleAdd(item)} disabled={isMember || !!addingDid} style={[styles.addButton, isMember && styles.addedButton]}>
+          {addingDid === item.did
+            ? <ActivityIndicator size="small" color={theme.colors.onPrimary} />
+            : <Text style={[styles.addButtonText, isMember && styles.addedButtonText]}>{t(isMember ? 'lists.added' : 'lists.add')}</Text>}
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('lists.addPeople')}</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}><X color={theme.colors.onSurfaceVariant} /></Pressable>
+          </View>
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('lists.searchPeople')}
+            placeholderTextColor={theme.colors.onSurfaceVariant}
+            style={styles.input}
+            autoFocus
+            autoCapitalize="none"
+          />
+          {isSearching && results.length === 0
+            ? <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} />
+            : <FlatList data={results} renderItem={renderItem} keyExtractor={item => item.did} keyboardShouldPersistTaps="handled" />}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  sheet: { backgroundColor: theme.colors.surfaceContainer, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl, padding: theme.spacing.l, paddingTop: theme.spacing.s, gap: theme.spacing.m, height: '75%' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+  input: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, backgroundColor: theme.colors.surfaceContainerHigh, borderRadius: theme.radius.md, color: theme.colors.onSurface, fontSize: 16 },
+  actorRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, paddingVertical: theme.spacing.s },
+  avatar: { width: 40, height: 40, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  actorInfo: { flex: 1, minWidth: 0 },
+  displayName: { ...theme.typography.bodyLarge, fontWeight: 'bold', color: theme.colors.onSurface },
+  handle: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  addButton: { paddingVertical: theme.spacing.s, paddingHorizontal: theme.spacing.l, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, minHeight: 36, justifyContent: 'center', alignItems: 'center' },
+  addedButton: { backgroundColor: theme.colors.surfaceContainerHigh },
+  addButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary, fontWeight: 'bold' },
+  addedButtonText: { color: theme.colors.onSurfaceVariant },
+});
+
+export default AddListMembersModal;
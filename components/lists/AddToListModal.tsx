@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, Modal, ActivityIndicator, FlatList } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyGraphGetListsWithMembership } from '@atproto/api';
+import { Check, Plus, X } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme } from '@/components/shared';
+import { addListMember, isModList, removeListMember } from '@/lib/lists';
+import ListEditorModal from './ListEditorModal';
+
+interface AddToListModalProps {
+  visible: boolean;
+  subject: { did: string; handle: string };
+  onClose: () => void;
+}
+
+/** Bottom sheet listing the viewer's lists, each toggling whether `subject` is a member. */
+const AddToListModal: React.FC<AddToListModalProps> = ({ visible, subject, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent } = useAtp();
+  const { toast } = useToast();
+  const [lists, setLists] = useState<AppBskyGraphGetListsWithMembership.ListWithMembership[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingUri, setPendingUri] = useState<string | null>(null);
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+
+  const fetchLists = useCallback(async () => {
+    try {
+      const { data } = await agent.app.bsky.graph.getListsWithMembership({ actor: subject.did, limit: 100 });
+      setLists(data.listsWithMembership);
+    } catch (error) {
+      console.error("Failed to load lists", error);
+      toast({ title: t('lists.toast.loadError'), variant: "destructive" });
+    }
+  }, [agent, subject.did, toast, t]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setIsLoading(true);
+    fetchLists().finally(() => setIsLoading(false));
+  }, [visible, fetchLists]);
+
+  const toggleMembership = async (entry: AppBskyGraphGetListsWithMembership.ListWithMembership) => {
+    if (pendingUri) return;
+    setPendingUri(entry.list.uri);
+    try {
+      if (entry.listItem) {
+        await removeListMember(agent, entry.listItem.uri);
+        setLists(prev => prev.map(item => item.list.uri === entry.list.uri ? { ...item, listItem: undefined } : item));
+        toast({ title: t('lists.toast.memberRemoved', { handle: subject.handle, name: entry.list.name }) });
+      } else {
+        const uri = await addListMember(agent, entry.list.uri, subject.did);
+        setLists(prev => prev.map(item => item.list.uri === entry.list.uri ? { ...item, listItem: { uri, subject: { did: subject.did, handle: subject.handle } } } : item));
+        toast({ title: t('lists.toast.memberAdded', { handle: subject.handle, name: entry.list.name }) });
+      }
+    } catch (error) {
+      console.error("Failed to update list membership", error);
+      toast({ title: t('lists.toast.membershipError'), variant: "destructive" });
+    } finally {
+      setPendingUri(null);
+    }
+  };
+
+  const renderItem = ({ item }: { item: AppBskyGraphGetListsWithMembership.ListWithMembership }) => (
+    <Pressable onPress={() => toggleMembership(item)} style={styles.listItem}>
+      <View style={styles.listInfo}>
+        <Text style={styles.listName} numberOfLines={1}>{item.list.name}</Text>
+        <Text style={styles.listPurpose}>{t(isModList(item.list) ? 'lists.modList' : 'lists.curateList')}</Text>
+      </View>
+      {pendingUri === item.list.uri
+        ? <ActivityIndicator size="small" color={theme.colors.onSurface} />
+        : <View style={[styles.checkbox, item.listItem && styles.checkboxChecked]}>{item.listItem && <Check size={16} color={theme.colors.onPrimary} />}</View>}
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('lists.addToListTitle', { handle: subject.handle })}</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}><X color={theme.colors.onSurfaceVariant} /></Pressable>
+          </View>
+          {isLoading ? (
+            <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} />
+          ) : (
+            <FlatList
+              data={lists}
+              renderItem={renderItem}
+              keyExtractor={item => item.list.uri}
+              ListEmptyComponent={<Text style={styles.emptyText}>{t('lists.noOwnLists')}</Text>}
+            />
+          )}
+          <Pressable onPress={() => setIsEditorVisible(true)} style={styles.newListButton}>
+            <Plus size={18} color={theme.colors.onSurface} />
+            <Text style={styles.newListText}>{t('lists.newList')}</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+      <ListEditorModal visible={isEditorVisible} onClose={() => setIsEditorVisible(false)} onSaved={() => fetchLists()} />
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  sheet: { backgroundColor: theme.colors.surfaceContainer, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl, padding: theme.spacing.l, paddingTop: theme.spacing.s, gap: theme.spacing.s, maxHeight: '75%' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing.m },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface, flexShrink: 1 },
+  closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+  listItem: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, padding: theme.spacing.m, borderRadius: theme.radius.md },
+  listInfo: { flex: 1, minWidth: 0 },
+  listName: { ...theme.typography.bodyLarge, color: theme.colors.onSurface },
+  listPurpose: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  checkbox: { width: 24, height: 24, borderRadius: theme.radius.sm, borderWidth: 2, borderColor: theme.colors.outline, justifyContent: 'center', alignItems: 'center' },
+  checkboxChecked: { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+  emptyText: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center', paddingVertical: theme.spacing.l },
+  newListButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.s, padding: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh, marginTop: theme.spacing.s },
+  newListText: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+});
+
+export default AddToListModal;
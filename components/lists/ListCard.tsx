@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'expo-router';
+import { AppBskyGraphDefs } from '@atproto/api';
+import { List, ShieldBan } from 'lucide-react';
+import { OptimizedImage } from '../ui';
+import { useTheme } from '@/components/shared';
+import { getListHref, isModList } from '@/lib/lists';
+
+interface ListCardProps {
+  list: AppBskyGraphDefs.ListView;
+  // Rendered at the end of the row, e.g. subscription buttons
+  trailing?: React.ReactNode;
+}
+
+const ListCard: React.FC<ListCardProps> = ({ list, trailing }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const FallbackIcon = isModList(list) ? ShieldBan : List;
+
+  const details = [
+    t(isModList(list) ? 'lists.modList' : 'lists.curateList'),
+    t('lists.byCreator', { handle: list.creator.handle }),
+    list.listItemCount !== undefined ? t('lists.memberCount', { count: list.listItemCount }) : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Link href={getListHref(list) as any} asChild>
+      <Pressable style={({ pressed }) => [styles.container, pressed && styles.pressed]}>
+        {list.avatar
+          ? <OptimizedImage source={{ uri: list.avatar }} style={styles.avatar} />
+          : <View style={[styles.avatar, styles.avatarFallback]}><FallbackIcon size={22} color={theme.colors.onSurfaceVariant} /></View>}
+        <View style={styles.content}>
+          <Text style={styles.name} numberOfLines={1}>{list.name}</Text>
+          <Text style={styles.details} numberOfLines={1}>{details}</Text>
+        </View>
+        {trailing}
+      </Pressable>
+    </Link>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m },
+  pressed: { backgroundColor: theme.colors.surfaceContainer },
+  avatar: { width: 48, height: 48, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+  avatarFallback: { justifyContent: 'center', alignItems: 'center' },
+  content: { flex: 1, minWidth: 0, gap: 2 },
+  name: { ...theme.typography.titleSmall, color: theme.colors.onSurface },
+  details: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+});
+
+export default ListCard;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, Modal, ActivityIndicator, Image, ScrollView } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyGraphDefs } from '@atproto/api';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme } from '@/components/shared';
+import { createList, ListPurpose, MAX_LIST_DESCRIPTION_LENGTH, MAX_LIST_NAME_LENGTH, updateList } from '@/lib/lists';
+
+// Same limit the PDS enforces for list avatars
+const MAX_AVATAR_BYTES = 1000000;
+
+const purposes: { id: ListPurpose; labelKey: string; descriptionKey: string }[] = [
+  { id: AppBskyGraphDefs.CURATELIST, labelKey: 'lists.curateList', descriptionKey: 'lists.curateListDescription' },
+  { id: AppBskyGraphDefs.MODLIST, labelKey: 'lists.modList', descriptionKey: 'lists.modListDescription' },
+];
+
+interface ListEditorModalProps {
+  visible: boolean;
+  // The list being edited; omit to create a new one
+  list?: AppBskyGraphDefs.ListView;
+  initialPurpose?: ListPurpose;
+  onClose: () => void;
+  onSaved: (listUri: string) => void;
+}
+
+/** Dialog for creating a list or editing its name, description and avatar. */
+const ListEditorModal: React.FC<ListEditorModalProps> = ({ visible, list, initialPurpose = AppBskyGraphDefs.CURATELIST, onClose, onSaved }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent, session } = useAtp();
+  const { toast } = useToast();
+  const [purpose, setPurpose] = useState<ListPurpose>(initialPurpose);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [avatarBlob, setAvatarBlob] = useState<Blob | undefined>(undefined);
+  const [avatarPreview, setAvatarPreview] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPurpose((list?.purpose as ListPurpose) ?? initialPurpose);
+    setName(list?.name ?? '');
+    setDescription(list?.description ?? '');
+    setAvatarBlob(undefined);
+    setAvatarPreview(list?.avatar);
+  }, [visible, list, initialPurpose]);
+
+  const canSubmit = !!name.trim() && !isSaving;
+
+  const pickAvatar = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    });
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    if (asset.fileSize && asset.fileSize > MAX_AVATAR_BYTES) {
+      toast({ title: t('editProfile.toast.imageTooLarge'), description: t('editProfile.toast.imageTooLargeDescription'), variant: "destructive" });
+      return;
+    }
+    setAvatarPreview(asset.uri);
+    const response = await fetch(asset.uri);
+    setAvatarBlob(await response.blob());
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !session) return;
+    setIsSaving(true);
+    const draft = { name: name.trim(), description: description.trim(), avatar: avatarBlob };
+    try {
+      if (list) {
+        await updateList(agent, list.uri, draft);
+        onSaved(list.uri);
+      } else {
+        onSaved(await createList(agent, session.did, purpose, draft));
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save list", error);
+      toast({ title: t('lists.toast.saveError'), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{t(list ? 'lists.editList' : 'lists.newList')}</Text>
+          <ScrollView contentContainerStyle={styles.form}>
+            {!list && (
+              <View style={styles.purposeRow}>
+                {purposes.map(option => (
+                  <Pressable key={option.id} onPress={() => setPurpose(option.id)} style={[styles.purposeOption, purpose === option.id && styles.purposeOptionActive]}>
+                    <Text style={styles.purposeLabel}>{t(option.labelKey)}</Text>
+                    <Text style={styles.purposeDescription}>{t(option.descriptionKey)}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <Pressable style={styles.avatarPressable} onPress={pickAvatar} accessibilityLabel={t('lists.changeAvatar')}>
+              {avatarPreview && <Image source={{ uri: avatarPreview }} style={styles.avatarImage} />}
+              <View style={styles.avatarOverlay}><Camera color="white" size={24} /></View>
+            </Pressable>
+            <View>
+              <Text style={styles.label}>{t('lists.name')}</Text>
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                placeholder={t('lists.namePlaceholder')}
+                placeholderTextColor={theme.colors.onSurfaceVariant}
+                style={styles.input}
+                maxLength={MAX_LIST_NAME_LENGTH}
+              />
+            </View>
+            <View>
+              <Text style={styles.label}>{t('lists.description')}</Text>
+              <TextInput
+                value={description}
+                onChangeText={setDescription}
+                placeholderTextColor={theme.colors.onSurfaceVariant}
+                style={[styles.input, styles.textArea]}
+                maxLength={MAX_LIST_DESCRIPTION_LENGTH}
+                multiline
+                numberOfLines={4}
+              />
+            </View>
+          </ScrollView>
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </Pressable>
+            <Pressable onPress={handleSubmit} disabled={!canSubmit} style={[styles.primaryButton, !canSubmit && styles.disabledButton]}>
+              {isSaving
+                ? <ActivityIndicator color={theme.colors.onPrimary} />
+                : <Text style={styles.primaryButtonText}>{t('common.save')}</Text>}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 440, maxHeight: '90%', backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.l },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  form: { gap: theme.spacing.l },
+  purposeRow: { flexDirection: 'row', gap: theme.spacing.m },
+  purposeOption: { flex: 1, padding: theme.spacing.m, borderRadius: theme.radius.md, borderWidth: 2, borderColor: 'transparent', backgroundColor: theme.colors.surfaceContainerHigh, gap: theme.spacing.xs },
+  purposeOptionActive: { borderColor: theme.colors.primary },
+  purposeLabel: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+  purposeDescription: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  avatarPressable: { alignSelf: 'center', width: 88, height: 88, borderRadius: theme.radius.lg, backgroundColor: theme.colors.surfaceContainerHigh, overflow: 'hidden' },
+  avatarImage: { width: '100%', height: '100%', resizeMode: 'cover' },
+  avatarOverlay: { ...StyleSheet.absoluteFillObject, alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.3)' },
+  label: { ...theme.typography.labelLarge, color: theme.colors.onSurfaceVariant, marginBottom: theme.spacing.xs },
+  input: {
+    paddingHorizontal: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  textArea: { height: 100, textAlignVertical: 'top' },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  disabledButton: { opacity: 0.5 },
+});
+
+export default ListEditorModal;
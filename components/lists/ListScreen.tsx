@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, FlatList, Modal, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Link, useRouter } from 'expo-router';
+import Head from 'expo-router/head';
+import { AppBskyGraphDefs } from '@atproto/api';
+import { ArrowLeft, Edit, Grid, List, ListX, MoreHorizontal, ShieldBan, Trash2, UserMinus, UserPlus, Users, X } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme, TopAppBar } from '@/components/shared';
+import Feed from '../shared/Feed';
+import ErrorState from '../shared/ErrorState';
+import RichTextRenderer from '../shared/RichTextRenderer';
+import ActorSearchResultCard from '../search/ActorSearchResultCard';
+import { OptimizedImage } from '../ui';
+import { resolveActorDid } from '@/lib/identity';
+import { deleteList, getListUri, isCurateList, isModList, removeListMember } from '@/lib/lists';
+import ListEditorModal from './ListEditorModal';
+import AddListMembersModal from './AddListMembersModal';
+import ModListSubscriptionButtons from './ModListSubscriptionButtons';
+
+type ListTab = 'posts' | 'members';
+
+interface ListScreenProps {
+  actor: string;
+  rkey: string;
+}
+
+const ListScreen: React.FC<ListScreenProps> = ({ actor, rkey }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { agent, publicApiAgent, session } = useAtp();
+  const [list, setList] = useState<AppBskyGraphDefs.ListView | null>(null);
+  const [members, setMembers] = useState<AppBskyGraphDefs.ListItemView[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [activeTab, setActiveTab] = useState<ListTab>('posts');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [removingUri, setRemovingUri] = useState<string | null>(null);
+  const [isActionsModalVisible, setIsActionsModalVisible] = useState(false);
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const [isAddMembersVisible, setIsAddMembersVisible] = useState(false);
+  const readAgent = session ? agent : publicApiAgent;
+  const isOwner = !!list && session?.did === list.creator.did;
+  const memberDids = useMemo(() => new Set(members.map(item => item.subject.did)), [members]);
+
+  const fetchList = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const did = await resolveActorDid(actor);
+      const { data } = await readAgent.app.bsky.graph.getList({ list: getListUri(did, rkey), limit: 50 });
+      setList(data.list);
+      setMembers(data.items);
+      setCursor(data.cursor);
+      // Moderation lists have no feed of their own
+      setActiveTab(isCurateList(data.list) ? 'posts' : 'members');
+    } catch (err: any) {
+      console.error("Failed to load list", err);
+      setError(t('lists.notFound'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [readAgent, actor, rkey, t]);
+
+  useEffect(() => {
+    fetchList();
+  }, [fetchList]);
+
+  const loadMoreMembers = useCallback(async () => {
+    if (!list || isLoadingMore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { data } = await readAgent.app.bsky.graph.getList({ list: list.uri, limit: 50, cursor });
+      setMembers(prev => [...prev, ...data.items]);
+      setCursor(data.items.length > 0 ? data.cursor : undefined);
+    } catch (err) {
+      console.error("Failed to load more list members", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [readAgent, list, cursor, isLoadingMore]);
+
+  const confirmAction = (title: string, message: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) onConfirm();
+    } else {
+      Alert.alert(title, message, [{ text: t('common.cancel'), style: 'cancel' }, { text: title, style: 'destructive', onPress: onConfirm }]);
+    }
+  };
+
+  const handleRemoveMember = async (item: AppBskyGraphDefs.ListItemView) => {
+    setRemovingUri(item.uri);
+    try {
+      await removeListMember(agent, item.uri);
+      setMembers(prev => prev.filter(member => member.uri !== item.uri));
+      setList(prev => prev && prev.listItemCount !== undefined ? { ...prev, listItemCount: prev.listItemCount - 1 } : prev);
+    } catch (err) {
+      console.error("Failed to remove list member", err);
+      toast({ title: t('lists.toast.membershipError'), variant: "destructive" });
+    } finally {
+      setRemovingUri(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!list) return;
+    setIsActionsModalVisible(false);
+    confirmAction(t('lists.deleteList'), t('lists.confirmDelete', { name: list.name }), async () => {
+      try {
+        await deleteList(agent, list.uri);
+        toast({ title: t('lists.toast.deleted') });
+        router.replace(`/profile/${list.creator.handle}` as any);
+      } catch (err) {
+        console.error("Failed to delete list", err);
+        toast({ title: t('lists.toast.deleteError'), variant: "destructive" });
+      }
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <TopAppBar title={t('lists.list')} />
+        <ActivityIndicator style={{ marginVertical: 32 }} size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !list) {
+    return (
+      <View style={styles.container}>
+        <TopAppBar
+          title={t('lists.list')}
+          leading={<Pressable onPress={() => router.back()} style={styles.headerButton}><ArrowLeft size={24} color={theme.colors.onSurface} /></Pressable>}
+        />
+        <ErrorState icon={ListX} title={t('lists.notFound')} message={t('lists.notFoundDescription')} onRetry={fetchList} />
+      </View>
+    );
+  }
+
+  const FallbackIcon = isModList(list) ? ShieldBan : List;
+  const tabs: { id: ListTab; icon: typeof Grid }[] = isCurateList(list)
+    ? [{ id: 'posts', icon: Grid }, { id: 'members', icon: Users }]
+    : [{ id: 'members', icon: Users }];
+
+  const ListHeader = (
+    <View style={styles.headerContainer}>
+      <View style={styles.infoRow}>
+        {list.avatar
+          ? <OptimizedImage source={{ uri: list.avatar }} style={styles.avatar} />
+          : <View style={[styles.avatar, styles.avatarFallback]}><FallbackIcon size={32} color={theme.colors.onSurfaceVariant} /></View>}
+        <View style={styles.infoText}>
+          <Text style={styles.name}>{list.name}</Text>
+          <Text style={styles.meta}>
+            {t(isModList(list) ? 'lists.modList' : 'lists.curateList')}
+            {' · '}
+            <Link href={`/profile/${list.creator.handle}` as any} style={styles.creatorLink}>{t('lists.byCreator', { handle: list.creator.handle })}</Link>
+          </Text>
+        </View>
+      </View>
+      {!!list.description && <Text style={styles.description}><RichTextRenderer record={{ text: list.description, facets: list.descriptionFacets }} /></Text>}
+      {session && isOwner && (
+        <Pressable onPress={() => setIsAddMembersVisible(true)} style={styles.actionButton}>
+          <UserPlus size={16} color={theme.colors.onSurface} />
+          <Text style={styles.actionButtonText}>{t('lists.addPeople')}</Text>
+        </Pressable>
+      )}
+      {session && !isOwner && isModList(list) && (
+        <ModListSubscriptionButtons list={list} onChange={(viewer) => setList(prev => prev && { ...prev, viewer })} />
+      )}
+      {tabs.length > 1 && (
+        <View style={styles.filterContainer}>
+          {tabs.map(tab => (
+            <Pressable key={tab.id} style={styles.filterButton} onPress={() => setActiveTab(tab.id)} accessibilityLabel={t(`lists.tabs.${tab.id}`)}>
+              <tab.icon size={24} color={activeTab === tab.id ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+              {activeTab === tab.id && <View style={styles.activeIndicator} />}
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderMember = ({ item }: { item: AppBskyGraphDefs.ListItemView }) => (
+    <View style={styles.memberRow}>
+      <View style={{ flex: 1 }}><ActorSearchResultCard actor={item.subject} /></View>
+      {isOwner && (
+        <Pressable onPress={() => handleRemoveMember(item)} disabled={removingUri === item.uri} style={styles.removeButton} accessibilityLabel={t('lists.removeMember')}>
+          {removingUri === item.uri ? <ActivityIndicator size="small" color={theme.colors.onSurface} /> : <UserMinus size={20} color={theme.colors.onSurfaceVariant} />}
+        </Pressable>
+      )}
+    </View>
+  );
+
+  return (
+    <>
+      <Head><title>{`${list.name} | Takaka`}</title></Head>
+      <View style={styles.container}>
+        <TopAppBar
+          title={list.name}
+          leading={<Pressable onPress={() => router.back()} style={styles.headerButton}><ArrowLeft size={24} color={theme.colors.onSurface} /></Pressable>}
+          actions={isOwner && (
+            <Pressable onPress={() => setIsActionsModalVisible(true)} style={styles.headerButton}>
+              <MoreHorizontal size={24} color={theme.colors.onSurface} />
+            </Pressable>
+          )}
+        />
+        {activeTab === 'posts' ? (
+          <Feed feedUri={list.uri} layout="grid" ListHeaderComponent={ListHeader} />
+        ) : (
+          <FlatList
+            data={members}
+            renderItem={renderMember}
+            keyExtractor={item => item.uri}
+            ListHeaderComponent={ListHeader}
+            onEndReached={loadMoreMembers}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} /> : null}
+            ListEmptyComponent={<Text style={styles.emptyText}>{t('lists.noMembers')}</Text>}
+          />
+        )}
+      </View>
+      {isOwner && (
+        <>
+          <Modal visible={isActionsModalVisible} transparent animationType="fade" onRequestClose={() => setIsActionsModalVisible(false)}>
+            <Pressable style={styles.modalBackdrop} onPress={() => setIsActionsModalVisible(false)}>
+              <Pressable style={styles.bottomSheet}>
+                <View style={styles.bottomSheetHeader}>
+                  <Text style={styles.bottomSheetTitle} numberOfLines={1}>{list.name}</Text>
+                  <Pressable onPress={() => setIsActionsModalVisible(false)} style={styles.closeButton}><X color={theme.colors.onSurfaceVariant} /></Pressable>
+                </View>
+                <Pressable onPress={() => { setIsActionsModalVisible(false); setIsEditorVisible(true); }} style={styles.actionItem}>
+                  <Edit color={theme.colors.onSurfaceVariant} /><Text style={styles.actionItemText}>{t('lists.editList')}</Text>
+                </Pressable>
+                <Pressable onPress={handleDelete} style={styles.actionItem}>
+                  <Trash2 color={theme.colors.error} /><Text style={[styles.actionItemText, styles.destructiveText]}>{t('lists.deleteList')}</Text>
+                </Pressable>
+              </Pressable>
+            </Pressable>
+          </Modal>
+          <ListEditorModal visible={isEditorVisible} list={list} onClose={() => setIsEditorVisible(false)} onSaved={() => fetchList()} />
+          <AddListMembersModal
+            visible={isAddMembersVisible}
+            list={list}
+            memberDids={memberDids}
+            onClose={() => setIsAddMembersVisible(false)}
+            onAdded={(item) => {
+              setMembers(prev => [item, ...prev]);
+              setList(prev => prev && prev.listItemCount !== undefined ? { ...prev, listItemCount: prev.listItemCount + 1 } : prev);
+            }}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.colors.background },
+  headerButton: { padding: theme.spacing.sm, borderRadius: theme.radius.full },
+  headerContainer: { backgroundColor: theme.colors.background, padding: theme.spacing.lg, gap: theme.spacing.md },
+  infoRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.lg },
+  avatar: { width: 72, height: 72, borderRadius: theme.radius.lg, backgroundColor: theme.colors.surfaceContainerHigh },
+  avatarFallback: { justifyContent: 'center', alignItems: 'center' },
+  infoText: { flex: 1, gap: theme.spacing.xs },
+  name: { ...theme.typography.titleLarge, color: theme.colors.onSurface },
+  meta: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  creatorLink: { color: theme.colors.onSurfaceVariant, textDecorationLine: 'underline' },
+  description: { ...theme.typography.bodyMedium, color: theme.colors.onSurface, lineHeight: 20 },
+  actionButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.s, paddingVertical: theme.spacing.m, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+  actionButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+  filterContainer: { flexDirection: 'row', justifyContent: 'space-around', borderBottomWidth: 1, borderBottomColor: theme.colors.outline, marginTop: theme.spacing.l },
+  filterButton: { paddingVertical: theme.spacing.m, alignItems: 'center', flex: 1 },
+  activeIndicator: { height: 2, backgroundColor: theme.colors.primary, position: 'absolute', bottom: -1, left: 0, right: 0 },
+  memberRow: { flexDirection: 'row', alignItems: 'center', paddingRight: theme.spacing.l },
+  removeButton: { padding: theme.spacing.s, borderRadius: theme.radius.full },
+  emptyText: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center', padding: 32 },
+  modalBackdrop: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  bottomSheet: { backgroundColor: theme.colors.surfaceContainer, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl, padding: theme.spacing.l, paddingTop: theme.spacing.s, gap: theme.spacing.s },
+  bottomSheetHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing.m },
+  bottomSheetTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface, flexShrink: 1 },
+  closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+  actionItem: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.l, padding: theme.spacing.m, borderRadius: theme.radius.md },
+  actionItemText: { ...theme.typography.bodyLarge, color: theme.colors.onSurface },
+  destructiveText: { color: theme.colors.error },
+});
+
+export default ListScreen;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyGraphDefs } from '@atproto/api';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme } from '@/components/shared';
+
+interface ModListSubscriptionButtonsProps {
+  list: AppBskyGraphDefs.ListView;
+  onChange: (viewer: AppBskyGraphDefs.ListViewerState) => void;
+}
+
+/** Mute / block toggles for subscribing to a moderation list as a whole. */
+const ModListSubscriptionButtons: React.FC<ModListSubscriptionButtonsProps> = ({ list, onChange }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent } = useAtp();
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<'mute' | 'block' | null>(null);
+  const isMuted = !!list.viewer?.muted;
+  const isBlocked = !!list.viewer?.blocked;
+
+  const confirmAction = (title: string, message: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) onConfirm();
+    } else {
+      Alert.alert(title, message, [{ text: t('common.cancel'), style: 'cancel' }, { text: title, style: 'destructive', onPress: onConfirm }]);
+    }
+  };
+
+  const handleMuteToggle = async () => {
+    setPendingAction('mute');
+    try {
+      if (isMuted) await agent.unmuteModList(list.uri);
+      else await agent.muteModList(list.uri);
+      onChange({ ...list.viewer, muted: !isMuted });
+      toast({ title: t(isMuted ? 'lists.toast.unmuted' : 'lists.toast.muted') });
+    } catch (error) {
+      console.error("Failed to update list mute", error);
+      toast({ title: t('lists.toast.subscriptionError'), variant: "destructive" });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleBlockToggle = async () => {
+    setPendingAction('block');
+    try {
+      if (isBlocked) {
+        await agent.unblockModList(list.uri);
+        onChange({ ...list.viewer, blocked: undefined });
+      } else {
+        const { uri } = await agent.blockModList(list.uri);
+        onChange({ ...list.viewer, blocked: uri });
+      }
+      toast({ title: t(isBlocked ? 'lists.toast.unblocked' : 'lists.toast.blocked') });
+    } catch (error) {
+      console.error("Failed to update list block", error);
+      toast({ title: t('lists.toast.subscriptionError'), variant: "destructive" });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPress={(e) => { e.preventDefault(); if (!pendingAction) handleMuteToggle(); }}
+        disabled={!!pendingAction}
+        style={[styles.button, isMuted && styles.activeButton]}
+      >
+        {pendingAction === 'mute'
+          ? <ActivityIndicator size="small" color={theme.colors.onSurface} />
+          : <Text style={[styles.buttonText, isMuted && styles.activeButtonText]}>{t(isMuted ? 'lists.unmuteList' : 'lists.muteList')}</Text>}
+      </Pressable>
+      <Pressable
+        onPress={(e) => {
+          e.preventDefault();
+          if (pendingAction) return;
+          if (isBlocked) handleBlockToggle();
+          else confirmAction(t('lists.blockList'), t('lists.confirmBlockList', { name: list.name }), handleBlockToggle);
+        }}
+        disabled={!!pendingAction}
+        style={[styles.button, isBlocked && styles.activeButton]}
+      >
+        {pendingAction === 'block'
+          ? <ActivityIndicator size="small" color={theme.colors.onSurface} />
+          : <Text style={[styles.buttonText, isBlocked && styles.activeButtonText]}>{t(isBlocked ? 'lists.unblockList' : 'lists.blockList')}</Text>}
+      </Pressable>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flexDirection: 'row', gap: theme.spacing.s },
+  button: { paddingVertical: theme.spacing.s, paddingHorizontal: theme.spacing.l, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh, minHeight: 36, minWidth: 80, justifyContent: 'center', alignItems: 'center' },
+  activeButton: { backgroundColor: theme.colors.error },
+  buttonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+  activeButtonText: { color: theme.colors.onError },
+});
+
+export default ModListSubscriptionButtons;
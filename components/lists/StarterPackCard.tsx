@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'expo-router';
+import { AppBskyGraphDefs, AppBskyGraphStarterpack } from '@atproto/api';
+import { PartyPopper } from 'lucide-react';
+import { useTheme } from '@/components/shared';
+import { getStarterPackHref } from '@/lib/lists';
+
+interface StarterPackCardProps {
+  pack: AppBskyGraphDefs.StarterPackViewBasic;
+}
+
+const StarterPackCard: React.FC<StarterPackCardProps> = ({ pack }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const record = AppBskyGraphStarterpack.isRecord(pack.record) ? pack.record as AppBskyGraphStarterpack.Record : undefined;
+
+  const details = [
+    t('lists.byCreator', { handle: pack.creator.handle }),
+    pack.listItemCount !== undefined ? t('lists.memberCount', { count: pack.listItemCount }) : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Link href={getStarterPackHref(pack) as any} asChild>
+      <Pressable style={({ pressed }) => [styles.container, pressed && styles.pressed]}>
+        <View style={styles.icon}><PartyPopper size={22} color={theme.colors.onPrimary} /></View>
+        <View style={styles.content}>
+          <Text style={styles.name} numberOfLines={1}>{record?.name || t('lists.starterPack')}</Text>
+          <Text style={styles.details} numberOfLines={1}>{details}</Text>
+        </View>
+      </Pressable>
+    </Link>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m },
+  pressed: { backgroundColor: theme.colors.surfaceContainer },
+  icon: { width: 48, height: 48, borderRadius: theme.radius.md, backgroundColor: theme.colors.primary, justifyContent: 'center', alignItems: 'center' },
+  content: { flex: 1, minWidth: 0, gap: 2 },
+  name: { ...theme.typography.titleSmall, color: theme.colors.onSurface },
+  details: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+});
+
+export default StarterPackCard;
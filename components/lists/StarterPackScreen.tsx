@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, FlatList } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Link, useRouter } from 'expo-router';
+import Head from 'expo-router/head';
+import { AppBskyGraphDefs, AppBskyGraphStarterpack, AtUri } from '@atproto/api';
+import { ArrowLeft, ListX, PartyPopper, UserPlus } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useToast, useTheme, TopAppBar } from '@/components/shared';
+import ErrorState from '../shared/ErrorState';
+import RichTextRenderer from '../shared/RichTextRenderer';
+import ActorSearchResultCard from '../search/ActorSearchResultCard';
+import FeedAvatar from '../feeds/FeedAvatar';
+import { resolveActorDid } from '@/lib/identity';
+import { fetchAllListItems, followAll, getStarterPackUri } from '@/lib/lists';
+import { formatCompactNumber } from '@/lib/formatters';
+
+interface StarterPackScreenProps {
+  actor: string;
+  rkey: string;
+}
+
+const StarterPackScreen: React.FC<StarterPackScreenProps> = ({ actor, rkey }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { agent, publicApiAgent, session } = useAtp();
+  const [pack, setPack] = useState<AppBskyGraphDefs.StarterPackView | null>(null);
+  const [members, setMembers] = useState<AppBskyGraphDefs.ListItemView[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isFollowingAll, setIsFollowingAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const readAgent = session ? agent : publicApiAgent;
+
+  const fetchPack = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const did = await resolveActorDid(actor);
+      const { data } = await readAgent.app.bsky.graph.getStarterPack({ starterPack: getStarterPackUri(did, rkey) });
+      setPack(data.starterPack);
+      if (data.starterPack.list) {
+        const { data: listData } = await readAgent.app.bsky.graph.getList({ list: data.starterPack.list.uri, limit: 50 });
+        setMembers(listData.items);
+        setCursor(listData.cursor);
+      }
+    } catch (err) {
+      console.error("Failed to load starter pack", err);
+      setError(t('lists.starterPackNotFound'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [readAgent, actor, rkey, t]);
+
+  useEffect(() => {
+    fetchPack();
+  }, [fetchPack]);
+
+  const loadMoreMembers = useCallback(async () => {
+    if (!pack?.list || isLoadingMore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { data } = await readAgent.app.bsky.graph.getList({ list: pack.list.uri, limit: 50, cursor });
+      setMembers(prev => [...prev, ...data.items]);
+      setCursor(data.items.length > 0 ? data.cursor : undefined);
+    } catch (err) {
+      console.error("Failed to load more starter pack members", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [readAgent, pack, cursor, isLoadingMore]);
+
+  const handleFollowAll = async () => {
+    if (!session || !pack?.list || isFollowingAll) return;
+    setIsFollowingAll(true);
+    try {
+      // The loaded page may be partial, so the whole list is fetched before following
+      const items = await fetchAllListItems(agent, pack.list.uri);
+      const dids = items
+        .filter(item => item.subject.did !== session.did && !item.subject.viewer?.following && !item.subject.viewer?.blocking && !item.subject.viewer?.blockedBy)
+        .map(item => item.subject.did);
+      const count = await followAll(agent, session.did, dids);
+      toast({ title: count > 0 ? t('lists.toast.followedAll', { count }) : t('lists.toast.alreadyFollowingAll') });
+      await fetchPack();
+    } catch (err) {
+      console.error("Failed to follow starter pack", err);
+      toast({ title: t('lists.toast.followAllError'), variant: "destructive" });
+    } finally {
+      setIsFollowingAll(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <TopAppBar title={t('lists.starterPack')} />
+        <ActivityIndicator style={{ marginVertical: 32 }} size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !pack) {
+    return (
+      <View style={styles.container}>
+        <TopAppBar
+          title={t('lists.starterPack')}
+          leading={<Pressable onPress={() => router.back()} style={styles.headerButton}><ArrowLeft size={24} color={theme.colors.onSurface} /></Pressable>}
+        />
+        <ErrorState icon={ListX} title={t('lists.starterPackNotFound')} message={t('lists.notFoundDescription')} onRetry={fetchPack} />
+      </View>
+    );
+  }
+
+  const record = AppBskyGraphStarterpack.isRecord(pack.record) ? pack.record as AppBskyGraphStarterpack.Record : undefined;
+  const name = record?.name || t('lists.starterPack');
+
+  const ListHeader = (
+    <View style={styles.headerContainer}>
+      <View style={styles.infoRow}>
+        <View style={styles.icon}><PartyPopper size={32} color={theme.colors.onPrimary} /></View>
+        <View style={styles.infoText}>
+          <Text style={styles.name}>{name}</Text>
+          <Link href={`/profile/${pack.creator.handle}` as any} style={styles.meta}>{t('lists.byCreator', { handle: pack.creator.handle })}</Link>
+        </View>
+      </View>
+      {!!record?.description && <Text style={styles.description}><RichTextRenderer record={{ text: record.description, facets: record.descriptionFacets }} /></Text>}
+      {!!pack.joinedAllTimeCount && <Text style={styles.meta}>{t('lists.joinedCount', { count: pack.joinedAllTimeCount, formatted: formatCompactNumber(pack.joinedAllTimeCount) })}</Text>}
+      {session && pack.list && (
+        <Pressable onPress={handleFollowAll} disabled={isFollowingAll} style={styles.followAllButton}>
+          {isFollowingAll ? <ActivityIndicator color={theme.colors.onPrimary} /> : <UserPlus size={16} color={theme.colors.onPrimary} />}
+          <Text style={styles.followAllText}>{t('lists.followAll')}</Text>
+        </Pressable>
+      )}
+      {!!pack.feeds?.length && (
+        <View style={styles.feedsSection}>
+          <Text style={styles.sectionTitle}>{t('common.feeds')}</Text>
+          {pack.feeds.map(feed => (
+            <Link key={feed.uri} href={`/profile/${feed.creator.handle}/feed/${new AtUri(feed.uri).rkey}` as any} asChild>
+              <Pressable style={styles.feedRow}>
+                <FeedAvatar src={feed.avatar} alt={feed.displayName} style={styles.feedAvatar} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.feedName} numberOfLines={1}>{feed.displayName}</Text>
+                  <Text style={styles.meta} numberOfLines={1}>{t('lists.byCreator', { handle: feed.creator.handle })}</Text>
+                </View>
+              </Pressable>
+            </Link>
+          ))}
+        </View>
+      )}
+      <Text style={styles.sectionTitle}>{t('lists.tabs.members')}</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Head><title>{`${name} | Takaka`}</title></Head>
+      <View style={styles.container}>
+        <TopAppBar
+          title={name}
+          leading={<Pressable onPress={() => router.back()} style={styles.headerButton}><ArrowLeft size={24} color={theme.colors.onSurface} /></Pressable>}
+        />
+        <FlatList
+          data={members}
+          renderItem={({ item }) => <ActorSearchResultCard actor={item.subject} />}
+          keyExtractor={item => item.uri}
+          ListHeaderComponent={ListHeader}
+          onEndReached={loadMoreMembers}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.onSurface} /> : null}
+          ListEmptyComponent={<Text style={styles.emptyText}>{t('lists.noMembers')}</Text>}
+        />
+      </View>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.colors.background },
+  headerButton: { padding: theme.spacing.sm, borderRadius: theme.radius.full },
+  headerContainer: { backgroundColor: theme.colors.background, padding: theme.spacing.lg, gap: theme.spacing.md },
+  infoRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.lg },
+  icon: { width: 72, height: 72, borderRadius: theme.radius.lg, backgroundColor: theme.colors.primary, justifyContent: 'center', alignItems: 'center' },
+  infoText: { flex: 1, gap: theme.spacing.xs },
+  name: { ...theme.typography.titleLarge, color: theme.colors.onSurface },
+  meta: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  description: { ...theme.typography.bodyMedium, color: theme.colors.onSurface, lineHeight: 20 },
+  followAllButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.s, paddingVertical: theme.spacing.m, borderRadius: theme.radius.md, backgroundColor: theme.colors.primary },
+  followAllText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary, fontWeight: 'bold' },
+  feedsSection: { gap: theme.spacing.s },
+  sectionTitle: { ...theme.typography.titleSmall, color: theme.colors.onSurfaceVariant, marginTop: theme.spacing.s },
+  feedRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, paddingVertical: theme.spacing.s },
+  feedAvatar: { width: 40, height: 40, borderRadius: theme.radius.md },
+  feedName: { ...theme.typography.bodyLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
+  emptyText: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center', padding: 32 },
+});
+
+export default StarterPackScreen;
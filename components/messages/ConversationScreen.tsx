@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator, FlatList, Modal, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Head from 'expo-router/head';
+import { Link, useRouter } from 'expo-router';
+import { ChatBskyConvoDefs } from '@atproto/api';
+import { ArrowLeft, Bell, BellOff, LogOut, MoreHorizontal, Send, X } from 'lucide-react';
+import { TopAppBar, useTheme, useToast } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import RichTextRenderer from '../shared/RichTextRenderer';
+import QuotedPost from '../post/QuotedPost';
+import { useAtp } from '../../context/AtpContext';
+import { formatCompactDate } from '@/lib/formatters';
+import {
+  ConvoMessage,
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_POLL_INTERVAL_MS,
+  buildMessageInput,
+  getConvoPartner,
+  getRecordEmbed,
+  isMessageView,
+  mergeMessages,
+} from '@/lib/chat';
+
+interface ConversationScreenProps {
+  convoId: string;
+}
+
+const ConversationScreen: React.FC<ConversationScreenProps> = ({ convoId }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { agent, chatAgent, session, refreshChatUnreadCount } = useAtp();
+  const [convo, setConvo] = useState<ChatBskyConvoDefs.ConvoView | null>(null);
+  const [messages, setMessages] = useState<ConvoMessage[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isActionsModalVisible, setIsActionsModalVisible] = useState(false);
+  const lastReadIdRef = useRef<string | null>(null);
+
+  const partner = convo ? getConvoPartner(convo, session?.did) : undefined;
+  const partnerName = partner ? partner.displayName || `@${partner.handle}` : t('messages.title');
+  const isRequest = convo?.status === 'request';
+  const hasConvo = !!convo;
+
+  const markRead = useCallback(async (newest?: ConvoMessage) => {
+    if (!newest || newest.id === lastReadIdRef.current) return;
+    lastReadIdRef.current = newest.id;
+    try {
+      await chatAgent.chat.bsky.convo.updateRead({ convoId, messageId: newest.id });
+      await refreshChatUnreadCount();
+    } catch (err) {
+      console.error("Failed to mark conversation as read", err);
+    }
+  }, [chatAgent, convoId, refreshChatUnreadCount]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    lastReadIdRef.current = null;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [convoRes, messagesRes] = await Promise.all([
+          chatAgent.chat.bsky.convo.getConvo({ convoId }),
+          chatAgent.chat.bsky.convo.getMessages({ convoId, limit: 50 }),
+        ]);
+        if (isCancelled) return;
+        const loaded = mergeMessages([], messagesRes.data.messages as ConvoMessage[]);
+        setConvo(convoRes.data.convo);
+        setMessages(loaded);
+        setCursor(messagesRes.data.cursor);
+        // Reading a request doesn't accept it, so only mark accepted conversations as read
+        if (convoRes.data.convo.status !== 'request') markRead(loaded[0]);
+      } catch (err) {
+        console.error("Failed to load conversation", err);
+        if (!isCancelled) setError(t('messages.notFound'));
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { isCancelled = true; };
+  }, [chatAgent, convoId]);
+
+  // Poll the latest page for new messages; the chat service has no push channel for web clients
+  useEffect(() => {
+    if (!hasConvo) return;
+    const interval = setInterval(async () => {
+      try {
+        const { data } = await chatAgent.chat.bsky.convo.getMessages({ convoId, limit: 20 });
+        setMessages(prev => mergeMessages(prev, data.messages as ConvoMessage[]));
+        if (!isRequest) markRead(data.messages[0] as ConvoMessage | undefined);
+      } catch (err) {
+        console.error("Failed to poll conversation", err);
+      }
+    }, MESSAGE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [chatAgent, convoId, hasConvo, isRequest, markRead]);
+
+  const loadOlder = useCallback(async () => {
+    if (isLoadingMore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { data } = await chatAgent.chat.bsky.convo.getMessages({ convoId, limit: 50, cursor });
+      setMessages(prev => mergeMessages(prev, data.messages as ConvoMessage[]));
+      setCursor(data.cursor);
+    } catch (err) {
+      console.error("Failed to load older messages", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [chatAgent, convoId, cursor, isLoadingMore]);
+
+  const handleSend = async () => {
+    if (!text.trim() || isSending) return;
+    setIsSending(true);
+    try {
+      const message = await buildMessageInput(agent, text);
+      const { data } = await chatAgent.chat.bsky.convo.sendMessage({ convoId, message });
+      setMessages(prev => mergeMessages(prev, [data]));
+      setText('');
+      // Replying to a request accepts it on the server
+      if (isRequest) setConvo(prev => prev ? { ...prev, status: 'accepted' } : prev);
+    } catch (err) {
+      console.error("Failed to send message", err);
+      toast({ title: t('messages.toast.sendError'), variant: 'destructive' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    try {
+      await chatAgent.chat.bsky.convo.acceptConvo({ convoId });
+      setConvo(prev => prev ? { ...prev, status: 'accepted' } : prev);
+      markRead(messages[0]);
+    } catch (err) {
+      console.error("Failed to accept conversation", err);
+      toast({ title: t('messages.toast.actionError'), variant: 'destructive' });
+    }
+  };
+
+  const handleMuteToggle = async () => {
+    if (!convo) return;
+    setIsActionsModalVisible(false);
+    try {
+      const { data } = convo.muted
+        ? await chatAgent.chat.bsky.convo.unmuteConvo({ convoId })
+        : await chatAgent.chat.bsky.convo.muteConvo({ convoId });
+      setConvo(data.convo);
+      refreshChatUnreadCount().catch(() => {});
+    } catch (err) {
+      console.error("Failed to update conversation mute", err);
+      toast({ title: t('messages.toast.actionError'), variant: 'destructive' });
+    }
+  };
+
+  const handleLeave = () => {
+    setIsActionsModalVisible(false);
+    const onConfirm = async () => {
+      try {
+        await chatAgent.chat.bsky.convo.leaveConvo({ convoId });
+        refreshChatUnreadCount().catch(() => {});
+        router.replace('/messages' as any);
+      } catch (err) {
+        console.error("Failed to leave conversation", err);
+        toast({ title: t('messages.toast.actionError'), variant: 'destructive' });
+      }
+    };
+    const message = t('messages.confirmLeave');
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) onConfirm();
+    } else {
+      Alert.alert(t('messages.leave'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('messages.leave'), style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const renderMessage = ({ item }: { item: ConvoMessage }) => {
+    const isMine = item.sender.did === session?.did;
+    if (!isMessageView(item)) {
+      return (
+        <View style={[styles.messageRow, isMine && styles.messageRowMine]}>
+          <Text style={styles.deletedText}>{t('messages.deleted')}</Text>
+        </View>
+      );
+    }
+    const embed = getRecordEmbed(item);
+    return (
+      <View style={[styles.messageRow, isMine && styles.messageRowMine]}>
+        <View style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleTheirs]}>
+          {!!item.text && (
+            <Text style={[styles.messageText, isMine && styles.messageTextMine]}>
+              <RichTextRenderer record={{ text: item.text, facets: item.facets }} />
+            </Text>
+          )}
+          {embed && <QuotedPost embed={embed} />}
+        </View>
+        <Text style={styles.messageTime}>{formatCompactDate(item.sentAt)}</Text>
+      </View>
+    );
+  };
+
+  const header = (
+    <TopAppBar
+      title={partnerName}
+      leading={<Pressable onPress={() => router.back()} style={styles.headerButton}><ArrowLeft size={24} color={theme.colors.onSurface} /></Pressable>}
+      actions={convo && (
+        <View style={styles.headerActions}>
+          {partner && (
+            <Link href={`/profile/${partner.handle}` as any} asChild>
+              <Pressable style={styles.headerButton} accessibilityLabel={partnerName}>
+                <OptimizedImage source={{ uri: partner.avatar }} style={styles.headerAvatar} />
+              </Pressable>
+            </Link>
+          )}
+          <Pressable onPress={() => setIsActionsModalVisible(true)} style={styles.headerButton}>
+            <MoreHorizontal size={24} color={theme.colors.onSurface} />
+          </Pressable>
+        </View>
+      )}
+    />
+  );
+
+  if (isLoading || error || !convo) {
+    return (
+      <>
+        <Head><title>{partnerName}</title></Head>
+        <View style={styles.container}>
+          {header}
+          <View style={styles.centered}>
+            {isLoading
+              ? <ActivityIndicator size="large" color={theme.colors.primary} />
+              : <Text style={styles.errorText}>{error || t('messages.notFound')}</Text>}
+          </View>
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head><title>{partnerName}</title></Head>
+      <View style={styles.container}>
+        {header}
+        <FlatList
+          inverted
+          data={messages}
+          renderItem={renderMessage}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 16 }} color={theme.colors.onSurface} /> : null}
+          ListEmptyComponent={<Text style={styles.emptyText}>{t('messages.noMessages')}</Text>}
+        />
+
+        {isRequest && (
+          <View style={styles.requestBanner}>
+            <Text style={styles.requestText}>{t('messages.requestBanner', { name: partnerName })}</Text>
+            <View style={styles.requestActions}>
+              <Pressable onPress={handleLeave} style={[styles.requestButton, styles.secondaryButton]}>
+                <Text style={styles.secondaryButtonText}>{t('messages.decline')}</Text>
+              </Pressable>
+              <Pressable onPress={handleAccept} style={[styles.requestButton, styles.primaryButton]}>
+                <Text style={styles.primaryButtonText}>{t('messages.accept')}</Text>
+              </Pressable>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.composer}>
+          <TextInput
+            value={text}
+            onChangeText={setText}
+            placeholder={t('messages.placeholder')}
+            placeholderTextColor={theme.colors.onSurfaceVariant}
+            style={styles.input}
+            maxLength={MAX_MESSAGE_LENGTH}
+            multiline
+            onSubmitEditing={handleSend}
+            blurOnSubmit={false}
+          />
+          <Pressable
+            onPress={handleSend}
+            disabled={!text.trim() || isSending}
+            style={[styles.sendButton, (!text.trim() || isSending) && styles.disabledButton]}
+            accessibilityLabel={t('messages.send')}
+          >
+            {isSending ? <ActivityIndicator color={theme.colors.onPrimary} /> : <Send size={20} color={theme.colors.onPrimary} />}
+          </Pressable>
+        </View>
+
+        <Modal visible={isActionsModalVisible} transparent={true} animationType="fade" onRequestClose={() => setIsActionsModalVisible(false)}>
+          <Pressable style={styles.modalBackdrop} onPress={() => setIsActionsModalVisible(false)}>
+            <Pressable style={styles.bottomSheet}>
+              <View style={styles.bottomSheetHeader}>
+                <Text style={styles.bottomSheetTitle}>{partnerName}</Text>
+                <Pressable onPress={() => setIsActionsModalVisible(false)} style={styles.closeButton}><X color={theme.colors.onSurfaceVariant} /></Pressable>
+              </View>
+              <Pressable onPress={handleMuteToggle} style={styles.actionItem}>
+                {convo.muted ? <Bell color={theme.colors.onSurfaceVariant} /> : <BellOff color={theme.colors.onSurfaceVariant} />}
+                <Text style={styles.actionItemText}>{t(convo.muted ? 'messages.unmute' : 'messages.mute')}</Text>
+              </Pressable>
+              <Pressable onPress={handleLeave} style={styles.actionItem}>
+                <LogOut color={theme.colors.error} />
+                <Text style={[styles.actionItemText, styles.destructiveText]}>{t('messages.leave')}</Text>
+              </Pressable>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.colors.background },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: theme.spacing.xl },
+  errorText: { ...theme.typography.bodyLarge, color: theme.colors.error, textAlign: 'center' },
+  headerActions: { flexDirection: 'row', alignItems: 'center' },
+  headerButton: { padding: theme.spacing.sm, borderRadius: theme.radius.full },
+  headerAvatar: { width: 28, height: 28, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  listContent: { padding: theme.spacing.l, gap: theme.spacing.s },
+  emptyText: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center', padding: theme.spacing.xl, transform: [{ scaleY: -1 }] },
+  messageRow: { alignItems: 'flex-start', gap: 2, maxWidth: '80%' },
+  messageRowMine: { alignSelf: 'flex-end', alignItems: 'flex-end' },
+  bubble: { paddingHorizontal: theme.spacing.m, paddingVertical: theme.spacing.s, borderRadius: theme.radius.lg },
+  bubbleMine: { backgroundColor: theme.colors.primary, borderBottomRightRadius: theme.radius.sm },
+  bubbleTheirs: { backgroundColor: theme.colors.surfaceContainerHigh, borderBottomLeftRadius: theme.radius.sm },
+  messageText: { ...theme.typography.bodyLarge, color: theme.colors.onSurface },
+  messageTextMine: { color: theme.colors.onPrimary },
+  messageTime: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  deletedText: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, fontStyle: 'italic' },
+  requestBanner: { padding: theme.spacing.l, gap: theme.spacing.m, backgroundColor: theme.colors.surfaceContainer, borderTopWidth: 1, borderTopColor: theme.colors.outline },
+  requestText: { ...theme.typography.bodyMedium, color: theme.colors.onSurface, textAlign: 'center' },
+  requestActions: { flexDirection: 'row', gap: theme.spacing.m },
+  requestButton: { flex: 1, alignItems: 'center', paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  primaryButton: { backgroundColor: theme.colors.primary },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  secondaryButton: { backgroundColor: theme.colors.surfaceContainerHigh },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  composer: { flexDirection: 'row', alignItems: 'flex-end', gap: theme.spacing.s, padding: theme.spacing.m, borderTopWidth: 1, borderTopColor: theme.colors.outline },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainer,
+    borderRadius: theme.radius.lg,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  sendButton: { padding: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary },
+  disabledButton: { opacity: 0.5 },
+  modalBackdrop: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  bottomSheet: { backgroundColor: theme.colors.surfaceContainer, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl, padding: theme.spacing.l, paddingTop: theme.spacing.s, gap: theme.spacing.s },
+  bottomSheetHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing.m },
+  bottomSheetTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+  actionItem: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.l, padding: theme.spacing.m, borderRadius: theme.radius.md },
+  actionItemText: { ...theme.typography.bodyLarge, color: theme.colors.onSurface },
+  destructiveText: { color: theme.colors.error },
+});
+
+export default ConversationScreen;
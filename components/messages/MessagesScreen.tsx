@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, FlatList } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Head from 'expo-router/head';
+import { Link } from 'expo-router';
+import { ChatBskyConvoDefs } from '@atproto/api';
+import { BellOff } from 'lucide-react';
+import ScreenHeader from '../layout/ScreenHeader';
+import { OptimizedImage } from '../ui';
+import { useTheme } from '@/components/shared';
+import { useAtp } from '../../context/AtpContext';
+import { formatCompactDate } from '@/lib/formatters';
+import { getConvoPartner, isDeletedMessageView, isMessageView, INBOX_POLL_INTERVAL_MS } from '@/lib/chat';
+
+type InboxTab = 'accepted' | 'request';
+
+const tabs: { id: InboxTab; labelKey: string }[] = [
+  { id: 'accepted', labelKey: 'messages.chats' },
+  { id: 'request', labelKey: 'messages.requests' },
+];
+
+const MessagesScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { chatAgent, session } = useAtp();
+  const [convos, setConvos] = useState<ChatBskyConvoDefs.ConvoView[]>([]);
+  const [activeTab, setActiveTab] = useState<InboxTab>('accepted');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConvos = useCallback(async () => {
+    try {
+      const { data } = await chatAgent.chat.bsky.convo.listConvos({ status: activeTab, limit: 30 });
+      setConvos(data.convos);
+      setCursor(data.cursor);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load conversations", err);
+      setError(t('messages.loadingError'));
+    }
+  }, [chatAgent, activeTab, t]);
+
+  useEffect(() => {
+    const loadInitial = async () => {
+      setIsLoading(true);
+      await fetchConvos();
+      setIsLoading(false);
+    };
+    loadInitial();
+  }, [fetchConvos]);
+
+  // Keep previews, unread counts and incoming requests current while the inbox is open
+  useEffect(() => {
+    const interval = setInterval(fetchConvos, INBOX_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchConvos]);
+
+  const onRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await fetchConvos();
+    setIsRefreshing(false);
+  }, [fetchConvos]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoadingMore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { data } = await chatAgent.chat.bsky.convo.listConvos({ status: activeTab, limit: 30, cursor });
+      setConvos(prev => {
+        const known = new Set(prev.map(convo => convo.id));
+        return [...prev, ...data.convos.filter(convo => !known.has(convo.id))];
+      });
+      setCursor(data.cursor);
+    } catch (err) {
+      console.error("Failed to load more conversations", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [chatAgent, activeTab, cursor, isLoadingMore]);
+
+  const getPreview = (convo: ChatBskyConvoDefs.ConvoView) => {
+    const message = convo.lastMessage;
+    if (isDeletedMessageView(message)) return t('messages.deleted');
+    if (!isMessageView(message)) return t('messages.noMessages');
+    const text = message.text || (message.embed ? t('messages.sharedPost') : '');
+    return message.sender.did === session?.did ? t('messages.you', { text }) : text;
+  };
+
+  const renderConvo = ({ item }: { item: ChatBskyConvoDefs.ConvoView }) => {
+    const partner = getConvoPartner(item, session?.did);
+    const lastMessage = item.lastMessage as { sentAt?: string } | undefined;
+    const isUnread = item.unreadCount > 0 && !item.muted;
+    return (
+      <Link href={`/messages/${item.id}` as any} asChild>
+        <Pressable style={({ pressed }) => [styles.convoItem, pressed && styles.pressed]}>
+          <OptimizedImage source={{ uri: partner?.avatar }} style={styles.avatar} />
+          <View style={styles.convoContent}>
+            <View style={styles.convoHeader}>
+              <Text style={[styles.convoName, isUnread && styles.unreadText]} numberOfLines={1}>
+                {partner?.displayName || `@${partner?.handle}`}
+              </Text>
+              {item.muted && <BellOff size={14} color={theme.colors.onSurfaceVariant} />}
+              {lastMessage?.sentAt && <Text style={styles.convoTime}>{formatCompactDate(lastMessage.sentAt)}</Text>}
+            </View>
+            <Text style={[styles.convoPreview, isUnread && styles.unreadText]} numberOfLines={1}>{getPreview(item)}</Text>
+          </View>
+          {isUnread && (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadBadgeText}>{item.unreadCount > 99 ? '99+' : item.unreadCount}</Text>
+            </View>
+          )}
+        </Pressable>
+      </Link>
+    );
+  };
+
+  const renderTabs = () => (
+    <View style={styles.filterContainer}>
+      {tabs.map(tab => (
+        <Pressable key={tab.id} onPress={() => setActiveTab(tab.id)} style={[styles.filterButton, activeTab === tab.id && styles.activeFilter]}>
+          <Text style={[styles.filterText, activeTab === tab.id && styles.activeFilterText]}>{t(tab.labelKey)}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <>
+      <Head><title>{t('messages.title')}</title></Head>
+      <View style={{ flex: 1 }}>
+        <ScreenHeader title={t('messages.title')} />
+        {renderTabs()}
+        {isLoading ? (
+          <ActivityIndicator style={{ marginVertical: 32 }} size="large" color={theme.colors.primary} />
+        ) : (
+          <FlatList
+            data={convos}
+            renderItem={renderConvo}
+            keyExtractor={(item) => item.id}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+            contentContainerStyle={styles.listContentContainer}
+            onRefresh={onRefresh}
+            refreshing={isRefreshing}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 24 }} size="large" color={theme.colors.onSurface} /> : null}
+            ListEmptyComponent={
+              <View style={styles.messageContainer}>
+                {error
+                  ? <Text style={styles.errorText}>{error}</Text>
+                  : <Text style={styles.infoText}>{t(activeTab === 'request' ? 'messages.emptyRequests' : 'messages.empty')}</Text>}
+              </View>
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  listContentContainer: { paddingBottom: 16 },
+  separator: { height: 1, backgroundColor: theme.colors.outline, marginHorizontal: 16 },
+  filterContainer: { flexDirection: 'row', gap: 8, paddingHorizontal: 16, paddingVertical: 16 },
+  filterButton: { paddingHorizontal: 20, paddingVertical: 10, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainer },
+  activeFilter: { backgroundColor: theme.colors.onSurface },
+  filterText: { fontSize: 14, fontWeight: '500', color: theme.colors.onSurface },
+  activeFilterText: { color: theme.colors.background, fontWeight: 'bold' },
+  convoItem: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m },
+  pressed: { backgroundColor: theme.colors.surfaceContainer },
+  avatar: { width: 48, height: 48, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  convoContent: { flex: 1, gap: 2 },
+  convoHeader: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.s },
+  convoName: { ...theme.typography.titleSmall, color: theme.colors.onSurface, flexShrink: 1 },
+  convoTime: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant, marginLeft: 'auto' },
+  convoPreview: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  unreadText: { color: theme.colors.onSurface, fontWeight: 'bold' },
+  unreadBadge: { backgroundColor: theme.colors.primary, borderRadius: theme.radius.full, minWidth: 20, height: 20, paddingHorizontal: 6, justifyContent: 'center', alignItems: 'center' },
+  unreadBadgeText: { ...theme.typography.labelSmall, color: theme.colors.onPrimary, fontWeight: 'bold' },
+  messageContainer: { padding: 32, backgroundColor: theme.colors.surface, borderRadius: 12, alignItems: 'center', margin: 16 },
+  errorText: { color: theme.colors.error },
+  infoText: { color: theme.colors.onSurfaceVariant },
+});
+
+export default MessagesScreen;
@@ -6,10 +6,11 @@ import { useTranslation } from 'react-i18next';
 import { Link } from 'expo-router';
 import { useAtp } from '../../context/AtpContext';
 import { useProfileCache } from '../../context/ProfileCacheContext';
+import { useUI } from '../../context/UIContext';
 import { AppBskyActorDefs } from '@atproto/api';
 import { 
     Settings, List, Search, 
-    Bell, Users, UserCheck, Clapperboard, ChevronRight, Bookmark, Heart
+    Bell, Users, UserCheck, Clapperboard, ChevronRight, Bookmark, Heart, ArrowLeftRight, CalendarClock, History
 } from 'lucide-react';
 import Head from 'expo-router/head';
 import { View, Text, Pressable, StyleSheet, ScrollView } from 'react-native';
@@ -46,8 +47,9 @@ const AppGridItem: React.FC<{ icon: React.ElementType; label: string; href: stri
 const MoreScreen: React.FC = () => {
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
-    const { session } = useAtp();
+    const { session, accounts } = useAtp();
     const { getProfile } = useProfileCache();
+    const { openAccountSwitcher } = useUI();
     const { t } = useTranslation();
     const [profile, setProfile] = useState<AppBskyActorDefs.ProfileViewDetailed | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -99,6 +101,14 @@ const MoreScreen: React.FC = () => {
                             </Link>
                         )
                     )}
+
+                    {session && (
+                        <Pressable onPress={openAccountSwitcher} style={({ pressed }) => [styles.switchAccountButton, pressed && styles.pressed]}>
+                            <ArrowLeftRight size={20} color={theme.colors.onSurfaceVariant} />
+                            <Text style={styles.switchAccountLabel}>{t('accountSwitcher.title')}</Text>
+                            {accounts.length > 1 && <Text style={styles.switchAccountCount}>{accounts.length}</Text>}
+                        </Pressable>
+                    )}
                     
                     <View style={styles.divider} />
 
@@ -117,6 +127,8 @@ const MoreScreen: React.FC = () => {
                                     <AppGridItem icon={Clapperboard} label={t('more.watch')} href="/watch" color="#005B96" styles={styles} />
                                     <AppGridItem icon={Bookmark} label={t('nav.bookmarks')} href="/bookmarks" color="#AD1457" styles={styles} />
                                     <AppGridItem icon={Heart} label={t('nav.likes')} href="/likes" color="#C51162" styles={styles} />
+                                    <AppGridItem icon={CalendarClock} label={t('scheduled.title')} href="/scheduled" color="#EF6C00" styles={styles} />
+                                    <AppGridItem icon={History} label={t('history.title')} href="/history" color="#00838F" styles={styles} />
                                     <AppGridItem icon={Users} label={t('common.followers')} href={`/profile/${session.handle}/followers`} color="#6A1B9A" styles={styles} />
                                     <AppGridItem icon={UserCheck} label={t('common.following')} href={`/profile/${session.handle}/following`} color="#2E7D32" styles={styles} />
                                 </View>
@@ -165,6 +177,22 @@ const createStyles = (theme: any) => StyleSheet.create({
         color: theme.colors.onSurfaceVariant,
         marginTop: theme.spacing.xs,
     },
+    switchAccountButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.m,
+        paddingVertical: theme.spacing.s,
+        borderRadius: theme.radius.md,
+    },
+    switchAccountLabel: {
+        ...theme.typography.bodyLarge,
+        color: theme.colors.onSurface,
+        flex: 1,
+    },
+    switchAccountCount: {
+        ...theme.typography.labelMedium,
+        color: theme.colors.onSurfaceVariant,
+    },
     divider: {
         height: 1,
         backgroundColor: theme.colors.outline,
@@ -9,6 +9,7 @@ import { BadgeCheck, Repeat, MessageCircle, ExternalLink, ChevronLeft, ChevronRi
 import RichTextRenderer from '../shared/RichTextRenderer';
 import VideoPlayer from '../shared/VideoPlayer';
 import PhotoCarousel from '../shared/PhotoCarousel';
+import AltTextBadge from '../shared/AltTextBadge';
 import { OptimizedImage } from '../ui';
 import { useTheme } from '@/components/shared';
 // removed direct useVideoPlayback in slideshow; we reuse shared VideoPlayer
@@ -213,6 +214,7 @@ const FullPostCard: React.FC<FullPostCardProps> = ({ feedViewPost }) => {
                     ) : (
                         <Pressable style={{width: '100%', height: '100%'}} onPress={(e) => { e.stopPropagation(); Linking.openURL((item as AppBskyEmbedImages.ViewImage).fullsize); }}>
                            <OptimizedImage source={(item as AppBskyEmbedImages.ViewImage).thumb} accessibilityLabel={(item as AppBskyEmbedImages.ViewImage).alt} style={styles.slideshowImage} contentFit="contain" transition={300} />
+                           <AltTextBadge alt={(item as AppBskyEmbedImages.ViewImage).alt} />
                         </Pressable>
                     )}
                 </View>
@@ -8,6 +8,7 @@ import RichTextRenderer from '../shared/RichTextRenderer';
 import { useModeration } from '../../context/ModerationContext';
 import { moderatePost } from '../../lib/moderation';
 import ContentWarning from '../shared/ContentWarning';
+import AltTextBadge from '../shared/AltTextBadge';
 import { PostCardSkeleton, useTheme, Typography, Avatar } from '@/components/shared';
 import Card from '@/components/shared/Card';
 import { View, Text, StyleSheet, Pressable } from 'react-native';
@@ -97,6 +98,7 @@ const PostMedia = memo(({ mediaInfo, post, theme }: { mediaInfo: any; post: any;
                     contentFit="cover"
                     transition={200}
                 />
+                <AltTextBadge alt={firstImage.alt} />
                 {hasMultipleImages && (
                      <View style={styles.mediaBadgeContainer}>
                         <View style={[styles.mediaBadge, { flexDirection: 'row', alignItems: 'center', gap: 4 }]}>
@@ -258,7 +260,9 @@ const PostCard: React.FC<PostCardProps> = memo(({ feedViewPost, isClickable = tr
 
     if (!modDecision) return <PostCardSkeleton />;
     if (modDecision.visibility === 'hide') return null;
-    if (modDecision.visibility === 'warn' && !isContentVisible) {
+    // Media-only labels keep the card in the grid and cover just the image or video
+    const isMediaBlurred = modDecision.visibility === 'warn' && modDecision.blur === 'media' && !isContentVisible;
+    if (modDecision.visibility === 'warn' && !isMediaBlurred && !isContentVisible) {
         return <ContentWarning reason={modDecision.reason!} onShow={() => setIsContentVisible(true)} />;
     }
 
@@ -277,7 +281,9 @@ const PostCard: React.FC<PostCardProps> = memo(({ feedViewPost, isClickable = tr
     return (
         <Card onPress={handlePress} pressable={true} padding="none" style={styles.cardContainer}>
             <PostContext reason={reason} theme={theme} />
-            <PostMedia mediaInfo={mediaInfo} post={post} theme={theme} />
+            {isMediaBlurred
+                ? <ContentWarning reason={modDecision.reason!} onShow={() => setIsContentVisible(true)} />
+                : <PostMedia mediaInfo={mediaInfo} post={post} theme={theme} />}
             <View style={styles.content}>
                 {postData.record?.text && (
                     <AccessibleText variant="bodyMedium" numberOfLines={2} style={{ color: theme.colors.onSurface }}>
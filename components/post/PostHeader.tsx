@@ -1,12 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
 import { useRouter, Link } from 'expo-router';
 import { ArrowLeft, MoreHorizontal } from 'lucide-react';
 import { AppBskyFeedDefs } from '@atproto/api';
 import { useAtp } from '@/context/AtpContext';
 import { useUI } from '@/context/UIContext';
-import { useToast, useTheme } from '@/components/shared';
+import { useTheme } from '@/components/shared';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
+import { useFollowAction } from '@/hooks/useFollowAction';
 import { useTranslation } from 'react-i18next';
 import { OptimizedImage } from '../ui';
 
@@ -19,43 +20,17 @@ export default function PostHeader({ post }: PostHeaderProps) {
   const router = useRouter();
   const { openMediaActionsModal } = useUI();
   const { requireAuth } = useAuthGuard();
-  const { agent, session } = useAtp();
-  const { toast } = useToast();
+  const { session } = useAtp();
   const { theme } = useTheme();
   
   const styles = createStyles(theme);
 
   const author = post.author;
-  const [viewerState, setViewerState] = useState(author.viewer);
-  const [isFollowLoading, setIsFollowLoading] = useState(false);
+  const { isFollowing, isFollowLoading, toggleFollow } = useFollowAction(author.did, author.viewer?.following);
 
-  useEffect(() => {
-    setViewerState(author.viewer);
-  }, [author]);
-
-  const handleFollowToggle = async () => {
+  const handleFollowToggle = () => {
     if (!session) return;
-    if (isFollowLoading) return;
-    setIsFollowLoading(true);
-
-    const isFollowing = !!viewerState?.following;
-    const originalViewerState = viewerState;
-
-    setViewerState(prev => ({ ...prev, following: isFollowing ? undefined : 'temp-uri' }));
-
-    try {
-      if (isFollowing && viewerState?.following) {
-        await agent.deleteFollow(viewerState.following);
-      } else {
-        const { uri } = await agent.follow(author.did);
-        setViewerState(prev => ({ ...prev, following: uri }));
-      }
-    } catch (e) {
-      setViewerState(originalViewerState);
-      toast({ title: "Error", description: "Action failed", variant: "destructive" });
-    } finally {
-      setIsFollowLoading(false);
-    }
+    toggleFollow();
   };
 
   const isMe = session?.did === author.did;
@@ -69,8 +44,6 @@ export default function PostHeader({ post }: PostHeaderProps) {
   const FollowButton = () => {
     if (isMe) return null;
 
-    const isFollowing = !!viewerState?.following;
-
     return (
       <Pressable onPress={handleFollowToggle} disabled={isFollowLoading} style={[styles.followButton, !isFollowing && styles.followButtonActive]}>
         {isFollowLoading ? (
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { AppBskyFeedDefs } from '@atproto/api';
 import { useUI } from '@/context/UIContext';
@@ -12,16 +13,23 @@ interface PostPageWebActionBarProps {
 const PostPageWebActionBar: React.FC<PostPageWebActionBarProps> = ({ post }) => {
   const { theme } = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
   const { openComposer } = useUI();
   
   return (
     <View style={styles.container}>
-      <Pressable
-        onPress={() => openComposer({ replyTo: { uri: post.uri, cid: post.cid } })}
-        style={styles.replyButton}
-      >
-        <Text style={styles.replyButtonText}>Reply...</Text>
-      </Pressable>
+      {post.viewer?.replyDisabled ? (
+        <View style={styles.replyButton}>
+          <Text style={styles.replyButtonText}>{t('threadgate.repliesRestricted')}</Text>
+        </View>
+      ) : (
+        <Pressable
+          onPress={() => openComposer({ replyTo: { uri: post.uri, cid: post.cid } })}
+          style={styles.replyButton}
+        >
+          <Text style={styles.replyButtonText}>Reply...</Text>
+        </Pressable>
+      )}
       <PostActions post={post} />
     </View>
   );
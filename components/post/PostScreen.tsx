@@ -5,6 +5,7 @@ import PostHeader from './PostHeader';
 import FullPostCard from './FullPostCard';
 import PostScreenActionBar from './PostScreenActionBar';
 import PostPageWebActionBar from './PostPageWebActionBar';
+import ReplyRestrictionNotice from './ReplyRestrictionNotice';
 import RepliesList from '@/components/replies/RepliesList';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '@/components/shared/Theme';
@@ -24,6 +25,7 @@ const PostScreen: React.FC<PostScreenProps> = ({ thread }) => {
   const ListHeader = () => (
     <View>
       <FullPostCard feedViewPost={{ post: thread.post }} />
+      <ReplyRestrictionNotice post={thread.post} />
       {isWeb && isDesktop && <PostPageWebActionBar post={thread.post} />}
       {thread.post.replyCount && thread.post.replyCount > 0 && (
         <View style={styles.repliesHeader}>
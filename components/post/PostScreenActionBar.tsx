@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
 import { useUI } from '../../context/UIContext';
 import { usePostActions } from '../../hooks/usePostActions';
@@ -17,6 +18,7 @@ interface PostScreenActionBarProps {
 const PostScreenActionBar: React.FC<PostScreenActionBarProps> = ({ post, onReplyPress }) => {
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
+    const { t } = useTranslation();
     const { session } = useAtp();
     const { openComposer, openRepostModal } = useUI();
     const {
@@ -39,12 +41,18 @@ const PostScreenActionBar: React.FC<PostScreenActionBarProps> = ({ post, onReply
 
     return (
         <View style={isMobile ? styles.containerMobile : styles.containerWeb}>
-            <Pressable
-                onPress={handleReplyPress}
-                style={styles.replyButton}
-            >
-                <Text style={styles.replyButtonText}>Reply...</Text>
-            </Pressable>
+            {post.viewer?.replyDisabled ? (
+                <View style={styles.replyButton}>
+                    <Text style={styles.replyButtonText}>{t('threadgate.repliesRestricted')}</Text>
+                </View>
+            ) : (
+                <Pressable
+                    onPress={handleReplyPress}
+                    style={styles.replyButton}
+                >
+                    <Text style={styles.replyButtonText}>Reply...</Text>
+                </Pressable>
+            )}
             <View style={styles.actionsContainer}>
                 <Pressable
                     onPress={(e) => handleLike(e as any)}
@@ -14,7 +14,8 @@ interface QuotedPostProps {
 const QuotedPost: React.FC<QuotedPostProps> = ({ embed }) => {
   const { theme } = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
-  if (AppBskyEmbedRecord.isViewNotFound(embed)) {
+  const record = embed.record;
+  if (AppBskyEmbedRecord.isViewNotFound(record)) {
     return (
       <View style={[styles.container, styles.containerNotFound]}>
         <Text style={styles.notFoundText}>Quoted post not found</Text>
@@ -22,7 +23,7 @@ const QuotedPost: React.FC<QuotedPostProps> = ({ embed }) => {
     );
   }
 
-  if (AppBskyEmbedRecord.isViewBlocked(embed)) {
+  if (AppBskyEmbedRecord.isViewBlocked(record)) {
     return (
       <View style={[styles.container, styles.containerBlocked]}>
         <Text style={styles.blockedText}>You have blocked the author of this post</Text>
@@ -30,8 +31,8 @@ const QuotedPost: React.FC<QuotedPostProps> = ({ embed }) => {
     );
   }
 
-  if (AppBskyEmbedRecord.isViewRecord(embed)) {
-    const recordEmbed = embed as AppBskyEmbedRecord.ViewRecord;
+  if (AppBskyEmbedRecord.isViewRecord(record)) {
+    const recordEmbed = record as AppBskyEmbedRecord.ViewRecord;
 
     if (!AppBskyFeedPost.isRecord(recordEmbed.value)) {
       return null; // It's a quote of something other than a post
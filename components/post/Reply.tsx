@@ -4,7 +4,7 @@ import { useTranslation } from 'react-i18next';
 import { AppBskyFeedDefs, RichText, AppBskyEmbedImages,AppBskyEmbedRecordWithMedia,AppBskyEmbedVideo, AppBskyActorDefs } from '@atproto/api';
 import { formatCompactNumber, formatCompactDate } from '@/lib/formatters';
 import RichTextRenderer from '../shared/RichTextRenderer';
-import { BadgeCheck, Heart, MessageCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { BadgeCheck, Heart, MessageCircle, ChevronDown, ChevronUp, Lock } from 'lucide-react';
 import { usePostActions } from '../../hooks/usePostActions';
 import { useAtp } from '../../context/AtpContext';
 import { useUI } from '../../context/UIContext';
@@ -158,7 +158,7 @@ const Reply: React.FC<ReplyProps> = ({ reply, depth = 0 }) => {
             <Text style={styles.timeAgo}>· {timeAgo}</Text>
         </View>
 
-        {modDecision.visibility === 'warn' && !isContentVisible ? (
+        {modDecision.visibility === 'warn' && modDecision.blur !== 'media' && !isContentVisible ? (
              <ContentWarning reason={modDecision.reason || 'Content Warning'} onShow={() => setIsContentVisible(true)} />
         ) : (
             <>
@@ -166,7 +166,9 @@ const Reply: React.FC<ReplyProps> = ({ reply, depth = 0 }) => {
                     <RichTextRenderer record={record} />
                 </Text>
                 
-                {renderMedia()}
+                {modDecision.visibility === 'warn' && modDecision.blur === 'media' && !isContentVisible
+                    ? <ContentWarning reason={modDecision.reason || 'Content Warning'} onShow={() => setIsContentVisible(true)} />
+                    : renderMedia()}
 
                 <View style={styles.footer}>
                     <Pressable
@@ -177,10 +179,17 @@ const Reply: React.FC<ReplyProps> = ({ reply, depth = 0 }) => {
                         <Heart size={16} color={likeUri ? theme.colors.pink : theme.colors.onSurfaceVariant} fill={likeUri ? 'currentColor' : 'none'} />
                         {likeCount > 0 && <Text style={[styles.footerText, !!likeUri && {color: theme.colors.pink}]}>{formatCompactNumber(likeCount)}</Text>}
                     </Pressable>
-                     <Pressable onPress={handleReplyClick} style={styles.footerButton}>
-                         <MessageCircle size={16} color={theme.colors.onSurfaceVariant} />
-                         <Text style={styles.footerText}>{t('common.reply')}</Text>
-                    </Pressable>
+                    {post.viewer?.replyDisabled ? (
+                        <View style={styles.footerButton}>
+                            <Lock size={14} color={theme.colors.onSurfaceVariant} />
+                            <Text style={styles.footerText}>{t('threadgate.repliesRestricted')}</Text>
+                        </View>
+                    ) : (
+                        <Pressable onPress={handleReplyClick} style={styles.footerButton}>
+                            <MessageCircle size={16} color={theme.colors.onSurfaceVariant} />
+                            <Text style={styles.footerText}>{t('common.reply')}</Text>
+                        </Pressable>
+                    )}
                 </View>
             </>
         )}
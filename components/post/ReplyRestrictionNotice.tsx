@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyFeedDefs } from '@atproto/api';
+import { Lock } from 'lucide-react';
+import { useTheme } from '@/components/shared/Theme';
+import { getReplyRestrictionSummary } from '@/lib/threadgate';
+
+interface ReplyRestrictionNoticeProps {
+  post: AppBskyFeedDefs.PostView;
+}
+
+const ReplyRestrictionNotice: React.FC<ReplyRestrictionNoticeProps> = ({ post }) => {
+  const { theme } = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+
+  const summary = getReplyRestrictionSummary(post.threadgate);
+  const replyDisabled = !!post.viewer?.replyDisabled;
+  if (!summary && !replyDisabled) return null;
+
+  let message: string;
+  if (summary?.nobody) {
+    message = t('threadgate.nobody');
+  } else if (summary) {
+    const handle = post.author.handle;
+    const who = [
+      ...summary.rules.map(rule => t(`threadgate.rules.${rule}`, { handle })),
+      ...summary.lists.map(list => t('threadgate.rules.list', { name: list.name })),
+    ];
+    message = t('threadgate.only', { who: who.join(', ') });
+  } else {
+    message = t('threadgate.cannotReply');
+  }
+
+  return (
+    <View style={styles.container}>
+      <Lock size={16} color={theme.colors.onSurfaceVariant} />
+      <Text style={styles.text}>{message}</Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.s,
+    marginTop: theme.spacing.m,
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.s,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.surfaceContainer,
+  },
+  text: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.onSurfaceVariant,
+    flex: 1,
+  },
+});
+
+export default ReplyRestrictionNotice;
@@ -5,12 +5,13 @@ import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
 import { useToast } from '@/components/shared';
 import { useProfileCache } from '../../context/ProfileCacheContext';
-import { View, Text, StyleSheet, Pressable, ActivityIndicator, Modal, Linking, Alert, Platform } from 'react-native';
+import { useActionOutcome, useActionQueue } from '../../context/ActionQueueContext';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, Modal, Alert, Platform } from 'react-native';
 import { OptimizedImage } from '../ui';
 import { Link, useRouter } from 'expo-router';
 import { AppBskyActorDefs, RichText, AtUri } from '@atproto/api';
 import Feed from '../shared/Feed';
-import { BadgeCheck, MoreHorizontal, UserX, Shield, AlertTriangle, MicOff, Edit, X, ArrowLeft, Grid, Repeat, Frown } from 'lucide-react';
+import { BadgeCheck, MoreHorizontal, UserX, Shield, AlertTriangle, MicOff, Edit, X, ArrowLeft, Grid, Repeat, Frown, MessageCircle, List, ListPlus, Rss } from 'lucide-react';
 import RichTextRenderer from '../shared/RichTextRenderer';
 import { useUI } from '../../context/UIContext';
 import Head from 'expo-router/head';
@@ -20,18 +21,25 @@ import { TopAppBar } from '@/components/shared';
 
 import { PostCardSkeleton, ProfileHeaderSkeleton } from '@/components/shared';
 import { formatCompactNumber } from '@/lib/formatters';
+import { canStartChat } from '@/lib/chat';
+import { cacheHandle, isValidDid, isValidHandle } from '@/lib/identity';
+import { PENDING_RECORD_URI, getKnownRecordUri } from '@/lib/actionQueue';
 import ErrorState from '../shared/ErrorState';
+import ActorLists from '../lists/ActorLists';
+import ActorFeeds from '../feeds/ActorFeeds';
+import AddToListModal from '../lists/AddToListModal';
 import { usePublicAccess } from '../../hooks/usePublicAccess';
 import { useTheme } from '@/components/shared';
 
 const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
-    const { agent, session } = useAtp();
+    const { agent, chatAgent, session } = useAtp();
     const { safeGetProfile } = usePublicAccess();
     const { t } = useTranslation();
     const router = useRouter();
     const { toast } = useToast();
     const { getProfile, clearProfile } = useProfileCache();
-    const { openEditProfileModal } = useUI();
+    const { submit } = useActionQueue();
+    const { openEditProfileModal, openReportModal } = useUI();
 
     // Novo sistema de tema dinâmico
     const { theme } = useTheme();
@@ -43,14 +51,22 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
     const [descriptionWithFacets, setDescriptionWithFacets] = useState<{ text: string, facets: RichText['facets'] | undefined } | null>(null);
     
     const [isActionLoading, setIsActionLoading] = useState(false);
+    const [isOpeningChat, setIsOpeningChat] = useState(false);
     const [isActionsModalVisible, setIsActionsModalVisible] = useState(false);
-    const [activeFilter, setActiveFilter] = useState<'posts' | 'reposts'>('posts');
+    const [isAddToListVisible, setIsAddToListVisible] = useState(false);
+    const [activeFilter, setActiveFilter] = useState<'posts' | 'reposts' | 'lists' | 'feeds'>('posts');
 
     const isMe = session?.did === profile?.did;
     
     const fetchProfile = useCallback(async () => {
         setIsLoading(true);
         setError(null);
+
+        if (!isValidHandle(actor) && !isValidDid(actor)) {
+            setError(t('profile.notFound'));
+            setIsLoading(false);
+            return;
+        }
         
         console.log('🔍 DEBUG: Fetching profile for actor:', actor, 'Session exists:', !!session);
         
@@ -70,6 +86,8 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
             }
             
             setProfile(profileData);
+            // The AppView has already verified this pair; later handle lookups can skip the network
+            cacheHandle(profileData.handle, profileData.did);
         } catch (err: any) {
             console.error('❌ ERROR: Profile fetch failed:', err.message, err);
             
@@ -103,18 +121,34 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
         }
     }, [profile?.description, agent]);
 
+    const setFollowing = (following: string | undefined) => setProfile(prev => prev && {
+        ...prev,
+        viewer: { ...prev.viewer, following },
+        followersCount: Math.max(0, (prev.followersCount ?? 0) + (following ? 1 : 0) - (prev.viewer?.following ? 1 : 0)),
+    });
+
+    // A follow queued while offline settles (or is rolled back) once it's replayed
+    useActionOutcome(profile?.did, ({ action, status, uri }) => {
+        if (action.type === 'follow') setFollowing(status === 'applied' ? uri : undefined);
+        if (action.type === 'unfollow' && status === 'rejected') setFollowing(action.recordUri ?? PENDING_RECORD_URI);
+        clearProfile(actor);
+    });
+
     const handleFollowToggle = async () => {
         if (isActionLoading || !profile || !session) return;
         setIsActionLoading(true);
         try {
-            if (profile.viewer?.following) {
-                await agent.deleteFollow(profile.viewer.following);
+            const following = profile.viewer?.following;
+            const { queued } = following
+                ? await submit({ type: 'unfollow', subject: profile.did, recordUri: getKnownRecordUri(following) })
+                : await submit({ type: 'follow', subject: profile.did });
+            clearProfile(actor);
+            if (queued) {
+                setFollowing(following ? undefined : PENDING_RECORD_URI);
             } else {
-                await agent.follow(profile.did);
+                const newProfile = await getProfile(actor);
+                setProfile(newProfile);
             }
-            clearProfile(actor);
-            const newProfile = await getProfile(actor);
-            setProfile(newProfile);
         } catch (err) {
             toast({ title: profile.viewer?.following ? t('profile.toast.unfollowError') : t('profile.toast.followError'), variant: "destructive" });
         } finally {
@@ -122,6 +156,19 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
         }
     };
 
+    const handleStartChat = async () => {
+        if (isOpeningChat || !profile) return;
+        setIsOpeningChat(true);
+        try {
+            const { data } = await chatAgent.chat.bsky.convo.getConvoForMembers({ members: [profile.did] });
+            router.push(`/messages/${data.convo.id}` as any);
+        } catch (err) {
+            toast({ title: t('messages.toast.startError'), variant: "destructive" });
+        } finally {
+            setIsOpeningChat(false);
+        }
+    };
+
     const confirmAction = (title: string, message: string, onConfirm: () => void) => {
         if (Platform.OS === 'web') {
             if (window.confirm(message)) onConfirm();
@@ -214,6 +261,20 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
                             {isActionLoading ? <ActivityIndicator color={profile?.viewer?.following ? theme.colors.onSurface : theme.colors.onPrimary} /> : <Text style={[styles.actionButtonText, !profile?.viewer?.following && styles.followButtonText]}>{t(profile?.viewer?.following ? 'common.following' : 'common.follow')}</Text>}
                         </Pressable>
                     )}
+                    {!isMe && profile && canStartChat(profile) && (
+                        <Pressable onPress={handleStartChat} disabled={isOpeningChat} style={[styles.actionButton, styles.editButton, styles.labelerButton]}>
+                            {isOpeningChat ? <ActivityIndicator color={theme.colors.onSurface} /> : <MessageCircle size={16} color={theme.colors.onSurface} />}
+                            <Text style={styles.actionButtonText}>{t('profile.message')}</Text>
+                        </Pressable>
+                    )}
+                    {profile?.associated?.labeler && (
+                        <Link href={`/settings/mod-service/${profile.did}` as any} asChild>
+                            <Pressable style={[styles.actionButton, styles.editButton, styles.labelerButton]}>
+                                <Shield size={16} color={theme.colors.onSurface} />
+                                <Text style={styles.actionButtonText}>{t('profile.moderationService')}</Text>
+                            </Pressable>
+                        </Link>
+                    )}
                 </View>
              )}
             <View style={styles.filterContainer}>
@@ -225,6 +286,16 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
                     <Repeat size={24} color={activeFilter === 'reposts' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
                     {activeFilter === 'reposts' && <View style={styles.activeIndicator} />}
                 </Pressable>
+                <Pressable style={styles.filterButton} onPress={() => setActiveFilter('lists')} accessibilityLabel={t('lists.title')}>
+                    <List size={24} color={activeFilter === 'lists' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+                    {activeFilter === 'lists' && <View style={styles.activeIndicator} />}
+                </Pressable>
+                {!!profile?.associated?.feedgens && (
+                    <Pressable style={styles.filterButton} onPress={() => setActiveFilter('feeds')} accessibilityLabel={t('feeds.byCreator')}>
+                        <Rss size={24} color={activeFilter === 'feeds' ? theme.colors.primary : theme.colors.onSurfaceVariant} />
+                        {activeFilter === 'feeds' && <View style={styles.activeIndicator} />}
+                    </Pressable>
+                )}
             </View>
         </View>
     );
@@ -315,32 +386,42 @@ const ProfileScreen: React.FC<{ actor: string }> = ({ actor }) => {
                         </Pressable>
                     )}
                 />
-                <Feed
-                    key={activeFilter}
-                    feedUri={actor}
-                    layout="grid"
-                    authorFeedFilter={
-                        activeFilter === 'posts'
-                            ? 'posts_with_media'
-                            : 'posts_with_replies'
-                    }
-                    postFilter={
-                        activeFilter === 'reposts'
-                            ? 'reposts_only'
-                            : undefined
-                    }
-                    ListHeaderComponent={ListHeader}
-                />
+                {activeFilter === 'lists' ? (
+                    <ActorLists actor={actor} isMe={isMe} ListHeaderComponent={ListHeader} />
+                ) : activeFilter === 'feeds' ? (
+                    <ActorFeeds actor={actor} ListHeaderComponent={ListHeader} />
+                ) : (
+                    <Feed
+                        key={activeFilter}
+                        feedUri={actor}
+                        layout="grid"
+                        authorFeedFilter={
+                            activeFilter === 'posts'
+                                ? 'posts_with_media'
+                                : 'posts_with_replies'
+                        }
+                        postFilter={
+                            activeFilter === 'reposts'
+                                ? 'reposts_only'
+                                : undefined
+                        }
+                        ListHeaderComponent={ListHeader}
+                    />
+                )}
                  <Modal visible={isActionsModalVisible} transparent={true} animationType="fade" onRequestClose={() => setIsActionsModalVisible(false)}>
                     <Pressable style={styles.modalBackdrop} onPress={() => setIsActionsModalVisible(false)}>
                         <Pressable style={styles.bottomSheet}>
                             <View style={styles.bottomSheetHeader}><Text style={styles.bottomSheetTitle}>{`@${profile.handle}`}</Text><Pressable onPress={() => setIsActionsModalVisible(false)} style={styles.closeButton}><X color={theme.colors.onSurfaceVariant}/></Pressable></View>
+                            <Pressable onPress={() => { setIsActionsModalVisible(false); setIsAddToListVisible(true); }} style={styles.actionItem}><ListPlus color={theme.colors.onSurfaceVariant} /><Text style={styles.actionItemText}>{t('lists.addToList')}</Text></Pressable>
                             <Pressable onPress={handleMuteToggle} style={styles.actionItem}><MicOff color={theme.colors.onSurfaceVariant} /><Text style={styles.actionItemText}>{t(profile.viewer?.muted ? 'mediaActions.unmuteUser' : 'mediaActions.muteUser', { handle: '' })}</Text></Pressable>
                             <Pressable onPress={handleBlockToggle} style={styles.actionItem}><Shield color={theme.colors.error} /><Text style={[styles.actionItemText, styles.destructiveText]}>{t(profile.viewer?.blocking ? 'mediaActions.unblockUser' : 'mediaActions.blockUser', { handle: '' })}</Text></Pressable>
-                            <Pressable onPress={() => Linking.openURL(`mailto:moderation@blueskyweb.xyz`)} style={styles.actionItem}><AlertTriangle color={theme.colors.error} /><Text style={[styles.actionItemText, styles.destructiveText]}>Report Account</Text></Pressable>
+                            <Pressable onPress={() => { setIsActionsModalVisible(false); openReportModal({ type: 'account', did: profile.did }); }} style={styles.actionItem}><AlertTriangle color={theme.colors.error} /><Text style={[styles.actionItemText, styles.destructiveText]}>{t('profile.reportAccount')}</Text></Pressable>
                         </Pressable>
                     </Pressable>
                 </Modal>
+                {session && !isMe && (
+                    <AddToListModal visible={isAddToListVisible} subject={profile} onClose={() => setIsAddToListVisible(false)} />
+                )}
             </View>
         </>
     );
@@ -365,6 +446,7 @@ const createStyles = (theme: any) => StyleSheet.create({
     actionButtonContainer: { marginTop: theme.spacing.m },
     actionButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: theme.spacing.s, paddingVertical: theme.spacing.m, borderRadius: theme.radius.md, width: '100%' },
     editButton: { backgroundColor: theme.colors.surfaceContainerHigh },
+    labelerButton: { marginTop: theme.spacing.s },
     followingButton: { backgroundColor: theme.colors.surfaceContainerHigh },
     followButton: { backgroundColor: theme.colors.primary },
     actionButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface, fontWeight: 'bold' },
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { addDays, addHours, format, isValid, parse, setHours, startOfDay, startOfMinute } from 'date-fns';
+import { useTheme } from '@/components/shared/Theme';
+import { formatDateTime } from '@/lib/formatters';
+
+interface ScheduleModalProps {
+  visible: boolean;
+  title: string;
+  initialDate?: Date;
+  submitLabel: string;
+  onSubmit: (date: Date) => Promise<void>;
+  onClose: () => void;
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+const TIME_FORMAT = 'HH:mm';
+
+const getPresets = (now: Date) => [
+  { key: 'inOneHour', date: startOfMinute(addHours(now, 1)) },
+  { key: 'tomorrowMorning', date: setHours(startOfDay(addDays(now, 1)), 9) },
+  { key: 'tomorrowEvening', date: setHours(startOfDay(addDays(now, 1)), 18) },
+  { key: 'nextWeek', date: setHours(startOfDay(addDays(now, 7)), 9) },
+];
+
+/** Picks the date and time a post should be published at. */
+const ScheduleModal: React.FC<ScheduleModalProps> = ({ visible, title, initialDate, submitLabel, onSubmit, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const [dateText, setDateText] = useState('');
+  const [timeText, setTimeText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const presets = useMemo(() => getPresets(new Date()), [visible]);
+
+  const applyDate = (date: Date) => {
+    setDateText(format(date, DATE_FORMAT));
+    setTimeText(format(date, TIME_FORMAT));
+  };
+
+  // Compared by time, since callers usually build the initial date while rendering
+  const initialTime = initialDate?.getTime();
+  useEffect(() => {
+    if (visible) applyDate(initialTime ? new Date(initialTime) : presets[0].date);
+  }, [visible, initialTime, presets]);
+
+  const selectedDate = parse(`${dateText} ${timeText}`, `${DATE_FORMAT} ${TIME_FORMAT}`, new Date());
+  const error = !isValid(selectedDate)
+    ? 'scheduled.picker.invalid'
+    : selectedDate.getTime() <= Date.now() ? 'scheduled.picker.inPast' : null;
+  const canSubmit = !error && !isSaving;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSaving(true);
+    try {
+      await onSubmit(selectedDate);
+      onClose();
+    } catch (submitError) {
+      console.error("Failed to schedule post", submitError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{title}</Text>
+          <View style={styles.presets}>
+            {presets.map(preset => (
+              <Pressable key={preset.key} onPress={() => applyDate(preset.date)} style={styles.preset}>
+                <Text style={styles.presetText}>{t(`scheduled.picker.presets.${preset.key}`)}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.fields}>
+            <View style={styles.field}>
+              <Text style={styles.label}>{t('scheduled.picker.date')}</Text>
+              <TextInput
+                value={dateText}
+                onChangeText={setDateText}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={theme.colors.onSurfaceVariant}
+                style={styles.input}
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>{t('scheduled.picker.time')}</Text>
+              <TextInput
+                value={timeText}
+                onChangeText={setTimeText}
+                placeholder="HH:MM"
+                placeholderTextColor={theme.colors.onSurfaceVariant}
+                style={styles.input}
+                maxLength={5}
+                onSubmitEditing={handleSubmit}
+              />
+            </View>
+          </View>
+          <Text style={[styles.summary, !!error && styles.error]}>
+            {error ? t(error) : t('scheduled.picker.summary', { date: formatDateTime(selectedDate) })}
+          </Text>
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </Pressable>
+            <Pressable onPress={handleSubmit} disabled={!canSubmit} style={[styles.primaryButton, !canSubmit && styles.disabledButton]}>
+              {isSaving
+                ? <ActivityIndicator color={theme.colors.onPrimary} />
+                : <Text style={styles.primaryButtonText}>{submitLabel}</Text>}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 400, backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.l },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  presets: { flexDirection: 'row', flexWrap: 'wrap', gap: theme.spacing.s },
+  preset: { paddingHorizontal: theme.spacing.m, paddingVertical: theme.spacing.s, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  presetText: { ...theme.typography.labelMedium, color: theme.colors.onSurface },
+  fields: { flexDirection: 'row', gap: theme.spacing.m },
+  field: { flex: 1, gap: theme.spacing.xs },
+  label: { ...theme.typography.labelMedium, color: theme.colors.onSurfaceVariant },
+  input: {
+    paddingHorizontal: theme.spacing.l,
+    paddingVertical: theme.spacing.m,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+    borderRadius: theme.radius.md,
+    color: theme.colors.onSurface,
+    fontSize: 16,
+  },
+  summary: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+  error: { color: theme.colors.error },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  disabledButton: { opacity: 0.5 },
+});
+
+export default ScheduleModal;
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Head from 'expo-router/head';
+import { CalendarClock, Pencil, Send, Trash2 } from 'lucide-react';
+import ScreenHeader from '@/components/layout/ScreenHeader';
+import { useTheme } from '@/components/shared';
+import { OptimizedImage } from '../ui';
+import { useUI } from '@/context/UIContext';
+import { useScheduledPosts, ScheduledPost } from '@/context/ScheduledPostsContext';
+import { formatDateTime } from '@/lib/formatters';
+import ScheduleModal from './ScheduleModal';
+
+/** Posts queued from the composer, waiting to be published by the scheduler. */
+const ScheduledScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { openComposer } = useUI();
+  const { scheduledPosts, isLoaded, reschedulePost, cancelScheduledPost, publishNow } = useScheduledPosts();
+  const [reschedulingPost, setReschedulingPost] = useState<ScheduledPost | null>(null);
+
+  const confirmCancel = (post: ScheduledPost) => {
+    const message = t('scheduled.cancelConfirm');
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) cancelScheduledPost(post.id);
+    } else {
+      Alert.alert(t('scheduled.cancel'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('scheduled.cancel'), style: 'destructive', onPress: () => cancelScheduledPost(post.id) },
+      ]);
+    }
+  };
+
+  const renderStatus = (post: ScheduledPost) => {
+    switch (post.status) {
+      case 'publishing':
+        return (
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+            <Text style={styles.statusText}>{t('scheduled.status.publishing')}</Text>
+          </View>
+        );
+      case 'missed':
+        return <Text style={[styles.statusText, styles.statusWarning]}>{t('scheduled.status.missed')}</Text>;
+      case 'failed':
+        return <Text style={[styles.statusText, styles.statusWarning]} numberOfLines={2}>{t('scheduled.status.failed', { error: post.error })}</Text>;
+      default:
+        return null;
+    }
+  };
+
+  const renderPost = (post: ScheduledPost) => {
+    const [first] = post.segments;
+    const cover = first?.media[0]?.asset.uri ?? first?.linkCard?.image;
+    const isPublishing = post.status === 'publishing';
+    return (
+      <View key={post.id} style={styles.item}>
+        <View style={styles.itemBody}>
+          {cover && <OptimizedImage source={{ uri: cover }} style={styles.thumbnail} contentFit="cover" />}
+          <View style={styles.itemText}>
+            <Text style={styles.date}>{formatDateTime(post.scheduledAt)}</Text>
+            <Text style={styles.text} numberOfLines={2}>
+              {first?.text.trim() || t('composer.drafts.mediaOnly', { count: first?.media.length ?? 0 })}
+            </Text>
+            <Text style={styles.meta}>
+              {post.replyTo ? `${t('composer.drafts.reply')} · ` : ''}
+              {post.segments.length > 1 ? t('composer.thread.postCount', { count: post.segments.length }) : t('composer.drafts.mediaCount', { count: first?.media.length ?? 0 })}
+            </Text>
+            {renderStatus(post)}
+          </View>
+        </View>
+        <View style={styles.actions}>
+          <Pressable
+            onPress={() => openComposer({ scheduledPostId: post.id, replyTo: post.replyTo })}
+            disabled={isPublishing}
+            style={[styles.action, isPublishing && styles.actionDisabled]}
+          >
+            <Pencil size={16} color={theme.colors.onSurface} />
+            <Text style={styles.actionText}>{t('scheduled.edit')}</Text>
+          </Pressable>
+          <Pressable onPress={() => setReschedulingPost(post)} disabled={isPublishing} style={[styles.action, isPublishing && styles.actionDisabled]}>
+            <CalendarClock size={16} color={theme.colors.onSurface} />
+            <Text style={styles.actionText}>{t('scheduled.reschedule')}</Text>
+          </Pressable>
+          <Pressable onPress={() => publishNow(post.id)} disabled={isPublishing} style={[styles.action, isPublishing && styles.actionDisabled]}>
+            <Send size={16} color={theme.colors.onSurface} />
+            <Text style={styles.actionText}>{t('scheduled.publishNow')}</Text>
+          </Pressable>
+          <Pressable onPress={() => confirmCancel(post)} disabled={isPublishing} style={[styles.action, isPublishing && styles.actionDisabled]}>
+            <Trash2 size={16} color={theme.colors.error} />
+            <Text style={[styles.actionText, { color: theme.colors.error }]}>{t('scheduled.cancel')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Head><title>{t('scheduled.title')}</title></Head>
+      <View style={{ flex: 1 }}>
+        <ScreenHeader title={t('scheduled.title')} />
+        {!isLoaded ? (
+          <View style={styles.centered}><ActivityIndicator size="large" color={theme.colors.primary} /></View>
+        ) : scheduledPosts.length === 0 ? (
+          <View style={styles.centered}>
+            <CalendarClock size={48} color={theme.colors.onSurfaceVariant} />
+            <Text style={styles.emptyTitle}>{t('scheduled.emptyTitle')}</Text>
+            <Text style={styles.emptyMessage}>{t('scheduled.emptyMessage')}</Text>
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.list}>
+            <Text style={styles.hint}>{t('scheduled.hint')}</Text>
+            {scheduledPosts.map(renderPost)}
+          </ScrollView>
+        )}
+      </View>
+
+      <ScheduleModal
+        visible={!!reschedulingPost}
+        title={t('scheduled.reschedule')}
+        initialDate={reschedulingPost ? new Date(reschedulingPost.scheduledAt) : undefined}
+        submitLabel={t('common.save')}
+        onSubmit={async (date) => {
+          if (reschedulingPost) await reschedulePost(reschedulingPost.id, date.toISOString());
+        }}
+        onClose={() => setReschedulingPost(null)}
+      />
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: theme.spacing.xl, gap: theme.spacing.m },
+  emptyTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface, textAlign: 'center' },
+  emptyMessage: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant, textAlign: 'center' },
+  list: { padding: theme.spacing.l, gap: theme.spacing.m },
+  hint: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  item: { backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.m, gap: theme.spacing.m },
+  itemBody: { flexDirection: 'row', gap: theme.spacing.m },
+  thumbnail: { width: 64, height: 64, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+  itemText: { flex: 1, gap: theme.spacing.xs },
+  date: { ...theme.typography.labelLarge, color: theme.colors.primary },
+  text: { ...theme.typography.bodyMedium, color: theme.colors.onSurface },
+  meta: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  statusRow: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.s },
+  statusText: { ...theme.typography.labelMedium, color: theme.colors.onSurfaceVariant },
+  statusWarning: { color: theme.colors.error },
+  actions: { flexDirection: 'row', flexWrap: 'wrap', gap: theme.spacing.s },
+  action: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.xs, paddingHorizontal: theme.spacing.m, paddingVertical: theme.spacing.s, borderRadius: theme.radius.full, backgroundColor: theme.colors.surfaceContainerHigh },
+  actionDisabled: { opacity: 0.5 },
+  actionText: { ...theme.typography.labelMedium, color: theme.colors.onSurface },
+});
+
+export default ScheduledScreen;
@@ -1,12 +1,12 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Link } from 'expo-router';
 import { AppBskyActorDefs } from '@atproto/api';
 import { useAtp } from '../../context/AtpContext';
-import { useToast } from '@/components/shared';
 import { BadgeCheck, Loader2 } from 'lucide-react';
 import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
 import { OptimizedImage } from '../ui';
 import { useTheme } from '@/components/shared';
+import { useFollowAction } from '@/hooks/useFollowAction';
 
 interface ActorSearchResultCardProps {
   actor: AppBskyActorDefs.ProfileView | AppBskyActorDefs.ProfileViewDetailed;
@@ -15,47 +15,15 @@ interface ActorSearchResultCardProps {
 const ActorSearchResultCard: React.FC<ActorSearchResultCardProps> = ({ actor }) => {
   const { theme } = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
-  const { agent, session } = useAtp();
-  const { toast } = useToast();
-  const [viewerState, setViewerState] = useState(actor.viewer);
-  const [isActionLoading, setIsActionLoading] = useState(false);
+  const { session } = useAtp();
+  const { isFollowing, isFollowLoading: isActionLoading, toggleFollow } = useFollowAction(actor.did, actor.viewer?.following);
   const profileLink = `/profile/${actor.handle}`;
 
-  const handleFollow = async (e: any) => {
+  const handleFollowToggle = (e: any) => {
     e.stopPropagation();
     e.preventDefault();
-    if (isActionLoading || !session) return;
-    setIsActionLoading(true);
-    const oldViewerState = viewerState;
-    setViewerState(prev => ({ ...prev, following: 'temp-uri' }));
-    try {
-      const { uri } = await agent.follow(actor.did);
-      setViewerState(prev => ({ ...prev, following: uri }));
-    } catch (err) {
-      console.error("Failed to follow:", err);
-      toast({ title: "Error", description: "Could not follow user.", variant: "destructive" });
-      setViewerState(oldViewerState);
-    } finally {
-      setIsActionLoading(false);
-    }
-  };
-
-  const handleUnfollow = async (e: any) => {
-    e.stopPropagation();
-    e.preventDefault();
-    if (!viewerState?.following || isActionLoading) return;
-    setIsActionLoading(true);
-    const oldViewerState = viewerState;
-    setViewerState(prev => ({ ...prev, following: undefined }));
-    try {
-      await agent.deleteFollow(viewerState.following);
-    } catch (err) {
-      console.error("Failed to unfollow:", err);
-      toast({ title: "Error", description: "Could not unfollow user.", variant: "destructive" });
-      setViewerState(oldViewerState);
-    } finally {
-      setIsActionLoading(false);
-    }
+    if (!session) return;
+    toggleFollow();
   };
 
   const FollowButton = () => {
@@ -63,15 +31,15 @@ const ActorSearchResultCard: React.FC<ActorSearchResultCardProps> = ({ actor })
 
     return (
       <Pressable
-        onPress={viewerState?.following ? handleUnfollow : handleFollow}
+        onPress={handleFollowToggle}
         disabled={isActionLoading}
-        style={[styles.followButton, viewerState?.following ? styles.followingButton : styles.followButtonActive, isActionLoading && styles.disabledButton]}
+        style={[styles.followButton, isFollowing ? styles.followingButton : styles.followButtonActive, isActionLoading && styles.disabledButton]}
       >
         {isActionLoading ? (
-          <ActivityIndicator size="small" color={viewerState?.following ? theme.colors.onSurface : theme.colors.onPrimary} />
+          <ActivityIndicator size="small" color={isFollowing ? theme.colors.onSurface : theme.colors.onPrimary} />
         ) : (
-          <Text style={[styles.followButtonText, viewerState?.following ? styles.followingButtonText : styles.followButtonTextActive]}>
-            {viewerState?.following ? 'Following' : 'Follow'}
+          <Text style={[styles.followButtonText, isFollowing ? styles.followingButtonText : styles.followButtonTextActive]}>
+            {isFollowing ? 'Following' : 'Follow'}
           </Text>
         )}
       </Pressable>
@@ -17,6 +17,7 @@ import { useDebounce, useDebouncedSearch } from '../../hooks/useDebounce';
 import { useSearchHistory } from '../../hooks/useSearchHistory';
 import { View, Text, TextInput, ScrollView, StyleSheet, ActivityIndicator, Pressable, Platform } from 'react-native';
 import { useTheme } from '../shared/Theme/ThemeProvider';
+import { getPopularFeeds } from '@/lib/feeds';
 
 type SearchResult = AppBskyActorDefs.ProfileView | AppBskyFeedDefs.GeneratorView;
 type FilterType = 'top' | 'latest' | 'images' | 'videos' | 'people' | 'feeds';
@@ -95,28 +96,24 @@ const SearchScreen: React.FC<SearchScreenProps> = ({ initialQuery = '', initialF
             } else if (searchFilter === 'feeds') {
                 console.log('🔍 DEBUG: Searching for feeds with query:', searchQuery);
                 try {
-                    const response = await (agent.api.app.bsky.unspecced as any).getPopularFeedGenerators({
-                        query: searchQuery, limit: 25, cursor: currentCursor
-                    });
-                    console.log('✅ SUCCESS: Feed generators search completed, feeds found:', response.data.feeds?.length);
-                    const newResults = currentCursor ? [...nonPostResults, ...response.data.feeds] : response.data.feeds;
+                    const page = await getPopularFeeds(agent, { query: searchQuery, cursor: currentCursor });
+                    console.log('✅ SUCCESS: Feed generators search completed, feeds found:', page.feeds.length);
+                    const newResults = currentCursor ? [...nonPostResults, ...page.feeds] : page.feeds;
                     setNonPostResults(newResults);
-                    setCursor(response.data.cursor);
-                    setHasMore(!!response.data.cursor);
-                    return { data: newResults, cursor: response.data.cursor, hasMore: !!response.data.cursor };
+                    setCursor(page.cursor);
+                    setHasMore(!!page.cursor);
+                    return { data: newResults, cursor: page.cursor, hasMore: !!page.cursor };
                 } catch (feedError: any) {
                     console.error('❌ ERROR: Feed generators search failed:', feedError);
                     // Fallback: try to get popular feeds without query
                     try {
-                        const fallbackResponse = await (agent.api.app.bsky.unspecced as any).getPopularFeedGenerators({
-                            limit: 25, cursor: currentCursor
-                        });
-                        console.log('🔄 FALLBACK: Using popular feeds without query, feeds found:', fallbackResponse.data.feeds?.length);
-                        const newResults = currentCursor ? [...nonPostResults, ...fallbackResponse.data.feeds] : fallbackResponse.data.feeds;
+                        const fallbackPage = await getPopularFeeds(agent, { cursor: currentCursor });
+                        console.log('🔄 FALLBACK: Using popular feeds without query, feeds found:', fallbackPage.feeds.length);
+                        const newResults = currentCursor ? [...nonPostResults, ...fallbackPage.feeds] : fallbackPage.feeds;
                         setNonPostResults(newResults);
-                        setCursor(fallbackResponse.data.cursor);
-                        setHasMore(!!fallbackResponse.data.cursor);
-                        return { data: newResults, cursor: fallbackResponse.data.cursor, hasMore: !!fallbackResponse.data.cursor };
+                        setCursor(fallbackPage.cursor);
+                        setHasMore(!!fallbackPage.cursor);
+                        return { data: newResults, cursor: fallbackPage.cursor, hasMore: !!fallbackPage.cursor };
                     } catch (fallbackError: any) {
                         console.error('❌ ERROR: Fallback feed generators also failed:', fallbackError);
                         throw fallbackError;
@@ -3,21 +3,31 @@ import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
 import { useAccessibility } from '../../context/AccessibilityContext';
 import { useToast, Switch, SettingsDivider } from '@/components/shared';
-import { Eye, Volume2, Smartphone, Zap, Type, Contrast, Move, Play } from 'lucide-react';
+import { Eye, Volume2, Smartphone, Zap, Type, Contrast, Move, Play, FileText, Gauge, SignalLow, Captions } from 'lucide-react';
 import Head from 'expo-router/head';
 import SettingsListItem from './SettingsListItem';
 import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
 import AccessibilityTest from '../shared/AccessibilityTest';
+import { useVideoConfig } from '@/hooks/useVideoConfig';
+import { VideoQuality } from '@/lib/video';
 
 const ACCESSIBILITY_STORAGE_KEY = 'accessibility_settings';
 
 // Remove the interface and default settings as they're now in the context
 
+const VIDEO_QUALITIES: VideoQuality[] = ['auto', 'high', 'medium', 'low'];
+
 const AccessibilitySettingsScreen: React.FC = () => {
     const { t } = useTranslation();
     const { session } = useAtp();
     const { toast } = useToast();
     const { settings, updateSetting } = useAccessibility();
+    const { config: videoConfig, updateConfig: updateVideoConfig } = useVideoConfig();
+
+    const cycleVideoQuality = () => {
+        const next = VIDEO_QUALITIES[(VIDEO_QUALITIES.indexOf(videoConfig.preferredQuality) + 1) % VIDEO_QUALITIES.length];
+        updateVideoConfig({ preferredQuality: next });
+    };
     const [isSaving, setIsSaving] = useState(false);
 
     const handleSettingToggle = async (key: keyof typeof settings, value: boolean) => {
@@ -131,6 +141,39 @@ const AccessibilitySettingsScreen: React.FC = () => {
                         }
                     />
                     <SettingsDivider />
+                    <SettingsListItem
+                        icon={Captions}
+                        label={t('accessibilitySettings.showCaptions')}
+                        sublabel={t('accessibilitySettings.showCaptionsDesc')}
+                        control={
+                            <Switch 
+                                checked={settings.showCaptions} 
+                                onChange={(value) => handleSettingToggle('showCaptions', value)}
+                                disabled={isSaving}
+                            />
+                        }
+                    />
+                    <SettingsDivider />
+                    <SettingsListItem
+                        icon={Gauge}
+                        label={t('accessibilitySettings.videoQuality')}
+                        sublabel={t('accessibilitySettings.videoQualityDesc')}
+                        value={t(`accessibilitySettings.videoQualities.${videoConfig.preferredQuality}`)}
+                        onPress={cycleVideoQuality}
+                    />
+                    <SettingsDivider />
+                    <SettingsListItem
+                        icon={SignalLow}
+                        label={t('accessibilitySettings.dataSaver')}
+                        sublabel={t('accessibilitySettings.dataSaverDesc')}
+                        control={
+                            <Switch 
+                                checked={videoConfig.dataSaver} 
+                                onChange={(value) => updateVideoConfig({ dataSaver: value })}
+                            />
+                        }
+                    />
+                    <SettingsDivider />
                     <SettingsListItem
                         icon={Eye}
                         label={t('accessibilitySettings.showAltText')}
@@ -143,6 +186,19 @@ const AccessibilitySettingsScreen: React.FC = () => {
                             />
                         }
                     />
+                    <SettingsDivider />
+                    <SettingsListItem
+                        icon={FileText}
+                        label={t('accessibilitySettings.requireAltText')}
+                        sublabel={t('accessibilitySettings.requireAltTextDesc')}
+                        control={
+                            <Switch 
+                                checked={settings.requireAltText} 
+                                onChange={(value) => handleSettingToggle('requireAltText', value)}
+                                disabled={isSaving}
+                            />
+                        }
+                    />
                 </SettingsSection>
 
                 <SettingsSection title={t('accessibilitySettings.interaction')}>
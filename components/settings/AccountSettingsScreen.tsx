@@ -4,7 +4,7 @@ import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../context/AtpContext';
 import { useUI } from '../../context/UIContext';
 import { useToast } from '@/components/shared';
-import { Mail, Edit, Lock, AtSign, Cake, Download, Power, Trash2, ShieldCheck } from 'lucide-react';
+import { Mail, Edit, Lock, AtSign, Cake, Download, Power, Trash2, ShieldCheck, ArrowLeftRight } from 'lucide-react';
 import Head from 'expo-router/head';
 import { useTheme } from '@/hooks/useTheme';
 import { useRouter } from 'expo-router';
@@ -15,8 +15,8 @@ import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
 import { useDebouncedAction } from '@/hooks/useDebounce';
 
 const AccountSettingsScreen: React.FC = () => {
-    const { session, agent, logout } = useAtp();
-    const { openUpdateEmailModal, openUpdateHandleModal } = useUI();
+    const { session, agent, logout, accounts } = useAtp();
+    const { openUpdateEmailModal, openUpdateHandleModal, openAccountSwitcher } = useUI();
     const { toast } = useToast();
     const { t } = useTranslation();
     const router = useRouter();
@@ -138,6 +138,10 @@ const AccountSettingsScreen: React.FC = () => {
                         }
                     }} />
                 </SettingsSection>
+
+                <SettingsSection>
+                    <SettingsListItem icon={ArrowLeftRight} label={t('accountSettings.switchAccount')} value={String(accounts.length)} onPress={openAccountSwitcher} disabled={!!actionInProgress} />
+                </SettingsSection>
                 
                 <SettingsSection title={t('accountSettings.accountActions')}>
                     <SettingsListItem icon={Download} label={t('accountSettings.exportData')} onPress={handleExportData} isLoading={isExportPending || actionInProgress === 'export'} disabled={!!actionInProgress || isExportPending} />
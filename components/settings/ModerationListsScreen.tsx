@@ -0,0 +1,133 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import Head from 'expo-router/head';
+import { AppBskyGraphDefs } from '@atproto/api';
+import { Plus } from 'lucide-react';
+import { useAtp } from '../../context/AtpContext';
+import { useTheme } from '@/hooks/useTheme';
+import { SettingsDivider } from '@/components/shared';
+import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
+import ListCard from '../lists/ListCard';
+import ListEditorModal from '../lists/ListEditorModal';
+import ModListSubscriptionButtons from '../lists/ModListSubscriptionButtons';
+
+/** Moderation lists the user owns, and the ones they mute or block as a whole. */
+const ModerationListsScreen: React.FC = () => {
+    const { theme } = useTheme();
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const { t } = useTranslation();
+    const { agent, session } = useAtp();
+    const [ownLists, setOwnLists] = useState<AppBskyGraphDefs.ListView[]>([]);
+    const [subscribedLists, setSubscribedLists] = useState<AppBskyGraphDefs.ListView[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isEditorVisible, setIsEditorVisible] = useState(false);
+
+    const fetchLists = useCallback(async () => {
+        if (!session) return;
+        try {
+            const [ownRes, mutesRes, blocksRes] = await Promise.all([
+                agent.app.bsky.graph.getLists({ actor: session.did, purposes: ['modlist'], limit: 100 }),
+                agent.app.bsky.graph.getListMutes({ limit: 100 }),
+                agent.app.bsky.graph.getListBlocks({ limit: 100 }),
+            ]);
+            setOwnLists(ownRes.data.lists);
+            // A list can be both muted and blocked; show it once
+            const byUri = new Map<string, AppBskyGraphDefs.ListView>();
+            [...blocksRes.data.lists, ...mutesRes.data.lists].forEach(list => byUri.set(list.uri, list));
+            setSubscribedLists(Array.from(byUri.values()).filter(list => list.creator.did !== session.did));
+            setError(null);
+        } catch (err) {
+            console.error("Failed to load moderation lists", err);
+            setError(t('lists.loadingError'));
+        }
+    }, [agent, session, t]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchLists().finally(() => setIsLoading(false));
+    }, [fetchLists]);
+
+    const updateViewer = (uri: string, viewer: AppBskyGraphDefs.ListViewerState) => {
+        const update = (lists: AppBskyGraphDefs.ListView[]) => lists.map(list => list.uri === uri ? { ...list, viewer } : list);
+        setOwnLists(update);
+        setSubscribedLists(update);
+    };
+
+    const renderList = (list: AppBskyGraphDefs.ListView, index: number) => (
+        <React.Fragment key={list.uri}>
+            {index > 0 && <SettingsDivider />}
+            <ListCard list={list} />
+            <View style={styles.subscriptionRow}>
+                <ModListSubscriptionButtons list={list} onChange={(viewer) => updateViewer(list.uri, viewer)} />
+            </View>
+        </React.Fragment>
+    );
+
+    return (
+        <>
+            <Head><title>{t('settings.moderation.moderationLists')}</title></Head>
+            <SettingsScreenLayout title={t('settings.moderation.moderationLists')} description={t('lists.moderationListsDescription')}>
+                {isLoading ? (
+                    <ActivityIndicator size="large" color={theme.colors.onSurface} style={{ marginVertical: 32 }} />
+                ) : error ? (
+                    <Text style={styles.errorText}>{error}</Text>
+                ) : (
+                    <>
+                        <SettingsSection title={t('lists.yourModLists')}>
+                            {ownLists.map(renderList)}
+                            {ownLists.length > 0 && <SettingsDivider />}
+                            <Pressable onPress={() => setIsEditorVisible(true)} style={styles.newListButton}>
+                                <Plus size={18} color={theme.colors.onSurface} />
+                                <Text style={styles.newListText}>{t('lists.newModList')}</Text>
+                            </Pressable>
+                        </SettingsSection>
+                        <SettingsSection title={t('lists.subscribedModLists')}>
+                            {subscribedLists.length > 0
+                                ? subscribedLists.map(renderList)
+                                : <Text style={styles.infoText}>{t('lists.noSubscribedModLists')}</Text>}
+                        </SettingsSection>
+                    </>
+                )}
+            </SettingsScreenLayout>
+            <ListEditorModal
+                visible={isEditorVisible}
+                initialPurpose={AppBskyGraphDefs.MODLIST}
+                onClose={() => setIsEditorVisible(false)}
+                onSaved={() => fetchLists()}
+            />
+        </>
+    );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+    subscriptionRow: {
+        paddingHorizontal: theme.spacing.l,
+        paddingBottom: theme.spacing.m,
+        paddingLeft: 48 + theme.spacing.l + theme.spacing.m,
+    },
+    newListButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.s,
+        paddingVertical: theme.spacing.m,
+        paddingHorizontal: theme.spacing.l,
+    },
+    newListText: {
+        ...theme.typography.labelLarge,
+        color: theme.colors.onSurface,
+        fontWeight: 'bold',
+    },
+    errorText: {
+        color: theme.colors.error,
+        textAlign: 'center',
+        padding: theme.spacing.xxl,
+    },
+    infoText: {
+        color: theme.colors.onSurfaceVariant,
+        padding: theme.spacing.l,
+    },
+});
+
+export default ModerationListsScreen;
@@ -1,48 +1,94 @@
 
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
 import { useModeration } from '../../context/ModerationContext';
 import { useProfileCache } from '../../context/ProfileCacheContext';
-import { AppBskyActorDefs } from '@atproto/api';
+import { useAtp } from '../../context/AtpContext';
+import { AppBskyActorDefs, AppBskyLabelerDefs } from '@atproto/api';
 import { BadgeCheck } from 'lucide-react';
 import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
 import { OptimizedImage } from '../ui';
 import { useTheme } from '@/components/shared';
 import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
+import {
+    BSKY_LABELER_DID,
+    CONFIGURABLE_GLOBAL_LABELS,
+    GLOBAL_LABEL_DEFINITIONS,
+    LabelDefinition,
+    LabelVisibility,
+    getLabelStrings,
+    toLabelVisibility,
+} from '@/lib/moderation';
 
 interface ModerationServiceScreenProps {
   serviceDid: string;
 }
 
-const blueskyLabelDefs = {
-  'porn': { id: 'porn', title: 'Adult Content', description: 'Explicit sexual images.', adult: true, },
-  'sexual': { id: 'sexual', title: 'Sexually Suggestive', description: 'Does not include nudity.', adult: true, },
-  'nudity': { id: 'nudity', title: 'Non-sexual Nudity', description: 'e.g. artistic nudes.', adult: true, },
-  'graphic-media': { id: 'graphic-media', title: 'Graphic Media', description: 'Explicit or potentially disturbing media.', adult: false, }
-};
-type LabelId = keyof typeof blueskyLabelDefs;
-const configurableLabels = ['porn', 'sexual', 'nudity', 'graphic-media'] as LabelId[];
-type LabelVisibility = 'show' | 'warn' | 'hide';
+interface ConfigurableLabel {
+    def: LabelDefinition;
+    // Global labels are configured without a labeler DID
+    labelerDid?: string;
+}
 
 
 const ModerationServiceScreen: React.FC<ModerationServiceScreenProps> = ({ serviceDid }) => {
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
+    const { i18n } = useTranslation();
+    const { agent } = useAtp();
     const { getProfile } = useProfileCache();
-    const { isReady, adultContentEnabled, labelPreferences, setLabelPreference } = useModeration();
+    const {
+        isReady,
+        adultContentEnabled,
+        labelPreferences,
+        labelerPreferences,
+        subscribedLabelers,
+        setLabelPreference,
+        subscribeLabeler,
+        unsubscribeLabeler,
+    } = useModeration();
     const [serviceProfile, setServiceProfile] = useState<AppBskyActorDefs.ProfileViewDetailed | null>(null);
+    const [labeler, setLabeler] = useState<AppBskyLabelerDefs.LabelerViewDetailed | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [isUpdatingSubscription, setIsUpdatingSubscription] = useState(false);
 
     useEffect(() => {
         const fetchProfile = async () => {
             setIsLoading(true);
             try {
-                const data = await getProfile(serviceDid);
+                const [data, services] = await Promise.all([
+                    getProfile(serviceDid),
+                    agent.app.bsky.labeler.getServices({ dids: [serviceDid], detailed: true }),
+                ]);
                 setServiceProfile(data);
+                const view = services.data.views[0];
+                setLabeler(AppBskyLabelerDefs.isLabelerViewDetailed(view) ? view as AppBskyLabelerDefs.LabelerViewDetailed : null);
             } catch (e) { console.error("Failed to fetch mod service profile", e); }
             finally { setIsLoading(false); }
         };
         fetchProfile();
-    }, [getProfile, serviceDid]);
+    }, [agent, getProfile, serviceDid]);
+
+    const isBlueskyService = serviceDid === BSKY_LABELER_DID;
+    const isSubscribed = isBlueskyService || subscribedLabelers.includes(serviceDid);
+
+    const handleToggleSubscription = async () => {
+        setIsUpdatingSubscription(true);
+        try {
+            if (isSubscribed) await unsubscribeLabeler(serviceDid);
+            else await subscribeLabeler(serviceDid);
+        } finally {
+            setIsUpdatingSubscription(false);
+        }
+    };
+
+    // Bluesky's service configures the global labels; every service adds its own custom definitions
+    const configurableLabels: ConfigurableLabel[] = [
+        ...(isBlueskyService ? CONFIGURABLE_GLOBAL_LABELS.map(id => ({ def: GLOBAL_LABEL_DEFINITIONS[id] })) : []),
+        ...(labeler?.policies.labelValueDefinitions || [])
+            .filter(def => !def.identifier.startsWith('!') && !GLOBAL_LABEL_DEFINITIONS[def.identifier])
+            .map(def => ({ def, labelerDid: serviceDid })),
+    ];
     
     if (isLoading) {
         return (
@@ -77,6 +123,17 @@ const ModerationServiceScreen: React.FC<ModerationServiceScreenProps> = ({ servi
                         <Text style={styles.handle}>@{serviceProfile.handle}</Text>
                     </View>
                 </View>
+                {!isBlueskyService && (
+                    <Pressable
+                        onPress={handleToggleSubscription}
+                        disabled={!isReady || isUpdatingSubscription}
+                        style={[styles.subscribeButton, isSubscribed && styles.unsubscribeButton]}
+                    >
+                        {isUpdatingSubscription
+                            ? <ActivityIndicator color={isSubscribed ? theme.colors.onSurface : theme.colors.onPrimary} />
+                            : <Text style={[styles.subscribeText, isSubscribed && styles.unsubscribeText]}>{isSubscribed ? 'Unsubscribe' : 'Subscribe'}</Text>}
+                    </Pressable>
+                )}
                 {serviceProfile.description && (
                     <Text style={[theme.settingsStyles.description, {marginBottom: 0, marginTop: theme.spacing.lg}]}>
                         {serviceProfile.description}
@@ -85,16 +142,24 @@ const ModerationServiceScreen: React.FC<ModerationServiceScreenProps> = ({ servi
             </SettingsSection>
 
             <SettingsSection title="Content Labels">
-                {configurableLabels.map(labelId => {
-                    const def = blueskyLabelDefs[labelId];
-                    const isDisabled = !isReady || (def.adult && !adultContentEnabled);
-                    const currentVisibility = labelPreferences.get(def.id) || (def.adult ? 'warn' : 'show');
+                {configurableLabels.length === 0 && (
+                    <Text style={theme.settingsStyles.sublabel}>This service doesn't define any labels you can configure.</Text>
+                )}
+                {configurableLabels.map(({ def, labelerDid }) => {
+                    const isAdultLocked = !!def.adultOnly && !adultContentEnabled;
+                    const isDisabled = !isReady || !isSubscribed || isAdultLocked;
+                    const preference = labelerDid
+                        ? labelerPreferences.get(labelerDid)?.get(def.identifier)
+                        : labelPreferences.get(def.identifier);
+                    const currentVisibility = preference || toLabelVisibility(def.defaultSetting) || 'warn';
+                    const { name, description } = getLabelStrings(def, i18n.language || 'en');
                     
                     return (
-                        <View key={def.id} style={[styles.labelCard, isDisabled && theme.settingsStyles.disabled]}>
-                            <Text style={styles.labelTitle}>{def.title}</Text>
-                            <Text style={theme.settingsStyles.sublabel}>{def.description}</Text>
-                            {isDisabled && <Text style={styles.disabledText}>Configured in moderation settings.</Text>}
+                        <View key={def.identifier} style={[styles.labelCard, isDisabled && theme.settingsStyles.disabled]}>
+                            <Text style={styles.labelTitle}>{name}</Text>
+                            <Text style={theme.settingsStyles.sublabel}>{description}</Text>
+                            {isAdultLocked && <Text style={styles.disabledText}>Configured in moderation settings.</Text>}
+                            {!isSubscribed && <Text style={styles.disabledText}>Subscribe to this service to configure its labels.</Text>}
 
                             <View style={styles.optionsContainer}>
                                 {(['Hide', 'Warn', 'Show'] as const).map(option => {
@@ -103,7 +168,7 @@ const ModerationServiceScreen: React.FC<ModerationServiceScreenProps> = ({ servi
                                     return (
                                         <Pressable 
                                             key={option}
-                                            onPress={() => setLabelPreference(def.id, value)}
+                                            onPress={() => setLabelPreference(def.identifier, value, labelerDid)}
                                             disabled={isDisabled}
                                             style={[styles.optionButton, isActive && styles.optionButtonActive]}
                                         >
@@ -128,6 +193,10 @@ const createStyles = (theme: any) => StyleSheet.create({
     nameContainer: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm },
     displayName: { ...theme.typography.titleLarge, color: theme.colors.onSurface },
     handle: { ...theme.typography.bodyMedium, color: theme.colors.onSurfaceVariant },
+    subscribeButton: { marginTop: theme.spacing.lg, paddingVertical: theme.spacing.md, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, alignItems: 'center' },
+    unsubscribeButton: { backgroundColor: theme.colors.surfaceContainerHigh },
+    subscribeText: { ...theme.typography.labelLarge, fontWeight: '600', color: theme.colors.onPrimary },
+    unsubscribeText: { color: theme.colors.onSurface },
     labelsContainer: { marginTop: theme.spacing.xl, gap: theme.spacing.lg },
     labelCard: { backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.lg },
     labelTitle: { ...theme.typography.labelLarge, fontWeight: '600', color: theme.colors.onSurface },
@@ -7,12 +7,12 @@ import SettingsListItem from './SettingsListItem';
 import { ActivityIndicator } from 'react-native';
 import { SettingsDivider } from '@/components/shared';
 import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
-
-const BLUESKY_OFFICIAL_MOD_SERVICE = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+import { BSKY_LABELER_DID } from '@/lib/moderation';
 
 const ModerationSettingsScreen: React.FC = () => {
     const { t } = useTranslation();
-    const { isReady, adultContentEnabled, setAdultContentEnabled } = useModeration();
+    const { isReady, adultContentEnabled, setAdultContentEnabled, subscribedLabelers, labelers } = useModeration();
+    const otherLabelers = subscribedLabelers.filter(did => did !== BSKY_LABELER_DID);
 
     return (
         <SettingsScreenLayout title={t('settings.moderation.title')}>
@@ -45,8 +45,22 @@ const ModerationSettingsScreen: React.FC = () => {
                     icon={Shield}
                     label="Bluesky Moderation Service"
                     sublabel="Official Bluesky moderation service."
-                    href={`/settings/mod-service/${BLUESKY_OFFICIAL_MOD_SERVICE}`}
+                    href={`/settings/mod-service/${BSKY_LABELER_DID}`}
                 />
+                {otherLabelers.map(did => {
+                    const creator = labelers.find(l => l.creator.did === did)?.creator;
+                    return (
+                        <React.Fragment key={did}>
+                            <SettingsDivider />
+                            <SettingsListItem
+                                icon={Shield}
+                                label={creator?.displayName || (creator ? `@${creator.handle}` : did)}
+                                sublabel={creator ? `@${creator.handle}` : undefined}
+                                href={`/settings/mod-service/${did}`}
+                            />
+                        </React.Fragment>
+                    );
+                })}
             </SettingsSection>
         </SettingsScreenLayout>
     );
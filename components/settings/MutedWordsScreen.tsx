@@ -1,23 +1,64 @@
 import React, { useState } from 'react';
-import { useModeration } from '../../context/ModerationContext';
+import { useModeration, MutedWordOptions } from '../../context/ModerationContext';
+import { AppBskyActorDefs } from '@atproto/api';
+import { isMutedWordExpired } from '../../lib/moderation';
+import { formatCompactDate } from '../../lib/formatters';
 import { Trash2, Tag, Plus } from 'lucide-react';
 import { View, Text, TextInput, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
 import { useTheme } from '@/components/shared';
 import { SettingsDivider } from '@/components/shared';
 import SettingsScreenLayout, { SettingsSection } from './SettingsScreenLayout';
 
+type MutedWordDuration = 'forever' | '24h' | '7d' | '30d';
+type MutedWordTargets = 'content' | 'tag';
+
+const DURATIONS: { id: MutedWordDuration; label: string; ms?: number }[] = [
+    { id: 'forever', label: 'Forever' },
+    { id: '24h', label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+    { id: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    { id: '30d', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const TARGETS: { id: MutedWordTargets; label: string }[] = [
+    { id: 'content', label: 'Text & tags' },
+    { id: 'tag', label: 'Tags only' },
+];
+
+const ACTOR_TARGETS: { id: AppBskyActorDefs.MutedWord['actorTarget']; label: string }[] = [
+    { id: 'all', label: 'Everyone' },
+    { id: 'exclude-following', label: 'Not people I follow' },
+];
+
+const describeMutedWord = (word: AppBskyActorDefs.MutedWord) => {
+    const parts = [word.targets.includes('content') ? 'Text & tags' : 'Tags only'];
+    if (word.actorTarget === 'exclude-following') parts.push('Not people I follow');
+    if (word.expiresAt) {
+        parts.push(isMutedWordExpired(word) ? 'Expired' : `Expires ${formatCompactDate(word.expiresAt)}`);
+    }
+    return parts.join(' · ');
+};
+
 const MutedWordsScreen: React.FC = () => {
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
     const { isReady, mutedWords, addMutedWord, removeMutedWord } = useModeration();
     const [newWord, setNewWord] = useState('');
     const [isAdding, setIsAdding] = useState(false);
+    const [duration, setDuration] = useState<MutedWordDuration>('forever');
+    const [targets, setTargets] = useState<MutedWordTargets>('content');
+    const [actorTarget, setActorTarget] = useState<AppBskyActorDefs.MutedWord['actorTarget']>('all');
     
     const handleAdd = async () => {
         if (!newWord.trim() || isAdding) return;
         setIsAdding(true);
         try {
-            await addMutedWord(newWord.trim());
+            const durationMs = DURATIONS.find(d => d.id === duration)?.ms;
+            const options: MutedWordOptions = {
+                targets: targets === 'content' ? ['content', 'tag'] : ['tag'],
+                actorTarget,
+                expiresAt: durationMs ? new Date(Date.now() + durationMs).toISOString() : undefined,
+            };
+            await addMutedWord(newWord.trim(), options);
             setNewWord('');
         } catch (error) { console.error("Failed to add muted word:", error); }
         finally { setIsAdding(false); }
@@ -28,10 +69,27 @@ const MutedWordsScreen: React.FC = () => {
         catch (error) { console.error("Failed to remove muted word:", error); }
     }
 
+    const renderOptions = <T extends string>(label: string, options: { id: T; label: string }[], selected: T, onSelect: (id: T) => void) => (
+        <View style={styles.optionGroup}>
+            <Text style={styles.optionLabel}>{label}</Text>
+            <View style={styles.optionRow}>
+                {options.map(option => (
+                    <Pressable
+                        key={option.id}
+                        onPress={() => onSelect(option.id)}
+                        style={[styles.optionChip, selected === option.id && styles.optionChipSelected]}
+                    >
+                        <Text style={[styles.optionChipText, selected === option.id && styles.optionChipTextSelected]}>{option.label}</Text>
+                    </Pressable>
+                ))}
+            </View>
+        </View>
+    );
+
     return (
         <SettingsScreenLayout 
             title="Muted Words & Tags"
-            description="Posts containing these words or tags will be hidden from your feeds. Muting is case-insensitive."
+            description="Posts containing these words or tags will be hidden from your feeds. Words are matched as whole words in post text, image descriptions and link previews. Muting is case-insensitive."
         >
             <SettingsSection>
                 <View style={styles.formContainer}>
@@ -51,6 +109,9 @@ const MutedWordsScreen: React.FC = () => {
                         <Text style={styles.addButtonText}>Add</Text>
                     </Pressable>
                 </View>
+                {renderOptions<MutedWordDuration>('Duration', DURATIONS, duration, setDuration)}
+                {renderOptions<MutedWordTargets>('Mute in', TARGETS, targets, setTargets)}
+                {renderOptions('Mute from', ACTOR_TARGETS, actorTarget, setActorTarget)}
             </SettingsSection>
 
             <SettingsSection title="Muted Words">
@@ -62,7 +123,10 @@ const MutedWordsScreen: React.FC = () => {
                     mutedWords.map((word, index) => (
                         <React.Fragment key={word.value}>
                             <View style={theme.settingsStyles.item}>
-                                <Text style={theme.settingsStyles.label}>{word.value}</Text>
+                                <View style={styles.wordInfo}>
+                                    <Text style={[theme.settingsStyles.label, isMutedWordExpired(word) && styles.expiredWord]}>{word.value}</Text>
+                                    <Text style={styles.wordDetails}>{describeMutedWord(word)}</Text>
+                                </View>
                                 <Pressable onPress={() => handleRemove(word.value)} style={styles.removeButton}>
                                     <Trash2 size={18} color={theme.colors.onSurfaceVariant} />
                                 </Pressable>
@@ -87,6 +151,16 @@ const createStyles = (theme: any) => StyleSheet.create({
     centered: { padding: theme.spacing.xxl, alignItems: 'center' },
     infoText: { color: theme.colors.onSurfaceVariant },
     removeButton: { padding: theme.spacing.s, borderRadius: theme.radius.full },
+    optionGroup: { marginTop: theme.spacing.m, gap: theme.spacing.s },
+    optionLabel: { ...theme.typography.labelMedium, color: theme.colors.onSurfaceVariant },
+    optionRow: { flexDirection: 'row', flexWrap: 'wrap', gap: theme.spacing.s },
+    optionChip: { paddingHorizontal: theme.spacing.m, paddingVertical: 6, borderRadius: theme.radius.full, borderWidth: 1, borderColor: theme.colors.outline },
+    optionChipSelected: { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+    optionChipText: { color: theme.colors.onSurface },
+    optionChipTextSelected: { color: theme.colors.onPrimary, fontWeight: 'bold' },
+    wordInfo: { flex: 1, gap: 2 },
+    wordDetails: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+    expiredWord: { textDecorationLine: 'line-through', color: theme.colors.onSurfaceVariant },
 });
 
 export default MutedWordsScreen;
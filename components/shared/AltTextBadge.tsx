@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import { View, Text, Pressable, StyleSheet, Modal, ScrollView, StyleProp, ViewStyle } from 'react-native';
+import { useTheme } from '@/components/shared/Theme';
+import { useAccessibility } from '../../context/AccessibilityContext';
+
+interface AltTextBadgeProps {
+  alt?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * "ALT" pill overlaid on post media. Tapping it shows the full image description.
+ * Hidden when the image has no description or the user turned off alt text display.
+ */
+const AltTextBadge: React.FC<AltTextBadgeProps> = ({ alt, style }) => {
+    const { theme } = useTheme();
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const { t } = useTranslation();
+    const { settings } = useAccessibility();
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (!alt?.trim() || !settings.showAltText) return null;
+
+    return (
+        <>
+            <Pressable
+                onPress={(e) => { e.stopPropagation(); setIsOpen(true); }}
+                style={[styles.badge, style]}
+                accessibilityRole="button"
+                accessibilityLabel={t('altText.show')}
+                hitSlop={8}
+            >
+                <Text style={styles.badgeText}>ALT</Text>
+            </Pressable>
+
+            <Modal transparent visible={isOpen} animationType="fade" onRequestClose={() => setIsOpen(false)}>
+                <Pressable style={styles.backdrop} onPress={() => setIsOpen(false)}>
+                    <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+                        <View style={styles.header}>
+                            <Text style={styles.title}>{t('altText.title')}</Text>
+                            <Pressable onPress={() => setIsOpen(false)} style={styles.closeButton}>
+                                <X color={theme.colors.onSurface} size={20} />
+                            </Pressable>
+                        </View>
+                        <ScrollView>
+                            <Text style={styles.description} selectable>{alt}</Text>
+                        </ScrollView>
+                    </Pressable>
+                </Pressable>
+            </Modal>
+        </>
+    );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+    badge: {
+        position: 'absolute',
+        left: theme.spacing.sm,
+        bottom: theme.spacing.sm,
+        backgroundColor: 'rgba(0,0,0,0.7)',
+        borderRadius: theme.radius.sm,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        zIndex: 2,
+    },
+    badgeText: { color: 'white', fontSize: 11, fontWeight: 'bold', letterSpacing: 0.5 },
+    backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+    dialog: { width: '100%', maxWidth: 480, maxHeight: '70%', backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l },
+    header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: theme.spacing.m },
+    title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+    closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+    description: { ...theme.typography.bodyLarge, color: theme.colors.onSurface },
+});
+
+export default AltTextBadge;
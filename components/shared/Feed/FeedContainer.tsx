@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useAtp } from '../../../context/AtpContext';
 import { AppBskyFeedDefs, AppBskyEmbedImages, AppBskyEmbedVideo, AppBskyEmbedExternal } from '@atproto/api';
 import { useModeration } from '../../../context/ModerationContext';
+import { useBookmarks } from '../../../context/BookmarksContext';
 import { moderatePost } from '../../../lib/moderation';
 import { View, Text, StyleSheet, ActivityIndicator, RefreshControl } from 'react-native';
 import { useTheme } from '@/components/shared';
@@ -13,6 +14,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { FEATURES, FEED_CONFIG, isFeatureEnabled } from '@/lib/config';
 import FeedList from './FeedList';
 import FeedItem from './FeedItem';
+import OfflineBanner from './OfflineBanner';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { getFeedCacheKey, readCachedFeed, writeFeedPage } from '@/lib/offlineCache';
 
 type MediaFilter = 'all' | 'photos' | 'videos';
 type AuthorFeedFilter = 'posts_no_replies' | 'posts_with_replies' | 'posts_with_media';
@@ -26,6 +30,8 @@ export interface FeedContainerProps {
   layout?: 'grid' | 'list';
   ListHeaderComponent?: React.ComponentType<any> | React.ReactElement | null;
   postFilter?: 'reposts_only' | 'likes_only' | 'bookmarks_only';
+  // With `bookmarks_only`, limits the feed to one bookmark collection
+  bookmarkCollectionId?: string;
 }
 
 const MIN_BATCH_SIZE = 6; // Reduzido de 10 para 6 para carregamento mais rápido
@@ -150,6 +156,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     layout = 'grid', 
     ListHeaderComponent,
     postFilter,
+    bookmarkCollectionId,
 }) => {
   const { agent, publicAgent, publicApiAgent, session } = useAtp();
   const { theme } = useTheme();
@@ -167,6 +174,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
   });
   const { t } = useTranslation();
   const moderation = useModeration();
+  const { adapter: bookmarkAdapter, getCollectionId } = useBookmarks();
   const [feed, setFeed] = useState<AppBskyFeedDefs.FeedViewPost[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -174,6 +182,15 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Set while the feed shows saved pages because the network couldn't be reached
+  const [cachedAt, setCachedAt] = useState<number | undefined>(undefined);
+  const isOnline = useOnlineStatus();
+
+  // Search results aren't worth keeping offline; every other feed is cached per viewer
+  const cacheKey = useMemo(() => searchQuery
+    ? null
+    : getFeedCacheKey(session?.did, [feedUri, authorFeedFilter, postFilter, bookmarkCollectionId, mediaFilter, layout]),
+  [session?.did, searchQuery, feedUri, authorFeedFilter, postFilter, bookmarkCollectionId, mediaFilter, layout]);
   
   // Refs para controle de carregamento progressivo
   const isLoadingMoreRef = useRef(false);
@@ -191,19 +208,24 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
         let nextCursor: string | undefined;
 
         if (postFilter === 'bookmarks_only') {
-            const res = await agent.com.atproto.repo.listRecords({
-                repo: session.did,
-                collection: 'app.myclient.bookmark',
-                limit: 50, // Fetch more to have enough items after potential filtering
-                cursor: currentCursor,
-            });
-            const bookmarkUris = res.data.records.map(r => (r.value as any).subject.uri);
-            if (bookmarkUris.length > 0) {
-                const postsRes = await agent.getPosts({ uris: bookmarkUris });
-                const postsByUri = new Map(postsRes.data.posts.map(p => [p.uri, { post: p }]));
-                records = bookmarkUris.map(uri => postsByUri.get(uri)).filter(Boolean) as AppBskyFeedDefs.FeedViewPost[];
+            if (!bookmarkAdapter) return { data: { feed: [], cursor: undefined } };
+            const page = await bookmarkAdapter.list(currentCursor, 50); // Fetch more to have enough items after potential filtering
+            if (bookmarkCollectionId) {
+                page.bookmarks = page.bookmarks.filter(b => getCollectionId(b.subject.uri) === bookmarkCollectionId);
             }
-            nextCursor = res.data.cursor;
+            // Some backends hydrate posts themselves; fetch the rest
+            const missingUris = page.bookmarks.filter(b => !b.post).map(b => b.subject.uri);
+            const postsByUri = new Map<string, AppBskyFeedDefs.PostView>();
+            page.bookmarks.forEach(b => { if (b.post) postsByUri.set(b.subject.uri, b.post); });
+            if (missingUris.length > 0) {
+                const postsRes = await agent.getPosts({ uris: missingUris });
+                postsRes.data.posts.forEach(p => postsByUri.set(p.uri, p));
+            }
+            records = page.bookmarks
+                .map(b => postsByUri.get(b.subject.uri))
+                .filter(Boolean)
+                .map(post => ({ post })) as AppBskyFeedDefs.FeedViewPost[];
+            nextCursor = page.cursor;
         } else { // likes_only
             const res = await agent.app.bsky.feed.getActorLikes({
                 actor: session.did,
@@ -272,6 +294,12 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
             return await feedAgent.app.bsky.feed.getAuthorFeed({ actor: feedUri, cursor: currentCursor, limit: 30, filter: authorFeedFilter });
         }
         
+        if (feedUri.includes('app.bsky.graph.list')) {
+            // List feeds are built from the members' posts; the authenticated agent applies the viewer's mutes and blocks
+            const feedAgent = session ? agent : publicApiAgent;
+            return await feedAgent.app.bsky.feed.getListFeed({ list: feedUri, cursor: currentCursor, limit: 30 });
+        }
+
         // For public feeds (including Discovery), use appropriate agent
         console.log('🔍 DEBUG: Attempting to fetch feed:', feedUri, 'Session exists:', !!session);
         
@@ -352,7 +380,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     
     // D. FALLBACK
     return Promise.resolve({ data: { feed: [], cursor: undefined } });
-  }, [agent, publicAgent, publicApiAgent, feedUri, session, searchQuery, searchSort, authorFeedFilter, postFilter]);
+  }, [agent, publicAgent, publicApiAgent, feedUri, session, searchQuery, searchSort, authorFeedFilter, postFilter, bookmarkAdapter, bookmarkCollectionId, getCollectionId]);
 
   const fetchAndFilterPage = useCallback(async (currentCursor?: string) => {
     const now = Date.now();
@@ -523,29 +551,36 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
       }
       
       // Return empty result for recoverable errors
-      return { posts: [], cursor: undefined, originalCount: 0 };
+      return { posts: [], cursor: undefined, originalCount: 0, failed: true };
     } finally {
       abortControllerRef.current = null;
     }
   }, [fetchPosts, authorFeedFilter, postFilter, layout, mediaFilter, feedUri]);
 
-  const loadInitialPosts = useCallback(async () => {
-    console.log('🔄 DEBUG: loadInitialPosts called for:', { feedUri, postFilter, layout });
-    setIsLoading(true);
+  const loadInitialPosts = useCallback(async (isRefresh = false) => {
+    console.log('🔄 DEBUG: loadInitialPosts called for:', { feedUri, postFilter, layout, isRefresh });
     setError(null);
-    setFeed([]);
-    setCursor(undefined);
-    setHasMore(true);
     
     // Reset loading refs
     isLoadingMoreRef.current = false;
     lastLoadTriggerRef.current = 0;
 
+    // Saved pages render straight away and are swapped for fresh ones once they arrive.
+    // A refresh keeps whatever is on screen instead.
+    const cached = isRefresh || !cacheKey ? undefined : await readCachedFeed(cacheKey);
+    if (!isRefresh) {
+        setFeed(cached ? cached.pages.flatMap(page => page.posts) : []);
+        setCursor(cached ? cached.pages[cached.pages.length - 1].cursor : undefined);
+        setHasMore(true);
+        setIsLoading(!cached);
+    }
+
     try {
         let accumulatedPosts: AppBskyFeedDefs.FeedViewPost[] = [];
         let nextCursor: string | undefined;
         let attempts = 0;
         let canFetchMore = true;
+        let networkFailed = false;
 
         // Para o layout grid, carregar posts de forma otimizada
         const targetLoadSize = layout === 'grid' ? 20 : (feedUri === 'following' ? 20 : INITIAL_LOAD_SIZE);
@@ -569,6 +604,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
             
             nextCursor = batchResult.cursor;
             canFetchMore = !!nextCursor; // Allow continuation as long as we have a cursor
+            networkFailed = 'failed' in batchResult;
             attempts++;
             
             // Break early if we have enough posts for grid layout
@@ -582,9 +618,28 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
           cursor: nextCursor
         });
 
+        // Some feeds fall back to an empty page instead of failing, so being offline counts too
+        if ((networkFailed || !isOnline) && accumulatedPosts.length === 0) {
+            // Keep showing saved posts; the banner explains why they aren't fresh
+            if (isRefresh) {
+                if (feed.length > 0) setCachedAt(prev => prev ?? Date.now());
+                else setError(t('feed.offlineError'));
+                return;
+            }
+            if (cached) {
+                setCachedAt(cached.updatedAt);
+            } else {
+                setError(t('feed.offlineError'));
+                setHasMore(false);
+            }
+            return;
+        }
+
         setFeed(accumulatedPosts);
         setCursor(nextCursor);
         setHasMore(canFetchMore);
+        setCachedAt(undefined);
+        if (cacheKey) writeFeedPage(cacheKey, { posts: accumulatedPosts, cursor: nextCursor }, true);
 
     } catch (err: any) {
         console.error('❌ FAILED: Feed loading failed:', {
@@ -596,7 +651,10 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
             postFilter
         });
         
-        if (postFilter === 'likes_only' && (err.error === 'AuthRequiredError' || err.message?.includes('private'))) {
+        if (cached || (isRefresh && feed.length > 0)) {
+            // Saved or already visible posts stay on screen
+            setCachedAt(cached?.updatedAt ?? Date.now());
+        } else if (postFilter === 'likes_only' && (err.error === 'AuthRequiredError' || err.message?.includes('private'))) {
             setError(t('profile.privateLikes'));
         } else if (err.error === 'BlockedByActor' || err.error === 'BlockedActor') {
             setError(t('profile.blockedBy'));
@@ -606,7 +664,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     } finally {
         setIsLoading(false);
     }
-  }, [fetchAndFilterPage, t, postFilter, feedUri, layout]);
+  }, [fetchAndFilterPage, t, postFilter, feedUri, layout, cacheKey, isOnline, feed.length]);
 
   // Stable effect that only runs when core feed parameters change
   useEffect(() => {
@@ -627,9 +685,14 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
 
   const onRefresh = useCallback(() => {
     setIsRefreshing(true);
-    loadInitialPosts().finally(() => setIsRefreshing(false));
+    loadInitialPosts(true).finally(() => setIsRefreshing(false));
   }, [loadInitialPosts]);
 
+  // Revalidate saved posts as soon as the connection comes back
+  useEffect(() => {
+    if (isOnline && cachedAt !== undefined && !isLoading) onRefresh();
+  }, [isOnline]); // Only connectivity changes should trigger this
+
   const loadMorePosts = useCallback(async () => {
     // More robust blocking conditions
     if (isLoadingMoreRef.current || !cursor || !hasMore || feed.length === 0) {
@@ -701,6 +764,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
                 console.log('➕ DEBUG: Actually adding', actuallyAddedCount, 'new posts to feed');
                 return [...prevFeed, ...uniqueNewPosts];
             });
+            if (cacheKey) writeFeedPage(cacheKey, { posts: accumulatedPosts, cursor: nextCursor }, false);
         }
         
         // More robust hasMore logic: continue if we have a cursor AND can fetch more
@@ -724,7 +788,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
         isLoadingMoreRef.current = false;
         console.log('✅ DEBUG: loadMorePosts completed');
     }
-  }, [cursor, hasMore, fetchAndFilterPage, layout, feed]);
+  }, [cursor, hasMore, fetchAndFilterPage, layout, feed, cacheKey]);
 
   const onEndReached = useCallback(() => {
     const now = Date.now();
@@ -845,7 +909,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
                     icon={({ size, color, style }: any) => <Ionicons name="sad-outline" size={size} color={color} style={style} />}
                     title={error}
                     message={isNonRecoverableError ? '' : t('errors.genericError.message')}
-                    onRetry={isNonRecoverableError ? undefined : loadInitialPosts}
+                    onRetry={isNonRecoverableError ? undefined : () => loadInitialPosts()}
                     retryText={t('common.tryAgain')}
                 />
             </View>
@@ -860,7 +924,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     } else if (postFilter === 'likes_only') {
         emptyText = t('feed.emptyLikes');
     } else if (postFilter === 'bookmarks_only') {
-        emptyText = t('feed.emptyBookmarks');
+        emptyText = bookmarkCollectionId ? t('feed.emptyBookmarkCollection') : t('feed.emptyBookmarks');
     } else if (authorFeedFilter) {
         emptyText = t('profile.emptyFeed', { mediaType: 'media' });
     }
@@ -872,7 +936,7 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     );
   };
 
-  const renderHeader = () => {
+  const renderListHeader = () => {
     if (!ListHeaderComponent) {
       return null;
     }
@@ -883,6 +947,19 @@ const FeedContainer: React.FC<FeedContainerProps> = ({
     return <Header />;
   };
 
+  const renderHeader = () => {
+    const showBanner = cachedAt !== undefined || (!isOnline && feed.length > 0);
+    if (!showBanner) {
+      return renderListHeader();
+    }
+    return (
+      <>
+        {renderListHeader()}
+        <OfflineBanner isOnline={isOnline} cachedAt={cachedAt} onRetry={onRefresh} />
+      </>
+    );
+  };
+
   if (isLoading) {
     return (
       <View style={{ flex: 1 }}>
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useTheme } from '@/components/shared';
+import { formatCompactDate } from '@/lib/formatters';
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  // When the shown posts were saved; omitted while a live feed is shown
+  cachedAt?: number;
+  onRetry?: () => void;
+}
+
+/** Notice above a feed that is showing saved posts instead of fresh ones. */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOnline, cachedAt, onRetry }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+
+  const message = !isOnline
+    ? t('feed.offline.offlineMessage')
+    : t('feed.offline.staleMessage', { time: cachedAt ? formatCompactDate(cachedAt) : '' });
+
+  return (
+    <View style={styles.container}>
+      <CloudOff size={20} color={theme.colors.onSurfaceVariant} />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>{t(isOnline ? 'feed.offline.staleTitle' : 'feed.offline.offlineTitle')}</Text>
+        <Text style={styles.message}>{message}</Text>
+      </View>
+      {isOnline && onRetry && (
+        <Pressable onPress={onRetry} style={styles.retryButton} accessibilityRole="button">
+          <RefreshCw size={14} color={theme.colors.onSurface} />
+          <Text style={styles.retryText}>{t('feed.offline.retry')}</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.m,
+    marginHorizontal: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+    paddingVertical: theme.spacing.m,
+    paddingHorizontal: theme.spacing.l,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.surfaceContainerHigh,
+  },
+  textContainer: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    ...theme.typography.labelLarge,
+    color: theme.colors.onSurface,
+    fontWeight: 'bold',
+  },
+  message: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.onSurfaceVariant,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingVertical: theme.spacing.s,
+    paddingHorizontal: theme.spacing.m,
+    borderRadius: theme.radius.full,
+    backgroundColor: theme.colors.surfaceContainerHighest,
+  },
+  retryText: {
+    ...theme.typography.labelMedium,
+    color: theme.colors.onSurface,
+  },
+});
+
+export default OfflineBanner;
@@ -6,11 +6,14 @@ import { useAtp } from '../../context/AtpContext';
 import { useToast } from './Toast';
 import { useHiddenPosts } from '../../context/HiddenPostsContext';
 import { useBookmarks } from '../../context/BookmarksContext';
+import { useUI } from '../../context/UIContext';
+import { useActionQueue } from '../../context/ActionQueueContext';
 import { AtUri,AppBskyFeedDefs } from '@atproto/api';
-import { EyeOff, MicOff, Shield, AlertTriangle, Trash2, X, ShieldOff, Bookmark } from 'lucide-react';
-import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert, Platform, Linking } from 'react-native';
+import { EyeOff, MicOff, Shield, AlertTriangle, Trash2, X, ShieldOff, Bookmark, FolderPlus } from 'lucide-react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
 import { useTheme } from '@/components/shared';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
+import BookmarkCollectionPicker from '../bookmarks/BookmarkCollectionPicker';
 
 interface MediaActionsModalProps {
   post:AppBskyFeedDefs.PostView;
@@ -45,7 +48,9 @@ const MediaActionsModal: React.FC<MediaActionsModalProps> = ({ post, onClose })
     const { toast } = useToast();
     const { requireAuth } = useAuthGuard();
     const { hidePost } = useHiddenPosts();
-    const { isBookmarked, addBookmark, removeBookmark } = useBookmarks();
+    const { submit } = useActionQueue();
+    const { isBookmarked, addBookmark, removeBookmark, collections, getCollectionId, moveBookmark } = useBookmarks();
+    const { openReportModal } = useUI();
     const { t } = useTranslation();
 
     // Verificar autenticação ao montar o componente
@@ -57,6 +62,7 @@ const MediaActionsModal: React.FC<MediaActionsModalProps> = ({ post, onClose })
 
     const [isLoading, setIsLoading] = useState<string | null>(null);
     const [viewerState, setViewerState] = useState(post.author.viewer);
+    const [isPickingCollection, setIsPickingCollection] = useState(false);
 
     if (!post) return null;
 
@@ -91,12 +97,41 @@ const MediaActionsModal: React.FC<MediaActionsModalProps> = ({ post, onClose })
             onClose();
         }
     };
+    const handleSaveToCollection = async (collectionId: string | null) => {
+        setIsPickingCollection(false);
+        setIsLoading('bookmark');
+        const collectionName = collections.find(c => c.id === collectionId)?.name;
+        try {
+            if (isPostBookmarked) {
+                await moveBookmark(post.uri, collectionId);
+            } else {
+                await addBookmark(post, collectionId ?? undefined);
+            }
+            toast({ title: collectionName ? t('bookmarks.toast.savedTo', { name: collectionName }) : t('postActions.toast.bookmarkAdded') });
+        } catch(e) {
+            toast({ title: "Error", description: t('postActions.toast.bookmarkError'), variant: 'destructive' });
+        } finally {
+            setIsLoading(null);
+            onClose();
+        }
+    };
     const handleHide = () => { hidePost(post.uri); toast({ title: t('postActions.toast.postHidden') }); onClose(); };
     const handleMute = async (mute: boolean) => { setIsLoading('mute'); try { if (mute) await agent.mute(post.author.did); else await agent.unmute(post.author.did); setViewerState(p => ({ ...p, muted: mute })); } finally { setIsLoading(null); onClose(); } };
     const handleBlock = async (block: boolean) => confirmAction('Block User', t('profile.confirmBlock', { handle: post.author.handle }), async () => { setIsLoading('block'); try { if (block) { const { uri } = await agent.app.bsky.graph.block.create({ repo: session!.did }, { subject: post.author.did, createdAt: new Date().toISOString() }); setViewerState(p => ({ ...p, blocking: uri, following: undefined })); } else if (viewerState?.blocking) { await agent.app.bsky.graph.block.delete({ repo: session!.did, rkey: new AtUri(viewerState.blocking).rkey }); setViewerState(p => ({ ...p, blocking: undefined })); } } finally { setIsLoading(null); onClose(); } });
-    const handleReport = () => { Linking.openURL(`mailto:moderation@blueskyweb.xyz`); onClose(); };
-    const handleDelete = () => confirmAction('Delete Post', t('postActions.confirmDelete'), async () => { setIsLoading('delete'); try { await agent.deletePost(post.uri); toast({ title: t('postActions.toast.deleteSuccess') }); } catch (e) { toast({ title: t('postActions.toast.deleteError'), variant: 'destructive' }); } finally { setIsLoading(null); onClose(); } });
+    const handleReport = () => { onClose(); openReportModal({ type: 'post', uri: post.uri, cid: post.cid }); };
+    const handleDelete = () => confirmAction('Delete Post', t('postActions.confirmDelete'), async () => { setIsLoading('delete'); try { const { queued } = await submit({ type: 'delete', subject: post.uri }); if (queued) { hidePost(post.uri); toast({ title: t('postActions.toast.deleteQueued') }); } else { toast({ title: t('postActions.toast.deleteSuccess') }); } } catch (e) { toast({ title: t('postActions.toast.deleteError'), variant: 'destructive' }); } finally { setIsLoading(null); onClose(); } });
     
+    if (isPickingCollection) {
+        return (
+            <BookmarkCollectionPicker
+                title={isPostBookmarked ? t('bookmarks.moveToCollection') : t('bookmarks.saveToCollection')}
+                selectedId={getCollectionId(post.uri)}
+                onSelect={handleSaveToCollection}
+                onBack={() => setIsPickingCollection(false)}
+            />
+        );
+    }
+
     return (
         <View>
             <View style={styles.header}>
@@ -107,6 +142,7 @@ const MediaActionsModal: React.FC<MediaActionsModalProps> = ({ post, onClose })
             <View style={styles.content}>
                 {isLoading && <View style={styles.loadingOverlay}><ActivityIndicator size="large" color={theme.colors.onSurface} /></View>}
                 <ActionListItem icon={Bookmark} label={isPostBookmarked ? t('postActions.removeBookmark') : t('postActions.bookmark')} onPress={handleBookmark} />
+                <ActionListItem icon={FolderPlus} label={isPostBookmarked ? t('bookmarks.moveToCollection') : t('bookmarks.saveToCollection')} onPress={() => setIsPickingCollection(true)} />
                 <ActionListItem icon={EyeOff} label={t('mediaActions.notInterested')} onPress={handleHide} />
                 {!isMe && (
                     <>
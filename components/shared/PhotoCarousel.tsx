@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   FlatList,
@@ -15,6 +15,7 @@ import { AppBskyEmbedImages } from '@atproto/api';
 import { ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
 import { OptimizedImage } from '../ui';
 import { Tooltip } from './Tooltip';
+import AltTextBadge from './AltTextBadge';
 import { useTheme } from '@/components/shared';
 import { spacing, typography, radius, sizes, shadows } from '@/src/design/tokens';
 
@@ -33,81 +34,7 @@ const PhotoCarousel: React.FC<PhotoCarouselProps> = ({
 }) => {
     const { theme } = useTheme();
 
-  useEffect(() => {
-    console.log('PhotoCarousel - theme object changed:', theme);
-    console.log('PhotoCarousel - theme.colors:', theme?.colors);
-  }, [theme]);
-
-  const createStyles = useMemo(() => {
-    return StyleSheet.create({
-      container: {
-        borderRadius: radius.md,
-        overflow: 'hidden',
-        backgroundColor: theme.colors.surfaceContainer,
-        ...shadows.sm,
-      },
-      innerContainer: {
-        position: 'relative',
-      },
-      imageContainer: {
-        justifyContent: 'center',
-        alignItems: 'center',
-        overflow: 'hidden',
-      },
-      imagePressable: {
-        width: '100%',
-        height: '100%',
-        justifyContent: 'center',
-        alignItems: 'center',
-      },
-      carouselImage: {
-        width: '100%',
-        height: '100%',
-      },
-      imageOverlay: {
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        backgroundColor: 'rgba(0,0,0,0.3)',
-        justifyContent: 'center',
-        alignItems: 'center',
-        opacity: 0,
-        transitionDuration: '200ms',
-        transitionProperty: 'opacity',
-        transitionTimingFunction: 'ease-in-out',
-      },
-      arrow: {
-        position: 'absolute',
-        top: '50%',
-        transform: [{ translateY: -sizes.iconMd / 2 }],
-        backgroundColor: 'rgba(0,0,0,0.6)',
-        borderRadius: radius.full,
-        padding: spacing.sm,
-        zIndex: 1,
-      },
-      arrowLeft: {
-        left: spacing.sm,
-      },
-      arrowRight: {
-        right: spacing.sm,
-      },
-      counterOverlay: {
-        position: 'absolute',
-        bottom: spacing.sm,
-        right: spacing.sm,
-        backgroundColor: 'rgba(0,0,0,0.6)',
-        borderRadius: radius.full,
-        paddingVertical: spacing.xs,
-        paddingHorizontal: spacing.sm,
-      },
-      counterText: {
-        ...typography.textXs,
-        color: theme.colors.white,
-      },
-    });
-  }, [theme]);
+  const styles = useMemo(() => createStyles(theme), [theme]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isHovered, setIsHovered] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -207,6 +134,7 @@ const PhotoCarousel: React.FC<PhotoCarouselProps> = ({
             ]}>
               <ExternalLink color="white" size={24} />
             </View>
+            <AltTextBadge alt={item.alt} />
           </Pressable>
         </Tooltip>
       </View>
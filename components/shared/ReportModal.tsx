@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AppBskyLabelerDefs } from '@atproto/api';
+import { Check, X } from 'lucide-react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator, TextInput, ScrollView, Platform } from 'react-native';
+import { useAtp } from '../../context/AtpContext';
+import { useModeration } from '../../context/ModerationContext';
+import { useToast } from './Toast';
+import { useTheme } from '@/components/shared/Theme';
+import { PrimaryButton } from './Button';
+import {
+    BSKY_LABELER_DID, REPORT_REASONS, ReportReasonId, ReportSubject,
+    getReportSubjectRef, getReportSubjectType,
+} from '@/lib/moderation';
+
+const MAX_DETAILS_LENGTH = 2000;
+
+interface ReportModalProps {
+  subject: ReportSubject;
+  onClose: () => void;
+}
+
+const ReportModal: React.FC<ReportModalProps> = ({ subject, onClose }) => {
+    const { theme } = useTheme();
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const { t } = useTranslation();
+    const { toast } = useToast();
+    const { agent } = useAtp();
+    const { subscribedLabelers } = useModeration();
+
+    const [reason, setReason] = useState<ReportReasonId | null>(null);
+    const [details, setDetails] = useState('');
+    const [services, setServices] = useState<AppBskyLabelerDefs.LabelerViewDetailed[]>([]);
+    const [isLoadingServices, setIsLoadingServices] = useState(true);
+    const [serviceDid, setServiceDid] = useState<string>(BSKY_LABELER_DID);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        const dids = [BSKY_LABELER_DID, ...subscribedLabelers.filter(did => did !== BSKY_LABELER_DID)];
+        agent.app.bsky.labeler.getServices({ dids, detailed: true })
+            .then(({ data }) => setServices(data.views.filter(AppBskyLabelerDefs.isLabelerViewDetailed) as AppBskyLabelerDefs.LabelerViewDetailed[]))
+            .catch(err => console.error("Failed to fetch moderation services:", err))
+            .finally(() => setIsLoadingServices(false));
+    }, [agent, subscribedLabelers]);
+
+    const reasonType = REPORT_REASONS.find(r => r.id === reason)?.reasonType;
+
+    // Labelers can declare which subjects and reasons they accept; the Bluesky service accepts everything.
+    const availableServices = useMemo(() => {
+        const subjectType = getReportSubjectType(subject);
+        return services.filter(service => {
+            if (service.creator.did === BSKY_LABELER_DID) return true;
+            if (service.subjectTypes && !service.subjectTypes.includes(subjectType)) return false;
+            if (reasonType && service.reasonTypes && !service.reasonTypes.includes(reasonType)) return false;
+            return true;
+        });
+    }, [services, subject, reasonType]);
+
+    useEffect(() => {
+        if (!availableServices.some(s => s.creator.did === serviceDid)) {
+            setServiceDid(BSKY_LABELER_DID);
+        }
+    }, [availableServices, serviceDid]);
+
+    const handleSubmit = async () => {
+        if (!reasonType) return;
+        setIsSubmitting(true);
+        try {
+            await agent.withProxy('atproto_labeler', serviceDid).com.atproto.moderation.createReport({
+                reasonType,
+                reason: details.trim() || undefined,
+                subject: getReportSubjectRef(subject),
+            });
+            toast({ title: t('report.toast.success'), description: t('report.toast.successDescription') });
+            onClose();
+        } catch (error) {
+            console.error("Failed to submit report:", error);
+            toast({ title: t('common.error'), description: t('report.toast.error'), variant: "destructive" });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.headerTitle}>{t(`report.title.${subject.type}`)}</Text>
+                <Pressable onPress={onClose} style={styles.closeButton}><X color={theme.colors.onSurface} /></Pressable>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                <Text style={styles.sectionTitle}>{t('report.reasonTitle')}</Text>
+                {REPORT_REASONS.map(({ id }) => {
+                    const isSelected = reason === id;
+                    return (
+                        <Pressable
+                            key={id}
+                            onPress={() => setReason(id)}
+                            style={({ pressed }) => [styles.option, isSelected && styles.optionSelected, pressed && styles.optionPressed]}
+                        >
+                            <View style={styles.optionText}>
+                                <Text style={styles.optionLabel}>{t(`report.reasons.${id}.title`)}</Text>
+                                <Text style={styles.optionDescription}>{t(`report.reasons.${id}.description`)}</Text>
+                            </View>
+                            {isSelected && <Check color={theme.colors.primary} size={20} />}
+                        </Pressable>
+                    );
+                })}
+
+                <Text style={styles.sectionTitle}>{t('report.detailsTitle')}</Text>
+                <TextInput
+                    value={details}
+                    onChangeText={setDetails}
+                    placeholder={t('report.detailsPlaceholder')}
+                    placeholderTextColor={theme.colors.onSurfaceVariant}
+                    style={styles.detailsInput}
+                    maxLength={MAX_DETAILS_LENGTH}
+                    multiline
+                />
+
+                <Text style={styles.sectionTitle}>{t('report.serviceTitle')}</Text>
+                {isLoadingServices ? (
+                    <ActivityIndicator color={theme.colors.onSurface} />
+                ) : (
+                    availableServices.map(service => {
+                        const isSelected = serviceDid === service.creator.did;
+                        return (
+                            <Pressable
+                                key={service.creator.did}
+                                onPress={() => setServiceDid(service.creator.did)}
+                                style={({ pressed }) => [styles.option, isSelected && styles.optionSelected, pressed && styles.optionPressed]}
+                            >
+                                <View style={styles.optionText}>
+                                    <Text style={styles.optionLabel}>{service.creator.displayName || service.creator.handle}</Text>
+                                    <Text style={styles.optionDescription}>@{service.creator.handle}</Text>
+                                </View>
+                                {isSelected && <Check color={theme.colors.primary} size={20} />}
+                            </Pressable>
+                        );
+                    })
+                )}
+            </ScrollView>
+
+            <View style={styles.footer}>
+                <PrimaryButton
+                    title={isSubmitting ? t('report.submitting') : t('report.submit')}
+                    onPress={handleSubmit}
+                    disabled={!reason || isSubmitting}
+                />
+            </View>
+        </View>
+    );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+    container: { backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, maxHeight: 640, overflow: 'hidden' },
+    header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: theme.spacing.l },
+    headerTitle: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+    closeButton: { padding: theme.spacing.s, margin: -theme.spacing.s },
+    content: { paddingHorizontal: theme.spacing.l, paddingBottom: theme.spacing.l, gap: theme.spacing.xs },
+    sectionTitle: { ...theme.typography.labelLarge, fontWeight: 'bold', color: theme.colors.onSurfaceVariant, marginTop: theme.spacing.m, marginBottom: theme.spacing.xs },
+    option: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.m, padding: theme.spacing.m, borderRadius: theme.radius.md, backgroundColor: theme.colors.surfaceContainerHigh },
+    optionSelected: { borderWidth: 1, borderColor: theme.colors.primary },
+    optionPressed: { opacity: 0.8 },
+    optionText: { flex: 1 },
+    optionLabel: { ...theme.typography.bodyLarge, fontWeight: '600', color: theme.colors.onSurface },
+    optionDescription: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant, marginTop: 2 },
+    detailsInput: {
+        minHeight: 88,
+        padding: theme.spacing.m,
+        borderRadius: theme.radius.md,
+        backgroundColor: theme.colors.surfaceContainerHigh,
+        color: theme.colors.onSurface,
+        textAlignVertical: 'top',
+        ...Platform.select({ web: { outlineStyle: 'none' } }) as any,
+    },
+    footer: { padding: theme.spacing.l, paddingTop: theme.spacing.s },
+});
+
+export default ReportModal;
@@ -20,6 +20,7 @@ export type TooltipContentKey =
   | 'nav.home'
   | 'nav.search'
   | 'nav.notifications'
+  | 'nav.messages'
   | 'nav.compose'
   | 'nav.more'
   | 'nav.profile'
@@ -122,6 +123,9 @@ export type TooltipContentKey =
   | 'media.unmute'
   | 'media.fullscreen'
   | 'media.exitFullscreen'
+  | 'media.settings'
+  | 'media.captions'
+  | 'media.pictureInPicture'
   | 'media.download'
   | 'media.previousImage'
   | 'media.nextImage'
@@ -163,6 +167,7 @@ const defaultTooltipContent: Record<TooltipContentKey, string> = {
   'nav.home': 'Go to home feed',
   'nav.search': 'Search posts and users',
   'nav.notifications': 'View notifications',
+  'nav.messages': 'View direct messages',
   'nav.compose': 'Create a new post',
   'nav.more': 'More options',
   'nav.profile': 'View your profile',
@@ -265,6 +270,9 @@ const defaultTooltipContent: Record<TooltipContentKey, string> = {
   'media.unmute': 'Unmute audio',
   'media.fullscreen': 'Enter fullscreen',
   'media.exitFullscreen': 'Exit fullscreen',
+  'media.settings': 'Speed, captions and quality',
+  'media.captions': 'Captions',
+  'media.pictureInPicture': 'Picture in picture',
   'media.download': 'Download media',
   'media.previousImage': 'Previous image',
   'media.nextImage': 'Next image',
@@ -1,15 +1,24 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, Pressable, ActivityIndicator, Platform } from 'react-native';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, Platform, ScrollView } from 'react-native';
 import { OptimizedImage } from '../ui';
-import { VideoView, useVideoPlayer } from 'expo-video';
-import type { ContentType } from 'expo-video';
-import { Ionicons } from '@expo/vector-icons';
+import { VideoView, useVideoPlayer, isPictureInPictureSupported } from 'expo-video';
+import type { ContentType, SubtitleTrack } from 'expo-video';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/components/shared/Theme';
 import { formatPlayerTime } from '@/lib/time';
 import { AppBskyFeedDefs, AppBskyEmbedVideo } from '@atproto/api';
 import { useVideoPlayback } from '@/hooks/useVideoPlayback';
+import { useVideoConfig } from '@/hooks/useVideoConfig';
+import { useVideoCaptions, getDefaultCaptionLang } from '@/hooks/useVideoCaptions';
+import { useVideoKeyboardShortcuts } from '@/hooks/useVideoKeyboardShortcuts';
+import { useAccessibility } from '@/context/AccessibilityContext';
+import { VideoRendition, formatRendition, getLevelCap, getQualityLevel } from '@/lib/video';
+import { useTranslation } from 'react-i18next';
 import { Tooltip } from './Tooltip';
 
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SEEK_STEP_SECONDS = 5;
+
 interface VideoPlayerProps {
   post: AppBskyFeedDefs.PostView;
   style?: any;
@@ -19,6 +28,8 @@ interface VideoPlayerProps {
   onMuteToggle?: () => void; // callback para alteração de mute
   isActive?: boolean; // se o vídeo está ativo (usado para otimizações)
   onProgressUpdate?: (progress: number, duration: number, position: number) => void; // callback para progresso do vídeo
+  startPosition?: number; // segundos onde começar a reprodução (ex.: retomar do histórico)
+  onRenditionChange?: (rendition: VideoRendition | null, isAuto: boolean) => void; // qualidade em reprodução (ex.: overlay do /watch)
 }
 
 const VideoPlayer: React.FC<VideoPlayerProps> = ({ 
@@ -29,7 +40,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   isMuted: externalMuted,
   onMuteToggle,
   isActive = true,
-  onProgressUpdate
+  onProgressUpdate,
+  startPosition = 0,
+  onRenditionChange
 }) => {
   const embed = post.embed as AppBskyEmbedVideo.View;
   if (!embed) return null;
@@ -60,6 +73,33 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const [position, setPosition] = useState(0);
   const [duration, setDuration] = useState(0);
   const [contentTypeOverride, setContentTypeOverride] = useState<ContentType>('auto');
+  // A posição inicial só é aplicada no primeiro carregamento, não quando o player é reativado
+  const hasAppliedStartRef = useRef(false);
+  const takeStartPosition = () => {
+    if (hasAppliedStartRef.current) return 0;
+    hasAppliedStartRef.current = true;
+    return startPosition;
+  };
+
+  // Qualidade: níveis do hls.js no web; no nativo só a faixa em reprodução é conhecida
+  const { t, i18n } = useTranslation();
+  const { config: videoConfig, bitrateCap, bufferSize } = useVideoConfig();
+  const [renditions, setRenditions] = useState<VideoRendition[]>([]);
+  const [currentRendition, setCurrentRendition] = useState<VideoRendition | null>(null);
+  const [selectedLevel, setSelectedLevel] = useState(-1); // -1 = automático
+  const [isSettingsMenuOpen, setIsSettingsMenuOpen] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Legendas: null = desligadas; a escolha do usuário prevalece sobre o padrão da acessibilidade
+  const [captionLang, setCaptionLang] = useState<string | null>(null);
+  const hasChosenCaptionRef = useRef(false);
+  const [nativeSubtitleTracks, setNativeSubtitleTracks] = useState<SubtitleTrack[]>([]);
+  const { settings: accessibilitySettings } = useAccessibility();
+  // Em picture-in-picture o vídeo continua tocando mesmo fora da tela ou quando o feed pausaria
+  const [isInPip, setIsInPip] = useState(false);
+  const videoViewRef = useRef<VideoView>(null);
+  // Lidos dentro dos callbacks do hls.js, que não são recriados quando as configurações mudam
+  const qualitySettingsRef = useRef({ preferredQuality: videoConfig.preferredQuality, bitrateCap, bufferSize });
+  qualitySettingsRef.current = { preferredQuality: videoConfig.preferredQuality, bitrateCap, bufferSize };
 
   // Web HLS via hls.js
   const htmlVideoRef = useRef<HTMLVideoElement | null>(null);
@@ -69,7 +109,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const [isActiveState, setIsActiveState] = useState<boolean>(showControlsOverlay); // default ativo fora do /watch
   
   // Usar prop isActive quando fornecida, senão usar estado interno
-  const effectiveIsActive = isActive ?? isActiveState;
+  const effectiveIsActive = (isActive ?? isActiveState) || isInPip;
 
   // Evitar carregar .m3u8 com expo-video no web; usar hls.js
   const shouldUseWebHls =
@@ -81,11 +121,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     {
       uri: shouldUseWebHls ? '' : (effectiveIsActive ? (sourceUri || '') : ''),
       contentType: shouldUseWebHls ? 'auto' : (contentTypeOverride || contentType || 'auto'),
+    },
+    (player) => {
+      // Sem intervalo o expo-video não emite timeUpdate
+      player.timeUpdateEventInterval = 0.5;
+      if (Platform.OS !== 'web') {
+        player.bufferOptions = { preferredForwardBufferDuration: qualitySettingsRef.current.bufferSize };
+      }
     }
   );
 
   // Sincronização com props externas (após declaração das variáveis)
   useEffect(() => {
+    if (externalPaused && isInPip) return;
     if (externalPaused !== undefined) {
       setIsPlaying(!externalPaused);
       
@@ -105,7 +153,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         }
       }
     }
-  }, [externalPaused, videoPlayer, contentTypeOverride, contentType]);
+  }, [externalPaused, videoPlayer, contentTypeOverride, contentType, isInPip]);
 
   useEffect(() => {
     if (externalMuted !== undefined) {
@@ -157,6 +205,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     setPlayerError(null);
     setPosition(0);
     setDuration(0);
+    setRenditions([]);
+    setCurrentRendition(null);
+    setSelectedLevel(-1);
   }, [preferredUrl, hlsPlaylistUrl, hlsDirectUrl, streamingUrl, hlsUrl, fallbackUrl, contentType]);
 
   // Eventos do expo-video (nativo/web MP4)
@@ -165,6 +216,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (!videoPlayer) return;
 
     const unsubPlaying = videoPlayer.addListener('playingChange', (e) => {
+      if (e.isPlaying) claimShortcuts();
       // Só atualizar se não está sendo controlado externamente
       if (externalPaused === undefined) {
         setIsPlaying(e.isPlaying);
@@ -180,14 +232,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     
     const unsubTime = videoPlayer.addListener('timeUpdate', (e) => {
       setPosition(e.currentTime);
-      if (onProgressUpdate && duration > 0) {
-        onProgressUpdate(e.currentTime / duration, duration, e.currentTime);
+      const total = videoPlayer.duration;
+      if (onProgressUpdate && total > 0) {
+        onProgressUpdate(e.currentTime / total, total, e.currentTime);
       }
     });
     const unsubLoad = videoPlayer.addListener('sourceLoad', async (e) => {
       setDuration(e.duration);
       setIsLoading(false);
       setPlayerError(null);
+      if (e.duration > 0) {
+        const start = takeStartPosition();
+        if (start > 0 && start < e.duration) videoPlayer.currentTime = start;
+      }
       try {
         if (effectiveIsActive && !externalPaused) {
           (videoPlayer as any).muted = externalMuted ?? false;
@@ -208,6 +265,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         } catch {}
       }
     });
+    const unsubTrack = videoPlayer.addListener('videoTrackChange', (e) => {
+      const track = e.videoTrack;
+      setCurrentRendition(track ? { index: -1, width: track.size.width, height: track.size.height, bitrate: track.bitrate ?? 0 } : null);
+    });
+    const unsubSubtitles = videoPlayer.addListener('availableSubtitleTracksChange', (e) => {
+      setNativeSubtitleTracks(e.availableSubtitleTracks);
+    });
     const unsubStatus = videoPlayer.addListener('statusChange', (e) => {
       if (e.status === 'readyToPlay') {
         setIsLoading(false);
@@ -225,6 +289,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       unsubMuted.remove();
       unsubTime.remove();
       unsubLoad.remove();
+      unsubTrack.remove();
+      unsubSubtitles.remove();
       unsubStatus.remove();
     };
   }, [videoPlayer, contentTypeOverride, contentType, effectiveIsActive, showControlsOverlay, post.uri]);
@@ -257,14 +323,26 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         if (hlsInstanceRef.current) {
           hlsInstanceRef.current.destroy();
         }
+        const start = takeStartPosition();
         const hls = new Hls({
-          maxBufferLength: 30,
+          maxBufferLength: qualitySettingsRef.current.bufferSize,
           maxBufferSize: 60 * 1000 * 1000,
+          startPosition: start > 0 ? start : -1,
         });
         hlsInstanceRef.current = hls;
         hls.loadSource(sourceUri);
         hls.attachMedia(videoEl);
-        hls.on(Hls.Events.MANIFEST_PARSED, async () => {
+        hls.on(Hls.Events.MANIFEST_PARSED, async (_event, data) => {
+          // Aplica o limite de bitrate (data saver) e a qualidade preferida antes de começar
+          const levels: VideoRendition[] = data.levels.map((level, index) => ({ index, width: level.width, height: level.height, bitrate: level.bitrate }));
+          const { preferredQuality, bitrateCap } = qualitySettingsRef.current;
+          const cap = getLevelCap(levels, bitrateCap);
+          const preferred = getQualityLevel(levels, preferredQuality);
+          const capped = cap >= 0 && preferred >= 0 && levels[preferred].bitrate > levels[cap].bitrate ? cap : preferred;
+          hls.autoLevelCapping = cap;
+          if (capped >= 0) hls.currentLevel = capped;
+          setRenditions(levels);
+          setSelectedLevel(capped);
           videoEl.muted = false;
           try {
             if (showControlsOverlay || effectiveIsActive) {
@@ -290,6 +368,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           setPlayerError(null);
           setIsPlaying(true);
         });
+        hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+          const level = hls.levels[data.level];
+          if (level) setCurrentRendition({ index: data.level, width: level.width, height: level.height, bitrate: level.bitrate });
+        });
         hls.on(Hls.Events.ERROR, (_event, data) => {
           if (data.fatal) {
             setPlayerError('HLS_FATAL_ERROR');
@@ -297,6 +379,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         });
       } else if (canNative) {
         videoEl.src = sourceUri;
+        const start = takeStartPosition();
+        if (start > 0) videoEl.currentTime = start;
         videoEl.muted = false;
         try {
           if (showControlsOverlay || effectiveIsActive) { await videoEl.play(); }
@@ -326,6 +410,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     };
   }, [effectiveIsActive, sourceUri, post.uri, showControlsOverlay, contentType, contentTypeOverride]);
 
+  // Data saver ou limite alterados durante a reprodução
+  useEffect(() => {
+    const hls = hlsInstanceRef.current;
+    if (hls && renditions.length > 0) hls.autoLevelCapping = getLevelCap(renditions, bitrateCap);
+  }, [bitrateCap, renditions]);
+
+  useEffect(() => {
+    onRenditionChange?.(currentRendition, selectedLevel === -1);
+  }, [currentRendition, selectedLevel]);
+
+  const selectLevel = useCallback((level: number) => {
+    const hls = hlsInstanceRef.current;
+    if (hls) hls.currentLevel = level; // -1 volta para o automático
+    setSelectedLevel(level);
+    setIsSettingsMenuOpen(false);
+  }, []);
+
   // Listeners do <video> web (estado básico)
   useEffect(() => {
     if (Platform.OS !== 'web') return;
@@ -337,6 +438,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       setPlayerError(null);
     };
     const onPlaying = () => {
+      claimShortcuts();
       setIsPlaying(true);
       setIsLoading(false);
     };
@@ -356,8 +458,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     el.addEventListener('playing', onPlaying);
     el.addEventListener('pause', onPause);
     el.addEventListener('timeupdate', onTimeUpdate);
+    const onEnterPip = () => setIsInPip(true);
+    const onLeavePip = () => setIsInPip(false);
     el.addEventListener('error', onError);
+    el.addEventListener('enterpictureinpicture', onEnterPip);
+    el.addEventListener('leavepictureinpicture', onLeavePip);
     return () => {
+      el.removeEventListener('enterpictureinpicture', onEnterPip);
+      el.removeEventListener('leavepictureinpicture', onLeavePip);
       el.removeEventListener('loadedmetadata', onLoadedMeta);
       el.removeEventListener('playing', onPlaying);
       el.removeEventListener('pause', onPause);
@@ -369,9 +477,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const hideControls = useCallback(() => {
     if (controlsTimeout.current) clearTimeout(controlsTimeout.current);
     controlsTimeout.current = setTimeout(() => {
-      if (isPlaying) setControlsVisible(false);
+      // Mantém os controles enquanto o menu de configurações está aberto
+      if (isPlaying && !isSettingsMenuOpen) setControlsVisible(false);
     }, 3000);
-  }, [isPlaying]);
+  }, [isPlaying, isSettingsMenuOpen]);
 
   const showControls = useCallback(() => {
     if (controlsTimeout.current) clearTimeout(controlsTimeout.current);
@@ -448,6 +557,119 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, []);
 
+  const usesHtmlVideo = Platform.OS === 'web' && (contentTypeOverride === 'hls' || contentType === 'hls');
+
+  // Legendas: no web as faixas WebVTT entram como <track> do <video> do hls.js; no nativo
+  // as mesmas legendas vêm na playlist HLS e são escolhidas pelo idioma
+  const captionTracks = useVideoCaptions(post, effectiveIsActive);
+  const availableCaptions = captionTracks.filter(track => usesHtmlVideo
+    ? !!track.src
+    : Platform.OS !== 'web' && nativeSubtitleTracks.some(subtitle => subtitle.language === track.lang));
+  const availableCaptionLangs = availableCaptions.map(track => track.lang).join(',');
+
+  useEffect(() => {
+    if (hasChosenCaptionRef.current) return;
+    setCaptionLang(accessibilitySettings.showCaptions ? getDefaultCaptionLang(availableCaptions, i18n.language) : null);
+  }, [availableCaptionLangs, accessibilitySettings.showCaptions, i18n.language]);
+
+  useEffect(() => {
+    if (usesHtmlVideo) {
+      const el = htmlVideoRef.current;
+      if (!el) return;
+      // Faixas próprias do hls.js ficam desligadas para não duplicar as legendas do post
+      Array.from(el.textTracks).forEach(track => {
+        track.mode = track.id === `caption-${captionLang}` ? 'showing' : 'disabled';
+      });
+    } else if (Platform.OS !== 'web' && videoPlayer) {
+      videoPlayer.subtitleTrack = nativeSubtitleTracks.find(subtitle => subtitle.language === captionLang) ?? null;
+    }
+  }, [captionLang, availableCaptionLangs, usesHtmlVideo, videoPlayer, nativeSubtitleTracks]);
+
+  const selectCaptions = useCallback((lang: string | null) => {
+    hasChosenCaptionRef.current = true;
+    setCaptionLang(lang);
+    setIsSettingsMenuOpen(false);
+  }, []);
+
+  const toggleCaptions = useCallback(() => {
+    if (availableCaptions.length === 0) return;
+    selectCaptions(captionLang ? null : getDefaultCaptionLang(availableCaptions, i18n.language));
+  }, [availableCaptions, captionLang, i18n.language, selectCaptions]);
+
+  // Velocidade
+  useEffect(() => {
+    if (usesHtmlVideo) {
+      const el = htmlVideoRef.current;
+      if (!el) return;
+      // Trocar o src volta para defaultPlaybackRate
+      el.defaultPlaybackRate = playbackRate;
+      el.playbackRate = playbackRate;
+    } else if (videoPlayer) {
+      videoPlayer.playbackRate = playbackRate;
+    }
+  }, [playbackRate, usesHtmlVideo, videoPlayer, sourceUri]);
+
+  const selectPlaybackRate = useCallback((rate: number) => {
+    setPlaybackRate(rate);
+    setIsSettingsMenuOpen(false);
+  }, []);
+
+  const stepPlaybackRate = useCallback((step: number) => {
+    setPlaybackRate(rate => {
+      const index = PLAYBACK_RATES.indexOf(rate) + step;
+      return PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index))];
+    });
+  }, []);
+
+  // Picture-in-picture: Firefox não tem a API; no nativo depende do config plugin do expo-video
+  const isPipSupported = React.useMemo(() => {
+    try {
+      if (usesHtmlVideo) return typeof document !== 'undefined' && !!(document as any).pictureInPictureEnabled;
+      return isPictureInPictureSupported();
+    } catch {
+      return false;
+    }
+  }, [usesHtmlVideo]);
+
+  const togglePictureInPicture = useCallback(async () => {
+    try {
+      if (usesHtmlVideo) {
+        const el = htmlVideoRef.current as any;
+        if (!el) return;
+        if ((document as any).pictureInPictureElement === el) await (document as any).exitPictureInPicture();
+        else await el.requestPictureInPicture();
+      } else if (isInPip) {
+        await videoViewRef.current?.stopPictureInPicture();
+      } else {
+        await videoViewRef.current?.startPictureInPicture();
+      }
+    } catch (error) {
+      console.warn('Picture-in-picture failed:', error);
+    }
+  }, [usesHtmlVideo, isInPip]);
+
+  const seekBy = useCallback((seconds: number) => {
+    if (usesHtmlVideo) {
+      const el = htmlVideoRef.current;
+      if (el) el.currentTime = Math.max(0, Math.min(el.duration || 0, el.currentTime + seconds));
+    } else if (videoPlayer) {
+      videoPlayer.seekBy(seconds);
+    }
+  }, [usesHtmlVideo, videoPlayer]);
+
+  // Atalhos de teclado (web): controlam o último player que tocou ou foi clicado
+  const { claim: claimShortcuts } = useVideoKeyboardShortcuts({
+    togglePlay: togglePlayPause,
+    toggleMute,
+    toggleFullscreen: handleFullscreen,
+    toggleCaptions,
+    togglePictureInPicture: isPipSupported ? togglePictureInPicture : undefined,
+    seekBackward: () => seekBy(-SEEK_STEP_SECONDS),
+    seekForward: () => seekBy(SEEK_STEP_SECONDS),
+    slower: () => stepPlaybackRate(-1),
+    faster: () => stepPlaybackRate(1),
+  });
+
   const { theme } = useTheme();
 
   // Dynamic styles depending on theme
@@ -473,7 +695,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     <Pressable
       ref={containerRef}
       style={[styles.container, style]}
-      onPress={showControlsOverlay ? showControls : undefined}
+      onPress={() => {
+        claimShortcuts();
+        if (showControlsOverlay) showControls();
+      }}
     >
       {Platform.OS === 'web' && (contentTypeOverride === 'hls' || contentType === 'hls') ? (
         sourceUri ? (
@@ -495,16 +720,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             playsInline
             controls={false}
             autoPlay
-          />
+          >
+            {availableCaptions.map(track => (
+              <track key={track.lang} id={`caption-${track.lang}`} kind="subtitles" srcLang={track.lang} label={track.label} src={track.src} />
+            ))}
+          </video>
         ) : null
       ) : sourceUri && videoPlayer ? (
         <VideoView
           key={Platform.OS === 'web' ? `video-${sourceUri}` : undefined}
+          ref={videoViewRef}
           player={videoPlayer}
         style={StyleSheet.absoluteFill}
           contentFit="contain"
           nativeControls={false}
           allowsFullscreen={true}
+          allowsPictureInPicture={isPipSupported}
+          onPictureInPictureStart={() => setIsInPip(true)}
+          onPictureInPictureStop={() => setIsInPip(false)}
         />
       ) : null}
 
@@ -530,12 +763,81 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 <Ionicons name={isMuted ? "volume-mute" : "volume-high"} size={20} color="white" />
               </Pressable>
             </Tooltip>
+            {availableCaptions.length > 0 && (
+              <Tooltip contentKey="media.captions" position="top">
+                <Pressable onPress={toggleCaptions} style={styles.iconButton}>
+                  <MaterialIcons name={captionLang ? "closed-caption" : "closed-caption-off"} size={20} color="white" />
+                </Pressable>
+              </Tooltip>
+            )}
+            {isPipSupported && (
+              <Tooltip contentKey="media.pictureInPicture" position="top">
+                <Pressable onPress={togglePictureInPicture} style={styles.iconButton}>
+                  <MaterialIcons name="picture-in-picture-alt" size={20} color="white" />
+                </Pressable>
+              </Tooltip>
+            )}
+            <Tooltip contentKey="media.settings" position="top">
+              <Pressable onPress={() => setIsSettingsMenuOpen(prev => !prev)} style={styles.iconButton}>
+                <Ionicons name="settings-outline" size={20} color="white" />
+              </Pressable>
+            </Tooltip>
             <Tooltip contentKey={isFullscreen ? "media.exitFullscreen" : "media.fullscreen"} position="top">
               <Pressable onPress={handleFullscreen} style={styles.iconButton}>
                 <Ionicons name={isFullscreen ? "contract" : "expand"} size={20} color="white" />
               </Pressable>
             </Tooltip>
           </View>
+          {isSettingsMenuOpen && (
+            <ScrollView style={styles.settingsMenu}>
+              <Text style={styles.settingsMenuTitle}>{t('videoPlayer.speed')}</Text>
+              <View style={styles.settingsRow}>
+                {PLAYBACK_RATES.map(rate => (
+                  <Pressable key={rate} onPress={() => selectPlaybackRate(rate)} style={styles.settingsOption}>
+                    <Text style={[styles.settingsOptionText, playbackRate === rate && styles.settingsOptionSelected]}>
+                      {rate === 1 ? t('videoPlayer.speedNormal') : `${rate}x`}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {availableCaptions.length > 0 && (
+                <>
+                  <Text style={styles.settingsMenuTitle}>{t('videoPlayer.captions')}</Text>
+                  <Pressable onPress={() => selectCaptions(null)} style={styles.settingsOption}>
+                    <Text style={[styles.settingsOptionText, !captionLang && styles.settingsOptionSelected]}>
+                      {t('videoPlayer.captionsOff')}
+                    </Text>
+                  </Pressable>
+                  {availableCaptions.map(track => (
+                    <Pressable key={track.lang} onPress={() => selectCaptions(track.lang)} style={styles.settingsOption}>
+                      <Text style={[styles.settingsOptionText, captionLang === track.lang && styles.settingsOptionSelected]}>
+                        {track.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </>
+              )}
+              {renditions.length > 1 && (
+                <>
+                  <Text style={styles.settingsMenuTitle}>{t('videoPlayer.quality')}</Text>
+                  <Pressable onPress={() => selectLevel(-1)} style={styles.settingsOption}>
+                    <Text style={[styles.settingsOptionText, selectedLevel === -1 && styles.settingsOptionSelected]}>
+                      {selectedLevel === -1 && currentRendition
+                        ? t('videoPlayer.qualityAutoCurrent', { rendition: formatRendition(currentRendition) })
+                        : t('videoPlayer.qualityAuto')}
+                    </Text>
+                  </Pressable>
+                  {[...renditions].sort((a, b) => b.bitrate - a.bitrate).map(rendition => (
+                    <Pressable key={rendition.index} onPress={() => selectLevel(rendition.index)} style={styles.settingsOption}>
+                      <Text style={[styles.settingsOptionText, selectedLevel === rendition.index && styles.settingsOptionSelected]}>
+                        {formatRendition(rendition)}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </>
+              )}
+            </ScrollView>
+          )}
         </Pressable>
       )}
       {showTapToPlay && !showControlsOverlay && (
@@ -589,6 +891,22 @@ const styles = StyleSheet.create({
   },
   sliderProgress: { height: '100%', backgroundColor: 'white' },
   iconButton: { padding: 8 },
+  settingsMenu: {
+    position: 'absolute',
+    right: 16,
+    bottom: 56,
+    minWidth: 160,
+    maxHeight: 280,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.85)',
+    zIndex: 2,
+  },
+  settingsMenuTitle: { color: 'rgba(255,255,255,0.7)', fontSize: 12, paddingHorizontal: 16, paddingTop: 4, paddingBottom: 4 },
+  settingsRow: { flexDirection: 'row', flexWrap: 'wrap', maxWidth: 240 },
+  settingsOption: { paddingHorizontal: 16, paddingVertical: 8 },
+  settingsOptionText: { color: 'white' },
+  settingsOptionSelected: { fontWeight: 'bold' },
   errorOverlay: {
     ...StyleSheet.absoluteFillObject,
     justifyContent: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import { Ionicons } from '@expo/vector-icons';
 import { useUI } from '../../context/UIContext';
 import { useAtp } from '../../context/AtpContext';
@@ -9,6 +9,8 @@ import { Link } from 'expo-router';
 import { useTheme } from '@/components/shared/Theme';
 import { formatCompactNumber } from '@/lib/formatters';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
+import { usePostActions } from '@/hooks/usePostActions';
+import { useFollowAction } from '@/hooks/useFollowAction';
 
 interface VideoActionsProps {
   post: AppBskyFeedDefs.PostView;
@@ -23,112 +25,27 @@ const VideoActions: React.FC<VideoActionsProps> = ({ post }) => {
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
     
-    // Estados locais para evitar re-renderizações desnecessárias
-    const [likeUri, setLikeUri] = useState<string | null>(post.viewer?.like || null);
-    const [likeCount, setLikeCount] = useState(post.likeCount || 0);
-    const [isLiking, setIsLiking] = useState(false);
-    const [repostUri, setRepostUri] = useState<string | null>(post.viewer?.repost || null);
-    const [repostCount, setRepostCount] = useState(post.repostCount || 0);
-    const [isReposting, setIsReposting] = useState(false);
+    // Likes, reposts and follows go through the shared action queue so they survive flaky connections
+    const { likeUri, likeCount, isLiking, handleLike, repostUri, repostCount, isReposting, handleRepost } = usePostActions(post);
+    const { followUri, isFollowLoading, toggleFollow } = useFollowAction(post.author.did, post.author.viewer?.following);
     const [isFetchingThread, setIsFetchingThread] = useState(false);
-    
-    // Estados para seguir/deixar de seguir
-    const [followUri, setFollowUri] = useState<string | null>(post.author.viewer?.following || null);
-    const [isFollowLoading, setIsFollowLoading] = useState(false);
     const isMe = session?.did === post.author.did;
     const profileLink = `/profile/${post.author.handle}`;
     
     // Estado para o modal de repost/share
     const [isRepostShareModalVisible, setIsRepostShareModalVisible] = useState(false);
     
-    // Sincronizar estados locais com dados do post
-    useEffect(() => {
-        if (post) {
-            setFollowUri(post.author?.viewer?.following || null);
-            setLikeUri(post.viewer?.like || null);
-            setLikeCount(post.likeCount || 0);
-            setRepostUri(post.viewer?.repost || null);
-            setRepostCount(post.repostCount || 0);
-        }
-    }, [post]);
-    
     const handleFollow = useCallback((e: any) => {
         e.stopPropagation();
         if (isFollowLoading || isMe || followUri) return;
-        setIsFollowLoading(true);
-        agent.follow(post.author.did).then(({ uri }) => setFollowUri(uri)).finally(() => setIsFollowLoading(false));
-    }, [agent, isFollowLoading, isMe, followUri, post.author.did]);
+        toggleFollow();
+    }, [isFollowLoading, isMe, followUri, toggleFollow]);
     
     const handleUnfollow = useCallback((e: any) => {
         e.stopPropagation();
         if (isFollowLoading || isMe || !followUri) return;
-        setIsFollowLoading(true);
-        agent.deleteFollow(followUri).then(() => setFollowUri(null)).finally(() => setIsFollowLoading(false));
-    }, [agent, isFollowLoading, isMe, followUri]);
-    
-    // Função local para like/unlike
-    const handleLike = useCallback(async (e: any) => {
-        e.stopPropagation();
-        e.preventDefault();
-        if (!session || isLiking) return;
-        
-        setIsLiking(true);
-        const originalLikeUri = likeUri;
-        const originalLikeCount = likeCount;
-
-        try {
-            if (likeUri) {
-                setLikeUri(null);
-                setLikeCount(c => Math.max(0, c - 1));
-                await agent.deleteLike(likeUri);
-            } else {
-                const tempUri = 'temp-uri';
-                setLikeUri(tempUri);
-                setLikeCount(c => c + 1);
-                const { uri } = await agent.like(post.uri, post.cid);
-                setLikeUri(uri);
-            }
-        } catch (error: any) {
-            console.error('Failed to like/unlike post:', error);
-            setLikeUri(originalLikeUri);
-            setLikeCount(originalLikeCount);
-        } finally {
-            setIsLiking(false);
-        }
-    }, [session, isLiking, likeUri, likeCount, agent, post.uri, post.cid]);
-
-    // Função local para repost/unrepost
-    const handleRepost = useCallback(async (e?: any) => {
-        if (e) {
-            e.stopPropagation();
-            e.preventDefault();
-        }
-        if (!session || isReposting) return;
-        
-        setIsReposting(true);
-        const originalRepostUri = repostUri;
-        const originalRepostCount = repostCount;
-
-        try {
-            if (repostUri) {
-                setRepostUri(null);
-                setRepostCount(c => Math.max(0, c - 1));
-                await agent.deleteRepost(repostUri);
-            } else {
-                const tempUri = 'temp-uri';
-                setRepostUri(tempUri);
-                setRepostCount(c => c + 1);
-                const { uri } = await agent.repost(post.uri, post.cid);
-                setRepostUri(uri);
-            }
-        } catch (error: any) {
-            console.error('Failed to repost/unrepost post:', error);
-            setRepostUri(originalRepostUri);
-            setRepostCount(originalRepostCount);
-        } finally {
-            setIsReposting(false);
-        }
-    }, [session, isReposting, repostUri, repostCount, agent, post.uri, post.cid]);
+        toggleFollow();
+    }, [isFollowLoading, isMe, followUri, toggleFollow]);
 
     const handleComment = async (e: any) => {
         e.stopPropagation();
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useRef, useCallback } from 'react';
+import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { View, StyleSheet, Text, Platform, useWindowDimensions } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { OptimizedImage } from '../ui';
@@ -7,6 +7,10 @@ import VideoPostOverlay from './VideoPostOverlay';
 import VideoProgressBar from './VideoProgressBar';
 
 import { useModeration } from '@/context/ModerationContext';
+import { useWatchHistory } from '@/context/WatchHistoryContext';
+import { WATCH_HISTORY_CONFIG } from '@/lib/config';
+import { VideoRendition, formatRendition } from '@/lib/video';
+import { useTranslation } from 'react-i18next';
 import { moderatePost, ModerationDecision } from '@/lib/moderation';
 import ContentWarning from '@/components/shared/ContentWarning';
 import SharedVideoPlayer from '../shared/VideoPlayer';
@@ -52,6 +56,56 @@ const VideoPlayer: React.FC<Props> = ({
   const [videoDuration, setVideoDuration] = useState(0);
   const [videoPosition, setVideoPosition] = useState(0);
 
+  // Qualidade em reprodução, mostrada no overlay
+  const { t } = useTranslation();
+  const [renditionLabel, setRenditionLabel] = useState<string | undefined>();
+  const handleRenditionChange = useCallback((rendition: VideoRendition | null, isAuto: boolean) => {
+    if (!rendition) return setRenditionLabel(undefined);
+    setRenditionLabel(isAuto
+      ? t('videoPlayer.qualityAutoCurrent', { rendition: formatRendition(rendition) })
+      : formatRendition(rendition));
+  }, [t]);
+
+  // Histórico: retoma de onde parou e salva o progresso enquanto assiste
+  // A posição só é lida depois que o histórico salvo carregou; até lá o player espera
+  const { recordProgress, getResumePosition, isLoaded: isHistoryLoaded } = useWatchHistory();
+  const resumePositionRef = useRef<number | null>(null);
+  if (isHistoryLoaded && resumePositionRef.current === null) {
+    resumePositionRef.current = getResumePosition(post.uri);
+  }
+  const resumePosition = resumePositionRef.current;
+  const playbackRef = useRef({ position: 0, duration: 0, lastSavedAt: 0 });
+
+  const saveProgress = useCallback(() => {
+    const { position, duration } = playbackRef.current;
+    if (position <= 0 || duration <= 0) return;
+    playbackRef.current.lastSavedAt = Date.now();
+    recordProgress(post, position, duration);
+  }, [post, recordProgress]);
+
+  const saveProgressRef = useRef(saveProgress);
+  saveProgressRef.current = saveProgress;
+
+  const handleProgressUpdate = useCallback((progress: number, duration: number, position: number) => {
+    setVideoProgress(progress);
+    setVideoDuration(duration);
+    setVideoPosition(position);
+    const playback = playbackRef.current;
+    const reachedEnd = progress >= WATCH_HISTORY_CONFIG.COMPLETED_PERCENT && playback.position / duration < WATCH_HISTORY_CONFIG.COMPLETED_PERCENT;
+    playback.position = position;
+    playback.duration = duration;
+    if (reachedEnd || Date.now() - playback.lastSavedAt >= WATCH_HISTORY_CONFIG.SAVE_INTERVAL_MS) {
+      saveProgressRef.current();
+    }
+  }, []);
+
+  // Salva ao sair do vídeo, para não perder os últimos segundos
+  useEffect(() => {
+    if (!isActive) saveProgressRef.current();
+  }, [isActive]);
+
+  useEffect(() => () => saveProgressRef.current(), []);
+
   // Gestão de gestos para navegação estilo TikTok
   const onSwipeGestureEvent = useCallback((event: any) => {
     const { translationY, velocityY } = event.nativeEvent;
@@ -84,7 +138,7 @@ const VideoPlayer: React.FC<Props> = ({
   const renderPlayerContent = () => (
     <>
       <View style={styles.videoContainer}>
-        <SharedVideoPlayer 
+        {resumePosition !== null && <SharedVideoPlayer 
           post={post} 
           style={styles.video} 
           showControlsOverlay={false}
@@ -92,12 +146,10 @@ const VideoPlayer: React.FC<Props> = ({
           isMuted={isMuted}
           onMuteToggle={onMuteToggle}
           isActive={isActive}
-          onProgressUpdate={(progress, duration, position) => {
-            setVideoProgress(progress);
-            setVideoDuration(duration);
-            setVideoPosition(position);
-          }}
-        />
+          startPosition={resumePosition}
+          onProgressUpdate={handleProgressUpdate}
+          onRenditionChange={handleRenditionChange}
+        />}
       </View>
       
       {/* Barra de progresso estilo TikTok */}
@@ -112,6 +164,7 @@ const VideoPlayer: React.FC<Props> = ({
         onNext={onNext}
         onPrevious={onPrevious}
         isPlaying={!paused}
+        renditionLabel={renditionLabel}
         onTogglePlayPause={() => {
           // Implementar toggle local se necessário
           console.log('Toggle play/pause requested');
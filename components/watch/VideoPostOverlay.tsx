@@ -13,9 +13,10 @@ interface Props {
   onPrevious?: () => void;
   isPlaying?: boolean;
   onTogglePlayPause?: () => void;
+  renditionLabel?: string; // qualidade em reprodução, ex.: "720p"
 }
 
-const VideoPostOverlay: React.FC<Props> = ({ post, onNext, onPrevious, isPlaying, onTogglePlayPause }) => {
+const VideoPostOverlay: React.FC<Props> = ({ post, onNext, onPrevious, isPlaying, onTogglePlayPause, renditionLabel }) => {
   const { theme } = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
   const { width, height } = useWindowDimensions();
@@ -80,6 +81,11 @@ const VideoPostOverlay: React.FC<Props> = ({ post, onNext, onPrevious, isPlaying
           <Text style={styles.postDateTikTok}>
             {formatRelativeTime(post.indexedAt)}
           </Text>
+          {renditionLabel && (
+            <View style={styles.renditionBadge}>
+              <Text style={styles.renditionText}>{renditionLabel}</Text>
+            </View>
+          )}
         </View>
 
         {/* Descrição do post */}
@@ -181,6 +187,17 @@ const createStyles = (theme: any) => StyleSheet.create({
     textShadowRadius: 1,
     flexShrink: 0, // Não permite que a data encolha
   },
+  renditionBadge: {
+    marginLeft: theme.spacing.s,
+    paddingHorizontal: theme.spacing.xs,
+    borderRadius: theme.radius.sm,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    flexShrink: 0,
+  },
+  renditionText: {
+    ...theme.typography.labelSmall,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
 
   // Container da descrição
   descriptionContainer: {
@@ -2,11 +2,15 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { View, Text, Pressable, StyleSheet, ActivityIndicator, useWindowDimensions } from 'react-native';
 import { useRouter } from 'expo-router';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, SlidersHorizontal } from 'lucide-react';
 import { useTheme } from '@/components/shared';
 import Head from 'expo-router/head';
 import WatchFeed from './WatchFeed';
 import { useVideoManager } from './hooks/useVideoManager';
+import { useWatchSources } from '@/hooks/useWatchSources';
+import { useWatchHistory } from '@/context/WatchHistoryContext';
+import { useAtp } from '@/context/AtpContext';
+import WatchSourcesModal from './WatchSourcesModal';
 import ErrorState from '../shared/ErrorState';
 import { VideoOff } from 'lucide-react';
 
@@ -15,6 +19,10 @@ const WatchScreen: React.FC = () => {
     const router = useRouter();
     const { theme } = useTheme();
     const styles = React.useMemo(() => createStyles(theme), [theme]);
+    const { session } = useAtp();
+    const { sources, isLoaded: areSourcesLoaded, updateSources } = useWatchSources();
+    const { isLoaded: isHistoryLoaded } = useWatchHistory();
+    const [isSourcesOpen, setIsSourcesOpen] = React.useState(false);
     const {
         posts,
         isLoading,
@@ -25,7 +33,7 @@ const WatchScreen: React.FC = () => {
         refresh,
         loadMore,
         preloadFromIndex,
-    } = useVideoManager();
+    } = useVideoManager(sources, areSourcesLoaded && isHistoryLoaded);
     const { width } = useWindowDimensions();
     const isDesktop = width >= 768;
 
@@ -37,12 +45,25 @@ const WatchScreen: React.FC = () => {
         );
     }
 
+    // Only signed in accounts have preferences to keep sources in
+    const sourcesControls = session && (
+        <>
+            <Pressable onPress={() => setIsSourcesOpen(true)} style={styles.sourcesButton} accessibilityLabel={t('watch.sources.title')}>
+                <SlidersHorizontal size={22} color="#FFFFFF" />
+            </Pressable>
+            {isSourcesOpen && (
+                <WatchSourcesModal sources={sources} onSave={updateSources} onClose={() => setIsSourcesOpen(false)} />
+            )}
+        </>
+    );
+
     if (error && posts.length === 0) {
         return (
             <View style={styles.container}>
                  <Pressable onPress={() => router.back()} style={styles.backButton}>
                     <ArrowLeft size={24} color="#FFFFFF" />
                 </Pressable>
+                {sourcesControls}
                 <ErrorState 
                     icon={VideoOff}
                     title={t('feed.loadingError')}
@@ -71,6 +92,7 @@ const WatchScreen: React.FC = () => {
                 <Pressable onPress={() => router.back()} style={styles.backButton}>
                     <ArrowLeft size={24} color="#FFFFFF" />
                 </Pressable>
+                {sourcesControls}
             </View>
         </>
     );
@@ -94,6 +116,7 @@ const createStyles = (theme: any) => StyleSheet.create({
     },
     fullScreenCentered: { flex: 1, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.background },
     backButton: { position: 'absolute', top: theme.spacing.lg, left: theme.spacing.lg, zIndex: 30, padding: theme.spacing.sm, borderRadius: theme.radius.full, backgroundColor: 'rgba(0,0,0,0.4)' },
+    sourcesButton: { position: 'absolute', top: theme.spacing.lg, right: theme.spacing.lg, zIndex: 30, padding: theme.spacing.sm, borderRadius: theme.radius.full, backgroundColor: 'rgba(0,0,0,0.4)' },
 });
 
 export default WatchScreen;
\ No newline at end of file
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyGraphDefs, AtUri } from '@atproto/api';
+import { useTheme, Switch } from '@/components/shared';
+import { useAtp } from '@/context/AtpContext';
+import { useSavedFeeds } from '@/hooks/useSavedFeeds';
+import { WATCH_CONFIG } from '@/lib/config';
+import { WatchSource, getSourceKey, isSameSource } from '@/lib/watchSources';
+
+interface WatchSourcesModalProps {
+  sources: WatchSource[];
+  onSave: (sources: WatchSource[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface SourceOption {
+  source: WatchSource;
+  label: string;
+}
+
+/** Picks the feeds, lists and timeline the Watch tab mixes its videos from. */
+const WatchSourcesModal: React.FC<WatchSourcesModalProps> = ({ sources, onSave, onClose }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { t } = useTranslation();
+  const { agent, session } = useAtp();
+  const { allUris: savedFeedUris, feedViews, isLoading: isLoadingFeeds } = useSavedFeeds();
+  const [lists, setLists] = useState<AppBskyGraphDefs.ListView[] | null>(null);
+  const [selected, setSelected] = useState(sources);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!session) {
+      setLists([]);
+      return;
+    }
+    agent.app.bsky.graph.getLists({ actor: session.did, limit: 100 })
+      .then(({ data }) => setLists(data.lists.filter(list => list.purpose === 'app.bsky.graph.defs#curatelist')))
+      .catch(error => {
+        console.error("Failed to fetch lists:", error);
+        setLists([]);
+      });
+  }, [agent, session]);
+
+  const getFeedLabel = (uri: string) =>
+    uri === WATCH_CONFIG.DEFAULT_FEED_URI ? t('watch.sources.videosFeed') : feedViews.get(uri)?.displayName ?? new AtUri(uri).rkey;
+
+  const feedOptions: SourceOption[] = [...new Set([WATCH_CONFIG.DEFAULT_FEED_URI, ...savedFeedUris])]
+    .map(uri => ({ source: { type: 'feed', uri }, label: getFeedLabel(uri) }));
+  const listOptions: SourceOption[] = (lists ?? []).map(list => ({ source: { type: 'list', uri: list.uri }, label: list.name }));
+  const otherOptions: SourceOption[] = session ? [{ source: { type: 'following' }, label: t('watch.sources.following') }] : [];
+  // Sources saved from another device that aren't saved feeds or own lists here still need a row to be turned off
+  const knownOptions = [...otherOptions, ...feedOptions, ...listOptions];
+  const missingOptions: SourceOption[] = sources
+    .filter(source => !knownOptions.some(option => isSameSource(option.source, source)))
+    .map(source => ({ source, label: source.type === 'following' ? t('watch.sources.following') : new AtUri(source.uri).rkey }));
+
+  const isSelected = (source: WatchSource) => selected.some(s => isSameSource(s, source));
+
+  const toggle = (source: WatchSource, isOn: boolean) => {
+    setSelected(prev => isOn ? [...prev, source] : prev.filter(s => !isSameSource(s, source)));
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    await onSave(selected);
+    setIsSaving(false);
+    onClose();
+  };
+
+  const renderSection = (title: string, options: SourceOption[]) => options.length > 0 && (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {options.map(({ source, label }) => {
+        const isOn = isSelected(source);
+        return (
+          <View key={getSourceKey(source)} style={styles.option}>
+            <Text style={styles.optionText} numberOfLines={1}>{label}</Text>
+            <Switch
+              checked={isOn}
+              onChange={(checked) => toggle(source, checked)}
+              disabled={!isOn && selected.length >= WATCH_CONFIG.MAX_SOURCES}
+              accessibilityLabel={label}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal transparent visible animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.dialog} onPress={(e) => e.stopPropagation()}>
+          <Text style={styles.title}>{t('watch.sources.title')}</Text>
+          <Text style={styles.hint}>{t('watch.sources.hint', { max: WATCH_CONFIG.MAX_SOURCES })}</Text>
+          {isLoadingFeeds || lists === null ? (
+            <ActivityIndicator color={theme.colors.primary} style={styles.loading} />
+          ) : (
+            <ScrollView style={styles.options}>
+              {renderSection(t('watch.sources.timelines'), otherOptions)}
+              {renderSection(t('watch.sources.feeds'), feedOptions)}
+              {renderSection(t('watch.sources.lists'), listOptions)}
+              {renderSection(t('watch.sources.other'), missingOptions)}
+            </ScrollView>
+          )}
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={save}
+              disabled={selected.length === 0 || isSaving}
+              style={[styles.primaryButton, (selected.length === 0 || isSaving) && styles.buttonDisabled]}
+            >
+              {isSaving ? <ActivityIndicator color={theme.colors.onPrimary} /> : <Text style={styles.primaryButtonText}>{t('common.save')}</Text>}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: 'rgba(0,0,0,0.6)', padding: theme.spacing.l },
+  dialog: { width: '100%', maxWidth: 400, maxHeight: '80%', backgroundColor: theme.colors.surfaceContainer, borderRadius: theme.radius.lg, padding: theme.spacing.l, gap: theme.spacing.m },
+  title: { ...theme.typography.titleMedium, color: theme.colors.onSurface },
+  hint: { ...theme.typography.bodySmall, color: theme.colors.onSurfaceVariant },
+  loading: { padding: theme.spacing.xl },
+  options: { flexGrow: 0 },
+  section: { gap: theme.spacing.xs, marginBottom: theme.spacing.m },
+  sectionTitle: { ...theme.typography.labelMedium, color: theme.colors.onSurfaceVariant },
+  option: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: theme.spacing.m, paddingVertical: theme.spacing.s },
+  optionText: { ...theme.typography.bodyMedium, color: theme.colors.onSurface, flex: 1 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: theme.spacing.m },
+  secondaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full },
+  secondaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onSurface },
+  primaryButton: { paddingHorizontal: theme.spacing.l, paddingVertical: theme.spacing.m, borderRadius: theme.radius.full, backgroundColor: theme.colors.primary, minWidth: 80, alignItems: 'center' },
+  primaryButtonText: { ...theme.typography.labelLarge, color: theme.colors.onPrimary },
+  buttonDisabled: { opacity: 0.5 },
+});
+
+export default WatchSourcesModal;
@@ -2,10 +2,10 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { useAtp } from '@/context/AtpContext';
 import { AppBskyFeedDefs, AppBskyEmbedVideo, AppBskyEmbedRecordWithMedia } from '@atproto/api';
 import { useModeration } from '@/context/ModerationContext';
+import { useWatchHistory } from '@/context/WatchHistoryContext';
 import { moderatePost } from '@/lib/moderation';
 import { FEATURES, UI_CONFIG, isFeatureEnabled } from '@/lib/config';
-
-const VIDEOS_FEED_URI = 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/thevids';
+import { WatchSource, WatchMixerState, createMixerState, fetchMixedPage } from '@/lib/watchSources';
 const POSTS_PER_PAGE = UI_CONFIG.POSTS_PER_PAGE;
 
 // Enhanced cache for posts with feature flag support
@@ -102,51 +102,62 @@ const preloadContent = async (posts: AppBskyFeedDefs.FeedViewPost[], startIndex:
     }
 };
 
-export const useVideoManager = () => {
+/**
+ * The Watch feed: video posts mixed from `sources`. Nothing loads until `isReady`, so
+ * saved sources can be read first; changing the sources reloads the feed. Videos already
+ * watched to the end go after the unseen ones of each page.
+ */
+export const useVideoManager = (sources: WatchSource[], isReady = true) => {
     const { agent } = useAtp();
     const moderation = useModeration();
+    const { isCompleted } = useWatchHistory();
     const [posts, setPosts] = useState<AppBskyFeedDefs.FeedViewPost[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const cursorRef = useRef<string | undefined>(undefined);
+    const mixerRef = useRef<WatchMixerState>(createMixerState(sources));
     const hasMoreRef = useRef(true);
     const MIN_POSTS_TO_RENDER = 5;
 
-    const fetchPage = useCallback(async (cursor?: string) => {
+    const fetchPage = useCallback(async (mixer: WatchMixerState) => {
         let accumulatedPosts: AppBskyFeedDefs.FeedViewPost[] = [];
-        let nextCursor = cursor;
+        let state = mixer;
+        let hasMore = true;
         let attempts = 0;
         const MAX_ATTEMPTS = 5; // To prevent infinite loops
 
-        // Keep fetching pages until we have enough video posts or run out of pages/attempts
-        while (accumulatedPosts.length < MIN_POSTS_TO_RENDER && attempts < MAX_ATTEMPTS && (attempts === 0 || nextCursor)) {
-            if (attempts > 0 && nextCursor === undefined) break; // Stop if we run out of cursor
-            
-            const res = await agent.app.bsky.feed.getFeed({ feed: VIDEOS_FEED_URI, cursor: nextCursor, limit: POSTS_PER_PAGE });
-            
-            const videoPosts = res.data.feed
-                .filter(item => hasVideoEmbed(item.post))
-                .filter(item => {
-                    if (!moderation.isReady) return true; // Default to showing if moderation isn't ready
-                    return moderatePost(item.post, moderation).visibility !== 'hide';
-                });
+        const isWatchable = (item: AppBskyFeedDefs.FeedViewPost) => {
+            if (!hasVideoEmbed(item.post)) return false;
+            if (!moderation.isReady) return true; // Default to showing if moderation isn't ready
+            return moderatePost(item.post, moderation).visibility !== 'hide';
+        };
+
+        // Keep fetching pages until we have enough unseen video posts or run out of pages/attempts
+        const countUnseen = () => accumulatedPosts.filter(p => !isCompleted(p.post.uri)).length;
+        while (countUnseen() < MIN_POSTS_TO_RENDER && attempts < MAX_ATTEMPTS && hasMore) {
+            const page = await fetchMixedPage(agent, state, POSTS_PER_PAGE, isWatchable);
+            const existingUris = new Set(accumulatedPosts.map(p => p.post.uri));
+            const videoPosts = page.posts.filter(p => !existingUris.has(p.post.uri));
 
             // Adicionar ao cache para performance
             addToCache(videoPosts);
 
             accumulatedPosts.push(...videoPosts);
-
-            nextCursor = res.data.cursor;
+            state = page.state;
+            hasMore = page.hasMore;
             attempts++;
-            
-            // If the feed returns no items, stop trying.
-            if (res.data.feed.length === 0) break;
         }
 
-        return { posts: accumulatedPosts, cursor: nextCursor };
-    }, [agent, moderation]);
+        // Every source failing is an error, not an empty feed
+        if (accumulatedPosts.length === 0 && state.sources.every(s => s.failures > 0)) {
+            throw new Error('Could not load videos from any source.');
+        }
+
+        const unseen = accumulatedPosts.filter(p => !isCompleted(p.post.uri));
+        const completed = accumulatedPosts.filter(p => isCompleted(p.post.uri));
+        return { posts: [...unseen, ...completed], state, hasMore };
+    }, [agent, moderation, isCompleted]);
 
     const loadPosts = useCallback(async (mode: 'initial' | 'refresh' | 'more') => {
         if (mode === 'more' && (isLoadingMore || !hasMoreRef.current)) return;
@@ -157,8 +168,8 @@ export const useVideoManager = () => {
         setError(null);
 
         try {
-            const cursor = (mode === 'initial' || mode === 'refresh') ? undefined : cursorRef.current;
-            const page = await fetchPage(cursor);
+            const mixer = (mode === 'initial' || mode === 'refresh') ? createMixerState(sources) : mixerRef.current;
+            const page = await fetchPage(mixer);
 
             if (mode === 'initial' || mode === 'refresh') {
                 setPosts(page.posts);
@@ -186,8 +197,8 @@ export const useVideoManager = () => {
                     return newPosts;
                 });
             }
-            cursorRef.current = page.cursor;
-            hasMoreRef.current = !!page.cursor;
+            mixerRef.current = page.state;
+            hasMoreRef.current = page.hasMore;
         } catch (e: any) {
             console.error("Failed to fetch video feed:", e);
             setError(e.message || 'Could not load videos.');
@@ -196,11 +207,11 @@ export const useVideoManager = () => {
             setIsRefreshing(false);
             setIsLoadingMore(false);
         }
-    }, [fetchPage, isLoadingMore]);
+    }, [fetchPage, isLoadingMore, sources]);
 
     useEffect(() => {
-        loadPosts('initial');
-    }, [loadPosts]); // This dependency is stable
+        if (isReady) loadPosts('initial');
+    }, [isReady, sources]); // Only the sources, not every loadPosts identity, restart the feed
 
     // Enhanced preload function based on active video index
     const preloadFromIndex = useCallback((activeIndex: number) => {
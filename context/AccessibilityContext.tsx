@@ -18,6 +18,8 @@ interface AccessibilitySettings {
   // Media Accessibility
   autoPlayVideos: boolean;
   showAltText: boolean;
+  requireAltText: boolean;
+  showCaptions: boolean;
   
   // Interaction Accessibility
   soundEffects: boolean;
@@ -46,6 +48,8 @@ const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
   increaseContrast: false,
   autoPlayVideos: true,
   showAltText: true,
+  requireAltText: false,
+  showCaptions: false,
   soundEffects: true,
   hapticFeedback: true,
 };
@@ -0,0 +1,229 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useAtp } from './AtpContext';
+import { useToast } from '@/components/shared';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { ACTION_QUEUE_CONFIG } from '../lib/config';
+import {
+    ActionIntent,
+    QueuedAction,
+    cancelsOut,
+    createQueuedAction,
+    executeAction,
+    isRetryableError,
+    loadActionQueue,
+    saveActionQueue,
+} from '../lib/actionQueue';
+
+export interface SubmitResult {
+    // True when the action was saved for later instead of reaching the server now
+    queued: boolean;
+    // URI of the created record when the action ran right away
+    uri?: string;
+}
+
+export interface ActionOutcome {
+    action: QueuedAction;
+    status: 'applied' | 'rejected';
+    uri?: string;
+}
+
+type ActionListener = (outcome: ActionOutcome) => void;
+
+interface ActionQueueContextType {
+    pendingActions: QueuedAction[];
+    isSyncing: boolean;
+    // Runs the action now if possible, otherwise queues it. Rejects only when the server refuses it.
+    submit: (intent: ActionIntent) => Promise<SubmitResult>;
+    flush: () => Promise<void>;
+    // Notified when a queued action is replayed, so optimistic UI can settle or roll back
+    subscribe: (listener: ActionListener) => () => void;
+}
+
+const ActionQueueContext = createContext<ActionQueueContextType | undefined>(undefined);
+
+export const ActionQueueProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { agent, session } = useAtp();
+    const { toast } = useToast();
+    const { t } = useTranslation();
+    const isOnline = useOnlineStatus();
+    const [pendingActions, setPendingActions] = useState<QueuedAction[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const queueRef = useRef<QueuedAction[]>([]);
+    const isFlushingRef = useRef(false);
+    // The action flush is sending right now, which an undo must not cancel
+    const inFlightIdRef = useRef<string | null>(null);
+    const listenersRef = useRef(new Set<ActionListener>());
+
+    const did = session?.did;
+    const didRef = useRef(did);
+    didRef.current = did;
+
+    const updateQueue = useCallback((next: QueuedAction[]) => {
+        queueRef.current = next;
+        setPendingActions(next);
+        if (didRef.current) {
+            saveActionQueue(didRef.current, next).catch(error => console.error("Failed to save action queue", error));
+        }
+    }, []);
+
+    // Each account has its own queue; switching accounts swaps it out
+    useEffect(() => {
+        queueRef.current = [];
+        setPendingActions([]);
+        if (!did) return;
+
+        let isCancelled = false;
+        loadActionQueue(did)
+            .then(queue => {
+                if (isCancelled) return;
+                queueRef.current = queue;
+                setPendingActions(queue);
+            })
+            .catch(error => console.error("Failed to load action queue", error));
+        return () => { isCancelled = true; };
+    }, [did]);
+
+    const notify = useCallback((outcome: ActionOutcome) => {
+        listenersRef.current.forEach(listener => listener(outcome));
+    }, []);
+
+    const reject = useCallback((action: QueuedAction, error: unknown) => {
+        console.error(`Queued ${action.type} was rejected`, error);
+        notify({ action, status: 'rejected' });
+        toast({ title: t('sync.rejectedTitle'), description: t(`sync.rejected.${action.type}`), variant: "destructive" });
+    }, [notify, toast, t]);
+
+    const flush = useCallback(async () => {
+        if (isFlushingRef.current || !did || queueRef.current.length === 0) return;
+        isFlushingRef.current = true;
+        setIsSyncing(true);
+        try {
+            // Strictly in order, so e.g. a follow and its undo reach the server in the order they were made
+            while (queueRef.current.length > 0 && didRef.current === did) {
+                const action = queueRef.current[0];
+                inFlightIdRef.current = action.id;
+                try {
+                    const uri = await executeAction(agent, did, action, { isReplay: true });
+                    updateQueue(queueRef.current.filter(a => a.id !== action.id));
+                    notify({ action, status: 'applied', uri });
+                } catch (error) {
+                    if (!isRetryableError(error)) {
+                        updateQueue(queueRef.current.filter(a => a.id !== action.id));
+                        reject(action, error);
+                        continue;
+                    }
+                    const attempts = action.attempts + 1;
+                    if (attempts >= ACTION_QUEUE_CONFIG.MAX_ATTEMPTS) {
+                        updateQueue(queueRef.current.filter(a => a.id !== action.id));
+                        reject(action, error);
+                        continue;
+                    }
+                    // Still offline; keep the rest queued behind this one and try again later
+                    updateQueue(queueRef.current.map(a => a.id === action.id ? { ...a, attempts } : a));
+                    break;
+                } finally {
+                    inFlightIdRef.current = null;
+                }
+            }
+        } finally {
+            isFlushingRef.current = false;
+            setIsSyncing(false);
+        }
+    }, [agent, did, updateQueue, notify, reject]);
+
+    const enqueue = useCallback((intent: ActionIntent) => {
+        const queue = queueRef.current;
+        // Undoing something that hasn't been sent yet just drops both. The action being sent
+        // right now may already have reached the server, so its undo waits behind it.
+        const cancelledIndex = queue.findIndex(action => action.id !== inFlightIdRef.current && cancelsOut(intent, action));
+        if (cancelledIndex !== -1) {
+            updateQueue(queue.filter((_, index) => index !== cancelledIndex));
+        } else {
+            updateQueue([...queue, createQueuedAction(intent)]);
+        }
+    }, [updateQueue]);
+
+    const submit = useCallback(async (intent: ActionIntent): Promise<SubmitResult> => {
+        if (!did) throw new Error('Cannot submit an action without a session');
+
+        // Anything already waiting has to go first to keep the order
+        if (!isOnline || queueRef.current.length > 0) {
+            enqueue(intent);
+            if (isOnline) flush();
+            return { queued: true };
+        }
+
+        try {
+            const uri = await executeAction(agent, did, intent);
+            return { queued: false, uri };
+        } catch (error) {
+            if (!isRetryableError(error)) throw error;
+            console.warn(`Queueing ${intent.type} for later`, error);
+            enqueue(intent);
+            return { queued: true };
+        }
+    }, [agent, did, isOnline, enqueue, flush]);
+
+    const subscribe = useCallback((listener: ActionListener) => {
+        listenersRef.current.add(listener);
+        return () => { listenersRef.current.delete(listener); };
+    }, []);
+
+    // Replay when connectivity returns, when the app comes back to the foreground...
+    useEffect(() => {
+        if (isOnline) flush();
+    }, [isOnline, flush]);
+
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') flush();
+        });
+        return () => subscription.remove();
+    }, [flush]);
+
+    // ...and periodically, since native has no connectivity events to go by
+    const hasPending = pendingActions.length > 0;
+    useEffect(() => {
+        if (!hasPending) return;
+        const interval = setInterval(flush, ACTION_QUEUE_CONFIG.RETRY_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [hasPending, flush]);
+
+    const value = {
+        pendingActions,
+        isSyncing,
+        submit,
+        flush,
+        subscribe,
+    };
+
+    return (
+        <ActionQueueContext.Provider value={value}>
+            {children}
+        </ActionQueueContext.Provider>
+    );
+};
+
+export const useActionQueue = (): ActionQueueContextType => {
+    const context = useContext(ActionQueueContext);
+    if (!context) {
+        throw new Error('useActionQueue must be used within an ActionQueueProvider');
+    }
+    return context;
+};
+
+/** Calls `listener` when a queued action about `subject` (a post URI or DID) is replayed. */
+export const useActionOutcome = (subject: string | undefined, listener: ActionListener) => {
+    const { subscribe } = useActionQueue();
+    const listenerRef = useRef(listener);
+    listenerRef.current = listener;
+
+    useEffect(() => {
+        if (!subject) return;
+        return subscribe(outcome => {
+            if (outcome.action.subject === subject) listenerRef.current(outcome);
+        });
+    }, [subject, subscribe]);
+};
@@ -1,82 +1,186 @@
 
 
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useMemo } from 'react';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useMemo, useRef } from 'react';
 import { BskyAgent, AtpSessionData, AtpSessionEvent } from '@atproto/api';
-import { PDS_URL } from '../lib/config';
+import { PDS_URL, ATP_CONFIG } from '../lib/config';
+import { OAuthCallbackParams, OAuthSessionInfo, createDpopFetch, finishOAuthLogin, revokeOAuthSession, startOAuthLogin } from '../lib/oauth';
+import { clearOfflineCache } from '../lib/offlineCache';
 import { useToast } from '@/components/shared';
 import { getItemAsync, setItemAsync, deleteItemAsync } from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
 const ATP_CREDENTIALS_KEY = 'atp-credentials';
+const ATP_ACCOUNTS_KEY = 'atp-accounts';
 
 interface StoredCredentials {
   session: AtpSessionData;
   serviceUrl: string;
+  // Present for accounts signed in through OAuth; their tokens are DPoP-bound to this key
+  oauth?: OAuthSessionInfo;
 }
 
+export interface StoredAccount {
+  did: string;
+  handle: string;
+  serviceUrl: string;
+}
+
+interface StoredAccountsIndex {
+  activeDid: string | null;
+  accounts: StoredAccount[];
+}
+
+const secureStorage = {
+    getItem: (key: string) => Platform.OS === 'web' ? AsyncStorage.getItem(key) : getItemAsync(key),
+    setItem: (key: string, value: string) => Platform.OS === 'web' ? AsyncStorage.setItem(key, value) : setItemAsync(key, value),
+    deleteItem: (key: string) => Platform.OS === 'web' ? AsyncStorage.removeItem(key) : deleteItemAsync(key),
+};
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_", so the DID is sanitized.
+const credentialsKey = (did: string) => `${ATP_CREDENTIALS_KEY}.${did.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+
+const toStoredAccount = (creds: StoredCredentials): StoredAccount => ({
+  did: creds.session.did,
+  handle: creds.session.handle,
+  serviceUrl: creds.serviceUrl,
+});
+
+// Serializes read-modify-write cycles on the accounts index so concurrent session events can't drop entries.
+let indexQueue: Promise<unknown> = Promise.resolve();
+const updateIndex = (updater: (index: StoredAccountsIndex) => StoredAccountsIndex): Promise<StoredAccountsIndex> => {
+    const next = indexQueue.then(async () => {
+        const updated = updater(await credentialsStore.getIndex());
+        await secureStorage.setItem(ATP_ACCOUNTS_KEY, JSON.stringify(updated));
+        return updated;
+    });
+    indexQueue = next.catch(() => {});
+    return next;
+};
+
 const credentialsStore = {
-    getItem: async (): Promise<StoredCredentials | null> => {
-        const stored = Platform.OS === 'web' ? await AsyncStorage.getItem(ATP_CREDENTIALS_KEY) : await getItemAsync(ATP_CREDENTIALS_KEY);
+    getIndex: async (): Promise<StoredAccountsIndex> => {
+        const stored = await secureStorage.getItem(ATP_ACCOUNTS_KEY);
+        if (stored) return JSON.parse(stored);
+
+        // Migrate the single-account entry written by earlier versions.
+        const legacy = await secureStorage.getItem(ATP_CREDENTIALS_KEY);
+        if (!legacy) return { activeDid: null, accounts: [] };
+        const creds: StoredCredentials = JSON.parse(legacy);
+        const index: StoredAccountsIndex = { activeDid: creds.session.did, accounts: [toStoredAccount(creds)] };
+        await secureStorage.setItem(credentialsKey(creds.session.did), legacy);
+        await secureStorage.setItem(ATP_ACCOUNTS_KEY, JSON.stringify(index));
+        await secureStorage.deleteItem(ATP_CREDENTIALS_KEY);
+        return index;
+    },
+    setActiveDid: (did: string | null) => updateIndex(index => ({ ...index, activeDid: did })),
+    getItem: async (did: string): Promise<StoredCredentials | null> => {
+        const stored = await secureStorage.getItem(credentialsKey(did));
         return stored ? JSON.parse(stored) : null;
     },
-    setItem: (creds: StoredCredentials) => {
-        const value = JSON.stringify(creds);
-        return Platform.OS === 'web' ? AsyncStorage.setItem(ATP_CREDENTIALS_KEY, value) : setItemAsync(ATP_CREDENTIALS_KEY, value);
+    setItem: async (creds: StoredCredentials) => {
+        await secureStorage.setItem(credentialsKey(creds.session.did), JSON.stringify(creds));
+        return updateIndex(index => {
+            const account = toStoredAccount(creds);
+            const exists = index.accounts.some(a => a.did === account.did);
+            return {
+                ...index,
+                accounts: exists ? index.accounts.map(a => a.did === account.did ? account : a) : [...index.accounts, account],
+            };
+        });
     },
-    deleteItem: () => {
-        return Platform.OS === 'web' ? AsyncStorage.removeItem(ATP_CREDENTIALS_KEY) : deleteItemAsync(ATP_CREDENTIALS_KEY);
+    deleteItem: async (did: string) => {
+        await secureStorage.deleteItem(credentialsKey(did));
+        return updateIndex(index => ({
+            activeDid: index.activeDid === did ? null : index.activeDid,
+            accounts: index.accounts.filter(a => a.did !== did),
+        }));
     }
 };
 
 export interface AtpContextType {
   agent: BskyAgent;
+  // Same session as `agent`, with requests proxied to the chat service (chat.bsky.*)
+  chatAgent: BskyAgent;
   publicAgent: BskyAgent;
   publicApiAgent: BskyAgent;
   session: AtpSessionData | null;
   serviceUrl: string;
   isLoadingSession: boolean;
   login: (params: { identifier: string; appPassword_DO_NOT_USE_REGULAR_PASSWORD_HERE: string; token?: string; serviceUrl: string; }) => Promise<any>;
+  // Redirects to the account's authorization server; the callback route finishes the sign-in
+  loginWithOAuth: (params: { identifier?: string; serviceUrl: string; }) => Promise<void>;
+  completeOAuthLogin: (params: OAuthCallbackParams) => Promise<void>;
   logout: () => Promise<void>;
+  // Multi-account
+  accounts: StoredAccount[];
+  switchAccount: (did: string) => Promise<void>;
+  removeAccount: (did: string) => Promise<void>;
   unreadCount: number;
   resetUnreadCount: () => void;
+  chatUnreadCount: number;
+  refreshChatUnreadCount: () => Promise<void>;
   // Sistema de proteção global
   requireAuth: (redirectTo?: string) => boolean;
   isProtectedRoute: (pathname: string) => boolean;
   getProtectedRoutes: () => string[];
 }
 
+// The server turned the stored tokens down, as opposed to not being reachable at all
+const isRejectedSessionError = (error: any) =>
+  error?.name === 'XRPCError' && ['ExpiredToken', 'InvalidToken'].includes(error.error);
+
 const AtpContext = createContext<AtpContextType | undefined>(undefined);
 
 export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [session, setSession] = useState<AtpSessionData | null>(null);
   const [serviceUrl, setServiceUrl] = useState<string>(PDS_URL);
+  const [accounts, setAccounts] = useState<StoredAccount[]>([]);
   const [isLoadingSession, setIsLoadingSession] = useState(true);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [chatUnreadCount, setChatUnreadCount] = useState(0);
   const [isPollingPaused, setIsPollingPaused] = useState(false);
+  const activeDidRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const agent = useMemo(() => new BskyAgent({
-    service: serviceUrl,
-    persistSession: (evt: AtpSessionEvent, sess?: AtpSessionData) => {
-      switch (evt) {
-        case 'create':
-        case 'update':
-          if (sess) {
-            credentialsStore.setItem({ session: sess, serviceUrl });
-            setSession(sess);
-          }
-          break;
-        case 'expired':
-        case 'create-failed':
-          credentialsStore.deleteItem();
-          setSession(null);
-          setServiceUrl(PDS_URL); // Reset to default on logout/failure
-          break;
-      }
-    },
-  }), [serviceUrl]);
+  // Each account gets its own agent bound to its PDS. Session events are persisted under the
+  // account's DID, and only the active account's events are reflected in the provider state.
+  const createAgent = useCallback((service: string, oauth?: OAuthSessionInfo) => {
+    let agentDid: string | undefined;
+    let agentHandle: string | undefined;
+    return new BskyAgent({
+      service,
+      fetch: oauth ? createDpopFetch(oauth, () => agentHandle) : undefined,
+      persistSession: (evt: AtpSessionEvent, sess?: AtpSessionData) => {
+        switch (evt) {
+          case 'create':
+          case 'update':
+            if (sess) {
+              agentDid = sess.did;
+              agentHandle = sess.handle;
+              credentialsStore.setItem({ session: sess, serviceUrl: service, oauth }).then(index => setAccounts(index.accounts));
+              if (sess.did === activeDidRef.current) setSession(sess);
+            }
+            break;
+          case 'expired':
+            if (agentDid) {
+              credentialsStore.deleteItem(agentDid).then(index => setAccounts(index.accounts));
+              if (agentDid === activeDidRef.current) {
+                activeDidRef.current = null;
+                setSession(null);
+                setServiceUrl(PDS_URL); // Reset to default on logout/failure
+              }
+            }
+            break;
+        }
+      },
+    });
+  }, []);
+
+  const [agent, setAgent] = useState<BskyAgent>(() => createAgent(PDS_URL));
+
+  const chatAgent = useMemo(() => agent.withProxy('bsky_chat', ATP_CONFIG.CHAT_SERVICE_DID), [agent]);
 
   // Create a dedicated public agent for unauthenticated requests
   const publicAgent = useMemo(() => {
@@ -94,41 +198,69 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       service: 'https://bsky.social'
     });
   }, []);
+
+  const activateAccount = useCallback(async (nextAgent: BskyAgent, creds: Omit<StoredCredentials, 'oauth'>) => {
+    activeDidRef.current = creds.session.did;
+    setUnreadCount(0);
+    setChatUnreadCount(0);
+    setServiceUrl(creds.serviceUrl);
+    setAgent(nextAgent);
+    setSession(nextAgent.session ?? creds.session);
+    await credentialsStore.setActiveDid(creds.session.did);
+  }, []);
+
+  const deactivateSession = useCallback(async () => {
+    activeDidRef.current = null;
+    setUnreadCount(0);
+    setChatUnreadCount(0);
+    setSession(null);
+    setServiceUrl(PDS_URL);
+    setAgent(createAgent(PDS_URL));
+    await credentialsStore.setActiveDid(null);
+  }, [createAgent]);
+
+  const resumeAccount = useCallback(async (did: string) => {
+    const creds = await credentialsStore.getItem(did);
+    if (!creds) throw new Error(`No stored session for ${did}`);
+    const nextAgent = createAgent(creds.serviceUrl, creds.oauth);
+    try {
+      await nextAgent.resumeSession(creds.session);
+    } catch (error) {
+      if (isRejectedSessionError(error)) {
+        // persistSession already drops expired sessions; make sure the entry is gone before rethrowing
+        const index = await credentialsStore.deleteItem(did);
+        setAccounts(index.accounts);
+        throw error;
+      }
+      // Offline or the server is unreachable: keep the account and carry on with the stored session.
+      // Its tokens are refreshed (or found expired) on the next request that reaches the server.
+      console.warn(`Could not verify the session for ${did}, using the stored one.`, error);
+      nextAgent.sessionManager.session = creds.session;
+    }
+    await activateAccount(nextAgent, { session: nextAgent.session ?? creds.session, serviceUrl: creds.serviceUrl });
+  }, [createAgent, activateAccount]);
   
   useEffect(() => {
     const initialize = async () => {
       console.log('🔧 DEBUG: Initializing AtpContext...');
       setIsLoadingSession(true);
       try {
-        const storedCreds = await credentialsStore.getItem();
-        if (storedCreds) {
-          // Set service URL first to ensure agent is created correctly
-          setServiceUrl(storedCreds.serviceUrl || PDS_URL);
-          // The agent will be recreated by the useMemo.
-          // We then resume the session with this new agent instance.
-          // A short delay ensures the state update for serviceUrl propagates.
-          setTimeout(() => {
-            agent.resumeSession(storedCreds.session).then(() => {
-                setSession(storedCreds.session);
-            }).catch(e => {
-                console.error("Session resumption failed, clearing credentials.", e);
-                credentialsStore.deleteItem();
-                setSession(null);
-                setServiceUrl(PDS_URL);
-            }).finally(() => {
-                setIsLoadingSession(false);
-            });
-          }, 0);
+        const index = await credentialsStore.getIndex();
+        setAccounts(index.accounts);
+        if (index.activeDid) {
+          await resumeAccount(index.activeDid).catch(e => {
+            console.error("Stored session was rejected, signing out.", e);
+            return deactivateSession();
+          });
         } else {
             console.log('🔧 DEBUG: No stored credentials found, initializing public agents for unauthenticated access');
             console.log('🔧 DEBUG: Public agents ready for content access without authentication');
-            setIsLoadingSession(false);
         }
       } catch (error) {
         console.error("Failed to initialize session:", error);
-        await credentialsStore.deleteItem();
         setSession(null);
         setServiceUrl(PDS_URL);
+      } finally {
         setIsLoadingSession(false);
       }
     };
@@ -146,9 +278,23 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [agent]);
 
+  // Muted conversations and pending requests don't count towards the badge.
+  const fetchChatUnreadCount = useCallback(async () => {
+    if (!agent.hasSession) return;
+    try {
+      const { data } = await chatAgent.chat.bsky.convo.listConvos({ readState: 'unread', status: 'accepted', limit: 100 });
+      setChatUnreadCount(data.convos.reduce((sum, convo) => sum + (convo.muted ? 0 : convo.unreadCount), 0));
+    } catch (error: any) {
+      // App passwords created without DM access can't reach the chat service; keep polling notifications regardless.
+      if (error && error.status === 429) throw error;
+      console.error("Failed to fetch chat unread count:", error);
+    }
+  }, [agent, chatAgent]);
+
   useEffect(() => {
     if (!session) {
       setUnreadCount(0);
+      setChatUnreadCount(0);
       return;
     }
 
@@ -157,7 +303,7 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     const pollFunction = async () => {
       if (isPollingPaused) return;
-      try { await fetchUnreadCount(); } catch (error: any) {
+      try { await Promise.all([fetchUnreadCount(), fetchChatUnreadCount()]); } catch (error: any) {
         if (error && error.status === 429) {
           setIsPollingPaused(true);
           toast({ title: "Rate limit reached", description: "Too many requests. Will retry automatically.", variant: "destructive" });
@@ -168,28 +314,29 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     fetchUnreadCount().catch(() => {});
+    fetchChatUnreadCount().catch(() => {});
     pollInterval = setInterval(pollFunction, 30000);
 
     return () => {
         if (pollInterval) clearInterval(pollInterval);
         if (pauseTimeout) clearTimeout(pauseTimeout);
     };
-  }, [session, fetchUnreadCount, isPollingPaused, toast]);
+  }, [session?.did, fetchUnreadCount, fetchChatUnreadCount, isPollingPaused, toast]);
   
   const resetUnreadCount = useCallback(() => setUnreadCount(0), []);
 
   const login = useCallback(async (params: { identifier: string; appPassword_DO_NOT_USE_REGULAR_PASSWORD_HERE: string; token?: string; serviceUrl: string; }) => {
-    // Create a temporary agent for the login attempt with the chosen service
-    const tempAgent = new BskyAgent({ service: params.serviceUrl });
+    // Log in with a fresh agent for the chosen service; persistSession stores it as a new account.
+    const nextAgent = createAgent(params.serviceUrl);
     
-    const { data: sessionResponse } = await tempAgent.login({ 
+    const { data: sessionResponse } = await nextAgent.login({ 
       identifier: params.identifier, 
       password: params.appPassword_DO_NOT_USE_REGULAR_PASSWORD_HERE, 
       authFactorToken: params.token 
     });
 
-    // Manually construct AtpSessionData to satisfy the stricter type, ensuring 'active' is set.
-    const newSession: AtpSessionData = {
+    // Fall back to a manually constructed AtpSessionData, ensuring 'active' is set.
+    const newSession: AtpSessionData = nextAgent.session ?? {
       did: sessionResponse.did,
       handle: sessionResponse.handle,
       email: sessionResponse.email,
@@ -199,44 +346,74 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       active: sessionResponse.active ?? true,
     };
 
-    // If successful, store credentials and update the provider's state
-    await credentialsStore.setItem({ session: newSession, serviceUrl: params.serviceUrl });
-    setServiceUrl(params.serviceUrl);
-    setSession(newSession);
-    
-    // Ensure the main agent gets the session after the serviceUrl change
-    // We need to wait briefly for the useMemo to recreate the agent with the new serviceUrl
-    await new Promise(resolve => setTimeout(resolve, 10));
-    
-    try {
-        // Apply the session to the main agent to ensure it's synchronized
-        await agent.resumeSession(newSession);
-        
-        // Now fetch unread count with the properly configured agent
-        if (agent.hasSession) {
-            await fetchUnreadCount();
-        }
-    } catch (error) {
-        console.error("Failed to sync session with main agent:", error);
-        // The session state is already set, so the UI will still work
+    await activateAccount(nextAgent, { session: newSession, serviceUrl: params.serviceUrl });
+  }, [createAgent, activateAccount]);
+
+  const loginWithOAuth = useCallback(async (params: { identifier?: string; serviceUrl: string; }) => {
+    const authorizationUrl = await startOAuthLogin(params);
+    window.location.assign(authorizationUrl);
+  }, []);
+
+  const completeOAuthLogin = useCallback(async (params: OAuthCallbackParams) => {
+    const { session: oauthSession, serviceUrl: pdsUrl, oauth } = await finishOAuthLogin(params);
+    const nextAgent = createAgent(pdsUrl, oauth);
+    // Resuming fetches the handle and persists the account through persistSession
+    await nextAgent.resumeSession(oauthSession);
+    await activateAccount(nextAgent, { session: nextAgent.session ?? oauthSession, serviceUrl: pdsUrl });
+  }, [createAgent, activateAccount]);
+
+  const switchAccount = useCallback(async (did: string) => {
+    if (did === activeDidRef.current) return;
+    await resumeAccount(did);
+  }, [resumeAccount]);
+
+  const removeAccount = useCallback(async (did: string) => {
+    const creds = await credentialsStore.getItem(did);
+    if (creds?.oauth) {
+      await revokeOAuthSession(creds.oauth, creds.session.refreshJwt).catch(() => {});
+    } else if (creds) {
+      // Revoke the session server-side; a failure here shouldn't keep the account on the device.
+      await new BskyAgent({ service: creds.serviceUrl }).com.atproto.server.deleteSession(undefined, {
+        headers: { authorization: `Bearer ${creds.session.refreshJwt}` },
+      }).catch(() => {});
     }
+    const index = await credentialsStore.deleteItem(did);
+    setAccounts(index.accounts);
+    // Saved feeds carry this account's private views (likes, bookmarks, timeline)
+    await clearOfflineCache(did);
 
-  }, [agent, fetchUnreadCount]);
+    if (did !== activeDidRef.current) return;
+    // Fall back to the next signed-in account, or to the public agent if none are left.
+    for (const account of index.accounts) {
+      try {
+        await resumeAccount(account.did);
+        return;
+      } catch (error) {
+        console.error(`Failed to resume account ${account.did}`, error);
+      }
+    }
+    await deactivateSession();
+  }, [resumeAccount, deactivateSession]);
 
   const logout = useCallback(async () => {
-    await agent.logout(); // This triggers 'expired' in persistSession
-  }, [agent]);
+    if (activeDidRef.current) {
+      await removeAccount(activeDidRef.current);
+    }
+  }, [removeAccount]);
 
   // Sistema de proteção global
   const protectedRoutes = [
     '/settings',
     '/notifications', 
+    '/messages',
     '/more',
 
     '/search',
     '/watch',
     '/bookmarks',
     '/likes',
+    '/scheduled',
+    '/history',
     '/compose'
     // Nota: /home, /profile e /post são públicos para SEO e acesso não autenticado
   ];
@@ -270,8 +447,10 @@ export const AtpProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   return (
     <AtpContext.Provider value={{
-      agent, publicAgent, publicApiAgent, session, serviceUrl, isLoadingSession, login, logout,
+      agent, chatAgent, publicAgent, publicApiAgent, session, serviceUrl, isLoadingSession, login, loginWithOAuth, completeOAuthLogin, logout,
+      accounts, switchAccount, removeAccount,
       unreadCount, resetUnreadCount,
+      chatUnreadCount, refreshChatUnreadCount: fetchChatUnreadCount,
       requireAuth, isProtectedRoute, getProtectedRoutes
     }}>
       {children}
@@ -1,127 +1,226 @@
 
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useMemo, useRef } from 'react';
 import { useAtp } from './AtpContext';
-import { AtUri, ComAtprotoRepoStrongRef } from '@atproto/api';
+import { useActionQueue } from './ActionQueueContext';
 import { AppBskyFeedDefs } from '@atproto/api';
-
-const BOOKMARK_COLLECTION = 'app.myclient.bookmark';
-
-interface BookmarkRecord {
-    rkey: string;
-    uri: string;
-    postUri: string;
-}
+import {
+    Bookmark,
+    BookmarkCollection,
+    BookmarkCollectionsState,
+    BookmarkStorageAdapter,
+    EMPTY_COLLECTIONS_STATE,
+    createBookmarkAdapter,
+    loadBookmarkCollections,
+    migrateLegacyBookmarks,
+    saveBookmarkCollections,
+} from '../lib/bookmarks';
 
 interface BookmarksContextType {
     isReady: boolean;
-    bookmarks: Map<string, BookmarkRecord>; // Map<postUri, BookmarkRecord>
-    addBookmark: (post: AppBskyFeedDefs.PostView) => Promise<void>;
+    bookmarks: Map<string, Bookmark>; // Map<postUri, Bookmark>
+    // The active storage backend, for views that page through bookmarks themselves
+    adapter: BookmarkStorageAdapter | null;
+    addBookmark: (post: AppBskyFeedDefs.PostView, collectionId?: string) => Promise<void>;
     removeBookmark: (postUri: string) => Promise<void>;
     isBookmarked: (postUri: string) => boolean;
+    collections: BookmarkCollection[];
+    getCollectionId: (postUri: string) => string | undefined;
+    createCollection: (name: string) => Promise<BookmarkCollection>;
+    renameCollection: (id: string, name: string) => Promise<void>;
+    // Bookmarks in a deleted collection are kept and become unsorted
+    deleteCollection: (id: string) => Promise<void>;
+    moveBookmark: (postUri: string, collectionId: string | null) => Promise<void>;
 }
 
 const BookmarksContext = createContext<BookmarksContextType | undefined>(undefined);
 
 export const BookmarksProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const { agent, session } = useAtp();
+    const { submit, subscribe } = useActionQueue();
     const [isReady, setIsReady] = useState(false);
-    const [bookmarks, setBookmarks] = useState<Map<string, BookmarkRecord>>(new Map());
-
-    const loadBookmarks = useCallback(async () => {
-        if (!session) {
-            setBookmarks(new Map());
+    const [bookmarks, setBookmarks] = useState<Map<string, Bookmark>>(new Map());
+    const [collectionsState, setCollectionsState] = useState<BookmarkCollectionsState>(EMPTY_COLLECTIONS_STATE);
+    const collectionsRef = useRef<BookmarkCollectionsState>(EMPTY_COLLECTIONS_STATE);
+
+    const did = session?.did;
+    const adapter = useMemo(() => did ? createBookmarkAdapter(agent, did) : null, [agent, did]);
+
+    // `isCancelled` turns true once the account changed, so a slow load can't overwrite the next account's bookmarks
+    const loadBookmarks = useCallback(async (isCancelled: () => boolean) => {
+        // Reset before loading so a switched-to account never sees the previous account's bookmarks.
+        setBookmarks(new Map());
+        if (!did || !adapter) {
             setIsReady(true);
             return;
         }
         setIsReady(false);
         try {
-            const newBookmarks = new Map<string, BookmarkRecord>();
+            try {
+                await migrateLegacyBookmarks(agent, did, adapter);
+            } catch (error) {
+                // Legacy records stay in place and the migration is retried on the next load
+                console.error("Failed to migrate legacy bookmarks", error);
+            }
+
+            const newBookmarks = new Map<string, Bookmark>();
             let cursor: string | undefined;
             do {
-                const res = await agent.com.atproto.repo.listRecords({
-                    repo: session.did,
-                    collection: BOOKMARK_COLLECTION,
-                    limit: 100,
-                    cursor,
-                });
-                for (const record of res.data.records) {
-                    const postUri = (record.value as any).subject.uri;
-                    newBookmarks.set(postUri, {
-                        rkey: new AtUri(record.uri).rkey,
-                        uri: record.uri,
-                        postUri: postUri,
-                    });
+                const page = await adapter.list(cursor, 100);
+                if (isCancelled()) return;
+                for (const bookmark of page.bookmarks) {
+                    newBookmarks.set(bookmark.subject.uri, bookmark);
                 }
-                cursor = res.data.cursor;
+                cursor = page.cursor;
             } while (cursor);
             setBookmarks(newBookmarks);
         } catch (error) {
-            console.error("Failed to load bookmarks", error);
+            if (!isCancelled()) console.error("Failed to load bookmarks", error);
         } finally {
-            setIsReady(true);
+            if (!isCancelled()) setIsReady(true);
         }
-    }, [agent, session]);
+    }, [agent, did, adapter]);
 
     useEffect(() => {
-        loadBookmarks();
+        let isCancelled = false;
+        loadBookmarks(() => isCancelled);
+        return () => { isCancelled = true; };
     }, [loadBookmarks]);
 
-    const addBookmark = useCallback(async (post: AppBskyFeedDefs.PostView) => {
-        if (!session) return;
-        
-        const record = {
-            $type: BOOKMARK_COLLECTION,
-            subject: {
-                uri: post.uri,
-                cid: post.cid,
-            } as ComAtprotoRepoStrongRef.Main,
-            createdAt: new Date().toISOString(),
-        };
-
-        const res = await agent.com.atproto.repo.createRecord({
-            repo: session.did,
-            collection: BOOKMARK_COLLECTION,
-            record: record,
+    // Bookmarks added or removed offline are shown right away; undo them if the server later refuses
+    useEffect(() => {
+        let isCancelled = false;
+        const unsubscribe = subscribe(({ action, status }) => {
+            if (status !== 'rejected') return;
+            if (action.type === 'bookmark') {
+                setBookmarks(prev => {
+                    const newMap = new Map(prev);
+                    newMap.delete(action.subject);
+                    return newMap;
+                });
+            } else if (action.type === 'unbookmark') {
+                loadBookmarks(() => isCancelled);
+            }
         });
+        return () => {
+            isCancelled = true;
+            unsubscribe();
+        };
+    }, [subscribe, loadBookmarks]);
 
+    useEffect(() => {
+        collectionsRef.current = EMPTY_COLLECTIONS_STATE;
+        setCollectionsState(EMPTY_COLLECTIONS_STATE);
+        if (!did) return;
+
+        let isCancelled = false;
+        loadBookmarkCollections(did)
+            .then(state => {
+                if (isCancelled) return;
+                collectionsRef.current = state;
+                setCollectionsState(state);
+            })
+            .catch(error => console.error("Failed to load bookmark collections", error));
+        return () => { isCancelled = true; };
+    }, [did]);
+
+    const updateCollections = useCallback(async (update: (prev: BookmarkCollectionsState) => BookmarkCollectionsState) => {
+        if (!did) return;
+        const next = update(collectionsRef.current);
+        collectionsRef.current = next;
+        setCollectionsState(next);
+        await saveBookmarkCollections(did, next);
+    }, [did]);
+
+    const assignBookmark = useCallback((postUri: string, collectionId: string | null) => updateCollections(prev => {
+        const assignments = { ...prev.assignments };
+        if (collectionId) assignments[postUri] = collectionId;
+        else delete assignments[postUri];
+        return { ...prev, assignments };
+    }), [updateCollections]);
+
+    const addBookmark = useCallback(async (post: AppBskyFeedDefs.PostView, collectionId?: string) => {
+        if (!adapter) return;
+
+        const bookmark: Bookmark = { subject: { uri: post.uri, cid: post.cid }, createdAt: new Date().toISOString(), post };
         setBookmarks(prev => {
             const newMap = new Map(prev);
-            newMap.set(post.uri, {
-                rkey: new AtUri(res.data.uri).rkey,
-                uri: res.data.uri,
-                postUri: post.uri
-            });
+            newMap.set(post.uri, bookmark);
             return newMap;
         });
-    }, [agent, session]);
+        try {
+            await submit({ type: 'bookmark', subject: post.uri, cid: post.cid });
+        } catch (error) {
+            setBookmarks(prev => {
+                const newMap = new Map(prev);
+                newMap.delete(post.uri);
+                return newMap;
+            });
+            throw error;
+        }
+        if (collectionId) await assignBookmark(post.uri, collectionId);
+    }, [adapter, submit, assignBookmark]);
 
     const removeBookmark = useCallback(async (postUri: string) => {
-        if (!session) return;
         const bookmark = bookmarks.get(postUri);
-        if (!bookmark) return;
-
-        await agent.com.atproto.repo.deleteRecord({
-            repo: session.did,
-            collection: BOOKMARK_COLLECTION,
-            rkey: bookmark.rkey,
-        });
+        if (!adapter || !bookmark) return;
 
         setBookmarks(prev => {
             const newMap = new Map(prev);
             newMap.delete(postUri);
             return newMap;
         });
-    }, [agent, session, bookmarks]);
+        try {
+            await submit({ type: 'unbookmark', subject: postUri });
+        } catch (error) {
+            setBookmarks(prev => new Map(prev).set(postUri, bookmark));
+            throw error;
+        }
+        if (collectionsRef.current.assignments[postUri]) await assignBookmark(postUri, null);
+    }, [adapter, bookmarks, submit, assignBookmark]);
 
     const isBookmarked = (postUri: string) => bookmarks.has(postUri);
 
+    const getCollectionId = (postUri: string) => collectionsState.assignments[postUri];
+
+    const createCollection = useCallback(async (name: string) => {
+        const collection: BookmarkCollection = {
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            createdAt: new Date().toISOString(),
+        };
+        await updateCollections(prev => ({ ...prev, collections: [...prev.collections, collection] }));
+        return collection;
+    }, [updateCollections]);
+
+    const renameCollection = useCallback((id: string, name: string) => updateCollections(prev => ({
+        ...prev,
+        collections: prev.collections.map(c => c.id === id ? { ...c, name: name.trim() } : c),
+    })), [updateCollections]);
+
+    const deleteCollection = useCallback((id: string) => updateCollections(prev => ({
+        collections: prev.collections.filter(c => c.id !== id),
+        assignments: Object.fromEntries(Object.entries(prev.assignments).filter(([, collectionId]) => collectionId !== id)),
+    })), [updateCollections]);
+
+    const moveBookmark = useCallback(async (postUri: string, collectionId: string | null) => {
+        if (!bookmarks.has(postUri)) return;
+        await assignBookmark(postUri, collectionId);
+    }, [bookmarks, assignBookmark]);
+
     const value = {
         isReady,
         bookmarks,
+        adapter,
         addBookmark,
         removeBookmark,
         isBookmarked,
+        collections: collectionsState.collections,
+        getCollectionId,
+        createCollection,
+        renameCollection,
+        deleteCollection,
+        moveBookmark,
     };
 
     return (
@@ -1,10 +1,12 @@
 
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useActionQueue } from './ActionQueueContext';
 
 interface HiddenPostsContextType {
   hiddenPostUris: Set<string>;
   hidePost: (uri: string) => void;
+  unhidePost: (uri: string) => void;
 }
 
 const HiddenPostsContext = createContext<HiddenPostsContextType | undefined>(undefined);
@@ -13,6 +15,7 @@ const HIDDEN_POSTS_STORAGE_KEY = 'takaka-hidden-posts';
 
 export const HiddenPostsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [hiddenPostUris, setHiddenPostUris] = useState<Set<string>>(new Set());
+  const { subscribe } = useActionQueue();
 
   useEffect(() => {
     const loadHiddenPosts = async () => {
@@ -28,10 +31,10 @@ export const HiddenPostsProvider: React.FC<{ children: ReactNode }> = ({ childre
     loadHiddenPosts();
   }, []);
 
-  const hidePost = useCallback((uri: string) => {
+  const updateHiddenPosts = useCallback((update: (set: Set<string>) => void) => {
     setHiddenPostUris(prev => {
       const newSet = new Set(prev);
-      newSet.add(uri);
+      update(newSet);
       AsyncStorage.setItem(HIDDEN_POSTS_STORAGE_KEY, JSON.stringify(Array.from(newSet))).catch(e => {
         console.error("Failed to save hidden posts to storage", e);
       });
@@ -39,8 +42,17 @@ export const HiddenPostsProvider: React.FC<{ children: ReactNode }> = ({ childre
     });
   }, []);
 
+  const hidePost = useCallback((uri: string) => updateHiddenPosts(set => set.add(uri)), [updateHiddenPosts]);
+
+  const unhidePost = useCallback((uri: string) => updateHiddenPosts(set => set.delete(uri)), [updateHiddenPosts]);
+
+  // Posts whose deletion was queued offline are hidden meanwhile; bring them back if the delete is refused
+  useEffect(() => subscribe(({ action, status }) => {
+    if (action.type === 'delete' && status === 'rejected') unhidePost(action.subject);
+  }), [subscribe, unhidePost]);
+
   return (
-    <HiddenPostsContext.Provider value={{ hiddenPostUris, hidePost }}>
+    <HiddenPostsContext.Provider value={{ hiddenPostUris, hidePost, unhidePost }}>
       {children}
     </HiddenPostsContext.Provider>
   );
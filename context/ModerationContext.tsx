@@ -1,23 +1,34 @@
 
 
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useMemo, useRef } from 'react';
 import { useAtp } from './AtpContext';
-import { AppBskyActorDefs, ComAtprotoLabelDefs } from '@atproto/api';
+import { AppBskyActorDefs, AppBskyLabelerDefs, ComAtprotoLabelDefs } from '@atproto/api';
+import { BSKY_LABELER_DID, LabelDefinition, toLabelVisibility } from '../lib/moderation';
 
 type Preferences = AppBskyActorDefs.Preferences;
 type MutedWord = AppBskyActorDefs.MutedWord;
+export type MutedWordOptions = Pick<MutedWord, 'targets' | 'actorTarget' | 'expiresAt'>;
 type LabelVisibility = 'show' | 'warn' | 'hide';
 type LabelPreferenceMap = Map<string, LabelVisibility>;
+type LabelerPreferenceMap = Map<string, LabelPreferenceMap>;
 
 interface ModerationContextType {
     isReady: boolean;
     adultContentEnabled: boolean;
     labelPreferences: LabelPreferenceMap;
+    labelerPreferences: LabelerPreferenceMap;
     mutedWords: MutedWord[];
+    subscribedLabelers: string[];
+    // Detailed views of Bluesky's labeler and every subscribed one
+    labelers: AppBskyLabelerDefs.LabelerViewDetailed[];
+    labelDefinitions: Map<string, LabelDefinition[]>;
     setAdultContentEnabled: (enabled: boolean) => Promise<void>;
-    setLabelPreference: (label: string, visibility: LabelVisibility) => Promise<void>;
-    addMutedWord: (word: string) => Promise<void>;
+    // Without `labelerDid` the preference is global, which is how Bluesky's own labels are configured
+    setLabelPreference: (label: string, visibility: LabelVisibility, labelerDid?: string) => Promise<void>;
+    subscribeLabeler: (did: string) => Promise<void>;
+    unsubscribeLabeler: (did: string) => Promise<void>;
+    addMutedWord: (word: string, options?: MutedWordOptions) => Promise<void>;
     removeMutedWord: (word: string) => Promise<void>;
 }
 
@@ -30,6 +41,9 @@ export const ModerationProvider: React.FC<{ children: ReactNode }> = ({ children
     const [adultContentEnabled, setAdultContentEnabledState] = useState(false);
     const [labelPreferences, setLabelPreferences] = useState<LabelPreferenceMap>(new Map());
     const [mutedWords, setMutedWords] = useState<MutedWord[]>([]);
+    const [subscribedLabelers, setSubscribedLabelers] = useState<string[]>([]);
+    const [labelerPreferences, setLabelerPreferences] = useState<LabelerPreferenceMap>(new Map());
+    const [labelers, setLabelers] = useState<AppBskyLabelerDefs.LabelerViewDetailed[]>([]);
 
     const parsePreferences = useCallback((prefs: Preferences) => {
         // Adult Content
@@ -42,15 +56,23 @@ export const ModerationProvider: React.FC<{ children: ReactNode }> = ({ children
 
         // Label Preferences
         const newLabelPrefs = new Map<string, LabelVisibility>();
+        const newLabelerPrefs: LabelerPreferenceMap = new Map();
         const contentLabelPrefs = prefs.filter(p => p.$type === 'app.bsky.actor.defs#contentLabelPref');
         for (const pref of contentLabelPrefs) {
             if (AppBskyActorDefs.isContentLabelPref(pref)) {
-                if (['show', 'warn', 'hide'].includes(pref.visibility)) {
-                    newLabelPrefs.set(pref.label, pref.visibility as LabelVisibility);
+                const visibility = toLabelVisibility(pref.visibility);
+                if (!visibility) continue;
+                if (pref.labelerDid) {
+                    const labelerPrefs = newLabelerPrefs.get(pref.labelerDid) || new Map<string, LabelVisibility>();
+                    labelerPrefs.set(pref.label, visibility);
+                    newLabelerPrefs.set(pref.labelerDid, labelerPrefs);
+                } else {
+                    newLabelPrefs.set(pref.label, visibility);
                 }
             }
         }
         setLabelPreferences(newLabelPrefs);
+        setLabelerPreferences(newLabelerPrefs);
         
         // Muted Words
         const mutedWordsPref = prefs.find(p => p.$type === 'app.bsky.actor.defs#mutedWordsPref');
@@ -60,36 +82,85 @@ export const ModerationProvider: React.FC<{ children: ReactNode }> = ({ children
             setMutedWords([]);
         }
 
+        // Labeler subscriptions
+        const labelersPref = prefs.find(p => p.$type === 'app.bsky.actor.defs#labelersPref');
+        if (AppBskyActorDefs.isLabelersPref(labelersPref) && Array.isArray(labelersPref.labelers)) {
+            setSubscribedLabelers(labelersPref.labelers.map(l => l.did));
+        } else {
+            setSubscribedLabelers([]);
+        }
+
     }, []);
 
-    const fetchPreferences = useCallback(async () => {
-        if (!session) {
+    const did = session?.did;
+
+    // The account whose preferences are loaded. Saving writes the whole list back, so it only
+    // happens once this matches the signed-in account.
+    const loadedDidRef = useRef<string | null>(null);
+    const didRef = useRef(did);
+    didRef.current = did;
+
+    useEffect(() => {
+        // Start from a clean slate so one account's preferences never leak into another's.
+        loadedDidRef.current = null;
+        setPreferences([]);
+        parsePreferences([]);
+        if (!did) {
             setIsReady(true);
             return;
         }
-        try {
-            const { data } = await agent.app.bsky.actor.getPreferences();
-            setPreferences(data.preferences);
-            parsePreferences(data.preferences);
-        } catch (error) {
-            console.error("Failed to fetch moderation preferences:", error);
-        } finally {
-            setIsReady(true);
-        }
-    }, [agent, session, parsePreferences]);
+        setIsReady(false);
+        let isCancelled = false;
+        agent.app.bsky.actor.getPreferences()
+            .then(({ data }) => {
+                if (isCancelled) return;
+                loadedDidRef.current = did;
+                setPreferences(data.preferences);
+                parsePreferences(data.preferences);
+            })
+            .catch(error => { if (!isCancelled) console.error("Failed to fetch moderation preferences:", error); })
+            .finally(() => { if (!isCancelled) setIsReady(true); });
+        return () => { isCancelled = true; };
+    }, [agent, did, parsePreferences]);
+
+    // Ask the AppView to apply the subscribed labelers' labels to every response
+    useEffect(() => {
+        agent.configureLabelers(subscribedLabelers.filter(did => did !== BSKY_LABELER_DID));
+    }, [agent, subscribedLabelers]);
 
+    // Fetch each labeler's policies so their custom labels can be interpreted and configured
     useEffect(() => {
-        fetchPreferences();
-    }, [fetchPreferences]);
+        setLabelers([]);
+        if (!did) return;
+        let isCancelled = false;
+        const dids = [BSKY_LABELER_DID, ...subscribedLabelers.filter(did => did !== BSKY_LABELER_DID)];
+        agent.app.bsky.labeler.getServices({ dids, detailed: true })
+            .then(({ data }) => {
+                if (isCancelled) return;
+                setLabelers(data.views.filter(AppBskyLabelerDefs.isLabelerViewDetailed) as AppBskyLabelerDefs.LabelerViewDetailed[]);
+            })
+            .catch(error => console.error("Failed to fetch labeler policies:", error));
+        return () => { isCancelled = true; };
+    }, [agent, did, subscribedLabelers]);
+
+    const labelDefinitions = useMemo(() => new Map(
+        labelers.map(labeler => [labeler.creator.did, labeler.policies.labelValueDefinitions || []] as const)
+    ), [labelers]);
 
     const savePreferences = async (newPrefs: Preferences) => {
+        // Until this account's preferences loaded, `preferences` is empty or another account's
+        if (!isReady || !did || loadedDidRef.current !== did) {
+            console.warn("Moderation preferences aren't loaded for this account yet, not saving.");
+            return;
+        }
         try {
             await agent.app.bsky.actor.putPreferences({ preferences: newPrefs });
+            if (didRef.current !== did) return;
             setPreferences(newPrefs);
             parsePreferences(newPrefs);
         } catch (error) {
             console.error("Failed to save moderation preferences:", error);
-            parsePreferences(preferences); // Revert on failure
+            if (didRef.current === did) parsePreferences(preferences); // Revert on failure
         }
     };
     
@@ -99,28 +170,62 @@ export const ModerationProvider: React.FC<{ children: ReactNode }> = ({ children
         await savePreferences([...otherPrefs, newPref]);
     };
 
-    const setLabelPreference = async (label: string, visibility: LabelVisibility) => {
-        const otherPrefs = preferences.filter(
-            p => !(p.$type === 'app.bsky.actor.defs#contentLabelPref' && (p as AppBskyActorDefs.ContentLabelPref).label === label)
-        );
+    const setLabelPreference = async (label: string, visibility: LabelVisibility, labelerDid?: string) => {
+        const otherPrefs = preferences.filter(p => {
+            if (p.$type !== 'app.bsky.actor.defs#contentLabelPref') return true;
+            const pref = p as AppBskyActorDefs.ContentLabelPref;
+            return !(pref.label === label && pref.labelerDid === labelerDid);
+        });
 
-        let newPrefs: Preferences = [...otherPrefs];
-        if (visibility !== 'show') { // 'show' is the default, so we remove the pref
-            const newPref = { $type: 'app.bsky.actor.defs#contentLabelPref', label, visibility };
-            newPrefs.push(newPref);
-        }
-        
-        await savePreferences(newPrefs);
+        // Labels can default to 'warn' or 'hide', so 'show' is stored explicitly, using the lexicon's 'ignore'
+        const newPref = {
+            $type: 'app.bsky.actor.defs#contentLabelPref',
+            label,
+            visibility: visibility === 'show' ? 'ignore' : visibility,
+            ...(labelerDid ? { labelerDid } : {}),
+        };
+        await savePreferences([...otherPrefs, newPref]);
+    };
+
+    const updateLabelers = async (update: (dids: string[]) => string[]) => {
+        const currentPref = preferences.find(p => p.$type === 'app.bsky.actor.defs#labelersPref');
+        const otherPrefs = preferences.filter(p => p.$type !== 'app.bsky.actor.defs#labelersPref');
+        const current = AppBskyActorDefs.isLabelersPref(currentPref) ? currentPref.labelers.map(l => l.did) : [];
+        const newPref = { $type: 'app.bsky.actor.defs#labelersPref', labelers: update(current).map(did => ({ did })) };
+        await savePreferences([...otherPrefs, newPref]);
+    };
+
+    const subscribeLabeler = (did: string) => updateLabelers(dids => dids.includes(did) ? dids : [...dids, did]);
+
+    const unsubscribeLabeler = async (did: string) => {
+        // Bluesky's labeler is always applied by the AppView and can't be removed
+        if (did === BSKY_LABELER_DID) return;
+        // Drop the labeler's own label preferences along with the subscription
+        const remaining = preferences.filter(p => !(
+            p.$type === 'app.bsky.actor.defs#contentLabelPref' && (p as AppBskyActorDefs.ContentLabelPref).labelerDid === did
+        ));
+        const currentPref = remaining.find(p => p.$type === 'app.bsky.actor.defs#labelersPref');
+        const otherPrefs = remaining.filter(p => p.$type !== 'app.bsky.actor.defs#labelersPref');
+        const labelersList = AppBskyActorDefs.isLabelersPref(currentPref) ? currentPref.labelers.filter(l => l.did !== did) : [];
+        await savePreferences([...otherPrefs, { $type: 'app.bsky.actor.defs#labelersPref', labelers: labelersList }]);
     };
 
-    const addMutedWord = async (word: string) => {
-        const newWord: MutedWord = { value: word, targets: ['content'], actorTarget: 'all' }; // Default target
+    const addMutedWord = async (word: string, options?: MutedWordOptions) => {
+        const newWord: MutedWord = {
+            id: crypto.randomUUID(),
+            // Tags are matched without their leading '#'
+            value: word.replace(/^#(?!$)/, ''),
+            targets: ['content', 'tag'],
+            actorTarget: 'all',
+            ...options,
+        };
         const currentMutedPref = preferences.find(p => p.$type === 'app.bsky.actor.defs#mutedWordsPref');
         const otherPrefs = preferences.filter(p => p.$type !== 'app.bsky.actor.defs#mutedWordsPref');
         
         let updatedItems: MutedWord[] = [];
         if (AppBskyActorDefs.isMutedWordsPref(currentMutedPref)) {
-            updatedItems = [...currentMutedPref.items, newWord];
+            // Re-adding a word replaces its previous settings
+            updatedItems = [...currentMutedPref.items.filter(item => item.value !== newWord.value), newWord];
         } else {
             updatedItems = [newWord];
         }
@@ -144,9 +249,15 @@ export const ModerationProvider: React.FC<{ children: ReactNode }> = ({ children
         isReady,
         adultContentEnabled,
         labelPreferences,
+        labelerPreferences,
         mutedWords,
+        subscribedLabelers,
+        labelers,
+        labelDefinitions,
         setAdultContentEnabled,
         setLabelPreference,
+        subscribeLabeler,
+        unsubscribeLabeler,
         addMutedWord,
         removeMutedWord,
     };
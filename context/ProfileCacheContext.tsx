@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { AppBskyActorDefs } from '@atproto/api';
 import { useAtp } from './AtpContext';
+import { isNetworkError, readCachedProfile, writeCachedProfile } from '../lib/offlineCache';
 
 // Cache structure: Map<actor DID or handle, { profile: ProfileViewDetailed, timestamp: number }>
 interface CacheEntry {
@@ -22,6 +23,11 @@ export const ProfileCacheProvider: React.FC<{ children: ReactNode }> = ({ childr
     const [cache, setCache] = useState<ProfileCache>(new Map());
     const { agent, publicAgent, publicApiAgent, session } = useAtp();
 
+    // Cached profiles carry viewer state (follows, mutes), so they're dropped when the account changes.
+    useEffect(() => {
+        setCache(new Map());
+    }, [session?.did]);
+
     const getProfile = useCallback(async (actor: string): Promise<AppBskyActorDefs.ProfileViewDetailed> => {
         const cachedEntry = cache.get(actor);
         if (cachedEntry && Date.now() - cachedEntry.timestamp < CACHE_TTL_MS) {
@@ -32,7 +38,16 @@ export const ProfileCacheProvider: React.FC<{ children: ReactNode }> = ({ childr
         const profileAgent = session ? agent : publicApiAgent;
         console.log('🔍 DEBUG: Profile fetch using agent type:', session ? 'authenticated' : 'public');
         
-        const { data } = await profileAgent.getProfile({ actor });
+        let data: AppBskyActorDefs.ProfileViewDetailed;
+        try {
+            ({ data } = await profileAgent.getProfile({ actor }));
+        } catch (error) {
+            // Offline, fall back to the copy saved on a previous visit
+            const saved = isNetworkError(error) ? await readCachedProfile(session?.did, actor) : undefined;
+            if (!saved) throw error;
+            return saved;
+        }
+        writeCachedProfile(session?.did, data);
         
         // Update cache
         setCache(prevCache => {
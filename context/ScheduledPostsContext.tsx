@@ -0,0 +1,364 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { Alert, AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useTranslation } from 'react-i18next';
+import { RichText } from '@atproto/api';
+import { useAtp } from './AtpContext';
+import { useToast } from '@/components/shared';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { ComposerDraft, DraftMedia, DraftSegment } from '@/hooks/useComposerDrafts';
+import { SCHEDULED_POSTS_CONFIG } from '../lib/config';
+import { publishThread } from '../lib/publish';
+import { isRetryableError } from '../lib/actionQueue';
+import { deleteMedia, isStoredMediaRef, requestScheduledSync, resolveMedia, setDueTimes, storeMedia } from '../lib/scheduledStore';
+
+// 'missed' posts were due while the app wasn't running and wait for the user to decide
+export type ScheduledPostStatus = 'scheduled' | 'publishing' | 'missed' | 'failed';
+
+export interface ScheduledPost extends Omit<ComposerDraft, 'updatedAt'> {
+  scheduledAt: string;
+  status: ScheduledPostStatus;
+  // Why the last attempt failed, when status is 'failed'
+  error?: string;
+  // Set when publishing failed for a retryable reason, to space out retries
+  lastAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduledPostInput = Omit<ComposerDraft, 'id' | 'updatedAt'> & { id?: string; scheduledAt: string };
+
+interface ScheduledPostsContextType {
+  scheduledPosts: ScheduledPost[];
+  isLoaded: boolean;
+  // Adds a post to the queue, or replaces the queued post with the same id
+  schedulePost: (input: ScheduledPostInput) => Promise<string>;
+  reschedulePost: (id: string, scheduledAt: string) => Promise<void>;
+  cancelScheduledPost: (id: string) => Promise<void>;
+  publishNow: (id: string) => Promise<void>;
+}
+
+const ScheduledPostsContext = createContext<ScheduledPostsContextType | undefined>(undefined);
+
+// Kept per account, so each post is published by the account that scheduled it
+const scheduledPostsKey = (did: string) => `takaka-scheduled-posts.${did}`;
+
+const byScheduledAt = (a: ScheduledPost, b: ScheduledPost) => a.scheduledAt.localeCompare(b.scheduledAt);
+
+const mapMedia = (post: ScheduledPost, map: (media: DraftMedia) => DraftMedia | null): ScheduledPost => ({
+  ...post,
+  segments: post.segments.map(segment => ({
+    ...segment,
+    media: segment.media.map(map).filter((media): media is DraftMedia => !!media),
+  })),
+});
+
+// When the scheduler should next try to publish a queued post
+const getNextAttemptAt = (post: ScheduledPost) => Math.max(
+  Date.parse(post.scheduledAt),
+  post.lastAttemptAt ? Date.parse(post.lastAttemptAt) + SCHEDULED_POSTS_CONFIG.CHECK_INTERVAL_MS : 0,
+);
+
+export const ScheduledPostsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { agent, session } = useAtp();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const isOnline = useOnlineStatus();
+  const [scheduledPosts, setScheduledPosts] = useState<ScheduledPost[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const postsRef = useRef<ScheduledPost[]>([]);
+  const publishingRef = useRef(new Set<string>());
+
+  const did = session?.did;
+  const didRef = useRef(did);
+  didRef.current = did;
+
+  // Media kept outside the queue (see lib/scheduledStore), by the URI the app shows it with
+  const mediaRefsRef = useRef(new Map<string, string>());
+  // Object URLs made for stored media, revoked once their post is gone
+  const objectUrlsRef = useRef(new Set<string>());
+
+  const forgetMedia = useCallback((uris: string[], deleteStored: boolean) => {
+    const refs = uris.map(uri => mediaRefsRef.current.get(uri)).filter((ref): ref is string => !!ref);
+    uris.forEach(uri => {
+      mediaRefsRef.current.delete(uri);
+      if (objectUrlsRef.current.delete(uri)) URL.revokeObjectURL(uri);
+    });
+    if (deleteStored && refs.length > 0) deleteMedia(refs).catch(error => console.warn("Failed to delete scheduled media", error));
+  }, []);
+
+  // What goes into storage: stored media by reference, and no unedited originals
+  const toStored = useCallback((post: ScheduledPost): ScheduledPost => mapMedia(post, ({ original, edit, ...media }) => ({
+    ...media,
+    asset: { ...media.asset, uri: mediaRefsRef.current.get(media.asset.uri) ?? media.asset.uri, base64: undefined },
+  })), []);
+
+  // Rejects when the queue couldn't be written, so a post is never reported scheduled and then lost
+  const applyPosts = useCallback(async (next: ScheduledPost[]) => {
+    const sorted = [...next].sort(byScheduledAt);
+    postsRef.current = sorted;
+    setScheduledPosts(sorted);
+    const currentDid = didRef.current;
+    if (!currentDid) return;
+    await AsyncStorage.setItem(scheduledPostsKey(currentDid), JSON.stringify(sorted.map(toStored)));
+
+    const inUse = new Set(sorted.flatMap(post => post.segments.flatMap(segment => segment.media.map(media => media.asset.uri))));
+    forgetMedia([...mediaRefsRef.current.keys()].filter(uri => !inUse.has(uri)), true);
+    const queued = sorted.filter(post => post.status === 'scheduled');
+    setDueTimes(currentDid, queued)
+      .then(() => requestScheduledSync(queued.length > 0))
+      .catch(error => console.warn("Failed to hand scheduled posts to the service worker", error));
+  }, [toStored, forgetMedia]);
+
+  const savePosts = useCallback((next: ScheduledPost[]) => {
+    applyPosts(next).catch(error => console.error("Failed to save scheduled posts", error));
+  }, [applyPosts]);
+
+  const updatePost = useCallback((id: string, update: (post: ScheduledPost) => ScheduledPost) => {
+    savePosts(postsRef.current.map(post => post.id === id ? update(post) : post));
+  }, [savePosts]);
+
+  const removePost = useCallback((id: string) => {
+    savePosts(postsRef.current.filter(post => post.id !== id));
+  }, [savePosts]);
+
+  const publish = useCallback(async (id: string) => {
+    const post = postsRef.current.find(p => p.id === id);
+    if (!post || !did || publishingRef.current.has(id)) return;
+    publishingRef.current.add(id);
+    updatePost(id, p => ({ ...p, status: 'publishing', error: undefined }));
+    try {
+      await publishThread(agent, did, post, {
+        onSegmentPosted: (segmentIndex, posted) => updatePost(id, p => ({
+          ...p,
+          segments: p.segments.map((segment, index) => index === segmentIndex ? { ...segment, posted } : segment),
+        })),
+      });
+      removePost(id);
+      toast({ title: t(post.replyTo ? 'scheduled.toast.replyPublished' : 'scheduled.toast.published') });
+    } catch (error: any) {
+      console.error("Failed to publish scheduled post", error);
+      if (isRetryableError(error)) {
+        // Picked up again on a later check
+        updatePost(id, p => ({ ...p, status: 'scheduled', lastAttemptAt: new Date().toISOString() }));
+      } else {
+        updatePost(id, p => ({ ...p, status: 'failed', error: error?.message || String(error) }));
+        toast({ title: t('scheduled.toast.failed'), description: t('scheduled.toast.failedDescription'), variant: "destructive" });
+      }
+    } finally {
+      publishingRef.current.delete(id);
+    }
+  }, [agent, did, updatePost, removePost, toast, t]);
+
+  const confirmMissed = useCallback((missed: ScheduledPost[]) => {
+    const title = t('scheduled.missed.title');
+    const message = t('scheduled.missed.message', { count: missed.length });
+    const publishMissed = async () => {
+      for (const post of missed) await publish(post.id);
+    };
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) publishMissed();
+    } else {
+      Alert.alert(title, message, [
+        { text: t('scheduled.missed.later'), style: 'cancel' },
+        { text: t('scheduled.missed.publish'), onPress: publishMissed },
+      ]);
+    }
+  }, [publish, t]);
+
+  const confirmMissedRef = useRef(confirmMissed);
+  confirmMissedRef.current = confirmMissed;
+
+  // Each account has its own queue. Whatever came due while the app was closed is
+  // published only after asking, since it may no longer be timely.
+  useEffect(() => {
+    postsRef.current = [];
+    setScheduledPosts([]);
+    setIsLoaded(false);
+    // Another account's media stays stored; only this session's URLs go
+    forgetMedia([...mediaRefsRef.current.keys()], false);
+    if (!did) return;
+
+    let isCancelled = false;
+    const resolveStoredMedia = async (post: ScheduledPost): Promise<ScheduledPost> => {
+      const resolved = new Map<string, string | undefined>();
+      await Promise.all(post.segments.flatMap(segment => segment.media).map(async media => {
+        if (!isStoredMediaRef(media.asset.uri)) return;
+        resolved.set(media.asset.uri, await resolveMedia(media.asset.uri).catch(() => undefined));
+      }));
+      return mapMedia(post, media => {
+        if (!isStoredMediaRef(media.asset.uri)) return media;
+        const url = resolved.get(media.asset.uri);
+        if (!url) {
+          console.warn("Scheduled media is missing from storage", media.asset.uri);
+          return null;
+        }
+        objectUrlsRef.current.add(url);
+        mediaRefsRef.current.set(url, media.asset.uri);
+        return { ...media, asset: { ...media.asset, uri: url } };
+      });
+    };
+
+    AsyncStorage.getItem(scheduledPostsKey(did))
+      .then(async stored => {
+        if (isCancelled || !stored) return;
+        const missedBefore = Date.now() - SCHEDULED_POSTS_CONFIG.MISSED_GRACE_MS;
+        const posts: ScheduledPost[] = await Promise.all((JSON.parse(stored) as ScheduledPost[]).map(resolveStoredMedia));
+        if (isCancelled) {
+          forgetMedia(posts.flatMap(post => post.segments.flatMap(segment => segment.media.map(media => media.asset.uri))), false);
+          return;
+        }
+        const missed: ScheduledPost[] = [];
+        const loaded = posts.map(post => {
+          const wasInterrupted = post.status === 'publishing';
+          if ((post.status === 'scheduled' || wasInterrupted) && Date.parse(post.scheduledAt) <= missedBefore) {
+            const missedPost = { ...post, status: 'missed' as const };
+            missed.push(missedPost);
+            return missedPost;
+          }
+          return wasInterrupted ? { ...post, status: 'scheduled' as const } : post;
+        });
+        savePosts(loaded);
+        if (missed.length > 0) confirmMissedRef.current(missed);
+      })
+      .catch(error => console.error("Failed to load scheduled posts", error))
+      .finally(() => {
+        if (!isCancelled) setIsLoaded(true);
+      });
+    return () => { isCancelled = true; };
+  }, [did, savePosts, forgetMedia]);
+
+  const publishDue = useCallback(async () => {
+    if (!isOnline) return;
+    const now = Date.now();
+    const due = postsRef.current.filter(post => post.status === 'scheduled' && getNextAttemptAt(post) <= now);
+    // One at a time and oldest first, so posts go up in the order they were planned
+    for (const post of due) {
+      if (didRef.current !== did) return;
+      await publish(post.id);
+    }
+  }, [isOnline, did, publish]);
+
+  // Sleep until the next post is due, waking at least every CHECK_INTERVAL_MS
+  // since timers don't run while the device or the tab is asleep
+  useEffect(() => {
+    const queued = scheduledPosts.filter(post => post.status === 'scheduled');
+    if (queued.length === 0) return;
+    const nextAttemptAt = Math.min(...queued.map(getNextAttemptAt));
+    const delay = Math.min(Math.max(nextAttemptAt - Date.now(), 0), SCHEDULED_POSTS_CONFIG.CHECK_INTERVAL_MS);
+    const timer = setTimeout(publishDue, delay);
+    return () => clearTimeout(timer);
+  }, [scheduledPosts, publishDue]);
+
+  useEffect(() => {
+    if (isOnline) publishDue();
+  }, [isOnline, publishDue]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') publishDue();
+    });
+    return () => subscription.remove();
+  }, [publishDue]);
+
+  // The service worker wakes this tab when posts come due while its timers are throttled
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'PUBLISH_SCHEDULED_POSTS') publishDue();
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [publishDue]);
+
+  const schedulePost = useCallback(async (input: ScheduledPostInput): Promise<string> => {
+    if (!did) throw new Error('Cannot schedule a post without a session');
+    const now = new Date().toISOString();
+    const existing = input.id ? postsRef.current.find(post => post.id === input.id) : undefined;
+    if (existing?.status === 'publishing') throw new Error('Scheduled post is being published');
+
+    // Mentions are resolved now, while the author can still see what they point to.
+    // Offline, they're left to be detected when the post goes up.
+    const segments: DraftSegment[] = await Promise.all(input.segments.map(async segment => {
+      if (segment.posted) return segment;
+      try {
+        const rt = new RichText({ text: segment.text });
+        await rt.detectFacets(agent);
+        return { ...segment, text: rt.text, facets: rt.facets };
+      } catch (error) {
+        console.warn("Failed to resolve facets for scheduled post", error);
+        return { ...segment, facets: undefined };
+      }
+    }));
+
+    // Media goes to its own storage first; if anything fails, nothing new is kept
+    const newRefs = new Map<string, string>();
+    try {
+      for (const media of segments.flatMap(segment => segment.posted ? [] : segment.media)) {
+        const uri = media.asset.uri;
+        if (mediaRefsRef.current.has(uri) || newRefs.has(uri)) continue;
+        const ref = await storeMedia(uri);
+        if (ref !== uri) newRefs.set(uri, ref);
+      }
+    } catch (error) {
+      await deleteMedia([...newRefs.values()]).catch(() => {});
+      throw error;
+    }
+    newRefs.forEach((ref, uri) => mediaRefsRef.current.set(uri, ref));
+
+    const post: ScheduledPost = {
+      ...input,
+      segments,
+      id: input.id || crypto.randomUUID(),
+      status: 'scheduled',
+      error: undefined,
+      lastAttemptAt: undefined,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    const previous = postsRef.current;
+    try {
+      await applyPosts([...previous.filter(p => p.id !== post.id), post]);
+    } catch (error) {
+      console.error("Failed to save scheduled post", error);
+      postsRef.current = previous;
+      setScheduledPosts(previous);
+      forgetMedia([...newRefs.keys()], true);
+      throw error;
+    }
+    return post.id;
+  }, [agent, did, applyPosts, forgetMedia]);
+
+  const reschedulePost = useCallback(async (id: string, scheduledAt: string) => {
+    if (publishingRef.current.has(id)) return;
+    updatePost(id, post => ({ ...post, scheduledAt, status: 'scheduled', error: undefined, lastAttemptAt: undefined, updatedAt: new Date().toISOString() }));
+  }, [updatePost]);
+
+  const cancelScheduledPost = useCallback(async (id: string) => {
+    if (publishingRef.current.has(id)) return;
+    removePost(id);
+  }, [removePost]);
+
+  const value = {
+    scheduledPosts,
+    isLoaded,
+    schedulePost,
+    reschedulePost,
+    cancelScheduledPost,
+    publishNow: publish,
+  };
+
+  return (
+    <ScheduledPostsContext.Provider value={value}>
+      {children}
+    </ScheduledPostsContext.Provider>
+  );
+};
+
+export const useScheduledPosts = (): ScheduledPostsContextType => {
+  const context = useContext(ScheduledPostsContext);
+  if (!context) {
+    throw new Error('useScheduledPosts must be used within a ScheduledPostsProvider');
+  }
+  return context;
+};
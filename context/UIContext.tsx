@@ -1,6 +1,7 @@
 import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
 import { AppBskyFeedDefs } from '@atproto/api';
 import { useAtp } from '@/context/AtpContext';
+import { ReportSubject } from '@/lib/moderation';
 
 interface ReplyToProps {
   uri: string;
@@ -10,6 +11,7 @@ interface ReplyToProps {
 interface ComposerOptions {
   replyTo?: ReplyToProps;
   initialText?: string;
+  scheduledPostId?: string;
 }
 
 interface RepliesModalData {
@@ -19,11 +21,17 @@ interface RepliesModalData {
 
 interface UIContextType {
   isLoginModalOpen: boolean;
+  isAddingAccount: boolean;
   openLoginModal: () => void;
+  openAddAccountModal: () => void;
   closeLoginModal: () => void;
+  isAccountSwitcherOpen: boolean;
+  openAccountSwitcher: () => void;
+  closeAccountSwitcher: () => void;
   isComposerOpen: boolean;
   composerReplyTo?: ReplyToProps;
   composerInitialText?: string;
+  composerScheduledPostId?: string;
   openComposer: (options?: ComposerOptions) => void;
   closeComposer: () => void;
   isFeedModalOpen: boolean;
@@ -45,6 +53,10 @@ interface UIContextType {
   mediaActionsModalPost?: AppBskyFeedDefs.PostView;
   openMediaActionsModal: (post: AppBskyFeedDefs.PostView) => void;
   closeMediaActionsModal: () => void;
+  isReportModalOpen: boolean;
+  reportSubject?: ReportSubject;
+  openReportModal: (subject: ReportSubject) => void;
+  closeReportModal: () => void;
   isRepostModalOpen: boolean;
   repostModalPost?: AppBskyFeedDefs.PostView;
   openRepostModal: (post: AppBskyFeedDefs.PostView) => void;
@@ -62,9 +74,12 @@ const UIContext = createContext<UIContextType | undefined>(undefined);
 export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { session } = useAtp();
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+  const [isAccountSwitcherOpen, setIsAccountSwitcherOpen] = useState(false);
   const [isComposerOpen, setIsComposerOpen] = useState(false);
   const [composerReplyTo, setComposerReplyTo] = useState<ReplyToProps | undefined>(undefined);
   const [composerInitialText, setComposerInitialText] = useState<string | undefined>(undefined);
+  const [composerScheduledPostId, setComposerScheduledPostId] = useState<string | undefined>(undefined);
   const [isFeedModalOpen, setIsFeedModalOpen] = useState(false);
   const [feedModalUri, setFeedModalUri] = useState<string | undefined>(undefined);
   const [isCustomFeedHeaderVisible, setCustomFeedHeaderVisible] = useState(false);
@@ -73,6 +88,8 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [isUpdateHandleModalOpen, setIsUpdateHandleModalOpen] = useState(false);
   const [isMediaActionsModalOpen, setIsMediaActionsModalOpen] = useState(false);
   const [mediaActionsModalPost, setMediaActionsModalPost] = useState<AppBskyFeedDefs.PostView | undefined>(undefined);
+  const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+  const [reportSubject, setReportSubject] = useState<ReportSubject | undefined>(undefined);
   const [isRepostModalOpen, setIsRepostModalOpen] = useState(false);
   const [repostModalPost, setRepostModalPost] = useState<AppBskyFeedDefs.PostView | undefined>(undefined);
   const [isRepliesModalOpen, setIsRepliesModalOpen] = useState(false);
@@ -81,11 +98,25 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
 
 
   const openLoginModal = useCallback(() => setIsLoginModalOpen(true), []);
-  const closeLoginModal = useCallback(() => setIsLoginModalOpen(false), []);
+  const closeLoginModal = useCallback(() => {
+    setIsLoginModalOpen(false);
+    setIsAddingAccount(false);
+  }, []);
+
+  // Opens the login form on top of an existing session to sign in to another account
+  const openAddAccountModal = useCallback(() => {
+    setIsAccountSwitcherOpen(false);
+    setIsAddingAccount(true);
+    setIsLoginModalOpen(true);
+  }, []);
+
+  const openAccountSwitcher = useCallback(() => setIsAccountSwitcherOpen(true), []);
+  const closeAccountSwitcher = useCallback(() => setIsAccountSwitcherOpen(false), []);
 
   const openComposer = useCallback((options?: ComposerOptions) => {
     setComposerReplyTo(options?.replyTo);
     setComposerInitialText(options?.initialText);
+    setComposerScheduledPostId(options?.scheduledPostId);
     setIsComposerOpen(true);
   }, []);
 
@@ -93,6 +124,7 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     setIsComposerOpen(false);
     setComposerReplyTo(undefined);
     setComposerInitialText(undefined);
+    setComposerScheduledPostId(undefined);
   }, []);
 
   const openFeedModal = useCallback((uri: string) => {
@@ -130,6 +162,20 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     setTimeout(() => setMediaActionsModalPost(undefined), 300); // Delay clear for animation
   }, []);
 
+  const openReportModal = useCallback((subject: ReportSubject) => {
+    if (!session) {
+      openLoginModal();
+      return;
+    }
+    setReportSubject(subject);
+    setIsReportModalOpen(true);
+  }, [session, openLoginModal]);
+
+  const closeReportModal = useCallback(() => {
+    setIsReportModalOpen(false);
+    setTimeout(() => setReportSubject(undefined), 300);
+  }, []);
+
   const openRepostModal = useCallback((post:AppBskyFeedDefs.PostView) => {
     // Verificar se o usuário está autenticado antes de abrir o modal
     if (!session) {
@@ -164,14 +210,16 @@ export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
 
   return (
     <UIContext.Provider value={{ 
-        isLoginModalOpen, openLoginModal, closeLoginModal, 
-        isComposerOpen, openComposer, closeComposer, composerReplyTo, composerInitialText,
+        isLoginModalOpen, isAddingAccount, openLoginModal, openAddAccountModal, closeLoginModal, 
+        isAccountSwitcherOpen, openAccountSwitcher, closeAccountSwitcher,
+        isComposerOpen, openComposer, closeComposer, composerReplyTo, composerInitialText, composerScheduledPostId,
         isFeedModalOpen, feedModalUri, openFeedModal, closeFeedModal,
         isCustomFeedHeaderVisible, setCustomFeedHeaderVisible,
         isEditProfileModalOpen, openEditProfileModal, closeEditProfileModal,
         isUpdateEmailModalOpen, openUpdateEmailModal, closeUpdateEmailModal,
         isUpdateHandleModalOpen, openUpdateHandleModal, closeUpdateHandleModal,
         isMediaActionsModalOpen, mediaActionsModalPost, openMediaActionsModal, closeMediaActionsModal,
+        isReportModalOpen, reportSubject, openReportModal, closeReportModal,
         isRepostModalOpen, repostModalPost, openRepostModal, closeRepostModal,
         isRepliesModalOpen, repliesModalData, openRepliesModal, closeRepliesModal,
         postForNav, setPostForNav,
@@ -0,0 +1,144 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppBskyFeedDefs, AppBskyEmbedVideo, AppBskyEmbedRecordWithMedia, AppBskyFeedPost } from '@atproto/api';
+import { useAtp } from './AtpContext';
+import { WATCH_HISTORY_CONFIG } from '../lib/config';
+
+export interface WatchHistoryEntry {
+  uri: string;
+  // Seconds into the video where the user left it
+  position: number;
+  duration: number;
+  // 0 to 1, the furthest point reached
+  percent: number;
+  watchedAt: string;
+  // Enough of the post to list it without fetching it again
+  thumbnail?: string;
+  text: string;
+  author: { did: string; handle: string; displayName?: string; avatar?: string };
+}
+
+interface WatchHistoryContextType {
+  // Most recently watched first
+  entries: WatchHistoryEntry[];
+  isLoaded: boolean;
+  recordProgress: (post: AppBskyFeedDefs.PostView, position: number, duration: number) => void;
+  // Where to pick a partially watched video back up, or 0 to start from the beginning
+  getResumePosition: (uri: string) => number;
+  isCompleted: (uri: string) => boolean;
+  removeEntry: (uri: string) => void;
+  clearHistory: () => void;
+}
+
+const WatchHistoryContext = createContext<WatchHistoryContextType | undefined>(undefined);
+
+// Kept per account, like the rest of what the app stores locally
+const watchHistoryKey = (did: string) => `takaka-watch-history.${did}`;
+
+const getThumbnail = (post: AppBskyFeedDefs.PostView) => {
+  if (AppBskyEmbedVideo.isView(post.embed)) return post.embed.thumbnail;
+  if (AppBskyEmbedRecordWithMedia.isView(post.embed) && AppBskyEmbedVideo.isView(post.embed.media)) {
+    return (post.embed.media as AppBskyEmbedVideo.View).thumbnail;
+  }
+  return undefined;
+};
+
+const isEntryCompleted = (entry: WatchHistoryEntry) => entry.percent >= WATCH_HISTORY_CONFIG.COMPLETED_PERCENT;
+
+export const WatchHistoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { session } = useAtp();
+  const [entries, setEntries] = useState<WatchHistoryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const entriesRef = useRef<WatchHistoryEntry[]>([]);
+  // Writes before the stored history is read would save over it
+  const isLoadedRef = useRef(false);
+
+  const did = session?.did;
+  const didRef = useRef(did);
+  didRef.current = did;
+
+  const applyEntries = useCallback((next: WatchHistoryEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+    if (didRef.current) {
+      AsyncStorage.setItem(watchHistoryKey(didRef.current), JSON.stringify(next))
+        .catch(error => console.error("Failed to save watch history", error));
+    }
+  }, []);
+
+  useEffect(() => {
+    entriesRef.current = [];
+    setEntries([]);
+    isLoadedRef.current = false;
+    setIsLoaded(!did);
+    if (!did) return;
+
+    let isCancelled = false;
+    AsyncStorage.getItem(watchHistoryKey(did))
+      .then(stored => {
+        if (isCancelled || !stored) return;
+        const loaded: WatchHistoryEntry[] = JSON.parse(stored);
+        entriesRef.current = loaded;
+        setEntries(loaded);
+      })
+      .catch(error => console.error("Failed to load watch history", error))
+      .finally(() => {
+        if (isCancelled) return;
+        isLoadedRef.current = true;
+        setIsLoaded(true);
+      });
+    return () => { isCancelled = true; };
+  }, [did]);
+
+  const recordProgress = useCallback((post: AppBskyFeedDefs.PostView, position: number, duration: number) => {
+    if (!didRef.current || !isLoadedRef.current || !(duration > 0)) return;
+    const previous = entriesRef.current.find(entry => entry.uri === post.uri);
+    const record = post.record as AppBskyFeedPost.Record;
+    const entry: WatchHistoryEntry = {
+      uri: post.uri,
+      position,
+      duration,
+      // Scrubbing back over a finished video doesn't make it unwatched
+      percent: Math.max(previous?.percent ?? 0, Math.min(1, position / duration)),
+      watchedAt: new Date().toISOString(),
+      thumbnail: getThumbnail(post),
+      text: record?.text ?? '',
+      author: { did: post.author.did, handle: post.author.handle, displayName: post.author.displayName, avatar: post.author.avatar },
+    };
+    const others = entriesRef.current.filter(e => e.uri !== post.uri);
+    applyEntries([entry, ...others].slice(0, WATCH_HISTORY_CONFIG.MAX_ENTRIES));
+  }, [applyEntries]);
+
+  const getResumePosition = useCallback((uri: string) => {
+    const entry = entriesRef.current.find(e => e.uri === uri);
+    if (!entry || isEntryCompleted(entry) || entry.position < WATCH_HISTORY_CONFIG.MIN_RESUME_SECONDS) return 0;
+    return entry.position;
+  }, []);
+
+  const completedUris = useMemo(() => new Set(entries.filter(isEntryCompleted).map(e => e.uri)), [entries]);
+
+  const isCompleted = useCallback((uri: string) => completedUris.has(uri), [completedUris]);
+
+  const removeEntry = useCallback((uri: string) => {
+    if (!isLoadedRef.current) return;
+    applyEntries(entriesRef.current.filter(e => e.uri !== uri));
+  }, [applyEntries]);
+
+  const clearHistory = useCallback(() => {
+    if (isLoadedRef.current) applyEntries([]);
+  }, [applyEntries]);
+
+  return (
+    <WatchHistoryContext.Provider value={{ entries, isLoaded, recordProgress, getResumePosition, isCompleted, removeEntry, clearHistory }}>
+      {children}
+    </WatchHistoryContext.Provider>
+  );
+};
+
+export const useWatchHistory = (): WatchHistoryContextType => {
+  const context = useContext(WatchHistoryContext);
+  if (!context) {
+    throw new Error('useWatchHistory must be used within a WatchHistoryProvider');
+  }
+  return context;
+};
@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as ImagePicker from 'expo-image-picker';
+import { AppBskyRichtextFacet } from '@atproto/api';
+import { useAtp } from '../context/AtpContext';
+import { InteractionSettings } from '@/lib/threadgate';
+import { ImageEdit } from '@/lib/imageProcessing';
+import { VideoCaption } from '@/lib/videoUpload';
+import { LinkMetadata } from '@/lib/linkCards';
+
+const DRAFTS_KEY_PREFIX = 'takaka-composer-drafts';
+export const DRAFTS_LIMIT = 20;
+
+export interface DraftMedia {
+  asset: ImagePicker.ImagePickerAsset;
+  type: 'image' | 'video' | 'gif';
+  alt?: string;
+  // For processed images: the image as picked and the crop/rotation applied to it
+  original?: ImagePicker.ImagePickerAsset;
+  edit?: ImageEdit;
+  // For videos: WebVTT captions, one per language
+  captions?: VideoCaption[];
+}
+
+export interface DraftSegment {
+  text: string;
+  // Resolved when a post is scheduled; drafts detect facets when they're published
+  facets?: AppBskyRichtextFacet.Main[];
+  media: DraftMedia[];
+  linkCard?: LinkMetadata;
+  // Set once the segment has been published, so a partially posted thread can be resumed
+  posted?: {
+    uri: string;
+    cid: string;
+  };
+}
+
+export interface ComposerDraft {
+  id: string;
+  segments: DraftSegment[];
+  langs: string[];
+  replyTo?: {
+    uri: string;
+    cid: string;
+  };
+  interaction?: InteractionSettings;
+  updatedAt: string;
+}
+
+export type ComposerDraftInput = Omit<ComposerDraft, 'id' | 'updatedAt'> & { id?: string };
+
+// Drafts are kept per account so switching accounts never resumes someone else's post
+const draftsKey = (did: string) => `${DRAFTS_KEY_PREFIX}.${did}`;
+
+export function useComposerDrafts() {
+  const { session } = useAtp();
+  const did = session?.did;
+  const [drafts, setDrafts] = useState<ComposerDraft[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const draftsRef = useRef<ComposerDraft[]>([]);
+
+  const applyDrafts = (next: ComposerDraft[]) => {
+    draftsRef.current = next;
+    setDrafts(next);
+  };
+
+  useEffect(() => {
+    applyDrafts([]);
+    setIsLoaded(false);
+    if (!did) return;
+
+    let isCancelled = false;
+    const loadDrafts = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(draftsKey(did));
+        if (!isCancelled && stored) {
+          applyDrafts(JSON.parse(stored));
+        }
+      } catch (e) {
+        console.error("Failed to load composer drafts from storage", e);
+      } finally {
+        if (!isCancelled) setIsLoaded(true);
+      }
+    };
+    loadDrafts();
+    return () => { isCancelled = true; };
+  }, [did]);
+
+  const persist = useCallback(async (next: ComposerDraft[]) => {
+    if (!did) return;
+    await AsyncStorage.setItem(draftsKey(did), JSON.stringify(next));
+  }, [did]);
+
+  /**
+   * Saves the draft and resolves with its id. Resolves with null, without saving, when it
+   * would be a new draft past DRAFTS_LIMIT: older drafts are never dropped to make room.
+   */
+  const saveDraft = useCallback(async (input: ComposerDraftInput): Promise<string | null> => {
+    const isNew = !input.id || !draftsRef.current.some(d => d.id === input.id);
+    if (isNew && draftsRef.current.length >= DRAFTS_LIMIT) return null;
+    const draft: ComposerDraft = {
+      ...input,
+      id: input.id || crypto.randomUUID(),
+      updatedAt: new Date().toISOString(),
+    };
+    const next = [draft, ...draftsRef.current.filter(d => d.id !== draft.id)];
+    applyDrafts(next);
+    try {
+      await persist(next);
+    } catch (e) {
+      // Web storage quotas are small and picked media is stored inline as data URLs,
+      // so fall back to keeping the text of this draft rather than losing it entirely.
+      console.error("Failed to save composer draft, retrying without media", e);
+      const withoutMedia = next.map(d => d.id === draft.id
+        ? { ...d, segments: d.segments.map(segment => ({ ...segment, media: [] })) }
+        : d);
+      try {
+        await persist(withoutMedia);
+      } catch (retryError) {
+        console.error("Failed to save composer draft", retryError);
+      }
+    }
+    return draft.id;
+  }, [persist]);
+
+  const deleteDraft = useCallback(async (id: string) => {
+    const next = draftsRef.current.filter(d => d.id !== id);
+    if (next.length === draftsRef.current.length) return;
+    applyDrafts(next);
+    try {
+      await persist(next);
+    } catch (e) {
+      console.error("Failed to delete composer draft", e);
+    }
+  }, [persist]);
+
+  return { drafts, isLoaded, saveDraft, deleteDraft };
+}
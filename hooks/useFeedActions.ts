@@ -8,6 +8,7 @@ import { useToast } from '@/components/shared';
 import { useSavedFeeds } from './useSavedFeeds';
 import {AppBskyFeedDefs} from '@atproto/api';
 import { WEB_CLIENT_URL } from '../lib/config';
+import { getFeedHref, likeFeed, unlikeFeed } from '../lib/feeds';
 import * as Clipboard from 'expo-clipboard';
 
 export const useFeedActions = (feedUri?: string) => {
@@ -62,11 +63,11 @@ export const useFeedActions = (feedUri?: string) => {
             if (likeUri) { // Currently liked, so unlike
                 setLikeUri(undefined);
                 setLikeCount(c => Math.max(0, c - 1));
-                await agent.deleteLike(likeUri);
+                await unlikeFeed(agent, likeUri);
             } else { // Not liked, so like
                 setLikeUri('temp:like');
                 setLikeCount(c => c + 1);
-                const { uri: newLikeUri } = await agent.like(feedView.uri, feedView.cid);
+                const newLikeUri = await likeFeed(agent, feedView);
                 setLikeUri(newLikeUri);
                 // Refetch to get accurate like count
                 const { data } = await agent.app.bsky.feed.getFeedGenerator({ feed: feedView.uri });
@@ -97,9 +98,7 @@ export const useFeedActions = (feedUri?: string) => {
 
     const handleShare = async () => {
         if (!feedView) return;
-        const handle = feedView.creator.handle;
-        const rkey = new URL(feedView.uri).pathname.split('/').pop();
-        const url = `${WEB_CLIENT_URL}/profile/${handle}/feed/${rkey}`;
+        const url = `${WEB_CLIENT_URL}${getFeedHref(feedView)}`;
         await Clipboard.setStringAsync(url);
         toast({ title: t('post.linkCopied'), description: t('post.linkCopiedDescription') });
     };
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AppBskyFeedDefs } from '@atproto/api';
+import { useAtp } from '../context/AtpContext';
+import { FeedsPage, getPopularFeeds, getSuggestedFeeds } from '../lib/feeds';
+
+export type FeedDiscoveryCategory = 'popular' | 'suggested';
+
+/**
+ * A paginated list of feeds to discover: feeds matching `query` when there is one,
+ * otherwise the chosen category. Suggested feeds need a session.
+ */
+export const useFeedDiscovery = (category: FeedDiscoveryCategory, query = '') => {
+    const { agent, session } = useAtp();
+    const { t } = useTranslation();
+    const [feeds, setFeeds] = useState<AppBskyFeedDefs.GeneratorView[]>([]);
+    const [cursor, setCursor] = useState<string | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Drops pages from a request that a newer query or category replaced
+    const requestIdRef = useRef(0);
+
+    const trimmedQuery = query.trim();
+    const fetchPage = useCallback((pageCursor?: string): Promise<FeedsPage> => {
+        if (!trimmedQuery && category === 'suggested' && session) {
+            return getSuggestedFeeds(agent, { cursor: pageCursor });
+        }
+        return getPopularFeeds(agent, { query: trimmedQuery, cursor: pageCursor });
+    }, [agent, session, category, trimmedQuery]);
+
+    const load = useCallback(async () => {
+        const requestId = ++requestIdRef.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const page = await fetchPage();
+            if (requestId !== requestIdRef.current) return;
+            setFeeds(page.feeds);
+            setCursor(page.cursor);
+        } catch (err: any) {
+            if (requestId !== requestIdRef.current) return;
+            console.error("Failed to fetch feeds:", err);
+            setFeeds([]);
+            setCursor(undefined);
+            setError(t('feeds.loadingError'));
+        } finally {
+            if (requestId === requestIdRef.current) setIsLoading(false);
+        }
+    }, [fetchPage, t]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const loadMore = useCallback(async () => {
+        if (isLoading || isLoadingMore || !cursor) return;
+        const requestId = requestIdRef.current;
+        setIsLoadingMore(true);
+        try {
+            const page = await fetchPage(cursor);
+            if (requestId !== requestIdRef.current) return;
+            // Popular feeds can shift between pages
+            setFeeds(prev => [...prev, ...page.feeds.filter(feed => !prev.some(p => p.uri === feed.uri))]);
+            setCursor(page.cursor);
+        } catch (err) {
+            console.error("Failed to fetch more feeds:", err);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [fetchPage, cursor, isLoading, isLoadingMore]);
+
+    return {
+        feeds,
+        isLoading,
+        isLoadingMore,
+        hasMore: !!cursor,
+        error,
+        loadMore,
+        refresh: load,
+    };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useActionOutcome, useActionQueue } from '../context/ActionQueueContext';
+import { useToast } from '@/components/shared';
+import { PENDING_RECORD_URI, getKnownRecordUri } from '../lib/actionQueue';
+
+/**
+ * Follow state for one account, updated optimistically. Follows made offline are
+ * queued and replayed; if the server rejects one, the state is rolled back.
+ */
+export const useFollowAction = (did: string, initialFollowUri?: string) => {
+  const { submit } = useActionQueue();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [followUri, setFollowUri] = useState(initialFollowUri);
+  const [isFollowLoading, setIsFollowLoading] = useState(false);
+
+  useEffect(() => {
+    setFollowUri(initialFollowUri);
+  }, [initialFollowUri]);
+
+  useActionOutcome(did, ({ action, status, uri }) => {
+    if (action.type === 'follow') setFollowUri(status === 'applied' ? uri : undefined);
+    if (action.type === 'unfollow' && status === 'rejected') setFollowUri(action.recordUri ?? PENDING_RECORD_URI);
+  });
+
+  const toggleFollow = async () => {
+    if (isFollowLoading) return;
+    setIsFollowLoading(true);
+    const originalFollowUri = followUri;
+    try {
+      if (followUri) {
+        setFollowUri(undefined);
+        await submit({ type: 'unfollow', subject: did, recordUri: getKnownRecordUri(followUri) });
+      } else {
+        setFollowUri(PENDING_RECORD_URI);
+        const { uri } = await submit({ type: 'follow', subject: did });
+        if (uri) setFollowUri(uri);
+      }
+    } catch (error) {
+      console.error('Failed to follow/unfollow:', error);
+      setFollowUri(originalFollowUri);
+      toast({ title: t(originalFollowUri ? 'profile.toast.unfollowError' : 'profile.toast.followError'), variant: "destructive" });
+    } finally {
+      setIsFollowLoading(false);
+    }
+  };
+
+  return {
+    followUri,
+    isFollowing: !!followUri,
+    isFollowLoading,
+    toggleFollow,
+  };
+};
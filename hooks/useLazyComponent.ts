@@ -129,6 +129,7 @@ export function usePreloadComponents(
  */
 export const lazyComponents = {
   LoginScreen: lazy(() => import('@/components/auth/LoginScreen')),
+  AccountSwitcherModal: lazy(() => import('@/components/auth/AccountSwitcherModal')),
   Composer: lazy(() => import('@/components/composer/Composer')),
   FeedHeaderModal: lazy(() => import('@/components/feeds/FeedHeaderModal')),
   EditProfileModal: lazy(() => import('@/components/profile/EditProfileModal')),
@@ -136,6 +137,7 @@ export const lazyComponents = {
   UpdateHandleModal: lazy(() => import('@/components/settings/UpdateHandleModal')),
   MediaActionsModal: lazy(() => import('@/components/shared/MediaActionsModal')),
   RepostModal: lazy(() => import('@/components/shared/RepostModal')),
+  ReportModal: lazy(() => import('@/components/shared/ReportModal')),
   RepliesModal: lazy(() => import('@/components/replies/RepliesModal')),
 };
 
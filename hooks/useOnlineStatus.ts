@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+
+/**
+ * Hook reporting whether the browser believes it is online.
+ * Native has no connectivity module installed, so it always reports online and
+ * callers detect outages from failed requests instead (see isNetworkError).
+ */
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(() =>
+    Platform.OS === 'web' && typeof navigator !== 'undefined' ? navigator.onLine !== false : true
+  );
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return;
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -5,9 +5,11 @@ import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAtp } from '../context/AtpContext';
 import { useUI } from '../context/UIContext';
+import { useActionOutcome, useActionQueue } from '../context/ActionQueueContext';
 import { useToast } from '@/components/shared';
 import { AppBskyFeedDefs } from '@atproto/api';
 import { useAuthGuard } from './useAuthGuard';
+import { PENDING_RECORD_URI, getKnownRecordUri } from '../lib/actionQueue';
 
 interface PostActionable {
   uri: string;
@@ -23,6 +25,7 @@ interface PostActionable {
 
 export const usePostActions = (post: PostActionable) => {
   const { agent, session } = useAtp();
+  const { submit } = useActionQueue();
   const { openLoginModal } = useUI();
   const { requireAuth } = useAuthGuard();
   const { toast } = useToast();
@@ -37,11 +40,43 @@ export const usePostActions = (post: PostActionable) => {
   const [isReposting, setIsReposting] = useState(false);
 
   // Sincronizar estado quando o post mudar
+  useEffect(() => {
+    setLikeUri(post.viewer?.like);
+    setLikeCount(post.likeCount || 0);
+  }, [post.viewer?.like, post.likeCount]);
+
   useEffect(() => {
     setRepostUri(post.viewer?.repost);
     setRepostCount(post.repostCount || 0);
   }, [post.viewer?.repost, post.repostCount]);
 
+  // Likes and reposts made offline settle here once they're replayed
+  useActionOutcome(post.uri, ({ action, status, uri }) => {
+    if (status === 'applied') {
+      if (action.type === 'like') setLikeUri(uri);
+      if (action.type === 'repost') setRepostUri(uri);
+      return;
+    }
+    switch (action.type) {
+      case 'like':
+        setLikeUri(undefined);
+        setLikeCount(c => Math.max(0, c - 1));
+        break;
+      case 'unlike':
+        setLikeUri(action.recordUri ?? PENDING_RECORD_URI);
+        setLikeCount(c => c + 1);
+        break;
+      case 'repost':
+        setRepostUri(undefined);
+        setRepostCount(c => Math.max(0, c - 1));
+        break;
+      case 'unrepost':
+        setRepostUri(action.recordUri ?? PENDING_RECORD_URI);
+        setRepostCount(c => c + 1);
+        break;
+    }
+  });
+
   const handleLike = async (e?: { stopPropagation: () => void; preventDefault: () => void; }) => {
     e?.stopPropagation();
     e?.preventDefault();
@@ -55,13 +90,12 @@ export const usePostActions = (post: PostActionable) => {
       if (likeUri) {
         setLikeUri(undefined);
         setLikeCount(c => Math.max(0, c - 1));
-        await agent.deleteLike(likeUri);
+        await submit({ type: 'unlike', subject: post.uri, recordUri: getKnownRecordUri(likeUri) });
       } else {
-        const tempUri = 'temp-uri';
-        setLikeUri(tempUri);
+        setLikeUri(PENDING_RECORD_URI);
         setLikeCount(c => c + 1);
-        const { uri } = await agent.like(post.uri, post.cid);
-        setLikeUri(uri);
+        const { uri } = await submit({ type: 'like', subject: post.uri, cid: post.cid });
+        if (uri) setLikeUri(uri);
       }
     } catch (error: any) {
       console.error('Failed to like/unlike post:', error);
@@ -97,14 +131,13 @@ export const usePostActions = (post: PostActionable) => {
         // Undo repost
         setRepostUri(undefined);
         setRepostCount(c => Math.max(0, c - 1));
-        await agent.deleteRepost(repostUri);
+        await submit({ type: 'unrepost', subject: post.uri, recordUri: getKnownRecordUri(repostUri) });
       } else {
         // Do repost
-        const tempUri = 'temp-uri';
-        setRepostUri(tempUri);
+        setRepostUri(PENDING_RECORD_URI);
         setRepostCount(c => c + 1);
-        const { uri } = await agent.repost(post.uri, post.cid);
-        setRepostUri(uri);
+        const { uri } = await submit({ type: 'repost', subject: post.uri, cid: post.cid });
+        if (uri) setRepostUri(uri);
       }
     } catch (error: any) {
       console.error('Failed to repost:', error);
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Platform } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppBskyFeedDefs, AppBskyFeedPost, AppBskyEmbedVideo, AppBskyEmbedRecordWithMedia } from '@atproto/api';
+import { getPdsEndpoint, resolveDidDocument } from '@/lib/identity';
+
+export interface CaptionTrack {
+  lang: string;
+  label: string;
+  // Object URL of the WebVTT file. Only loaded on web, where the player attaches it as a <track>
+  src?: string;
+}
+
+// The view only has the playlist, so the caption files come from the post record
+const getRecordCaptions = (post: AppBskyFeedDefs.PostView): AppBskyEmbedVideo.Caption[] => {
+  const embed = (post.record as AppBskyFeedPost.Record).embed;
+  if (AppBskyEmbedVideo.isMain(embed)) return embed.captions ?? [];
+  if (AppBskyEmbedRecordWithMedia.isMain(embed) && AppBskyEmbedVideo.isMain(embed.media)) {
+    return (embed.media as AppBskyEmbedVideo.Main).captions ?? [];
+  }
+  return [];
+};
+
+// Records come back as plain JSON, where the blob's CID is under ref.$link
+const getBlobCid = (file: any): string | undefined => file?.ref?.$link ?? file?.ref?.toString?.();
+
+const getLanguageLabel = (lang: string, locale: string) => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(lang) ?? lang;
+  } catch {
+    return lang;
+  }
+};
+
+/** The caption language to turn on: the app's language when the video has it, otherwise its first track. */
+export const getDefaultCaptionLang = (tracks: CaptionTrack[], appLanguage: string): string | null => {
+  const base = appLanguage.split('-')[0];
+  return (tracks.find(track => track.lang === appLanguage) ?? tracks.find(track => track.lang.split('-')[0] === base) ?? tracks[0])?.lang ?? null;
+};
+
+/**
+ * The caption tracks of a video post. On web the WebVTT files are fetched from the author's
+ * PDS while `enabled`; native players find the same captions in the HLS playlist instead.
+ */
+export function useVideoCaptions(post: AppBskyFeedDefs.PostView, enabled: boolean): CaptionTrack[] {
+  const { i18n } = useTranslation();
+  const captions = useMemo(() => getRecordCaptions(post), [post.record]);
+  const [sources, setSources] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled || captions.length === 0) return;
+    let isCancelled = false;
+    const objectUrls: string[] = [];
+
+    const load = async () => {
+      const pdsUrl = getPdsEndpoint(await resolveDidDocument(post.author.did));
+      if (!pdsUrl) throw new Error(`No PDS found for ${post.author.did}`);
+      const results = await Promise.allSettled(captions.map(async caption => {
+        const cid = getBlobCid(caption.file);
+        const response = await fetch(`${pdsUrl.replace(/\/$/, '')}/xrpc/com.atproto.sync.getBlob?did=${encodeURIComponent(post.author.did)}&cid=${cid}`);
+        if (!response.ok) throw new Error(`Caption ${caption.lang} failed with status ${response.status}`);
+        // Served as a generic blob; browsers only read <track> files typed as WebVTT
+        const url = URL.createObjectURL(new Blob([await response.text()], { type: 'text/vtt' }));
+        objectUrls.push(url);
+        return [caption.lang, url] as const;
+      }));
+      if (isCancelled) return;
+      results.forEach(result => { if (result.status === 'rejected') console.warn("Failed to load captions:", result.reason); });
+      setSources(Object.fromEntries(results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])));
+    };
+
+    load().catch(error => console.warn("Failed to load captions:", error));
+    return () => {
+      isCancelled = true;
+      setSources({});
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [enabled, captions, post.author.did]);
+
+  return useMemo(() => captions.map(caption => ({
+    lang: caption.lang,
+    label: getLanguageLabel(caption.lang, i18n.language),
+    src: sources[caption.lang],
+  })), [captions, sources, i18n.language]);
+}
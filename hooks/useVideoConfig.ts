@@ -0,0 +1,55 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Platform } from 'react-native';
+import { videoManager, VideoConfig } from '@/lib/video';
+
+// Network Information API, only in some browsers
+const getConnection = (): any =>
+  Platform.OS === 'web' && typeof navigator !== 'undefined' ? (navigator as any).connection : undefined;
+
+/**
+ * Whether the connection should be treated as metered: cellular, "save data" or a slow
+ * effective type on web. Native has no connectivity module installed, so every
+ * connection counts as metered there and data saver always applies.
+ */
+export function useMeteredConnection(): boolean {
+  const readIsMetered = () => {
+    if (Platform.OS !== 'web') return true;
+    const connection = getConnection();
+    if (!connection) return false;
+    return connection.type === 'cellular' || connection.saveData === true || ['slow-2g', '2g', '3g'].includes(connection.effectiveType);
+  };
+  const [isMetered, setIsMetered] = useState(readIsMetered);
+
+  useEffect(() => {
+    const connection = getConnection();
+    if (!connection?.addEventListener) return;
+    const handleChange = () => setIsMetered(readIsMetered());
+    connection.addEventListener('change', handleChange);
+    return () => connection.removeEventListener('change', handleChange);
+  }, []);
+
+  return isMetered;
+}
+
+/** The saved video playback settings, and the bitrate cap they give on the current connection. */
+export function useVideoConfig() {
+  const [config, setConfig] = useState<VideoConfig>(() => videoManager.getConfig());
+  const isMetered = useMeteredConnection();
+
+  useEffect(() => {
+    const unsubscribe = videoManager.subscribe(setConfig);
+    videoManager.load();
+    return unsubscribe;
+  }, []);
+
+  const updateConfig = useCallback((updates: Partial<VideoConfig>) => videoManager.updateConfig(updates), []);
+
+  return {
+    config,
+    isMetered,
+    // Read through the manager so its clamping applies
+    bitrateCap: videoManager.getBitrateCap(isMetered),
+    bufferSize: videoManager.getBufferSize(),
+    updateConfig,
+  };
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { Platform } from 'react-native';
+
+export type VideoShortcutAction =
+  | 'togglePlay'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'toggleCaptions'
+  | 'togglePictureInPicture'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'slower'
+  | 'faster';
+
+const SHORTCUT_KEYS: Record<string, VideoShortcutAction> = {
+  ' ': 'togglePlay',
+  k: 'togglePlay',
+  m: 'toggleMute',
+  f: 'toggleFullscreen',
+  c: 'toggleCaptions',
+  p: 'togglePictureInPicture',
+  ArrowLeft: 'seekBackward',
+  ArrowRight: 'seekForward',
+  '<': 'slower',
+  '>': 'faster',
+};
+
+// Only one player answers the keyboard: the one last played or clicked
+let shortcutOwner: symbol | null = null;
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+};
+
+/**
+ * Desktop web keyboard shortcuts for a video player. Call `claim` when the player starts
+ * playing or is clicked so it becomes the one the keys control.
+ */
+export function useVideoKeyboardShortcuts(handlers: Partial<Record<VideoShortcutAction, () => void>>) {
+  const tokenRef = useRef(Symbol('video-player'));
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const claim = useCallback(() => { shortcutOwner = tokenRef.current; }, []);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return;
+    const token = tokenRef.current;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (shortcutOwner !== token || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+      const action = SHORTCUT_KEYS[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      if (shortcutOwner === token) shortcutOwner = null;
+    };
+  }, []);
+
+  return { claim };
+}
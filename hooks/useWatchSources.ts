@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAtp } from '../context/AtpContext';
+import { useToast } from '@/components/shared';
+import { DEFAULT_WATCH_SOURCES, WatchSource, loadWatchSources, saveWatchSources } from '@/lib/watchSources';
+
+/** The sources the Watch tab mixes, kept in the account's repo so every device shares them. */
+export const useWatchSources = () => {
+    const { agent, session } = useAtp();
+    const { toast } = useToast();
+    const { t } = useTranslation();
+
+    const [sources, setSources] = useState<WatchSource[]>(DEFAULT_WATCH_SOURCES);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        if (!session) {
+            setSources(DEFAULT_WATCH_SOURCES);
+            setIsLoaded(true);
+            return;
+        }
+        let isCancelled = false;
+        setIsLoaded(false);
+        loadWatchSources(agent, session.did)
+            .then(saved => {
+                if (isCancelled) return;
+                setSources(saved && saved.length > 0 ? saved : DEFAULT_WATCH_SOURCES);
+            })
+            .catch(error => console.error("Failed to load watch sources:", error))
+            .finally(() => { if (!isCancelled) setIsLoaded(true); });
+        return () => { isCancelled = true; };
+    }, [agent, session]);
+
+    const updateSources = useCallback(async (next: WatchSource[]) => {
+        const previous = sources;
+        setSources(next);
+        try {
+            if (!session) throw new Error('Not signed in');
+            await saveWatchSources(agent, session.did, next);
+        } catch (error: any) {
+            console.error("Failed to save watch sources:", error);
+            setSources(previous);
+            if (error?.status === 429) {
+                toast({ title: t('common.rateLimitTitle'), description: t('common.rateLimitError'), variant: "destructive" });
+            } else {
+                toast({ title: t('common.error'), description: t('watch.sources.saveError'), variant: "destructive" });
+            }
+        }
+    }, [agent, session, sources, toast, t]);
+
+    return { sources, isLoaded, updateSources };
+};
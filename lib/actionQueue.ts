@@ -0,0 +1,128 @@
+import { BskyAgent } from '@atproto/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createBookmarkAdapter } from './bookmarks';
+import { isNetworkError } from './offlineCache';
+
+export type QueuedActionType =
+  | 'like' | 'unlike'
+  | 'repost' | 'unrepost'
+  | 'follow' | 'unfollow'
+  | 'bookmark' | 'unbookmark'
+  | 'delete';
+
+/** Something the user did that has to reach their PDS. */
+export interface ActionIntent {
+  type: QueuedActionType;
+  // Post URI, or the DID of the account for follows
+  subject: string;
+  // Post CID, needed to like, repost or bookmark
+  cid?: string;
+  // Record to delete when undoing a like, repost or follow. When it isn't known yet
+  // (the original action was itself queued) it is looked up from the viewer state.
+  recordUri?: string;
+}
+
+// Stands in for the URI of a record that is still queued, so optimistic UI can show it as done
+export const PENDING_RECORD_URI = 'temp-uri';
+
+export const getKnownRecordUri = (uri?: string | null) => uri && uri !== PENDING_RECORD_URI ? uri : undefined;
+
+export interface QueuedAction extends ActionIntent {
+  id: string;
+  createdAt: string;
+  attempts: number;
+}
+
+const INVERSE_ACTIONS: Partial<Record<QueuedActionType, QueuedActionType>> = {
+  like: 'unlike',
+  unlike: 'like',
+  repost: 'unrepost',
+  unrepost: 'repost',
+  follow: 'unfollow',
+  unfollow: 'follow',
+  bookmark: 'unbookmark',
+  unbookmark: 'bookmark',
+};
+
+export const createQueuedAction = (intent: ActionIntent): QueuedAction => ({
+  ...intent,
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: new Date().toISOString(),
+  attempts: 0,
+});
+
+/** Whether `action` undoes `other`, so the two can be dropped from the queue together. */
+export const cancelsOut = (action: ActionIntent, other: ActionIntent) =>
+  action.subject === other.subject && INVERSE_ACTIONS[action.type] === other.type;
+
+/**
+ * Whether a failure is worth retrying later: the network is down, the server is
+ * overloaded or rate limiting. Anything else means the server rejected the action.
+ */
+export const isRetryableError = (error: any): boolean =>
+  isNetworkError(error) || error?.status === 429 || (typeof error?.status === 'number' && error.status >= 500);
+
+// Actions are stored per account, so they're replayed with the agent that queued them
+const queueKey = (did: string) => `takaka-action-queue.${did}`;
+
+export async function loadActionQueue(did: string): Promise<QueuedAction[]> {
+  const stored = await AsyncStorage.getItem(queueKey(did));
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function saveActionQueue(did: string, queue: QueuedAction[]): Promise<void> {
+  if (queue.length === 0) await AsyncStorage.removeItem(queueKey(did));
+  else await AsyncStorage.setItem(queueKey(did), JSON.stringify(queue));
+}
+
+const findPostRecord = async (agent: BskyAgent, postUri: string, kind: 'like' | 'repost') => {
+  const { data } = await agent.getPosts({ uris: [postUri] });
+  return data.posts[0]?.viewer?.[kind];
+};
+
+/**
+ * Sends one action to the PDS. Resolves with the URI of the created record, if any.
+ * Undoing something that no longer exists counts as done. A replayed action may have
+ * reached the PDS on an attempt whose response was lost, so with `isReplay` a like,
+ * repost or follow that already exists counts as done too, instead of being created twice.
+ */
+export async function executeAction(agent: BskyAgent, did: string, action: ActionIntent, options: { isReplay?: boolean } = {}): Promise<string | undefined> {
+  switch (action.type) {
+    case 'like': {
+      const existingUri = options.isReplay ? await findPostRecord(agent, action.subject, 'like') : undefined;
+      return existingUri ?? (await agent.like(action.subject, action.cid!)).uri;
+    }
+    case 'unlike': {
+      const likeUri = action.recordUri ?? await findPostRecord(agent, action.subject, 'like');
+      if (likeUri) await agent.deleteLike(likeUri);
+      return undefined;
+    }
+    case 'repost': {
+      const existingUri = options.isReplay ? await findPostRecord(agent, action.subject, 'repost') : undefined;
+      return existingUri ?? (await agent.repost(action.subject, action.cid!)).uri;
+    }
+    case 'unrepost': {
+      const repostUri = action.recordUri ?? await findPostRecord(agent, action.subject, 'repost');
+      if (repostUri) await agent.deleteRepost(repostUri);
+      return undefined;
+    }
+    case 'follow': {
+      const existingUri = options.isReplay ? (await agent.getProfile({ actor: action.subject })).data.viewer?.following : undefined;
+      return existingUri ?? (await agent.follow(action.subject)).uri;
+    }
+    case 'unfollow': {
+      const followUri = action.recordUri ?? (await agent.getProfile({ actor: action.subject })).data.viewer?.following;
+      if (followUri) await agent.deleteFollow(followUri);
+      return undefined;
+    }
+    case 'bookmark':
+      await createBookmarkAdapter(agent, did).add({ uri: action.subject, cid: action.cid! });
+      return undefined;
+    case 'unbookmark':
+      await createBookmarkAdapter(agent, did).remove(action.subject);
+      return undefined;
+    case 'delete':
+      await agent.deletePost(action.subject);
+      return undefined;
+  }
+}
@@ -0,0 +1,272 @@
+import { AtUri, AppBskyFeedDefs, BskyAgent, ComAtprotoRepoStrongRef } from '@atproto/api';
+import type { LexiconDoc } from '@atproto/lexicon';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BOOKMARKS_CONFIG } from './config';
+
+export interface Bookmark {
+    subject: ComAtprotoRepoStrongRef.Main;
+    createdAt: string;
+    // Present when the backend hydrates the bookmarked post itself
+    post?: AppBskyFeedDefs.PostView;
+}
+
+export interface BookmarkPage {
+    bookmarks: Bookmark[];
+    cursor?: string;
+}
+
+/**
+ * A place bookmarks can be stored. BookmarksContext and the bookmarks feed only
+ * talk to this interface, so the backing store can be swapped via BOOKMARKS_CONFIG.
+ */
+export interface BookmarkStorageAdapter {
+    readonly backend: BookmarkBackend;
+    list: (cursor?: string, limit?: number) => Promise<BookmarkPage>;
+    add: (subject: ComAtprotoRepoStrongRef.Main) => Promise<Bookmark>;
+    remove: (postUri: string) => Promise<void>;
+}
+
+export type BookmarkBackend = 'server' | 'repo';
+
+// --- Server-side (private) bookmarks ---
+
+// The bundled @atproto/api predates app.bsky.bookmark, so its lexicons are registered on the agent at runtime.
+const BOOKMARK_LEXICONS: LexiconDoc[] = [
+    {
+        lexicon: 1,
+        id: 'app.bsky.bookmark.createBookmark',
+        defs: {
+            main: {
+                type: 'procedure',
+                input: {
+                    encoding: 'application/json',
+                    schema: {
+                        type: 'object',
+                        required: ['uri', 'cid'],
+                        properties: { uri: { type: 'string', format: 'at-uri' }, cid: { type: 'string', format: 'cid' } },
+                    },
+                },
+            },
+        },
+    },
+    {
+        lexicon: 1,
+        id: 'app.bsky.bookmark.deleteBookmark',
+        defs: {
+            main: {
+                type: 'procedure',
+                input: {
+                    encoding: 'application/json',
+                    schema: {
+                        type: 'object',
+                        required: ['uri'],
+                        properties: { uri: { type: 'string', format: 'at-uri' } },
+                    },
+                },
+            },
+        },
+    },
+    {
+        lexicon: 1,
+        id: 'app.bsky.bookmark.getBookmarks',
+        defs: {
+            main: {
+                type: 'query',
+                parameters: {
+                    type: 'params',
+                    properties: {
+                        limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+                        cursor: { type: 'string' },
+                    },
+                },
+                output: {
+                    encoding: 'application/json',
+                    schema: {
+                        type: 'object',
+                        required: ['bookmarks'],
+                        properties: {
+                            cursor: { type: 'string' },
+                            bookmarks: { type: 'array', items: { type: 'unknown' } },
+                        },
+                    },
+                },
+            },
+        },
+    },
+];
+
+const registerBookmarkLexicons = (agent: BskyAgent) => {
+    for (const doc of BOOKMARK_LEXICONS) {
+        if (!agent.lex.getDef(doc.id)) agent.lex.add(doc);
+    }
+};
+
+interface ServerBookmarkView {
+    subject: ComAtprotoRepoStrongRef.Main;
+    createdAt: string;
+    item?: unknown;
+}
+
+export function createServerBookmarkAdapter(agent: BskyAgent): BookmarkStorageAdapter {
+    registerBookmarkLexicons(agent);
+    return {
+        backend: 'server',
+        list: async (cursor, limit = 50) => {
+            const { data } = await agent.call('app.bsky.bookmark.getBookmarks', { limit, cursor });
+            const bookmarks = (data.bookmarks as ServerBookmarkView[]).map(view => ({
+                subject: view.subject,
+                createdAt: view.createdAt,
+                post: AppBskyFeedDefs.isPostView(view.item) ? view.item as AppBskyFeedDefs.PostView : undefined,
+            }));
+            return { bookmarks, cursor: data.cursor };
+        },
+        add: async (subject) => {
+            await agent.call('app.bsky.bookmark.createBookmark', undefined, { uri: subject.uri, cid: subject.cid }, { encoding: 'application/json' });
+            return { subject, createdAt: new Date().toISOString() };
+        },
+        remove: async (postUri) => {
+            await agent.call('app.bsky.bookmark.deleteBookmark', undefined, { uri: postUri }, { encoding: 'application/json' });
+        },
+    };
+}
+
+// --- Repo records (public, legacy) ---
+
+type RepoBookmarkRecord = {
+    $type: string;
+    subject: ComAtprotoRepoStrongRef.Main;
+    createdAt: string;
+};
+
+/**
+ * Stores bookmarks as records in the user's own repo. Note that repo records are public.
+ * Kept for accounts on services without server-side bookmarks and as the migration source.
+ */
+export function createRepoBookmarkAdapter(agent: BskyAgent, did: string): BookmarkStorageAdapter {
+    const collection = BOOKMARKS_CONFIG.LEGACY_COLLECTION;
+    // Deleting needs the record key, which is only known once a record has been listed or created
+    const rkeys = new Map<string, string>();
+
+    const findRkey = async (postUri: string) => {
+        let cursor: string | undefined;
+        do {
+            const page = await adapter.list(cursor, 100);
+            if (rkeys.has(postUri)) return rkeys.get(postUri);
+            cursor = page.cursor;
+        } while (cursor);
+        return undefined;
+    };
+
+    const adapter: BookmarkStorageAdapter = {
+        backend: 'repo',
+        list: async (cursor, limit = 50) => {
+            const { data } = await agent.com.atproto.repo.listRecords({ repo: did, collection, limit, cursor });
+            const bookmarks = data.records.map(record => {
+                const value = record.value as unknown as RepoBookmarkRecord;
+                rkeys.set(value.subject.uri, new AtUri(record.uri).rkey);
+                return { subject: value.subject, createdAt: value.createdAt };
+            });
+            return { bookmarks, cursor: data.cursor };
+        },
+        add: async (subject) => {
+            const record: RepoBookmarkRecord = { $type: collection, subject, createdAt: new Date().toISOString() };
+            const { data } = await agent.com.atproto.repo.createRecord({ repo: did, collection, record });
+            rkeys.set(subject.uri, new AtUri(data.uri).rkey);
+            return { subject, createdAt: record.createdAt };
+        },
+        remove: async (postUri) => {
+            const rkey = rkeys.get(postUri) || await findRkey(postUri);
+            if (!rkey) return;
+            await agent.com.atproto.repo.deleteRecord({ repo: did, collection, rkey });
+            rkeys.delete(postUri);
+        },
+    };
+    return adapter;
+}
+
+export function createBookmarkAdapter(agent: BskyAgent, did: string): BookmarkStorageAdapter {
+    return BOOKMARKS_CONFIG.BACKEND === 'server'
+        ? createServerBookmarkAdapter(agent)
+        : createRepoBookmarkAdapter(agent, did);
+}
+
+// --- Migration ---
+
+const migrationKey = (did: string) => `takaka-bookmarks-migrated.${did}`;
+
+/**
+ * Moves bookmarks from the legacy public `app.myclient.bookmark` collection into `target`,
+ * deleting each legacy record only after it was copied. Runs once per account; a failed
+ * run is retried on the next load since only copied records are removed.
+ */
+export async function migrateLegacyBookmarks(agent: BskyAgent, did: string, target: BookmarkStorageAdapter): Promise<number> {
+    if (target.backend === 'repo') return 0;
+    if (await AsyncStorage.getItem(migrationKey(did))) return 0;
+
+    const collection = BOOKMARKS_CONFIG.LEGACY_COLLECTION;
+    const migratedRkeys: string[] = [];
+    let hasFailures = false;
+    let cursor: string | undefined;
+    do {
+        const { data } = await agent.com.atproto.repo.listRecords({ repo: did, collection, limit: 100, cursor });
+        for (const record of data.records) {
+            const { subject } = record.value as unknown as RepoBookmarkRecord;
+            try {
+                await target.add(subject);
+                migratedRkeys.push(new AtUri(record.uri).rkey);
+            } catch (error) {
+                // The bookmarked post may have been deleted; keep the record so nothing is lost silently
+                console.error("Failed to migrate bookmark", subject.uri, error);
+                hasFailures = true;
+            }
+        }
+        cursor = data.cursor;
+    } while (cursor);
+
+    // applyWrites accepts a limited number of operations per call
+    for (let i = 0; i < migratedRkeys.length; i += 100) {
+        await agent.com.atproto.repo.applyWrites({
+            repo: did,
+            writes: migratedRkeys.slice(i, i + 100).map(rkey => ({
+                $type: 'com.atproto.repo.applyWrites#delete' as const,
+                collection,
+                rkey,
+            })),
+        });
+    }
+
+    if (!hasFailures) {
+        await AsyncStorage.setItem(migrationKey(did), new Date().toISOString());
+    }
+    return migratedRkeys.length;
+}
+
+// --- Collections ---
+
+export interface BookmarkCollection {
+    id: string;
+    name: string;
+    createdAt: string;
+}
+
+export interface BookmarkCollectionsState {
+    collections: BookmarkCollection[];
+    // postUri -> collection id. A bookmark belongs to at most one collection; unassigned ones are unsorted.
+    assignments: Record<string, string>;
+}
+
+export const EMPTY_COLLECTIONS_STATE: BookmarkCollectionsState = { collections: [], assignments: {} };
+
+export const MAX_COLLECTION_NAME_LENGTH = 64;
+
+// Neither bookmark backend has a notion of folders, so collections are kept on the device per account
+const collectionsKey = (did: string) => `takaka-bookmark-collections.${did}`;
+
+export async function loadBookmarkCollections(did: string): Promise<BookmarkCollectionsState> {
+    const stored = await AsyncStorage.getItem(collectionsKey(did));
+    return stored ? { ...EMPTY_COLLECTIONS_STATE, ...JSON.parse(stored) } : EMPTY_COLLECTIONS_STATE;
+}
+
+export async function saveBookmarkCollections(did: string, state: BookmarkCollectionsState): Promise<void> {
+    await AsyncStorage.setItem(collectionsKey(did), JSON.stringify(state));
+}
@@ -0,0 +1,78 @@
+import { AppBskyActorDefs, AppBskyEmbedRecord, BskyAgent, ChatBskyActorDefs, ChatBskyConvoDefs, RichText } from '@atproto/api';
+import { resolveActorDid } from './identity';
+
+// How often an open conversation checks for new messages
+export const MESSAGE_POLL_INTERVAL_MS = 5000;
+// How often the inbox refreshes while it is on screen
+export const INBOX_POLL_INTERVAL_MS = 15000;
+export const MAX_MESSAGE_LENGTH = 1000;
+
+export type ConvoMessage = ChatBskyConvoDefs.MessageView | ChatBskyConvoDefs.DeletedMessageView;
+
+/** The member shown for a conversation: the first one that isn't the viewer. */
+export const getConvoPartner = (convo: ChatBskyConvoDefs.ConvoView, viewerDid?: string): ChatBskyActorDefs.ProfileViewBasic | undefined =>
+  convo.members.find(member => member.did !== viewerDid) ?? convo.members[0];
+
+export const isMessageView = (message: unknown): message is ChatBskyConvoDefs.MessageView =>
+  ChatBskyConvoDefs.isMessageView(message);
+
+export const isDeletedMessageView = (message: unknown): message is ChatBskyConvoDefs.DeletedMessageView =>
+  ChatBskyConvoDefs.isDeletedMessageView(message);
+
+export const getRecordEmbed = (message: ChatBskyConvoDefs.MessageView): AppBskyEmbedRecord.View | undefined =>
+  AppBskyEmbedRecord.isView(message.embed) ? message.embed as AppBskyEmbedRecord.View : undefined;
+
+/**
+ * Merges fetched messages into the current newest-first list, replacing known ids
+ * (a message may have been deleted since) and keeping the result sorted by rev.
+ */
+export const mergeMessages = (current: ConvoMessage[], incoming: ConvoMessage[]): ConvoMessage[] => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => b.rev.localeCompare(a.rev));
+};
+
+/**
+ * Whether the viewer may open a conversation with this profile, following the
+ * profile's `associated.chat.allowIncoming` setting (Bluesky defaults to 'following').
+ */
+export const canStartChat = (profile: AppBskyActorDefs.ProfileViewDetailed): boolean => {
+  if (profile.viewer?.blocking || profile.viewer?.blockedBy) return false;
+  const allowIncoming = profile.associated?.chat?.allowIncoming ?? 'following';
+  if (allowIncoming === 'all') return true;
+  if (allowIncoming === 'following') return !!profile.viewer?.followedBy;
+  return false;
+};
+
+const POST_LINK_REGEX = /https?:\/\/(?:www\.)?bsky\.app\/profile\/([^/\s]+)\/post\/([A-Za-z0-9]+)\/?/;
+
+/**
+ * Builds the message input for `text`. A bsky.app post link is turned into a record
+ * embed and dropped from the text, so the recipient sees the post instead of the URL.
+ */
+export const buildMessageInput = async (agent: BskyAgent, text: string): Promise<ChatBskyConvoDefs.MessageInput> => {
+  let messageText = text.trim();
+  let embed: ChatBskyConvoDefs.MessageInput['embed'];
+
+  const match = messageText.match(POST_LINK_REGEX);
+  if (match) {
+    try {
+      const [, actor, rkey] = match;
+      const did = await resolveActorDid(actor);
+      const uri = `at://${did}/app.bsky.feed.post/${rkey}`;
+      const { data } = await agent.getPosts({ uris: [uri] });
+      const post = data.posts[0];
+      if (post) {
+        embed = { $type: 'app.bsky.embed.record', record: { uri: post.uri, cid: post.cid } } as AppBskyEmbedRecord.Main & { $type: 'app.bsky.embed.record' };
+        messageText = messageText.replace(match[0], '').trim();
+      }
+    } catch (error) {
+      // Send the link as plain text if the post can't be resolved
+      console.error("Failed to resolve post link for message embed", error);
+    }
+  }
+
+  const rt = new RichText({ text: messageText });
+  await rt.detectFacets(agent);
+  return { text: rt.text, facets: rt.facets, embed };
+};
@@ -18,6 +18,7 @@ export const FEATURES = {
   VIDEO_POSTING: true,                    // Allow video uploads
   HLS_VIDEO: true,                        // Enable HLS video streaming
   VIDEO_THUMBNAILS: true,                 // Generate video thumbnails
+  LINK_CARDS: true,                       // Link card previews for URLs in the composer
   
   // User features
   BOOKMARKS: true,                        // Private bookmarks system
@@ -63,6 +64,11 @@ export const MEDIA_CONFIG = {
   MAX_IMAGES_PER_POST: 4,
   MAX_IMAGE_SIZE_MB: 10,
   SUPPORTED_IMAGE_FORMATS: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  // Picked images are re-encoded as JPEG to fit the PDS blob limit, stepping quality down
+  // and then dimensions until they do
+  MAX_IMAGE_BLOB_BYTES: 1_000_000,
+  MAX_IMAGE_DIMENSION: 2000,
+  IMAGE_QUALITY_STEPS: [0.9, 0.8, 0.7, 0.6],
   
   // Video settings  
   MAX_VIDEOS_PER_POST: 1,
@@ -115,6 +121,9 @@ export const FEED_CONFIG = {
 export const ATP_CONFIG = {
   // Default PDS
   DEFAULT_PDS: 'https://bsky.social',
+
+  // Direct messages are served by the chat service, reached through the PDS via atproto-proxy
+  CHAT_SERVICE_DID: 'did:web:api.bsky.chat',
   
   // App identification
   APP_NAME: 'Takaka',
@@ -126,6 +135,141 @@ export const ATP_CONFIG = {
   RETRY_DELAY_MS: 1000,
 } as const;
 
+/**
+ * Identity resolution configuration
+ */
+export const IDENTITY_CONFIG = {
+  // Directory used to resolve did:plc identities
+  PLC_DIRECTORY_URL: 'https://plc.directory',
+  // DNS-over-HTTPS endpoint (JSON API) for _atproto TXT lookups
+  DOH_URL: 'https://cloudflare-dns.com/dns-query',
+  // Last-resort handle resolution through the AppView, for handles whose
+  // /.well-known/atproto-did can't be fetched from the browser (CORS)
+  HANDLE_RESOLVER_URL: 'https://public.api.bsky.app',
+  CACHE_TTL_MS: 10 * 60 * 1000,
+  REQUEST_TIMEOUT_MS: 5000,
+} as const;
+
+/**
+ * OAuth configuration
+ */
+export const OAUTH_CONFIG = {
+  // Route under app/ the authorization server redirects back to
+  CALLBACK_PATH: '/oauth/callback',
+  SCOPE: 'atproto transition:generic transition:chat.bsky',
+  // Path of the client metadata document served next to the web build, written by
+  // scripts/generate-oauth-client-metadata.js (which repeats these paths and the scope).
+  // Loopback hosts (localhost, 127.0.0.1) use the metadata-less development client id instead.
+  CLIENT_METADATA_PATH: '/oauth/client-metadata.json',
+  // Pending authorization requests are discarded after this long
+  PENDING_REQUEST_TTL_MS: 10 * 60 * 1000,
+} as const;
+
+/**
+ * Bookmarks configuration
+ */
+export const BOOKMARKS_CONFIG = {
+  // 'server' keeps bookmarks private on the AppView; 'repo' writes public records to the user's repo
+  BACKEND: 'server' as 'server' | 'repo',
+  // Collection used by earlier versions, migrated away from when BACKEND is 'server'
+  LEGACY_COLLECTION: 'app.myclient.bookmark',
+} as const;
+
+/**
+ * Offline cache configuration (IndexedDB on web, AsyncStorage on native)
+ */
+export const OFFLINE_CACHE_CONFIG = {
+  DB_NAME: 'takaka-offline-cache',
+  // Pages kept per feed key; the oldest are dropped as more load
+  MAX_PAGES_PER_FEED: 3,
+  MAX_FEEDS: 30,
+  MAX_PROFILES: 200,
+  // Per store; Android's AsyncStorage database is capped at 6 MB in total
+  MAX_BYTES: 2 * 1024 * 1024,
+  MAX_AGE_MS: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Outbound action queue configuration (likes, reposts, follows, bookmarks, deletes)
+ */
+export const ACTION_QUEUE_CONFIG = {
+  // How often queued actions are retried while any are pending
+  RETRY_INTERVAL_MS: 30 * 1000,
+  // Replays that fail for a retryable reason before the action is given up on
+  MAX_ATTEMPTS: 5,
+} as const;
+
+/**
+ * Scheduled posts configuration
+ */
+export const SCHEDULED_POSTS_CONFIG = {
+  // Longest the scheduler sleeps between checks, so a post isn't late after the device sleeps
+  CHECK_INTERVAL_MS: 60 * 1000,
+  // Posts due less than this long before launch are published without asking
+  MISSED_GRACE_MS: 5 * 60 * 1000,
+  // Web only: media and due times live in IndexedDB, where public/sw.js can read them.
+  // sw.js repeats these names; keep them in step.
+  DB_NAME: 'takaka-scheduled-posts',
+  SYNC_TAG: 'takaka-scheduled-posts',
+} as const;
+
+/**
+ * Video service configuration
+ */
+export const VIDEO_SERVICE_CONFIG = {
+  // Videos are uploaded to the video service, which transcodes them and stores the result
+  // on the user's PDS. Point these at scripts/video-service-stub.js to work without it.
+  SERVICE_URL: process.env.EXPO_PUBLIC_VIDEO_SERVICE_URL || 'https://video.bsky.app',
+  SERVICE_DID: process.env.EXPO_PUBLIC_VIDEO_SERVICE_DID || 'did:web:video.bsky.app',
+  JOB_POLL_INTERVAL_MS: 1500,
+  // Service auth tokens are short-lived; uploads of large files over slow links need the headroom
+  UPLOAD_TOKEN_TTL_SECONDS: 30 * 60,
+  // Lexicon limits for app.bsky.embed.video
+  MAX_CAPTIONS: 20,
+  MAX_CAPTION_BYTES: 20_000,
+  MAX_ALT_TEXT_LENGTH: 1000,
+} as const;
+
+/**
+ * Link card configuration
+ */
+export const LINK_CARD_CONFIG = {
+  // Returns OpenGraph metadata for ?url= as { title, description, image, error }. Browsers
+  // can't read most sites' HTML themselves (CORS), so it goes through this service.
+  METADATA_URL: process.env.EXPO_PUBLIC_CARD_METADATA_URL || 'https://cardyb.bsky.app/v1/extract',
+  // Wait for typing to settle before looking a link up
+  DETECT_DELAY_MS: 800,
+  CACHE_SIZE: 50,
+} as const;
+
+/**
+ * Watch feed configuration
+ */
+export const WATCH_CONFIG = {
+  // Used until the user picks their own sources
+  DEFAULT_FEED_URI: 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/thevids',
+  // Tried when every chosen source fails, so the Watch tab is never empty because of one feed
+  FALLBACK_FEED_URI: 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/whats-hot',
+  // A source slower than this is skipped for the page rather than holding the others back
+  SOURCE_TIMEOUT_MS: 8000,
+  // Consecutive failures after which a source is left out until the feed is refreshed
+  MAX_SOURCE_FAILURES: 2,
+  MAX_SOURCES: 8,
+  // Repo collection the chosen sources are saved in, as a single record with rkey 'self'
+  SOURCES_COLLECTION: 'social.takaka.watch.sources',
+} as const;
+
+export const WATCH_HISTORY_CONFIG = {
+  // Watched this far, a video counts as seen and goes to the back of the Watch feed
+  COMPLETED_PERCENT: 0.9,
+  // Videos left earlier than this start over instead of resuming
+  MIN_RESUME_SECONDS: 3,
+  // How often the position of the playing video is written to history
+  SAVE_INTERVAL_MS: 5000,
+  // Oldest entries are dropped beyond this
+  MAX_ENTRIES: 500,
+} as const;
+
 /**
  * UI configuration
  */
@@ -0,0 +1,51 @@
+import { AppBskyFeedDefs, AtUri, BskyAgent } from '@atproto/api';
+
+export const FEEDS_PAGE_SIZE = 25;
+
+export interface FeedsPage {
+  feeds: AppBskyFeedDefs.GeneratorView[];
+  cursor?: string;
+}
+
+export const getFeedHref = (feed: { uri: string; creator: { handle: string } }, options: { preview?: boolean } = {}) =>
+  `/profile/${feed.creator.handle}/feed/${new AtUri(feed.uri).rkey}${options.preview ? '?preview=1' : ''}`;
+
+export const getFeedGeneratorUri = (did: string, rkey: string) => `at://${did}/app.bsky.feed.generator/${rkey}`;
+
+// An empty page can still carry a cursor; stop there rather than loop
+const toPage = (data: { feeds: AppBskyFeedDefs.GeneratorView[]; cursor?: string }): FeedsPage => ({
+  feeds: data.feeds,
+  cursor: data.feeds.length > 0 ? data.cursor : undefined,
+});
+
+/** Popular feed generators, or the ones matching `query`. Unspecced, but it's what every client uses for feed search. */
+export const getPopularFeeds = async (agent: BskyAgent, params: { query?: string; cursor?: string; limit?: number } = {}): Promise<FeedsPage> => {
+  const { data } = await agent.app.bsky.unspecced.getPopularFeedGenerators({
+    query: params.query?.trim() || undefined,
+    cursor: params.cursor,
+    limit: params.limit ?? FEEDS_PAGE_SIZE,
+  });
+  return toPage(data);
+};
+
+/** Feeds recommended for the signed-in account. */
+export const getSuggestedFeeds = async (agent: BskyAgent, params: { cursor?: string; limit?: number } = {}): Promise<FeedsPage> => {
+  const { data } = await agent.app.bsky.feed.getSuggestedFeeds({ cursor: params.cursor, limit: params.limit ?? FEEDS_PAGE_SIZE });
+  return toPage(data);
+};
+
+/** Feed generators created by `actor`. */
+export const getActorFeeds = async (agent: BskyAgent, actor: string, params: { cursor?: string; limit?: number } = {}): Promise<FeedsPage> => {
+  const { data } = await agent.app.bsky.feed.getActorFeeds({ actor, cursor: params.cursor, limit: params.limit ?? FEEDS_PAGE_SIZE });
+  return toPage(data);
+};
+
+/** Likes a feed generator and returns the like record's URI. */
+export const likeFeed = async (agent: BskyAgent, feed: { uri: string; cid: string }): Promise<string> => {
+  const { uri } = await agent.like(feed.uri, feed.cid);
+  return uri;
+};
+
+export const unlikeFeed = async (agent: BskyAgent, likeUri: string): Promise<void> => {
+  await agent.deleteLike(likeUri);
+};
@@ -38,3 +38,14 @@ export function formatCompactDate(date: Date | string | number): string {
     .replace(/ months? ago/, ' month ago')
     .replace(/ years? ago/, ' year ago');
 }
+
+/**
+ * Formats a date and time in the user's locale, for times that are absolute rather than relative.
+ * e.g., "Oct 19, 2026, 9:00 AM"
+ * @param date The date to format.
+ * @returns The localized date and time.
+ */
+export function formatDateTime(date: Date | string | number): string {
+  if (!date) return '';
+  return new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
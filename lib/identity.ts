@@ -0,0 +1,197 @@
+import { IDENTITY_CONFIG } from './config';
+
+/**
+ * Handle and DID resolution (https://atproto.com/specs/handle, https://atproto.com/specs/did).
+ *
+ * Handles resolve through a DNS TXT record at `_atproto.<handle>` (looked up over
+ * DNS-over-HTTPS) or `https://<handle>/.well-known/atproto-did`; DIDs resolve to their
+ * DID document through the PLC directory or the did:web host. Results are cached in
+ * memory, and concurrent lookups for the same key share one request.
+ */
+
+export interface DidDocument {
+  id: string;
+  alsoKnownAs?: string[];
+  service?: { id: string; type: string; serviceEndpoint: string }[];
+}
+
+export interface ResolvedIdentity {
+  did: string;
+  // Only set when the DID document confirms the handle
+  handle?: string;
+  pdsUrl: string;
+  didDoc: DidDocument;
+}
+
+const HANDLE_REGEX = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const DID_REGEX = /^did:(plc:[a-z2-7]{24}|web:[a-zA-Z0-9._%-]+(:[a-zA-Z0-9._%-]+)*)$/;
+
+export const normalizeHandle = (handle: string): string => handle.trim().replace(/^@/, '').toLowerCase();
+
+export const isValidHandle = (handle: string): boolean => {
+  const normalized = normalizeHandle(handle);
+  return normalized.length <= 253 && HANDLE_REGEX.test(normalized);
+};
+
+/** Accepts the DID methods atproto supports: did:plc and did:web. */
+export const isValidDid = (did: string): boolean => DID_REGEX.test(did);
+
+// --- Cache ---
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+interface ResolverCache<T> {
+  entries: Map<string, CacheEntry<T>>;
+  inFlight: Map<string, Promise<T>>;
+}
+
+const createCache = <T>(): ResolverCache<T> => ({ entries: new Map(), inFlight: new Map() });
+
+const handleCache = createCache<string>();
+const didDocCache = createCache<DidDocument>();
+
+const cached = async <T>(cache: ResolverCache<T>, key: string, load: () => Promise<T>): Promise<T> => {
+  const entry = cache.entries.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+  const pending = cache.inFlight.get(key);
+  if (pending) return pending;
+
+  const request = load()
+    .then(value => {
+      cache.entries.set(key, { value, expiresAt: Date.now() + IDENTITY_CONFIG.CACHE_TTL_MS });
+      return value;
+    })
+    .finally(() => cache.inFlight.delete(key));
+  cache.inFlight.set(key, request);
+  return request;
+};
+
+/** Records a handle → DID mapping already verified elsewhere (e.g. returned by the AppView). */
+export const cacheHandle = (handle: string, did: string) => {
+  // The AppView reports unverifiable handles as handle.invalid, which many accounts share
+  if (normalizeHandle(handle) === 'handle.invalid') return;
+  handleCache.entries.set(normalizeHandle(handle), { value: did, expiresAt: Date.now() + IDENTITY_CONFIG.CACHE_TTL_MS });
+};
+
+export const clearIdentityCache = () => {
+  handleCache.entries.clear();
+  didDocCache.entries.clear();
+};
+
+// --- Handle resolution ---
+
+const fetchWithTimeout = async (url: string, init?: RequestInit) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), IDENTITY_CONFIG.REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const isLoopbackHost = (host: string) => /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/.test(host);
+
+const resolveHandleDns = async (handle: string): Promise<string | undefined> => {
+  const response = await fetchWithTimeout(
+    `${IDENTITY_CONFIG.DOH_URL}?name=${encodeURIComponent(`_atproto.${handle}`)}&type=TXT`,
+    { headers: { Accept: 'application/dns-json' } }
+  );
+  if (!response.ok) return undefined;
+  const { Answer } = await response.json() as { Answer?: { type: number; data: string }[] };
+  // TXT data comes back quoted; a handle must have exactly one did= record
+  const dids = (Answer ?? [])
+    .filter(answer => answer.type === 16)
+    .map(answer => answer.data.replace(/^"|"$/g, '').replace(/"\s*"/g, ''))
+    .filter(value => value.startsWith('did='))
+    .map(value => value.slice('did='.length));
+  return dids.length === 1 && isValidDid(dids[0]) ? dids[0] : undefined;
+};
+
+const resolveHandleHttp = async (handle: string): Promise<string | undefined> => {
+  const response = await fetchWithTimeout(`https://${handle}/.well-known/atproto-did`);
+  if (!response.ok) return undefined;
+  const did = (await response.text()).trim();
+  return isValidDid(did) ? did : undefined;
+};
+
+const resolveHandleXrpc = async (handle: string): Promise<string | undefined> => {
+  const response = await fetchWithTimeout(
+    `${IDENTITY_CONFIG.HANDLE_RESOLVER_URL}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`
+  );
+  if (!response.ok) return undefined;
+  const { did } = await response.json();
+  return typeof did === 'string' && isValidDid(did) ? did : undefined;
+};
+
+export const resolveHandle = (handle: string): Promise<string> => {
+  const normalized = normalizeHandle(handle);
+  return cached(handleCache, normalized, async () => {
+    if (!isValidHandle(normalized)) throw new Error(`Invalid handle: ${handle}`);
+    for (const method of [resolveHandleDns, resolveHandleHttp, resolveHandleXrpc]) {
+      try {
+        const did = await method(normalized);
+        if (did) return did;
+      } catch {
+        // Network, CORS or timeout failures fall through to the next method
+      }
+    }
+    throw new Error(`Could not resolve handle ${normalized}`);
+  });
+};
+
+/** Returns `actor` when it is already a DID, otherwise resolves it as a handle. */
+export const resolveActorDid = (actor: string): Promise<string> =>
+  actor.startsWith('did:') ? Promise.resolve(actor) : resolveHandle(actor);
+
+// --- DID resolution ---
+
+const getDidDocumentUrl = (did: string) => {
+  if (did.startsWith('did:plc:')) return `${IDENTITY_CONFIG.PLC_DIRECTORY_URL}/${did}`;
+  // did:web:host[:path...], with the port percent-encoded in the host
+  const [host, ...path] = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+  const scheme = isLoopbackHost(host) ? 'http' : 'https';
+  return path.length > 0 ? `${scheme}://${host}/${path.join('/')}/did.json` : `${scheme}://${host}/.well-known/did.json`;
+};
+
+export const resolveDidDocument = (did: string): Promise<DidDocument> =>
+  cached(didDocCache, did, async () => {
+    if (!isValidDid(did)) throw new Error(`Unsupported DID: ${did}`);
+    const response = await fetchWithTimeout(getDidDocumentUrl(did), { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Could not resolve ${did} (status ${response.status})`);
+    const doc: DidDocument = await response.json();
+    if (doc.id !== did) throw new Error(`DID document id mismatch for ${did}`);
+    return doc;
+  });
+
+export const getPdsEndpoint = (doc: DidDocument): string | undefined =>
+  doc.service?.find(service =>
+    (service.id === '#atproto_pds' || service.id === `${doc.id}#atproto_pds`) && service.type === 'AtprotoPersonalDataServer'
+  )?.serviceEndpoint;
+
+export const getHandleFromDidDocument = (doc: DidDocument): string | undefined =>
+  doc.alsoKnownAs?.find(aka => aka.startsWith('at://'))?.slice('at://'.length);
+
+/**
+ * Resolves a handle or DID to its DID document and PDS. The handle is only reported when
+ * it round-trips (the document claims it and it resolves back to the same DID).
+ */
+export const resolveIdentity = async (identifier: string): Promise<ResolvedIdentity> => {
+  const input = identifier.trim().replace(/^@/, '');
+  const did = await resolveActorDid(input);
+  const didDoc = await resolveDidDocument(did);
+  const pdsUrl = getPdsEndpoint(didDoc);
+  if (!pdsUrl) throw new Error(`No PDS found for ${did}`);
+
+  const claimedHandle = getHandleFromDidDocument(didDoc);
+  let handle: string | undefined;
+  if (claimedHandle) {
+    const verified = await resolveHandle(claimedHandle).then(resolved => resolved === did).catch(() => false);
+    if (verified) handle = normalizeHandle(claimedHandle);
+  }
+  return { did, handle, pdsUrl, didDoc };
+};
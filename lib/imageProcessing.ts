@@ -0,0 +1,117 @@
+import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat, ActionCrop } from 'expo-image-manipulator';
+import { MEDIA_CONFIG } from './config';
+
+export type CropPreset = 'original' | '1:1' | '4:5' | '3:4' | '16:9';
+
+export const CROP_PRESETS: CropPreset[] = ['original', '1:1', '4:5', '3:4', '16:9'];
+
+const CROP_RATIOS: Record<Exclude<CropPreset, 'original'>, number> = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '3:4': 3 / 4,
+  '16:9': 16 / 9,
+};
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdit {
+  crop: CropPreset;
+  // Clockwise, applied before cropping
+  rotation: ImageRotation;
+}
+
+export const DEFAULT_IMAGE_EDIT: ImageEdit = { crop: 'original', rotation: 0 };
+
+export interface SourceImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  // A file:// URI on native; a data: URL on web, so drafts and scheduled posts survive a reload
+  uri: string;
+  width: number;
+  height: number;
+  mimeType: 'image/jpeg';
+  fileSize: number;
+}
+
+const PREVIEW_DIMENSION = 800;
+const PREVIEW_QUALITY = 0.7;
+// Each retry after the quality steps are exhausted shrinks the longest edge by this much
+const DOWNSCALE_FACTOR = 0.75;
+const MAX_DOWNSCALES = 4;
+
+export const rotateClockwise = (rotation: ImageRotation): ImageRotation => ((rotation + 90) % 360) as ImageRotation;
+
+/** The largest rectangle of the given preset's ratio, centered in an image of this size. */
+export function getCropRect(width: number, height: number, crop: CropPreset): ActionCrop['crop'] | null {
+  if (crop === 'original') return null;
+  const ratio = CROP_RATIOS[crop];
+  const cropWidth = Math.min(width, Math.round(height * ratio));
+  const cropHeight = Math.min(height, Math.round(width / ratio));
+  return {
+    originX: Math.round((width - cropWidth) / 2),
+    originY: Math.round((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+const getBase64Size = (base64: string) =>
+  Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+async function renderImage(source: SourceImage, edit: ImageEdit, maxDimension: number, compress: number): Promise<ProcessedImage> {
+  const isSideways = edit.rotation % 180 !== 0;
+  const rotatedWidth = isSideways ? source.height : source.width;
+  const rotatedHeight = isSideways ? source.width : source.height;
+
+  const context = ImageManipulator.manipulate(source.uri);
+  if (edit.rotation) context.rotate(edit.rotation);
+  const rect = getCropRect(rotatedWidth, rotatedHeight, edit.crop);
+  if (rect) context.crop(rect);
+  const width = rect?.width ?? rotatedWidth;
+  const height = rect?.height ?? rotatedHeight;
+  if (Math.max(width, height) > maxDimension) {
+    context.resize(width >= height ? { width: maxDimension } : { height: maxDimension });
+  }
+
+  const image = await context.renderAsync();
+  try {
+    // Re-encoding writes a fresh JPEG, which leaves EXIF (GPS, camera, timestamps) behind
+    const result = await image.saveAsync({ compress, format: SaveFormat.JPEG, base64: true });
+    const base64 = result.base64 ?? '';
+    let uri = result.uri;
+    if (Platform.OS === 'web') {
+      URL.revokeObjectURL(result.uri);
+      uri = `data:image/jpeg;base64,${base64}`;
+    }
+    return { uri, width: result.width, height: result.height, mimeType: 'image/jpeg', fileSize: getBase64Size(base64) };
+  } finally {
+    image.release();
+    context.release();
+  }
+}
+
+/**
+ * Applies the crop and rotation, strips metadata and re-encodes the image so it fits
+ * the PDS blob limit: first by lowering JPEG quality, then by downscaling.
+ */
+export async function processImage(source: SourceImage, edit: ImageEdit = DEFAULT_IMAGE_EDIT): Promise<ProcessedImage> {
+  let maxDimension: number = MEDIA_CONFIG.MAX_IMAGE_DIMENSION;
+  for (let downscales = 0; downscales <= MAX_DOWNSCALES; downscales++) {
+    for (const quality of MEDIA_CONFIG.IMAGE_QUALITY_STEPS) {
+      const result = await renderImage(source, edit, maxDimension, quality);
+      if (result.fileSize <= MEDIA_CONFIG.MAX_IMAGE_BLOB_BYTES) return result;
+    }
+    maxDimension = Math.round(maxDimension * DOWNSCALE_FACTOR);
+  }
+  throw new Error('Image could not be compressed below the upload size limit');
+}
+
+/** A small, quickly encoded render of an edit, for previewing it before it's applied. */
+export function renderImagePreview(source: SourceImage, edit: ImageEdit): Promise<ProcessedImage> {
+  return renderImage(source, edit, PREVIEW_DIMENSION, PREVIEW_QUALITY);
+}
@@ -0,0 +1,104 @@
+import { AppBskyEmbedExternal, AppBskyRichtextFacet, BlobRef, BskyAgent, RichText } from '@atproto/api';
+import { LINK_CARD_CONFIG, MEDIA_CONFIG } from './config';
+
+export interface LinkMetadata {
+  // The link as written in the post, which is what the card points to
+  url: string;
+  title: string;
+  description: string;
+  // Fetchable from the app, so it can be uploaded as the card's thumbnail
+  image?: string;
+}
+
+/**
+ * Looks up what a link card shows. The composer only talks to this interface, so the
+ * service behind it can be swapped, e.g. for scripts/card-metadata-server.js.
+ */
+export interface LinkMetadataFetcher {
+  fetchMetadata: (url: string, signal?: AbortSignal) => Promise<LinkMetadata>;
+}
+
+interface CardServiceResponse {
+  error?: string;
+  title?: string;
+  description?: string;
+  image?: string;
+}
+
+/** A fetcher for services answering `GET <endpoint>?url=` the way cardyb.bsky.app does. */
+export function createCardServiceFetcher(endpoint: string): LinkMetadataFetcher {
+  return {
+    fetchMetadata: async (url, signal) => {
+      const response = await fetch(`${endpoint}?url=${encodeURIComponent(url)}`, { signal });
+      if (!response.ok) throw new Error(`Card metadata request failed with status ${response.status}`);
+      const data: CardServiceResponse = await response.json();
+      if (data.error) throw new Error(data.error);
+      return {
+        url,
+        title: data.title?.trim() || url,
+        description: data.description?.trim() || '',
+        image: data.image || undefined,
+      };
+    },
+  };
+}
+
+// Recently fetched cards, so editing around a link doesn't look it up again
+const cache = new Map<string, LinkMetadata>();
+
+/** Wraps a fetcher with a small in-memory cache of successful lookups. */
+export function withMetadataCache(fetcher: LinkMetadataFetcher): LinkMetadataFetcher {
+  return {
+    fetchMetadata: async (url, signal) => {
+      const cached = cache.get(url);
+      if (cached) return cached;
+      const metadata = await fetcher.fetchMetadata(url, signal);
+      cache.set(url, metadata);
+      if (cache.size > LINK_CARD_CONFIG.CACHE_SIZE) cache.delete(cache.keys().next().value!);
+      return metadata;
+    },
+  };
+}
+
+export function createLinkMetadataFetcher(): LinkMetadataFetcher {
+  return withMetadataCache(createCardServiceFetcher(LINK_CARD_CONFIG.METADATA_URL));
+}
+
+/** The first link in `text`, as the post's facets will record it. */
+export function findFirstLink(text: string): string | undefined {
+  const rt = new RichText({ text });
+  rt.detectFacetsWithoutResolution();
+  for (const facet of rt.facets ?? []) {
+    const link = facet.features.find(AppBskyRichtextFacet.isLink);
+    if (link) return link.uri as string;
+  }
+  return undefined;
+}
+
+// A card without a thumbnail beats a post that fails to go out, so problems here are swallowed
+const uploadThumbnail = async (agent: BskyAgent, image: string): Promise<BlobRef | undefined> => {
+  try {
+    const response = await fetch(image);
+    if (!response.ok) return undefined;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/') || blob.size > MEDIA_CONFIG.MAX_IMAGE_BLOB_BYTES) return undefined;
+    const { data } = await agent.uploadBlob(new Uint8Array(await blob.arrayBuffer()), { encoding: blob.type });
+    return data.blob;
+  } catch (error) {
+    console.warn('Failed to upload link card thumbnail:', error);
+    return undefined;
+  }
+};
+
+/** Builds the `app.bsky.embed.external` for a card, uploading its image as the thumbnail. */
+export async function createExternalEmbed(agent: BskyAgent, card: LinkMetadata): Promise<AppBskyEmbedExternal.Main> {
+  return {
+    $type: 'app.bsky.embed.external',
+    external: {
+      uri: card.url,
+      title: card.title,
+      description: card.description,
+      thumb: card.image ? await uploadThumbnail(agent, card.image) : undefined,
+    },
+  };
+}
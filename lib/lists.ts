@@ -0,0 +1,125 @@
+import { AppBskyGraphDefs, AtUri, BlobRef, BskyAgent, ComAtprotoRepoApplyWrites } from '@atproto/api';
+
+export const MAX_LIST_NAME_LENGTH = 64;
+export const MAX_LIST_DESCRIPTION_LENGTH = 300;
+// A PDS accepts at most 200 operations per applyWrites call
+const MAX_WRITES_PER_BATCH = 200;
+
+export type ListPurpose = typeof AppBskyGraphDefs.CURATELIST | typeof AppBskyGraphDefs.MODLIST;
+
+export const isModList = (list: { purpose: string }) => list.purpose === AppBskyGraphDefs.MODLIST;
+
+export const isCurateList = (list: { purpose: string }) => list.purpose === AppBskyGraphDefs.CURATELIST;
+
+export const getListHref = (list: { uri: string; creator: { handle: string } }) =>
+  `/profile/${list.creator.handle}/lists/${new AtUri(list.uri).rkey}`;
+
+export const getStarterPackHref = (pack: { uri: string; creator: { handle: string } }) =>
+  `/starter-pack/${pack.creator.handle}/${new AtUri(pack.uri).rkey}`;
+
+export const getListUri = (did: string, rkey: string) => `at://${did}/app.bsky.graph.list/${rkey}`;
+
+export const getStarterPackUri = (did: string, rkey: string) => `at://${did}/app.bsky.graph.starterpack/${rkey}`;
+
+/** The editable parts of a list. `avatar` is a newly picked image; omit it to keep the current one. */
+export interface ListDraft {
+  name: string;
+  description: string;
+  avatar?: Blob;
+}
+
+const uploadAvatar = async (agent: BskyAgent, avatar: Blob): Promise<BlobRef> => {
+  const { data } = await agent.uploadBlob(new Uint8Array(await avatar.arrayBuffer()), { encoding: avatar.type || 'image/jpeg' });
+  return data.blob;
+};
+
+export const createList = async (agent: BskyAgent, repo: string, purpose: ListPurpose, draft: ListDraft): Promise<string> => {
+  const avatar = draft.avatar ? await uploadAvatar(agent, draft.avatar) : undefined;
+  const { uri } = await agent.app.bsky.graph.list.create({ repo }, {
+    purpose,
+    name: draft.name,
+    description: draft.description || undefined,
+    avatar,
+    createdAt: new Date().toISOString(),
+  });
+  return uri;
+};
+
+/** Rewrites the list record, keeping fields this app doesn't edit (purpose, labels, createdAt). */
+export const updateList = async (agent: BskyAgent, listUri: string, draft: ListDraft): Promise<void> => {
+  const { host: repo, rkey } = new AtUri(listUri);
+  const { value: existing } = await agent.app.bsky.graph.list.get({ repo, rkey });
+  const avatar = draft.avatar ? await uploadAvatar(agent, draft.avatar) : existing.avatar;
+  await agent.com.atproto.repo.putRecord({
+    repo,
+    collection: 'app.bsky.graph.list',
+    rkey,
+    record: {
+      ...existing,
+      name: draft.name,
+      description: draft.description || undefined,
+      descriptionFacets: undefined,
+      avatar,
+    },
+  });
+};
+
+/** Pages through every member of a list. */
+export const fetchAllListItems = async (agent: BskyAgent, listUri: string): Promise<AppBskyGraphDefs.ListItemView[]> => {
+  const items: AppBskyGraphDefs.ListItemView[] = [];
+  let cursor: string | undefined;
+  do {
+    const { data } = await agent.app.bsky.graph.getList({ list: listUri, limit: 100, cursor });
+    items.push(...data.items);
+    cursor = data.items.length > 0 ? data.cursor : undefined;
+  } while (cursor);
+  return items;
+};
+
+const applyWritesInBatches = async (agent: BskyAgent, repo: string, writes: ComAtprotoRepoApplyWrites.InputSchema['writes']) => {
+  for (let i = 0; i < writes.length; i += MAX_WRITES_PER_BATCH) {
+    await agent.com.atproto.repo.applyWrites({ repo, writes: writes.slice(i, i + MAX_WRITES_PER_BATCH) });
+  }
+};
+
+/** Deletes the list together with its listitem records, which would otherwise be left orphaned in the repo. */
+export const deleteList = async (agent: BskyAgent, listUri: string): Promise<void> => {
+  const { host: repo, rkey } = new AtUri(listUri);
+  const items = await fetchAllListItems(agent, listUri);
+  const writes: ComAtprotoRepoApplyWrites.InputSchema['writes'] = items
+    .filter(item => new AtUri(item.uri).host === repo)
+    .map(item => ({ $type: 'com.atproto.repo.applyWrites#delete', collection: 'app.bsky.graph.listitem', rkey: new AtUri(item.uri).rkey }));
+  writes.push({ $type: 'com.atproto.repo.applyWrites#delete', collection: 'app.bsky.graph.list', rkey });
+  await applyWritesInBatches(agent, repo, writes);
+};
+
+/** Adds `subjectDid` to the list and returns the new listitem URI. */
+export const addListMember = async (agent: BskyAgent, listUri: string, subjectDid: string): Promise<string> => {
+  const { host: repo } = new AtUri(listUri);
+  const { uri } = await agent.app.bsky.graph.listitem.create({ repo }, {
+    subject: subjectDid,
+    list: listUri,
+    createdAt: new Date().toISOString(),
+  });
+  return uri;
+};
+
+export const removeListMember = async (agent: BskyAgent, listItemUri: string): Promise<void> => {
+  const { host: repo, rkey } = new AtUri(listItemUri);
+  await agent.app.bsky.graph.listitem.delete({ repo, rkey });
+};
+
+/**
+ * Follows every account in `dids` with batched writes and returns how many follows
+ * were created. Callers should leave out accounts the viewer already follows.
+ */
+export const followAll = async (agent: BskyAgent, repo: string, dids: string[]): Promise<number> => {
+  const createdAt = new Date().toISOString();
+  const writes: ComAtprotoRepoApplyWrites.InputSchema['writes'] = dids.map(subject => ({
+    $type: 'com.atproto.repo.applyWrites#create',
+    collection: 'app.bsky.graph.follow',
+    value: { $type: 'app.bsky.graph.follow', subject, createdAt },
+  }));
+  await applyWritesInBatches(agent, repo, writes);
+  return dids.length;
+};
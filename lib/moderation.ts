@@ -1,22 +1,100 @@
 
-import { AppBskyFeedDefs, ComAtprotoLabelDefs, AppBskyActorDefs } from '@atproto/api';
+import {
+    AppBskyFeedDefs,
+    AppBskyFeedPost,
+    AppBskyActorDefs,
+    AppBskyEmbedImages,
+    AppBskyEmbedVideo,
+    AppBskyEmbedExternal,
+    AppBskyEmbedRecordWithMedia,
+    AppBskyRichtextFacet,
+    ComAtprotoLabelDefs,
+    ComAtprotoModerationDefs,
+} from '@atproto/api';
+import i18n from './i18n';
+
+// Bluesky's own moderation service, always available as a report destination
+export const BSKY_LABELER_DID = 'did:plc:ar7c4by46qjdydhdevvrndac';
 
 export type LabelVisibility = 'show' | 'warn' | 'hide';
 
+export type LabelDefinition = ComAtprotoLabelDefs.LabelValueDefinition;
+
 export interface ModerationDecision {
   visibility: LabelVisibility;
   reason?: string;
   source?: 'post' | 'author';
+  // What a 'warn' decision should cover: the whole post, or only its images and video
+  blur?: 'content' | 'media';
+  severity?: 'alert' | 'inform' | 'none';
+  labelerDid?: string;
 }
 
 interface ModerationPrefs {
     adultContentEnabled: boolean;
+    // Global preferences, keyed by label value
     labelPreferences: Map<string, LabelVisibility>;
+    // Per-labeler preferences for custom labels: labeler DID -> label value -> visibility
+    labelerPreferences: Map<string, Map<string, LabelVisibility>>;
+    // Custom label definitions declared in each labeler's app.bsky.labeler.service policies
+    labelDefinitions: Map<string, LabelDefinition[]>;
+    subscribedLabelers: string[];
     mutedWords: AppBskyActorDefs.MutedWord[];
 }
 
-// Define the labels that are considered "adult"
-const ADULT_LABELS = new Set(['porn', 'sexual', 'nudity']);
+const globalLabel = (identifier: string, defaultSetting: string, blurs: string, name: string, description: string, adultOnly = false): LabelDefinition => ({
+    identifier,
+    severity: blurs === 'content' ? 'alert' : 'none',
+    blurs,
+    defaultSetting,
+    adultOnly,
+    locales: [{ lang: 'en', name, description }],
+});
+
+/**
+ * Labels defined by the protocol and Bluesky rather than by a labeler. They apply whichever
+ * subscribed labeler (or the author, as a self-label) set them, and their preferences are global.
+ */
+export const GLOBAL_LABEL_DEFINITIONS: Record<string, LabelDefinition> = {
+    '!hide': globalLabel('!hide', 'hide', 'content', 'Hidden by moderators', 'This content has been hidden by the moderators.'),
+    '!warn': globalLabel('!warn', 'warn', 'content', 'Content warning', 'This content has received a general warning from moderators.'),
+    'porn': globalLabel('porn', 'hide', 'media', 'Adult Content', 'Explicit sexual images.', true),
+    'sexual': globalLabel('sexual', 'warn', 'media', 'Sexually Suggestive', 'Does not include nudity.', true),
+    'nudity': globalLabel('nudity', 'ignore', 'media', 'Non-sexual Nudity', 'e.g. artistic nudes.', true),
+    'graphic-media': globalLabel('graphic-media', 'warn', 'media', 'Graphic Media', 'Explicit or potentially disturbing media.'),
+    // Legacy value still set on older content
+    'gore': globalLabel('gore', 'warn', 'media', 'Graphic Media', 'Explicit or potentially disturbing media.'),
+};
+
+// Global labels whose visibility the user can choose; '!hide' and '!warn' are always enforced
+export const CONFIGURABLE_GLOBAL_LABELS = ['porn', 'sexual', 'nudity', 'graphic-media'];
+
+/** Maps a contentLabelPref or defaultSetting value onto the visibilities the app renders. */
+export const toLabelVisibility = (setting?: string): LabelVisibility | undefined => {
+    switch (setting) {
+        case 'hide': return 'hide';
+        case 'warn': return 'warn';
+        case 'ignore':
+        case 'show': return 'show';
+        default: return undefined;
+    }
+};
+
+/** Picks the label strings for `lang`, falling back to English and then to whatever the labeler provided. */
+export function getLabelStrings(def: LabelDefinition, lang: string) {
+    const base = lang.split('-')[0];
+    const strings = def.locales.find(l => l.lang === lang)
+        || def.locales.find(l => l.lang.split('-')[0] === base)
+        || def.locales.find(l => l.lang === 'en')
+        || def.locales[0];
+    return { name: strings?.name || def.identifier, description: strings?.description || '' };
+}
+
+export function getLabelDefinition(label: ComAtprotoLabelDefs.Label, prefs: Pick<ModerationPrefs, 'labelDefinitions'>): LabelDefinition | undefined {
+    return GLOBAL_LABEL_DEFINITIONS[label.val] || prefs.labelDefinitions.get(label.src)?.find(def => def.identifier === label.val);
+}
+
+const BLUR_RANK = { none: 0, media: 1, content: 2 };
 
 export function moderatePost(post: AppBskyFeedDefs.PostView, prefs: ModerationPrefs): ModerationDecision {
     // 1. Check if author is muted
@@ -24,15 +102,10 @@ export function moderatePost(post: AppBskyFeedDefs.PostView, prefs: ModerationPr
         return { visibility: 'hide', reason: 'Muted user' };
     }
 
-    // 2. Check for muted words in post text
-    const record = post.record as { text?: string };
-    if (record?.text && prefs.mutedWords.length > 0) {
-        const textLower = record.text.toLowerCase();
-        for (const muted of prefs.mutedWords) {
-            if (textLower.includes(muted.value.toLowerCase())) {
-                return { visibility: 'hide', reason: `Content contains muted word: "${muted.value}"` };
-            }
-        }
+    // 2. Check for muted words in post text, tags, alt text and link cards
+    const mutedWord = findMutedWord(post, prefs.mutedWords);
+    if (mutedWord) {
+        return { visibility: 'hide', reason: `Content contains muted word: "${mutedWord.value}"` };
     }
 
     let finalDecision: ModerationDecision = { visibility: 'show' };
@@ -43,26 +116,165 @@ export function moderatePost(post: AppBskyFeedDefs.PostView, prefs: ModerationPr
     ];
 
     for (const { label, source } of allLabels) {
-        const isAdult = ADULT_LABELS.has(label.val);
+        if (label.neg) continue;
+
+        const isGlobal = label.val in GLOBAL_LABEL_DEFINITIONS;
+        const isSelfLabel = label.src === post.author.did;
+        const isFromSubscribedLabeler = label.src === BSKY_LABELER_DID || prefs.subscribedLabelers.includes(label.src);
+        // Authors may only self-apply global labels; anything else must come from a labeler the user chose
+        if (!(isFromSubscribedLabeler || (isSelfLabel && isGlobal))) continue;
+
+        const def = getLabelDefinition(label, prefs);
+        // Labels without a definition carry no instructions for the client
+        if (!def) continue;
 
         // 3. Handle Adult Content global setting
-        if (isAdult && !prefs.adultContentEnabled) {
+        if (def.adultOnly && !prefs.adultContentEnabled) {
             return { visibility: 'hide', reason: 'Adult Content', source };
         }
 
-        // 4. Get user preference for this label
-        const userVisibility = prefs.labelPreferences.get(label.val);
+        // 4. Get user preference for this label, falling back to the labeler's default
+        const userVisibility = def.identifier.startsWith('!')
+            ? toLabelVisibility(def.defaultSetting)
+            : (isGlobal
+                ? prefs.labelPreferences.get(label.val)
+                : prefs.labelerPreferences.get(label.src)?.get(label.val)) || toLabelVisibility(def.defaultSetting);
 
-        if (userVisibility) {
-            // Apply user preference, escalating from 'show' to 'warn' to 'hide'
-            if (userVisibility === 'hide') {
-                return { visibility: 'hide', reason: `Content labeled as "${label.val}"`, source };
-            }
-            if (userVisibility === 'warn' && finalDecision.visibility !== 'hide') {
-                finalDecision = { visibility: 'warn', reason: `${label.val}`, source };
+        const reason = getLabelStrings(def, i18n.language || 'en').name;
+        const severity = def.severity as ModerationDecision['severity'];
+        if (userVisibility === 'hide') {
+            return { visibility: 'hide', reason, source, severity, labelerDid: label.src };
+        }
+        // A label that blurs nothing only informs, so there is nothing to put behind a warning
+        if (userVisibility === 'warn' && (def.blurs === 'content' || def.blurs === 'media')) {
+            const blur = def.blurs as 'content' | 'media';
+            // Escalate from 'show' to 'warn', and from a media warning to a whole-post warning
+            if (finalDecision.visibility === 'show' || BLUR_RANK[blur] > BLUR_RANK[finalDecision.blur || 'none']) {
+                finalDecision = { visibility: 'warn', reason, source, blur, severity, labelerDid: label.src };
             }
         }
     }
-    
+
     return finalDecision;
-}
\ No newline at end of file
+}
+
+// --- Muted words ---
+
+// Scripts written without spaces between words, where a muted word can only be found as a substring
+const NO_WORD_BOUNDARY_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+const NO_WORD_BOUNDARY_LANGS = new Set(['ja', 'zh', 'ko', 'th', 'vi']);
+// Apostrophes are kept so contractions stay one word and muting "don" doesn't hide "don't"
+const WORD_SEPARATOR = /(?:[\s\p{S}]|(?!['’])\p{P})+/u;
+
+export const isMutedWordExpired = (word: AppBskyActorDefs.MutedWord, now = Date.now()) =>
+    !!word.expiresAt && new Date(word.expiresAt).getTime() <= now;
+
+const normalizeTag = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+
+/** Hashtags of a post, from both inline tag facets and the record's outline `tags`. */
+function getPostTags(record: AppBskyFeedPost.Record): string[] {
+    const tags = (record.tags || []).map(normalizeTag);
+    for (const facet of record.facets || []) {
+        for (const feature of facet.features) {
+            if (AppBskyRichtextFacet.isTag(feature)) tags.push(normalizeTag((feature as AppBskyRichtextFacet.Tag).tag));
+        }
+    }
+    return tags;
+}
+
+/** Every piece of text a muted word with the 'content' target applies to: post text, image alt text and link cards. */
+function getPostContentTexts(post: AppBskyFeedDefs.PostView, record: AppBskyFeedPost.Record): string[] {
+    const texts = [record.text];
+    const embed = AppBskyEmbedRecordWithMedia.isView(post.embed)
+        ? (post.embed as AppBskyEmbedRecordWithMedia.View).media
+        : post.embed;
+    switch (embed?.$type) {
+        case 'app.bsky.embed.images#view':
+            texts.push(...(embed as AppBskyEmbedImages.View).images.map(image => image.alt));
+            break;
+        case 'app.bsky.embed.video#view':
+            texts.push((embed as AppBskyEmbedVideo.View).alt || '');
+            break;
+        case 'app.bsky.embed.external#view': {
+            const { external } = embed as AppBskyEmbedExternal.View;
+            texts.push(external.title, external.description);
+            break;
+        }
+    }
+    return texts.filter(Boolean).map(text => text.toLowerCase());
+}
+
+function textContainsWord(text: string, word: string, matchSubstring: boolean): boolean {
+    if (word.length > text.length) return false;
+    if (matchSubstring || NO_WORD_BOUNDARY_SCRIPTS.test(word)) return text.includes(word);
+    // Phrases and words with punctuation (e.g. "e.g." or "new york") can't be split into words
+    if (WORD_SEPARATOR.test(word)) {
+        const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[\\s\\p{P}\\p{S}])${escaped}($|[\\s\\p{P}\\p{S}])`, 'u').test(text);
+    }
+    return text.split(WORD_SEPARATOR).includes(word);
+}
+
+/**
+ * Returns the first muted word that applies to a post, following the app.bsky.actor.defs#mutedWord semantics:
+ * expired words are ignored, 'exclude-following' words skip authors the user follows, 'tag' words match hashtags
+ * and 'content' words additionally match whole words in the text, alt text and link card.
+ */
+export function findMutedWord(post: AppBskyFeedDefs.PostView, mutedWords: AppBskyActorDefs.MutedWord[]): AppBskyActorDefs.MutedWord | undefined {
+    if (mutedWords.length === 0) return undefined;
+    const record = post.record as AppBskyFeedPost.Record;
+    if (!record) return undefined;
+
+    const now = Date.now();
+    const isFollowing = !!post.author.viewer?.following;
+    const tags = getPostTags(record);
+    const matchSubstring = (record.langs || []).some(lang => NO_WORD_BOUNDARY_LANGS.has(lang.split('-')[0]));
+    let texts: string[] | undefined;
+
+    return mutedWords.find(muted => {
+        if (isMutedWordExpired(muted, now)) return false;
+        if (muted.actorTarget === 'exclude-following' && isFollowing) return false;
+
+        const word = muted.value.trim().toLowerCase();
+        if (!word) return false;
+        if (tags.includes(normalizeTag(word))) return true;
+        if (!muted.targets.includes('content')) return false;
+
+        texts ??= getPostContentTexts(post, record);
+        return texts.some(text => textContainsWord(text, word, matchSubstring));
+    });
+}
+
+// --- Reporting ---
+
+export type ReportSubject =
+    | { type: 'post'; uri: string; cid: string }
+    | { type: 'account'; did: string }
+    | { type: 'feed'; uri: string; cid: string };
+
+export const REPORT_REASONS = [
+    { id: 'spam', reasonType: ComAtprotoModerationDefs.REASONSPAM },
+    { id: 'violation', reasonType: ComAtprotoModerationDefs.REASONVIOLATION },
+    { id: 'misleading', reasonType: ComAtprotoModerationDefs.REASONMISLEADING },
+    { id: 'sexual', reasonType: ComAtprotoModerationDefs.REASONSEXUAL },
+    { id: 'rude', reasonType: ComAtprotoModerationDefs.REASONRUDE },
+    { id: 'other', reasonType: ComAtprotoModerationDefs.REASONOTHER },
+] as const;
+
+export type ReportReasonId = typeof REPORT_REASONS[number]['id'];
+
+/**
+ * Builds the `subject` of a com.atproto.moderation.createReport call.
+ * Accounts are referenced by DID, posts and feed generators by strong ref.
+ */
+export function getReportSubjectRef(subject: ReportSubject) {
+    if (subject.type === 'account') {
+        return { $type: 'com.atproto.admin.defs#repoRef', did: subject.did };
+    }
+    return { $type: 'com.atproto.repo.strongRef', uri: subject.uri, cid: subject.cid };
+}
+
+/** Maps a report subject onto the labeler `subjectTypes` vocabulary. */
+export function getReportSubjectType(subject: ReportSubject): ComAtprotoModerationDefs.SubjectType {
+    return subject.type === 'account' ? 'account' : 'record';
+}
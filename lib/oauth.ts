@@ -0,0 +1,392 @@
+import { AtpSessionData } from '@atproto/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { OAUTH_CONFIG } from './config';
+import { getPdsEndpoint, resolveActorDid, resolveDidDocument } from './identity';
+
+/**
+ * atproto OAuth for public browser clients: PKCE, pushed authorization requests (PAR)
+ * and DPoP-bound tokens, as described in https://atproto.com/specs/oauth.
+ *
+ * Tokens are stored as a regular AtpSessionData (access token in `accessJwt`, refresh
+ * token in `refreshJwt`) and the agent talks to the PDS through `createDpopFetch`, which
+ * turns the Bearer requests made by the agent into DPoP requests and maps the agent's
+ * refreshSession/deleteSession calls onto the token and revocation endpoints.
+ */
+
+const PENDING_REQUEST_KEY = 'takaka-oauth-pending';
+
+/** What is kept next to an OAuth account's session in the credentials store. */
+export interface OAuthSessionInfo {
+  issuer: string;
+  clientId: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  // Private ES256 key the tokens are bound to, as a JWK
+  dpopKey: JsonWebKey;
+}
+
+export interface OAuthLoginResult {
+  session: AtpSessionData;
+  serviceUrl: string;
+  oauth: OAuthSessionInfo;
+}
+
+export interface OAuthCallbackParams {
+  code?: string;
+  state?: string;
+  iss?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  pushed_authorization_request_endpoint?: string;
+  revocation_endpoint?: string;
+  dpop_signing_alg_values_supported?: string[];
+}
+
+interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  dpopKey: JsonWebKey;
+  clientId: string;
+  redirectUri: string;
+  server: AuthorizationServerMetadata;
+  // Known when the flow started from a handle or DID rather than a server address
+  expectedDid?: string;
+  handle?: string;
+  createdAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+  sub: string;
+  scope: string;
+  expires_in?: number;
+}
+
+interface DpopKey {
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+}
+
+// --- Encoding and crypto helpers ---
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const encodeJson = (value: object) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const randomString = (byteLength: number) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const sha256 = async (value: string) =>
+  base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))));
+
+const generateDpopKey = async (): Promise<JsonWebKey> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  return crypto.subtle.exportKey('jwk', keyPair.privateKey);
+};
+
+const importDpopKey = async (jwk: JsonWebKey): Promise<DpopKey> => {
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+  return { privateKey, publicJwk: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y } };
+};
+
+const createDpopProof = async (key: DpopKey, method: string, url: string, nonce?: string, accessToken?: string) => {
+  const { origin, pathname } = new URL(url);
+  const header = { typ: 'dpop+jwt', alg: 'ES256', jwk: key.publicJwk };
+  const payload = {
+    jti: randomString(16),
+    htm: method.toUpperCase(),
+    htu: `${origin}${pathname}`,
+    iat: Math.floor(Date.now() / 1000),
+    ...(nonce ? { nonce } : {}),
+    ...(accessToken ? { ath: await sha256(accessToken) } : {}),
+  };
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  // WebCrypto produces the raw r||s signature JWS expects for ES256
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+const isUseDpopNonceError = async (response: Response) => {
+  if (response.status === 401) {
+    return (response.headers.get('WWW-Authenticate') || '').includes('use_dpop_nonce');
+  }
+  if (response.status !== 400) return false;
+  try {
+    const body = await response.clone().json();
+    return body?.error === 'use_dpop_nonce';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sends `request` with a DPoP proof, retrying once when the server asks for a fresh nonce.
+ * Nonces are remembered per origin in `nonces`.
+ */
+const fetchWithDpop = async (key: DpopKey, nonces: Map<string, string>, request: Request, accessToken?: string) => {
+  const send = async (req: Request) => {
+    const { origin } = new URL(req.url);
+    req.headers.set('DPoP', await createDpopProof(key, req.method, req.url, nonces.get(origin), accessToken));
+    const response = await fetch(req);
+    const nonce = response.headers.get('DPoP-Nonce');
+    if (nonce) nonces.set(origin, nonce);
+    return response;
+  };
+
+  const retry = request.clone();
+  const response = await send(request);
+  if (!(await isUseDpopNonceError(response))) return response;
+  return send(retry);
+};
+
+const formRequest = (url: string, params: Record<string, string | undefined>) => {
+  const body = new URLSearchParams();
+  Object.entries(params).forEach(([name, value]) => { if (value !== undefined) body.set(name, value); });
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: body.toString(),
+  });
+};
+
+const readOAuthError = async (response: Response, fallback: string) => {
+  try {
+    const body = await response.json();
+    return new Error(body.error_description || body.error || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+};
+
+// --- Server discovery ---
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`Request to ${url} failed with status ${response.status}`);
+  return response.json();
+};
+
+const resolvePdsUrl = async (did: string): Promise<string> => {
+  const pdsUrl = getPdsEndpoint(await resolveDidDocument(did));
+  if (!pdsUrl) throw new Error(`No PDS found for ${did}`);
+  return pdsUrl;
+};
+
+const sameOrigin = (a: string, b: string) => {
+  try {
+    return new URL(a).origin === new URL(b).origin;
+  } catch {
+    return false;
+  }
+};
+
+/** Finds the authorization server protecting `serviceUrl`, which may itself be the server (an entryway). */
+const getAuthorizationServer = async (serviceUrl: string): Promise<AuthorizationServerMetadata> => {
+  let issuer = new URL(serviceUrl).origin;
+  try {
+    const resource = await fetchJson<{ authorization_servers?: string[] }>(`${issuer}/.well-known/oauth-protected-resource`);
+    if (resource.authorization_servers?.[0]) issuer = resource.authorization_servers[0];
+  } catch {
+    // Not a resource server; try it as an authorization server
+  }
+  const metadata = await fetchJson<AuthorizationServerMetadata>(`${new URL(issuer).origin}/.well-known/oauth-authorization-server`);
+  if (!sameOrigin(metadata.issuer, issuer)) throw new Error('Authorization server issuer mismatch');
+  if (!metadata.pushed_authorization_request_endpoint) throw new Error('Authorization server does not support pushed authorization requests');
+  if (metadata.dpop_signing_alg_values_supported && !metadata.dpop_signing_alg_values_supported.includes('ES256')) {
+    throw new Error('Authorization server does not support ES256 DPoP proofs');
+  }
+  return metadata;
+};
+
+// --- Client identity ---
+
+/** OAuth needs WebCrypto for DPoP, which is only available on web. */
+export const isOAuthSupported = (): boolean =>
+  Platform.OS === 'web' && typeof window !== 'undefined' && !!globalThis.crypto?.subtle;
+
+const isLoopbackHost = (hostname: string) => hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+
+const getOAuthClient = () => {
+  const { hostname, port, protocol, origin } = window.location;
+  if (isLoopbackHost(hostname)) {
+    // Development clients have no metadata document and must redirect to an IP literal. The pending
+    // request lives in this origin's storage, so the app has to be opened on that address too.
+    if (hostname === 'localhost') throw new Error('Open the app on http://127.0.0.1 to sign in with OAuth during development');
+    const redirectUri = `${protocol}//${hostname}${port ? `:${port}` : ''}${OAUTH_CONFIG.CALLBACK_PATH}`;
+    const clientId = `http://localhost?redirect_uri=${encodeURIComponent(redirectUri)}&scope=${encodeURIComponent(OAUTH_CONFIG.SCOPE)}`;
+    return { clientId, redirectUri };
+  }
+  return { clientId: `${origin}${OAUTH_CONFIG.CLIENT_METADATA_PATH}`, redirectUri: `${origin}${OAUTH_CONFIG.CALLBACK_PATH}` };
+};
+
+// --- Flow ---
+
+/**
+ * Starts an authorization request and returns the URL to send the browser to. `identifier`
+ * may be a handle or DID; when empty the flow starts from `serviceUrl` and the account is
+ * picked on the authorization server.
+ */
+export const startOAuthLogin = async (params: { identifier?: string; serviceUrl: string }): Promise<string> => {
+  if (!isOAuthSupported()) throw new Error('OAuth sign-in is not supported on this platform');
+  const identifier = params.identifier?.trim().replace(/^@/, '');
+
+  let expectedDid: string | undefined;
+  let serviceUrl = params.serviceUrl;
+  if (identifier) {
+    expectedDid = await resolveActorDid(identifier);
+    serviceUrl = await resolvePdsUrl(expectedDid);
+  }
+
+  const server = await getAuthorizationServer(serviceUrl);
+  const { clientId, redirectUri } = getOAuthClient();
+  const pending: PendingAuthorization = {
+    state: randomString(16),
+    codeVerifier: randomString(32),
+    dpopKey: await generateDpopKey(),
+    clientId,
+    redirectUri,
+    server,
+    expectedDid,
+    handle: identifier && !identifier.startsWith('did:') ? identifier : undefined,
+    createdAt: Date.now(),
+  };
+
+  const key = await importDpopKey(pending.dpopKey);
+  const response = await fetchWithDpop(key, new Map(), formRequest(server.pushed_authorization_request_endpoint!, {
+    client_id: clientId,
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    scope: OAUTH_CONFIG.SCOPE,
+    state: pending.state,
+    code_challenge: await sha256(pending.codeVerifier),
+    code_challenge_method: 'S256',
+    login_hint: identifier || undefined,
+  }));
+  if (!response.ok) throw await readOAuthError(response, 'Pushed authorization request failed');
+  const { request_uri } = await response.json();
+
+  await AsyncStorage.setItem(PENDING_REQUEST_KEY, JSON.stringify(pending));
+  return `${server.authorization_endpoint}?client_id=${encodeURIComponent(clientId)}&request_uri=${encodeURIComponent(request_uri)}`;
+};
+
+/** Exchanges the authorization code from the callback route for a DPoP-bound session. */
+export const finishOAuthLogin = async (params: OAuthCallbackParams): Promise<OAuthLoginResult> => {
+  const stored = await AsyncStorage.getItem(PENDING_REQUEST_KEY);
+  await AsyncStorage.removeItem(PENDING_REQUEST_KEY);
+  const pending: PendingAuthorization | null = stored ? JSON.parse(stored) : null;
+
+  if (params.error) throw new Error(params.error_description || params.error);
+  if (!pending || Date.now() - pending.createdAt > OAUTH_CONFIG.PENDING_REQUEST_TTL_MS) throw new Error('No pending sign-in request');
+  if (!params.state || params.state !== pending.state) throw new Error('OAuth state mismatch');
+  if (!params.code) throw new Error('Missing authorization code');
+  if (params.iss && !sameOrigin(params.iss, pending.server.issuer)) throw new Error('Authorization server issuer mismatch');
+
+  const key = await importDpopKey(pending.dpopKey);
+  const response = await fetchWithDpop(key, new Map(), formRequest(pending.server.token_endpoint, {
+    grant_type: 'authorization_code',
+    client_id: pending.clientId,
+    redirect_uri: pending.redirectUri,
+    code: params.code,
+    code_verifier: pending.codeVerifier,
+  }));
+  if (!response.ok) throw await readOAuthError(response, 'Token request failed');
+  const token: TokenResponse = await response.json();
+
+  if (token.token_type !== 'DPoP') throw new Error('Authorization server did not issue a DPoP token');
+  if (!token.scope.split(' ').includes('atproto')) throw new Error('Authorization server did not grant the atproto scope');
+  if (pending.expectedDid && token.sub !== pending.expectedDid) throw new Error('Signed in as a different account than requested');
+
+  // The account's own PDS must be protected by the server that issued the token
+  const serviceUrl = await resolvePdsUrl(token.sub);
+  if (!pending.expectedDid) {
+    const server = await getAuthorizationServer(serviceUrl);
+    if (!sameOrigin(server.issuer, pending.server.issuer)) throw new Error('Authorization server is not authoritative for this account');
+  }
+
+  return {
+    session: {
+      did: token.sub,
+      // Replaced with the real handle once the agent resumes the session
+      handle: pending.handle || token.sub,
+      accessJwt: token.access_token,
+      refreshJwt: token.refresh_token || '',
+      active: true,
+    },
+    serviceUrl,
+    oauth: {
+      issuer: pending.server.issuer,
+      clientId: pending.clientId,
+      tokenEndpoint: pending.server.token_endpoint,
+      revocationEndpoint: pending.server.revocation_endpoint,
+      dpopKey: pending.dpopKey,
+    },
+  };
+};
+
+export const revokeOAuthSession = async (oauth: OAuthSessionInfo, token: string): Promise<void> => {
+  if (!oauth.revocationEndpoint) return;
+  const key = await importDpopKey(oauth.dpopKey);
+  await fetchWithDpop(key, new Map(), formRequest(oauth.revocationEndpoint, { client_id: oauth.clientId, token }));
+};
+
+const xrpcResponse = (status: number, body: object) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * A fetch for BskyAgent that authenticates with the DPoP-bound OAuth session instead of
+ * Bearer JWTs. `getHandle` supplies the handle reported back after a token refresh.
+ */
+export const createDpopFetch = (oauth: OAuthSessionInfo, getHandle: () => string | undefined): typeof fetch => {
+  const nonces = new Map<string, string>();
+  let keyPromise: Promise<DpopKey> | undefined;
+  const getKey = () => (keyPromise ??= importDpopKey(oauth.dpopKey));
+
+  const refresh = async (refreshToken: string) => {
+    const response = await fetchWithDpop(await getKey(), nonces, formRequest(oauth.tokenEndpoint, {
+      grant_type: 'refresh_token',
+      client_id: oauth.clientId,
+      refresh_token: refreshToken,
+    }));
+    if (!response.ok) {
+      // A rejected refresh token ends the session, the same as ExpiredToken from refreshSession
+      const error = await readOAuthError(response, 'Token refresh failed');
+      return xrpcResponse(400, { error: response.status < 500 ? 'ExpiredToken' : 'InternalServerError', message: error.message });
+    }
+    const token: TokenResponse = await response.json();
+    return xrpcResponse(200, { accessJwt: token.access_token, refreshJwt: token.refresh_token || refreshToken, did: token.sub, handle: getHandle() || token.sub });
+  };
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) return fetch(request);
+    const token = authorization.slice('Bearer '.length);
+    const { pathname } = new URL(request.url);
+
+    if (pathname.endsWith('/xrpc/com.atproto.server.refreshSession')) return refresh(token);
+    if (pathname.endsWith('/xrpc/com.atproto.server.deleteSession')) {
+      await revokeOAuthSession(oauth, token).catch(() => {});
+      return xrpcResponse(200, {});
+    }
+
+    request.headers.set('Authorization', `DPoP ${token}`);
+    const response = await fetchWithDpop(await getKey(), nonces, request, token);
+    // Resource servers report expired access tokens as a 401 invalid_token; the agent only refreshes on ExpiredToken
+    if (response.status === 401 && (response.headers.get('WWW-Authenticate') || '').includes('invalid_token')) {
+      return xrpcResponse(400, { error: 'ExpiredToken', message: 'Access token expired' });
+    }
+    return response;
+  };
+};
@@ -0,0 +1,270 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppBskyActorDefs, AppBskyFeedDefs } from '@atproto/api';
+import { OFFLINE_CACHE_CONFIG } from './config';
+
+/**
+ * Persistent cache of feed pages and profiles, so content renders on cold start and
+ * without a network. Entries are keyed by viewer (viewer state such as likes and
+ * follows is per account) and evicted by age, count and total size.
+ */
+
+export interface CachedFeedPage {
+  posts: AppBskyFeedDefs.FeedViewPost[];
+  cursor?: string;
+}
+
+export interface CachedFeed {
+  pages: CachedFeedPage[];
+  updatedAt: number;
+}
+
+type StoreName = 'feeds' | 'profiles';
+
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  updatedAt: number;
+  size: number;
+}
+
+type CacheRecordMeta = Omit<CacheRecord<unknown>, 'value'>;
+
+interface OfflineStore {
+  get: <T>(store: StoreName, key: string) => Promise<CacheRecord<T> | undefined>;
+  put: <T>(store: StoreName, record: CacheRecord<T>) => Promise<void>;
+  delete: (store: StoreName, keys: string[]) => Promise<void>;
+  list: (store: StoreName) => Promise<CacheRecordMeta[]>;
+  clear: () => Promise<void>;
+}
+
+const STORES: StoreName[] = ['feeds', 'profiles'];
+
+const STORE_LIMITS: Record<StoreName, number> = {
+  feeds: OFFLINE_CACHE_CONFIG.MAX_FEEDS,
+  profiles: OFFLINE_CACHE_CONFIG.MAX_PROFILES,
+};
+
+// --- IndexedDB (web) ---
+
+const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const createIndexedDbStore = (): OfflineStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(OFFLINE_CACHE_CONFIG.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        STORES.forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath: 'key' });
+        });
+      };
+      dbPromise = promisifyRequest(request);
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+  const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, run: (objectStore: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    return promisifyRequest(run(db.transaction(store, mode).objectStore(store)));
+  };
+
+  return {
+    get: (store, key) => withStore(store, 'readonly', objectStore => objectStore.get(key)),
+    put: async (store, record) => { await withStore(store, 'readwrite', objectStore => objectStore.put(record)); },
+    delete: async (store, keys) => {
+      await Promise.all(keys.map(key => withStore(store, 'readwrite', objectStore => objectStore.delete(key))));
+    },
+    list: async (store) => {
+      const records: CacheRecord<unknown>[] = await withStore(store, 'readonly', objectStore => objectStore.getAll());
+      return records.map(({ key, updatedAt, size }) => ({ key, updatedAt, size }));
+    },
+    clear: async () => {
+      await Promise.all(STORES.map(store => withStore(store, 'readwrite', objectStore => objectStore.clear())));
+    },
+  };
+};
+
+// --- AsyncStorage (native) ---
+
+const createAsyncStorageStore = (): OfflineStore => {
+  const prefix = `${OFFLINE_CACHE_CONFIG.DB_NAME}:`;
+  const recordKey = (store: StoreName, key: string) => `${prefix}${store}:${key}`;
+  // Metadata lives in one index entry per store so eviction doesn't have to read every record
+  const indexKey = (store: StoreName) => `${prefix}${store}-index`;
+
+  const readIndex = async (store: StoreName): Promise<CacheRecordMeta[]> => {
+    const raw = await AsyncStorage.getItem(indexKey(store));
+    return raw ? JSON.parse(raw) : [];
+  };
+  const writeIndex = (store: StoreName, index: CacheRecordMeta[]) => AsyncStorage.setItem(indexKey(store), JSON.stringify(index));
+
+  // Index updates are read-modify-write, so concurrent puts would drop each other's entries.
+  // Each store's updates run one after another on its own chain.
+  const indexQueues = new Map<StoreName, Promise<void>>();
+  const updateIndex = (store: StoreName, update: (index: CacheRecordMeta[]) => CacheRecordMeta[]) => {
+    const next = (indexQueues.get(store) ?? Promise.resolve())
+      .then(async () => writeIndex(store, update(await readIndex(store))));
+    // A failed update shouldn't block the ones queued after it
+    indexQueues.set(store, next.catch(() => undefined));
+    return next;
+  };
+
+  return {
+    get: async (store, key) => {
+      const raw = await AsyncStorage.getItem(recordKey(store, key));
+      return raw ? JSON.parse(raw) : undefined;
+    },
+    put: async (store, record) => {
+      await AsyncStorage.setItem(recordKey(store, record.key), JSON.stringify(record));
+      await updateIndex(store, index => [
+        ...index.filter(meta => meta.key !== record.key),
+        { key: record.key, updatedAt: record.updatedAt, size: record.size },
+      ]);
+    },
+    delete: async (store, keys) => {
+      await AsyncStorage.multiRemove(keys.map(key => recordKey(store, key)));
+      const removed = new Set(keys);
+      await updateIndex(store, index => index.filter(meta => !removed.has(meta.key)));
+    },
+    list: readIndex,
+    clear: async () => {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)));
+    },
+  };
+};
+
+let offlineStore: OfflineStore | null | undefined;
+const getStore = (): OfflineStore | null => {
+  if (offlineStore === undefined) {
+    if (Platform.OS === 'web') {
+      offlineStore = typeof indexedDB !== 'undefined' ? createIndexedDbStore() : null;
+    } else {
+      offlineStore = createAsyncStorageStore();
+    }
+  }
+  return offlineStore;
+};
+
+// --- Eviction ---
+
+/** Drops expired entries, then the least recently updated ones until the store fits its limits. */
+const evict = async (store: OfflineStore, name: StoreName) => {
+  const now = Date.now();
+  const entries = (await store.list(name)).sort((a, b) => b.updatedAt - a.updatedAt);
+  const evicted: string[] = [];
+  let totalSize = 0;
+  entries.forEach((entry, index) => {
+    totalSize += entry.size;
+    if (now - entry.updatedAt > OFFLINE_CACHE_CONFIG.MAX_AGE_MS || index >= STORE_LIMITS[name] || totalSize > OFFLINE_CACHE_CONFIG.MAX_BYTES) {
+      evicted.push(entry.key);
+      totalSize -= entry.size;
+    }
+  });
+  if (evicted.length > 0) await store.delete(name, evicted);
+};
+
+// Writes to the same key are chained so appended pages never race a replacement
+const pendingWrites = new Map<string, Promise<void>>();
+
+const enqueueWrite = (key: string, write: () => Promise<void>) => {
+  const previous = pendingWrites.get(key) ?? Promise.resolve();
+  const next = previous.then(write).catch(error => console.warn('Offline cache write failed:', error));
+  pendingWrites.set(key, next);
+  next.finally(() => { if (pendingWrites.get(key) === next) pendingWrites.delete(key); });
+  return next;
+};
+
+const putRecord = async <T>(store: OfflineStore, name: StoreName, key: string, value: T) => {
+  const size = JSON.stringify(value).length;
+  // A single entry larger than the whole budget would only evict everything else
+  if (size > OFFLINE_CACHE_CONFIG.MAX_BYTES) return;
+  await store.put(name, { key, value, updatedAt: Date.now(), size });
+  await evict(store, name);
+};
+
+const readRecord = async <T>(name: StoreName, key: string): Promise<CacheRecord<T> | undefined> => {
+  const store = getStore();
+  if (!store) return undefined;
+  try {
+    const record = await store.get<T>(name, key);
+    if (!record || Date.now() - record.updatedAt > OFFLINE_CACHE_CONFIG.MAX_AGE_MS) return undefined;
+    return record;
+  } catch (error) {
+    console.warn('Offline cache read failed:', error);
+    return undefined;
+  }
+};
+
+// --- Feeds ---
+
+/** Builds the cache key for a feed; `parts` identify the feed (uri, filters, layout). */
+export const getFeedCacheKey = (viewerDid: string | undefined, parts: (string | undefined)[]) =>
+  [viewerDid ?? 'public', ...parts.map(part => part ?? '')].join('|');
+
+export const readCachedFeed = async (key: string): Promise<CachedFeed | undefined> => {
+  const record = await readRecord<CachedFeedPage[]>('feeds', key);
+  return record && record.value.length > 0 ? { pages: record.value, updatedAt: record.updatedAt } : undefined;
+};
+
+/**
+ * Stores a freshly loaded page. `replace` starts the feed over (initial load or
+ * refresh); otherwise the page is appended and only the newest pages are kept.
+ */
+export const writeFeedPage = (key: string, page: CachedFeedPage, replace: boolean) => {
+  const store = getStore();
+  if (!store || page.posts.length === 0) return Promise.resolve();
+  return enqueueWrite(`feeds:${key}`, async () => {
+    const existing = replace ? [] : (await store.get<CachedFeedPage[]>('feeds', key))?.value ?? [];
+    const pages = [...existing, page].slice(-OFFLINE_CACHE_CONFIG.MAX_PAGES_PER_FEED);
+    await putRecord(store, 'feeds', key, pages);
+  });
+};
+
+// --- Profiles ---
+
+const getProfileCacheKey = (viewerDid: string | undefined, actor: string) => `${viewerDid ?? 'public'}|${actor.toLowerCase()}`;
+
+export const readCachedProfile = async (viewerDid: string | undefined, actor: string) =>
+  (await readRecord<AppBskyActorDefs.ProfileViewDetailed>('profiles', getProfileCacheKey(viewerDid, actor)))?.value;
+
+/** Stores the profile under both its DID and handle, matching how screens look profiles up. */
+export const writeCachedProfile = (viewerDid: string | undefined, profile: AppBskyActorDefs.ProfileViewDetailed) => {
+  const store = getStore();
+  if (!store) return Promise.resolve();
+  return enqueueWrite(`profiles:${profile.did}`, async () => {
+    await store.put('profiles', { key: getProfileCacheKey(viewerDid, profile.handle), value: profile, updatedAt: Date.now(), size: JSON.stringify(profile).length });
+    await putRecord(store, 'profiles', getProfileCacheKey(viewerDid, profile.did), profile);
+  });
+};
+
+// --- Maintenance ---
+
+/** Clears everything, or only the entries cached for `viewerDid` (e.g. when that account signs out). */
+export const clearOfflineCache = async (viewerDid?: string): Promise<void> => {
+  const store = getStore();
+  if (!store) return;
+  try {
+    if (!viewerDid) {
+      await store.clear();
+      return;
+    }
+    await Promise.all(STORES.map(async name => {
+      const keys = (await store.list(name)).map(meta => meta.key).filter(key => key.startsWith(`${viewerDid}|`));
+      if (keys.length > 0) await store.delete(name, keys);
+    }));
+  } catch (error) {
+    console.warn('Failed to clear offline cache:', error);
+  }
+};
+
+/** Whether a request failed because the network is unreachable rather than because the server refused it. */
+export const isNetworkError = (error: any): boolean => {
+  if (Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = String(error?.message ?? '');
+  return error instanceof TypeError || /network request failed|failed to fetch|networkerror|load failed/i.test(message);
+};
@@ -4,6 +4,7 @@
  */
 
 import { BskyAgent } from '@atproto/api';
+import { isValidDid, isValidHandle } from './identity';
 
 // Configuração para API pública
 const PUBLIC_API_CONFIG = {
@@ -13,19 +14,6 @@ const PUBLIC_API_CONFIG = {
   retryDelay: 1000 // 1 segundo
 };
 
-// Utilitários de validação
-const isValidHandle = (handle: string): boolean => {
-  // Handle deve ter formato: exemplo.bsky.social ou @exemplo.bsky.social
-  const handleRegex = /^@?[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
-  return handleRegex.test(handle.replace('@', ''));
-};
-
-const isValidDid = (did: string): boolean => {
-  // DID deve ter formato: did:plc:xxxxxxxxxxxxxxxxxxxxxxxx
-  const didRegex = /^did:plc:[a-z2-7]{24}$/;
-  return didRegex.test(did);
-};
-
 const normalizeActor = (actor: string): string => {
   // Remove @ se presente e normaliza
   return actor.replace('@', '').toLowerCase();
@@ -0,0 +1,190 @@
+import { AtUri, AppBskyFeedPost, AppBskyRichtextFacet, BskyAgent, RichText } from '@atproto/api';
+import { InteractionSettings, buildThreadgateAllow, buildPostgateEmbeddingRules } from './threadgate';
+import { MEDIA_CONFIG } from './config';
+import { processImage } from './imageProcessing';
+import { uploadVideo, uploadCaptions, VideoCaption, VideoUploadStatus } from './videoUpload';
+import { LinkMetadata, createExternalEmbed } from './linkCards';
+
+export interface StrongRef {
+    uri: string;
+    cid: string;
+}
+
+export interface PublishMedia {
+    // A local file: a file:// URI on native, a data: or blob: URL on web
+    asset: { uri: string; mimeType?: string | null; width?: number; height?: number };
+    type: 'image' | 'video' | 'gif';
+    alt?: string;
+    // Videos only
+    captions?: VideoCaption[];
+}
+
+export interface PublishSegment {
+    text: string;
+    // Detected when the post is published if not provided
+    facets?: AppBskyRichtextFacet.Main[];
+    media: PublishMedia[];
+    // Embedded as an external link card when the segment has no media
+    linkCard?: LinkMetadata;
+    // Already published segments are skipped but still anchor the next reply
+    posted?: StrongRef;
+}
+
+export interface PublishThreadInput {
+    segments: PublishSegment[];
+    langs: string[];
+    replyTo?: StrongRef;
+    interaction?: InteractionSettings;
+}
+
+export interface PublishCallbacks {
+    onUploadProgress?: (segmentIndex: number, mediaIndex: number, progress: number) => void;
+    // Videos report their upload and then the video service's processing
+    onVideoStatus?: (segmentIndex: number, mediaIndex: number, status: VideoUploadStatus) => void;
+    // Aborts a video upload or processing wait; anything already posted stays up
+    signal?: AbortSignal;
+    // Called as each segment goes up, so a thread that fails halfway can be resumed
+    onSegmentPosted?: (segmentIndex: number, posted: StrongRef) => void;
+}
+
+const getAspectRatio = ({ asset }: PublishMedia) =>
+    asset.width && asset.height ? { width: asset.width, height: asset.height } : undefined;
+
+const uploadMedia = async (agent: BskyAgent, media: PublishMedia, onProgress: (progress: number) => void) => {
+    onProgress(0);
+    let blob = await (await fetch(media.asset.uri)).blob();
+    // The composer compresses images as they're picked; this catches drafts saved before it did
+    if (media.type === 'image' && blob.size > MEDIA_CONFIG.MAX_IMAGE_BLOB_BYTES && media.asset.width && media.asset.height) {
+        const processed = await processImage({ uri: media.asset.uri, width: media.asset.width, height: media.asset.height });
+        blob = await (await fetch(processed.uri)).blob();
+    }
+    const fileBytes = new Uint8Array(await blob.arrayBuffer());
+    onProgress(50);
+    const { data } = await agent.uploadBlob(fileBytes, { encoding: blob.type });
+    onProgress(100);
+    return data.blob;
+};
+
+const uploadEmbed = async (agent: BskyAgent, media: PublishMedia[], segmentIndex: number, callbacks: PublishCallbacks) => {
+    if (media.length === 0) return undefined;
+
+    const videoIndex = media.findIndex(mf => mf.type === 'video');
+    if (videoIndex !== -1) {
+        const { asset, alt, captions } = media[videoIndex];
+        const video = await uploadVideo(agent, asset, {
+            onStatus: status => callbacks.onVideoStatus?.(segmentIndex, videoIndex, status),
+            signal: callbacks.signal,
+        });
+        return {
+            $type: 'app.bsky.embed.video',
+            video,
+            alt: alt || undefined,
+            captions: captions?.length ? await uploadCaptions(agent, captions) : undefined,
+            aspectRatio: getAspectRatio(media[videoIndex]),
+        };
+    }
+
+    const images = await Promise.all(media.map(async (mf, index) => ({
+        image: await uploadMedia(agent, mf, progress => callbacks.onUploadProgress?.(segmentIndex, index, progress)),
+        alt: mf.alt || '',
+        aspectRatio: getAspectRatio(mf),
+    })));
+    return {
+        $type: 'app.bsky.embed.images',
+        images,
+    };
+};
+
+// The root of a reply is the parent's own root, or the parent itself when it starts a thread
+const resolveReplyRoot = async (agent: BskyAgent, parent: StrongRef): Promise<StrongRef> => {
+    const { data } = await agent.getPosts({ uris: [parent.uri] });
+    const record = data.posts[0]?.record as AppBskyFeedPost.Record | undefined;
+    return record?.reply?.root ? { uri: record.reply.root.uri, cid: record.reply.root.cid } : parent;
+};
+
+// Threadgates only apply to thread roots, so replies to someone else's post can only restrict quoting
+const writeInteractionGates = async (agent: BskyAgent, repo: string, post: StrongRef, settings: InteractionSettings, isThreadRoot: boolean) => {
+    const allow = isThreadRoot ? buildThreadgateAllow(settings) : undefined;
+    const embeddingRules = buildPostgateEmbeddingRules(settings);
+    if (!allow && !embeddingRules) return;
+
+    const rkey = new AtUri(post.uri).rkey;
+    const createdAt = new Date().toISOString();
+    const writes = [];
+    if (allow) {
+        writes.push({
+            $type: 'com.atproto.repo.applyWrites#create',
+            collection: 'app.bsky.feed.threadgate',
+            rkey,
+            value: { $type: 'app.bsky.feed.threadgate', post: post.uri, allow, createdAt },
+        });
+    }
+    if (embeddingRules) {
+        writes.push({
+            $type: 'com.atproto.repo.applyWrites#create',
+            collection: 'app.bsky.feed.postgate',
+            rkey,
+            value: { $type: 'app.bsky.feed.postgate', post: post.uri, embeddingRules, createdAt },
+        });
+    }
+
+    try {
+        await agent.com.atproto.repo.applyWrites({ repo, writes });
+    } catch (error) {
+        // Never leave a post up without the restrictions the author asked for
+        await agent.deletePost(post.uri).catch(err => console.error("Failed to roll back ungated post:", err));
+        throw error;
+    }
+};
+
+/**
+ * Publishes a post, or a thread of posts, in order. Media is uploaded and facets
+ * detected just before each segment goes up. Throws on the first failure; segments
+ * reported through `onSegmentPosted` are already live.
+ */
+export async function publishThread(agent: BskyAgent, repo: string, input: PublishThreadInput, callbacks: PublishCallbacks = {}): Promise<void> {
+    const { segments, langs, replyTo, interaction } = input;
+    let root: StrongRef | undefined = replyTo ? await resolveReplyRoot(agent, replyTo) : segments[0]?.posted;
+    let parent: StrongRef | undefined = replyTo;
+
+    for (const [segmentIndex, segment] of segments.entries()) {
+        if (segment.posted) {
+            parent = segment.posted;
+            continue;
+        }
+
+        let text = segment.text;
+        let facets = segment.facets;
+        if (!facets) {
+            const rt = new RichText({ text });
+            await rt.detectFacets(agent);
+            text = rt.text;
+            facets = rt.facets;
+        }
+
+        const postRecord: any = {
+            $type: 'app.bsky.feed.post',
+            text,
+            facets,
+            langs: langs.length > 0 ? langs : undefined,
+            createdAt: new Date().toISOString(),
+        };
+
+        if (root && parent) {
+            postRecord.reply = { root, parent };
+        }
+
+        postRecord.embed = segment.media.length === 0 && segment.linkCard
+            ? await createExternalEmbed(agent, segment.linkCard)
+            : await uploadEmbed(agent, segment.media, segmentIndex, callbacks);
+
+        const { uri, cid } = await agent.post(postRecord);
+        const posted = { uri, cid };
+        if (interaction) {
+            await writeInteractionGates(agent, repo, posted, interaction, !root);
+        }
+        callbacks.onSegmentPosted?.(segmentIndex, posted);
+        root = root || posted;
+        parent = posted;
+    }
+}
@@ -0,0 +1,99 @@
+import { Platform } from 'react-native';
+import { SCHEDULED_POSTS_CONFIG } from './config';
+
+/**
+ * Storage for scheduled posts that doesn't fit in the JSON queue. On web, picked media
+ * arrives as data or blob URLs, far too large for localStorage, so it is kept as Blobs in
+ * IndexedDB and the queue holds a reference instead. The same database carries the due
+ * times the service worker (public/sw.js) wakes up for. Native media is already a file
+ * URI, so it is stored as is.
+ */
+
+const MEDIA_REF_PREFIX = 'takaka-media:';
+
+type StoreName = 'media' | 'due';
+
+export interface DueEntry {
+  // `${did}/${postId}`
+  key: string;
+  did: string;
+  scheduledAt: string;
+}
+
+export const isStoredMediaRef = (uri: string) => uri.startsWith(MEDIA_REF_PREFIX);
+
+const isIndexedDbAvailable = () => Platform.OS === 'web' && typeof indexedDB !== 'undefined';
+
+const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDb = () => {
+  if (!dbPromise) {
+    const request = indexedDB.open(SCHEDULED_POSTS_CONFIG.DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains('media')) request.result.createObjectStore('media');
+      if (!request.result.objectStoreNames.contains('due')) request.result.createObjectStore('due', { keyPath: 'key' });
+    };
+    dbPromise = promisifyRequest(request);
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, run: (objectStore: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return promisifyRequest(run(db.transaction(store, mode).objectStore(store)));
+};
+
+/** Keeps the media at `uri` outside the queue and returns what to store in its place. */
+export const storeMedia = async (uri: string): Promise<string> => {
+  if (!isIndexedDbAvailable() || !/^(data|blob):/.test(uri)) return uri;
+  const blob = await (await fetch(uri)).blob();
+  const key = crypto.randomUUID();
+  await withStore('media', 'readwrite', objectStore => objectStore.put(blob, key));
+  return `${MEDIA_REF_PREFIX}${key}`;
+};
+
+/** An object URL for stored media, or undefined when it is gone. The caller revokes it. */
+export const resolveMedia = async (ref: string): Promise<string | undefined> => {
+  if (!isIndexedDbAvailable()) return undefined;
+  const blob: Blob | undefined = await withStore('media', 'readonly', objectStore => objectStore.get(ref.slice(MEDIA_REF_PREFIX.length)));
+  return blob ? URL.createObjectURL(blob) : undefined;
+};
+
+export const deleteMedia = async (refs: string[]): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  await Promise.all(refs.filter(isStoredMediaRef).map(ref =>
+    withStore('media', 'readwrite', objectStore => objectStore.delete(ref.slice(MEDIA_REF_PREFIX.length)))));
+};
+
+/** Replaces the due times of `did`'s queued posts, which the service worker checks when it wakes. */
+export const setDueTimes = async (did: string, posts: { id: string; scheduledAt: string }[]): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  const existing: DueEntry[] = await withStore('due', 'readonly', objectStore => objectStore.getAll());
+  await Promise.all(existing.filter(entry => entry.did === did).map(entry =>
+    withStore('due', 'readwrite', objectStore => objectStore.delete(entry.key))));
+  await Promise.all(posts.map(post =>
+    withStore('due', 'readwrite', objectStore => objectStore.put({ key: `${did}/${post.id}`, did, scheduledAt: post.scheduledAt } as DueEntry))));
+};
+
+/**
+ * Asks the browser to wake the service worker periodically while posts are queued.
+ * Periodic Background Sync only exists in Chromium, for installed apps; elsewhere the
+ * in-app timer is all there is.
+ */
+export const requestScheduledSync = async (hasQueuedPosts: boolean): Promise<void> => {
+  if (Platform.OS !== 'web' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  const registration: any = await navigator.serviceWorker.getRegistration();
+  if (!registration?.periodicSync) return;
+  if (!hasQueuedPosts) {
+    await registration.periodicSync.unregister(SCHEDULED_POSTS_CONFIG.SYNC_TAG);
+    return;
+  }
+  const status = await (navigator as any).permissions?.query({ name: 'periodic-background-sync' }).catch(() => undefined);
+  if (status && status.state !== 'granted') return;
+  await registration.periodicSync.register(SCHEDULED_POSTS_CONFIG.SYNC_TAG, { minInterval: SCHEDULED_POSTS_CONFIG.CHECK_INTERVAL_MS });
+};
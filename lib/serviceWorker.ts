@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import { clearOfflineCache } from './offlineCache';
 
 // Service Worker configuration for web platform only
 interface CacheConfig {
@@ -430,13 +431,15 @@ export async function initializeServiceWorker(): Promise<boolean> {
  */
 export function useCacheManager() {
   const clearAppCache = async (): Promise<boolean> => {
+    // Saved feeds and profiles live outside the service worker on every platform
+    await clearOfflineCache();
     if (Platform.OS === 'web') {
       const manager = ServiceWorkerManager.getInstance();
       return manager.clearCache();
     } else {
       // For mobile platforms, clear other caches
-      // This would integrate with expo-file-system or AsyncStorage
-      console.log('Cache clearing not implemented for', Platform.OS);
+      // This would integrate with expo-file-system
+      console.log('Media cache clearing not implemented for', Platform.OS);
       return true;
     }
   };
@@ -0,0 +1,78 @@
+import { AppBskyFeedDefs, AppBskyFeedThreadgate, AppBskyFeedPostgate } from '@atproto/api';
+
+export type ReplyRestriction = 'everyone' | 'nobody' | 'mention' | 'follower' | 'following' | 'list';
+
+export const REPLY_RESTRICTIONS: ReplyRestriction[] = ['everyone', 'nobody', 'mention', 'follower', 'following', 'list'];
+
+export interface InteractionSettings {
+    reply: ReplyRestriction;
+    // Required when `reply` is 'list'
+    listUri?: string;
+    quotesDisabled: boolean;
+}
+
+export const DEFAULT_INTERACTION_SETTINGS: InteractionSettings = {
+    reply: 'everyone',
+    quotesDisabled: false,
+};
+
+/**
+ * Builds the `allow` rules of an app.bsky.feed.threadgate record.
+ * Returns undefined when anyone may reply, which means no threadgate should be written.
+ * An empty array means nobody may reply.
+ */
+export function buildThreadgateAllow(settings: InteractionSettings): AppBskyFeedThreadgate.Record['allow'] | undefined {
+    switch (settings.reply) {
+        case 'everyone':
+            return undefined;
+        case 'nobody':
+            return [];
+        case 'mention':
+            return [{ $type: 'app.bsky.feed.threadgate#mentionRule' }];
+        case 'follower':
+            return [{ $type: 'app.bsky.feed.threadgate#followerRule' }];
+        case 'following':
+            return [{ $type: 'app.bsky.feed.threadgate#followingRule' }];
+        case 'list':
+            return settings.listUri ? [{ $type: 'app.bsky.feed.threadgate#listRule', list: settings.listUri }] : undefined;
+    }
+}
+
+export function buildPostgateEmbeddingRules(settings: InteractionSettings): AppBskyFeedPostgate.Record['embeddingRules'] | undefined {
+    return settings.quotesDisabled ? [{ $type: 'app.bsky.feed.postgate#disableRule' }] : undefined;
+}
+
+export interface ReplyRestrictionSummary {
+    nobody: boolean;
+    rules: Exclude<ReplyRestriction, 'everyone' | 'nobody' | 'list'>[];
+    lists: { uri: string; name: string }[];
+}
+
+/** Describes who may reply to a thread, or null when replies are open to everyone. */
+export function getReplyRestrictionSummary(threadgate?: AppBskyFeedDefs.ThreadgateView): ReplyRestrictionSummary | null {
+    const record = threadgate?.record as AppBskyFeedThreadgate.Record | undefined;
+    if (!record?.allow) return null;
+    if (record.allow.length === 0) return { nobody: true, rules: [], lists: [] };
+
+    const summary: ReplyRestrictionSummary = { nobody: false, rules: [], lists: [] };
+    for (const rule of record.allow) {
+        switch (rule.$type) {
+            case 'app.bsky.feed.threadgate#mentionRule':
+                summary.rules.push('mention');
+                break;
+            case 'app.bsky.feed.threadgate#followerRule':
+                summary.rules.push('follower');
+                break;
+            case 'app.bsky.feed.threadgate#followingRule':
+                summary.rules.push('following');
+                break;
+            case 'app.bsky.feed.threadgate#listRule': {
+                const listUri = (rule as AppBskyFeedThreadgate.ListRule).list;
+                const list = threadgate?.lists?.find(l => l.uri === listUri);
+                summary.lists.push({ uri: listUri, name: list?.name || listUri });
+                break;
+            }
+        }
+    }
+    return summary;
+}
@@ -1,9 +1,15 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type VideoQuality = 'auto' | 'high' | 'medium' | 'low';
+
 export interface VideoConfig {
   // Player preferences
   preferredPlayer: 'bluesky';
   
   // Quality settings
-  preferredQuality: 'auto' | 'high' | 'medium' | 'low';
+  preferredQuality: VideoQuality;
+  // Caps the bitrate on cellular or metered connections
+  dataSaver: boolean;
   
   // Playback settings
   autoplay: boolean;
@@ -28,6 +34,7 @@ export interface VideoConfig {
 export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
   preferredPlayer: 'bluesky',
   preferredQuality: 'auto',
+  dataSaver: false,
   autoplay: true,
   loop: true,
   muted: true,
@@ -36,14 +43,50 @@ export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
   showControls: true,
   showProgressBar: true,
   showFullscreenButton: true,
-  bufferSize: 10, // seconds
+  bufferSize: 30, // seconds
   maxBitrate: 0, // 0 = auto
   enableHardwareAcceleration: true,
 };
 
+// Highest bitrate played while data saver is on and the connection is metered
+export const DATA_SAVER_MAX_BITRATE = 800000;
+
+// The playback settings belong to the device, not the account
+const VIDEO_CONFIG_STORAGE_KEY = 'takaka-video-config';
+
+/** One HLS rendition of a video, as hls.js lists its levels. */
+export interface VideoRendition {
+  index: number;
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+export const formatRendition = (rendition: Pick<VideoRendition, 'height'>) => `${rendition.height}p`;
+
+/** The level for a quality preference: -1 lets hls.js choose, otherwise the top, middle or bottom rendition. */
+export const getQualityLevel = (renditions: VideoRendition[], quality: VideoQuality): number => {
+  if (quality === 'auto' || renditions.length === 0) return -1;
+  const byBitrate = [...renditions].sort((a, b) => a.bitrate - b.bitrate);
+  const position = { low: 0, medium: Math.floor((byBitrate.length - 1) / 2), high: byBitrate.length - 1 }[quality];
+  return byBitrate[position].index;
+};
+
+/** The `autoLevelCapping` for a bitrate cap: the best level within it, the lowest if none is, or -1 without a cap. */
+export const getLevelCap = (renditions: VideoRendition[], maxBitrate: number): number => {
+  if (maxBitrate <= 0 || renditions.length === 0) return -1;
+  const byBitrate = [...renditions].sort((a, b) => a.bitrate - b.bitrate);
+  const allowed = byBitrate.filter(r => r.bitrate <= maxBitrate);
+  return (allowed.length > 0 ? allowed[allowed.length - 1] : byBitrate[0]).index;
+};
+
+type VideoConfigListener = (config: VideoConfig) => void;
+
 export class VideoManager {
   private static instance: VideoManager;
   private config: VideoConfig;
+  private listeners = new Set<VideoConfigListener>();
+  private loadPromise: Promise<void> | null = null;
 
   private constructor() {
     this.config = { ...DEFAULT_VIDEO_CONFIG };
@@ -61,11 +104,39 @@ export class VideoManager {
   }
 
   updateConfig(updates: Partial<VideoConfig>): void {
-    this.config = { ...this.config, ...updates };
+    this.setConfig({ ...this.config, ...updates });
   }
 
   resetToDefaults(): void {
-    this.config = { ...DEFAULT_VIDEO_CONFIG };
+    this.setConfig({ ...DEFAULT_VIDEO_CONFIG });
+  }
+
+  /** Reads the saved settings once; players created before it finishes pick them up through `subscribe`. */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(VIDEO_CONFIG_STORAGE_KEY)
+        .then(stored => {
+          if (stored) this.notify({ ...DEFAULT_VIDEO_CONFIG, ...JSON.parse(stored) });
+        })
+        .catch(error => console.error("Failed to load video settings", error));
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: VideoConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setConfig(config: VideoConfig): void {
+    this.notify(config);
+    AsyncStorage.setItem(VIDEO_CONFIG_STORAGE_KEY, JSON.stringify(config))
+      .catch(error => console.error("Failed to save video settings", error));
+  }
+
+  private notify(config: VideoConfig): void {
+    this.config = config;
+    this.listeners.forEach(listener => listener(this.getConfig()));
   }
 
   // Helper methods for common configurations
@@ -89,6 +160,13 @@ export class VideoManager {
     if (this.config.maxBitrate === 0) return 0; // auto
     return Math.max(100000, Math.min(10000000, this.config.maxBitrate));
   }
+
+  // The bitrate adaptive playback may climb to on this connection, 0 for no limit
+  getBitrateCap(isMetered: boolean): number {
+    const maxBitrate = this.getMaxBitrate();
+    if (!this.config.dataSaver || !isMetered) return maxBitrate;
+    return maxBitrate === 0 ? DATA_SAVER_MAX_BITRATE : Math.min(maxBitrate, DATA_SAVER_MAX_BITRATE);
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,163 @@
+import { AtpAgent, BskyAgent, BlobRef, AppBskyEmbedVideo, AppBskyVideoGetUploadLimits } from '@atproto/api';
+import { VIDEO_SERVICE_CONFIG } from './config';
+
+export type VideoUploadLimits = AppBskyVideoGetUploadLimits.OutputSchema;
+
+export interface VideoUploadStatus {
+  // 'uploading' while the file goes up, 'processing' while the service transcodes it
+  phase: 'uploading' | 'processing';
+  // 0-100, within the phase
+  progress: number;
+}
+
+export interface VideoUploadOptions {
+  onStatus?: (status: VideoUploadStatus) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoCaption {
+  lang: string;
+  // The WebVTT text itself; captions are small, and a picked file's URI may not outlive a reload
+  content: string;
+}
+
+// Job status is public, so polling doesn't need a token
+const videoAgent = new AtpAgent({ service: VIDEO_SERVICE_CONFIG.SERVICE_URL });
+
+const createAbortError = () => Object.assign(new Error('Video upload cancelled'), { name: 'AbortError' });
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  }, { once: true });
+});
+
+const getServiceToken = async (agent: BskyAgent, aud: string, lxm: string, ttlSeconds?: number) => {
+  const { data } = await agent.com.atproto.server.getServiceAuth({
+    aud,
+    lxm,
+    exp: ttlSeconds ? Math.floor(Date.now() / 1000) + ttlSeconds : undefined,
+  });
+  return data.token;
+};
+
+/** How many videos, and bytes, the signed in account may still upload today. */
+export async function getVideoUploadLimits(agent: BskyAgent): Promise<VideoUploadLimits> {
+  const token = await getServiceToken(agent, VIDEO_SERVICE_CONFIG.SERVICE_DID, 'app.bsky.video.getUploadLimits');
+  const { data } = await videoAgent.app.bsky.video.getUploadLimits({}, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return data;
+}
+
+// XHR rather than fetch, which can't report upload progress
+const sendVideo = (url: string, token: string, file: Blob, mimeType: string, onProgress: (progress: number) => void, signal?: AbortSignal) =>
+  new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.setRequestHeader('Content-Type', mimeType);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      let body;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        body = undefined;
+      }
+      resolve({ status: xhr.status, body });
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(createAbortError());
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+
+const waitForJob = async (jobId: string, onStatus?: VideoUploadOptions['onStatus'], signal?: AbortSignal): Promise<BlobRef> => {
+  for (;;) {
+    const { data } = await videoAgent.app.bsky.video.getJobStatus({ jobId }, { signal });
+    const { state, progress, blob, error, message } = data.jobStatus;
+    if (state === 'JOB_STATE_COMPLETED') {
+      if (!blob) throw new Error('Video processing finished without a blob');
+      return blob;
+    }
+    if (state === 'JOB_STATE_FAILED') {
+      throw new Error(message || error || 'Video processing failed');
+    }
+    onStatus?.({ phase: 'processing', progress: progress ?? 0 });
+    await wait(VIDEO_SERVICE_CONFIG.JOB_POLL_INTERVAL_MS, signal);
+  }
+};
+
+/**
+ * Uploads a video through the video service and waits for it to be processed, returning
+ * the blob to embed. Checks the account's upload limits before sending anything. Rejects with an error
+ * `isAbortError` recognizes when `signal` aborts.
+ */
+export async function uploadVideo(
+  agent: BskyAgent,
+  video: { uri: string; mimeType?: string | null },
+  { onStatus, signal }: VideoUploadOptions = {},
+): Promise<BlobRef> {
+  const did = agent.session?.did;
+  if (!did) throw new Error('Not signed in');
+
+  try {
+    onStatus?.({ phase: 'uploading', progress: 0 });
+    const file = await (await fetch(video.uri)).blob();
+
+    const limits = await getVideoUploadLimits(agent);
+    if (!limits.canUpload || (limits.remainingDailyBytes !== undefined && file.size > limits.remainingDailyBytes)) {
+      throw new Error(limits.message || limits.error || 'Daily video upload limit reached');
+    }
+
+    // The service stores the transcoded video on the user's PDS with this token, so it's
+    // scoped to the PDS's uploadBlob rather than to the video service
+    const token = await getServiceToken(
+      agent,
+      `did:web:${agent.dispatchUrl.hostname}`,
+      'com.atproto.repo.uploadBlob',
+      VIDEO_SERVICE_CONFIG.UPLOAD_TOKEN_TTL_SECONDS,
+    );
+    const url = new URL('/xrpc/app.bsky.video.uploadVideo', VIDEO_SERVICE_CONFIG.SERVICE_URL);
+    url.searchParams.set('did', did);
+    url.searchParams.set('name', `${Date.now().toString(36)}.mp4`);
+
+    const { status, body } = await sendVideo(
+      url.toString(), token, file, video.mimeType || 'video/mp4',
+      progress => onStatus?.({ phase: 'uploading', progress }),
+      signal,
+    );
+    // The service recognizes a video it has seen before, so retrying picks the earlier job back up
+    const jobId: string | undefined = status < 300 ? body?.jobStatus?.jobId : body?.error === 'already_exists' ? body.jobId : undefined;
+    if (!jobId) {
+      throw Object.assign(new Error(body?.message || `Video upload failed with status ${status}`), { status });
+    }
+
+    onStatus?.({ phase: 'processing', progress: 0 });
+    return await waitForJob(jobId, onStatus, signal);
+  } catch (error) {
+    throw signal?.aborted ? createAbortError() : error;
+  }
+}
+
+/** Uploads WebVTT caption files to the PDS as blobs for `app.bsky.embed.video`. */
+export function uploadCaptions(agent: BskyAgent, captions: VideoCaption[]): Promise<AppBskyEmbedVideo.Caption[]> {
+  return Promise.all(captions.map(async ({ lang, content }) => {
+    const { data } = await agent.uploadBlob(new TextEncoder().encode(content), { encoding: 'text/vtt' });
+    return { lang, file: data.blob };
+  }));
+}
+
+/** Why `content` can't be used as a caption: not WebVTT, or over the lexicon's size limit. */
+export function getCaptionError(content: string): 'invalid' | 'tooLarge' | null {
+  if (!/^\uFEFF?WEBVTT/.test(content)) return 'invalid';
+  if (new TextEncoder().encode(content).length > VIDEO_SERVICE_CONFIG.MAX_CAPTION_BYTES) return 'tooLarge';
+  return null;
+}
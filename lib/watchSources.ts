@@ -0,0 +1,160 @@
+import { AppBskyFeedDefs, BskyAgent } from '@atproto/api';
+import { WATCH_CONFIG } from './config';
+
+/** Where Watch takes videos from: a feed generator, the following timeline or a list. */
+export type WatchSource =
+  | { type: 'feed'; uri: string }
+  | { type: 'following' }
+  | { type: 'list'; uri: string };
+
+const SOURCES_RKEY = 'self';
+
+// Where earlier versions kept the sources: a made-up type in the account's app.bsky
+// preferences. Read once to move them into the record, then removed.
+const LEGACY_PREF_TYPE = 'app.bsky.actor.defs#takakaWatchSourcesPref';
+
+type WatchSourcesRecord = {
+  $type: typeof WATCH_CONFIG.SOURCES_COLLECTION;
+  sources: WatchSource[];
+  updatedAt: string;
+};
+
+export const DEFAULT_WATCH_SOURCES: WatchSource[] = [{ type: 'feed', uri: WATCH_CONFIG.DEFAULT_FEED_URI }];
+
+const FALLBACK_WATCH_SOURCES: WatchSource[] = [{ type: 'feed', uri: WATCH_CONFIG.FALLBACK_FEED_URI }];
+
+export const getSourceKey = (source: WatchSource) => source.type === 'following' ? 'following' : `${source.type}:${source.uri}`;
+
+export const isSameSource = (a: WatchSource, b: WatchSource) => getSourceKey(a) === getSourceKey(b);
+
+const isWatchSource = (value: any): value is WatchSource =>
+  value?.type === 'following' || ((value?.type === 'feed' || value?.type === 'list') && typeof value.uri === 'string');
+
+const toWatchSources = (value: unknown): WatchSource[] | null =>
+  Array.isArray(value) ? value.filter(isWatchSource).slice(0, WATCH_CONFIG.MAX_SOURCES) : null;
+
+const isRecordNotFoundError = (error: any) => error?.error === 'RecordNotFound';
+
+/**
+ * Saves the sources in the account's repo, under this app's own collection. Records are
+ * public, unlike preferences, but the PDS only keeps preferences Bluesky defines.
+ */
+export async function saveWatchSources(agent: BskyAgent, did: string, sources: WatchSource[]): Promise<void> {
+  const record: WatchSourcesRecord = { $type: WATCH_CONFIG.SOURCES_COLLECTION, sources, updatedAt: new Date().toISOString() };
+  await agent.com.atproto.repo.putRecord({ repo: did, collection: WATCH_CONFIG.SOURCES_COLLECTION, rkey: SOURCES_RKEY, record });
+}
+
+/** Moves sources saved by earlier versions out of the preferences. Returns null if there were none. */
+async function migrateLegacyWatchSources(agent: BskyAgent, did: string): Promise<WatchSource[] | null> {
+  const { data } = await agent.app.bsky.actor.getPreferences();
+  const legacy = data.preferences.find(p => p.$type === LEGACY_PREF_TYPE) as { sources?: unknown } | undefined;
+  if (!legacy) return null;
+  const sources = toWatchSources(legacy.sources);
+
+  if (sources) await saveWatchSources(agent, did, sources);
+  await agent.app.bsky.actor.putPreferences({ preferences: data.preferences.filter(p => p.$type !== LEGACY_PREF_TYPE) });
+  return sources;
+}
+
+/** The sources saved for the account, or null if none were saved yet. */
+export async function loadWatchSources(agent: BskyAgent, did: string): Promise<WatchSource[] | null> {
+  try {
+    const { data } = await agent.com.atproto.repo.getRecord({ repo: did, collection: WATCH_CONFIG.SOURCES_COLLECTION, rkey: SOURCES_RKEY });
+    return toWatchSources((data.value as Partial<WatchSourcesRecord>).sources);
+  } catch (error) {
+    if (!isRecordNotFoundError(error)) throw error;
+  }
+  return migrateLegacyWatchSources(agent, did);
+}
+
+// --- Mixer ---
+
+interface SourceState {
+  source: WatchSource;
+  cursor?: string;
+  isExhausted: boolean;
+  failures: number;
+}
+
+/** Where each source left off; passed back in to fetch the next mixed page. */
+export interface WatchMixerState {
+  sources: SourceState[];
+  isFallback: boolean;
+}
+
+export interface WatchMixerPage {
+  posts: AppBskyFeedDefs.FeedViewPost[];
+  state: WatchMixerState;
+  hasMore: boolean;
+}
+
+export const createMixerState = (sources: WatchSource[], isFallback = false): WatchMixerState => ({
+  sources: sources.map(source => ({ source, isExhausted: false, failures: 0 })),
+  isFallback,
+});
+
+const isActive = (state: SourceState) => !state.isExhausted && state.failures < WATCH_CONFIG.MAX_SOURCE_FAILURES;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) => new Promise<T>((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Source timed out')), ms);
+  promise.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const fetchSourcePage = async (agent: BskyAgent, source: WatchSource, cursor: string | undefined, limit: number) => {
+  switch (source.type) {
+    case 'feed':
+      return (await agent.app.bsky.feed.getFeed({ feed: source.uri, cursor, limit })).data;
+    case 'list':
+      return (await agent.app.bsky.feed.getListFeed({ list: source.uri, cursor, limit })).data;
+    case 'following':
+      return (await agent.getTimeline({ cursor, limit })).data;
+  }
+};
+
+/**
+ * Fetches the next page of every active source at once and interleaves the items that
+ * pass `filter`, dropping posts already taken from another source. A source that errors
+ * or times out is skipped for the page and dropped after repeated failures. When every
+ * source of the first page fails, the fallback feed is used instead.
+ */
+export async function fetchMixedPage(
+  agent: BskyAgent,
+  state: WatchMixerState,
+  limit: number,
+  filter: (item: AppBskyFeedDefs.FeedViewPost) => boolean,
+): Promise<WatchMixerPage> {
+  const active = state.sources.filter(isActive);
+  const results = await Promise.allSettled(active.map(s =>
+    withTimeout(fetchSourcePage(agent, s.source, s.cursor, limit), WATCH_CONFIG.SOURCE_TIMEOUT_MS)));
+
+  const nextSources = state.sources.map(s => {
+    const index = active.indexOf(s);
+    if (index === -1) return s;
+    const result = results[index];
+    if (result.status === 'rejected') {
+      console.warn(`Watch source ${getSourceKey(s.source)} failed:`, result.reason);
+      return { ...s, failures: s.failures + 1 };
+    }
+    return { ...s, cursor: result.value.cursor, isExhausted: !result.value.cursor || result.value.feed.length === 0, failures: 0 };
+  });
+  const nextState = { ...state, sources: nextSources };
+
+  const isFirstPage = state.sources.every(s => s.cursor === undefined && !s.isExhausted);
+  if (isFirstPage && !state.isFallback && results.length > 0 && results.every(r => r.status === 'rejected')) {
+    return fetchMixedPage(agent, createMixerState(FALLBACK_WATCH_SOURCES, true), limit, filter);
+  }
+
+  const queues = results.map(result => result.status === 'fulfilled' ? result.value.feed.filter(filter) : []);
+  const seen = new Set<string>();
+  const posts: AppBskyFeedDefs.FeedViewPost[] = [];
+  for (let round = 0; queues.some(queue => round < queue.length); round++) {
+    for (const queue of queues) {
+      const item = queue[round];
+      if (!item || seen.has(item.post.uri)) continue;
+      seen.add(item.post.uri);
+      posts.push(item);
+    }
+  }
+
+  return { posts, state: nextState, hasMore: nextSources.some(isActive) };
+}
@@ -0,0 +1,73 @@
+/*
+ * Service worker, registered by lib/serviceWorker.ts.
+ *
+ * Runs the scheduled posts timer while no tab is keeping it awake. The worker can't
+ * publish by itself: the session lives in the app's storage, out of its reach. When posts
+ * come due it hands them to an open tab, or shows a notification that opens the
+ * Scheduled screen, where the app publishes them. Names match SCHEDULED_POSTS_CONFIG in
+ * lib/config.ts.
+ */
+
+const DB_NAME = 'takaka-scheduled-posts';
+const SYNC_TAG = 'takaka-scheduled-posts';
+const NOTIFICATION_TAG = 'takaka-scheduled-posts-due';
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const readDueEntries = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  // Nothing has been scheduled from this browser yet; don't create the database here
+  request.onupgradeneeded = () => request.transaction.abort();
+  request.onerror = () => (request.error && request.error.name === 'AbortError' ? resolve([]) : reject(request.error));
+  request.onsuccess = () => {
+    const db = request.result;
+    const getAll = db.transaction('due', 'readonly').objectStore('due').getAll();
+    getAll.onsuccess = () => { db.close(); resolve(getAll.result); };
+    getAll.onerror = () => { db.close(); reject(getAll.error); };
+  };
+});
+
+const checkScheduledPosts = async () => {
+  const now = Date.now();
+  const due = (await readDueEntries()).filter((entry) => Date.parse(entry.scheduledAt) <= now);
+  if (due.length === 0) return;
+
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    // Background tabs throttle their timers; this gets the app to publish now
+    windows.forEach((client) => client.postMessage({ type: 'PUBLISH_SCHEDULED_POSTS' }));
+    return;
+  }
+  if (self.Notification && self.Notification.permission === 'granted') {
+    await self.registration.showNotification('Scheduled posts are due', {
+      body: due.length === 1 ? 'Open Takaka to publish your scheduled post.' : `Open Takaka to publish ${due.length} scheduled posts.`,
+      tag: NOTIFICATION_TAG,
+      data: { url: '/scheduled' },
+    });
+  }
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(checkScheduledPosts());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'CHECK_SCHEDULED_POSTS') event.waitUntil(checkScheduledPosts());
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => 'focus' in client);
+    if (existing) {
+      await existing.focus();
+      existing.postMessage({ type: 'PUBLISH_SCHEDULED_POSTS' });
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+const http = require('http');
+
+/**
+ * Local stand-in for the link card metadata service (cardyb.bsky.app)
+ *
+ * GET /v1/extract?url=  fetches the page and answers with its OpenGraph (or <title> and
+ *                       meta description) metadata: { error, likely_type, url, title, description, image }
+ * GET /v1/image?url=    proxies the card image, so the app can read it despite CORS
+ *
+ * Start the app with EXPO_PUBLIC_CARD_METADATA_URL=http://localhost:8789/v1/extract
+ *
+ * Environment:
+ *   PORT   port to listen on (default 8789)
+ */
+
+const PORT = Number(process.env.PORT) || 8789;
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_HTML_BYTES = 1024 * 1024;
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const decodeEntities = (text) => text
+  .replace(/&quot;/g, '"')
+  .replace(/&#0?39;|&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+  .replace(/&amp;/g, '&');
+
+// Attribute order varies between sites, so each <meta> is parsed on its own
+const readMetaTags = (html) => {
+  const tags = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key = /(?:property|name)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1]?.toLowerCase();
+    const content = /content\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    if (key && content !== undefined && !(key in tags)) tags[key] = decodeEntities(content.trim());
+  }
+  return tags;
+};
+
+const fetchWithTimeout = (url, options = {}) =>
+  fetch(url, { ...options, redirect: 'follow', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+
+const handleExtract = async (res, target) => {
+  const response = await fetchWithTimeout(target, { headers: { 'User-Agent': 'TakakaCardBot/1.0', Accept: 'text/html' } });
+  if (!response.ok) return send(res, 200, { error: `Unable to fetch page (${response.status})`, url: target });
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('html')) return send(res, 200, { error: 'Not an HTML page', url: target });
+
+  const html = (await response.text()).slice(0, MAX_HTML_BYTES);
+  const meta = readMetaTags(html);
+  const title = meta['og:title'] || meta['twitter:title'] || decodeEntities(/<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1]?.trim() || '');
+  const description = meta['og:description'] || meta['twitter:description'] || meta['description'] || '';
+  const imageUrl = meta['og:image'] || meta['twitter:image'];
+  const image = imageUrl
+    ? `http://localhost:${PORT}/v1/image?url=${encodeURIComponent(new URL(imageUrl, response.url).toString())}`
+    : '';
+
+  send(res, 200, { error: '', likely_type: 'html', url: response.url, title, description, image });
+};
+
+const handleImage = async (res, target) => {
+  const response = await fetchWithTimeout(target);
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || !contentType.startsWith('image/')) return send(res, 404, { error: 'Image not found' });
+  res.writeHead(200, { 'Content-Type': contentType, 'Cache-Control': 'public, max-age=3600' });
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const target = url.searchParams.get('url');
+  if (!target || !/^https?:\/\//i.test(target)) return send(res, 400, { error: 'Missing or invalid url' });
+
+  try {
+    switch (url.pathname) {
+      case '/v1/extract':
+        return await handleExtract(res, target);
+      case '/v1/image':
+        return await handleImage(res, target);
+      default:
+        return send(res, 404, { error: `${url.pathname} is not implemented` });
+    }
+  } catch (error) {
+    console.error(`❌ ${url.pathname} ${target}: ${error.message}`);
+    send(res, 200, { error: `Unable to fetch ${target}`, url: target });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔗 Card metadata server listening on http://localhost:${PORT}`);
+});
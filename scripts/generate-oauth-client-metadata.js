@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Writes the OAuth client metadata document the web build is identified by
+ *
+ * Production builds use `<origin>/oauth/client-metadata.json` as their client id, so the
+ * document has to be served from the origin the app is deployed to. It is written to
+ * public/, which `expo export` copies next to the build. Runs before `npm run build`:
+ *
+ *   OAUTH_CLIENT_ORIGIN=https://takaka.example npm run build
+ *
+ * Without OAUTH_CLIENT_ORIGIN no document is written, and only the loopback development
+ * client (http://127.0.0.1) can sign in with OAuth. Paths and scope match OAUTH_CONFIG in
+ * lib/config.ts.
+ *
+ * Environment:
+ *   OAUTH_CLIENT_ORIGIN   origin the web build is served from, e.g. https://takaka.example
+ */
+
+const CLIENT_METADATA_PATH = '/oauth/client-metadata.json';
+const CALLBACK_PATH = '/oauth/callback';
+const SCOPE = 'atproto transition:generic transition:chat.bsky';
+
+const outputFile = path.join(__dirname, '..', 'public', CLIENT_METADATA_PATH);
+
+const readOrigin = (value) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`OAUTH_CLIENT_ORIGIN is not a URL: ${value}`);
+  }
+  // Authorization servers only accept https client ids; loopback clients need no document
+  if (url.protocol !== 'https:') throw new Error(`OAUTH_CLIENT_ORIGIN must use https: ${value}`);
+  if (url.pathname !== '/' || url.search || url.hash) throw new Error(`OAUTH_CLIENT_ORIGIN must be an origin, without a path: ${value}`);
+  return url.origin;
+};
+
+const main = () => {
+  // Never ship a document left over from a build for another origin
+  fs.rmSync(outputFile, { force: true });
+
+  if (!process.env.OAUTH_CLIENT_ORIGIN) {
+    console.warn('⚠️  OAUTH_CLIENT_ORIGIN is not set; skipping the OAuth client metadata. OAuth sign-in will only work on http://127.0.0.1.');
+    return;
+  }
+
+  const origin = readOrigin(process.env.OAUTH_CLIENT_ORIGIN);
+  const metadata = {
+    client_id: `${origin}${CLIENT_METADATA_PATH}`,
+    client_name: 'Takaka',
+    client_uri: origin,
+    application_type: 'web',
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    redirect_uris: [`${origin}${CALLBACK_PATH}`],
+    scope: SCOPE,
+    token_endpoint_auth_method: 'none',
+    dpop_bound_access_tokens: true,
+  };
+
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, `${JSON.stringify(metadata, null, 2)}\n`);
+  console.log(`✅ OAuth client metadata written for ${metadata.client_id}`);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,406 @@
+#!/usr/bin/env node
+
+const http = require('http');
+const crypto = require('crypto');
+
+/**
+ * Local stand-in for an atproto PDS with its own OAuth authorization server
+ *
+ * Speaks enough of https://atproto.com/specs/oauth to take the app through a whole sign-in:
+ * server metadata, pushed authorization requests with PKCE, a consent page, the token and
+ * revocation endpoints, and DPoP proofs checked the way a real server checks them, nonces
+ * included. It is also the account's PDS, with a did:web identity, but only answers
+ * com.atproto.server.getSession. In the web build opened on http://127.0.0.1, choose a
+ * custom hosting provider, enter http://127.0.0.1:2583 and leave the account field empty.
+ *
+ * Environment:
+ *   PORT                port to listen on (default 2583)
+ *   STUB_HANDLE         handle of the account that signs in (default alice.test)
+ *   STUB_TOKEN_TTL_S    access token lifetime in seconds, lower it to exercise refreshes (default 300)
+ *   STUB_AUTO_APPROVE   set to skip the consent page
+ */
+
+const PORT = Number(process.env.PORT) || 2583;
+const HANDLE = process.env.STUB_HANDLE || 'alice.test';
+const TOKEN_TTL_S = Number(process.env.STUB_TOKEN_TTL_S) || 300;
+const ISSUER = `http://127.0.0.1:${PORT}`;
+const DID = `did:web:127.0.0.1%3A${PORT}`;
+const SCOPE = 'atproto transition:generic transition:chat.bsky';
+const REQUEST_TTL_MS = 5 * 60 * 1000;
+const PROOF_MAX_AGE_S = 60;
+
+// One nonce for the server's lifetime; every client has to fetch it once, as with a real server
+const DPOP_NONCE = crypto.randomBytes(16).toString('base64url');
+
+const requests = new Map();
+const codes = new Map();
+const accessTokens = new Map();
+const refreshTokens = new Map();
+const seenProofIds = new Set();
+
+class OAuthError extends Error {
+  constructor(status, error, description) {
+    super(description);
+    this.status = status;
+    this.error = error;
+  }
+}
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readForm = async (req) => new URLSearchParams((await readBody(req)).toString('utf8'));
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+const sha256 = (value) => crypto.createHash('sha256').update(value).digest('base64url');
+
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// --- DPoP ---
+
+// RFC 7638 thumbprint, which tokens are bound to
+const getJwkThumbprint = (jwk) => sha256(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }));
+
+const decodeJwtPart = (part) => {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks the request's DPoP proof and returns the thumbprint of its key. `accessToken` is
+ * set for resource requests, whose proofs must carry its hash.
+ */
+const verifyDpopProof = (req, url, accessToken) => {
+  const proof = req.headers.dpop;
+  if (!proof) throw new OAuthError(400, 'invalid_dpop_proof', 'Missing DPoP proof');
+
+  const [encodedHeader, encodedPayload, signature] = proof.split('.');
+  const header = decodeJwtPart(encodedHeader || '');
+  const payload = decodeJwtPart(encodedPayload || '');
+  if (!header || !payload || !signature) throw new OAuthError(400, 'invalid_dpop_proof', 'Malformed DPoP proof');
+  if (header.typ !== 'dpop+jwt' || header.alg !== 'ES256' || header.jwk?.kty !== 'EC') {
+    throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proofs must be ES256 JWTs carrying their public key');
+  }
+  if (header.jwk.d) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proof leaks its private key');
+
+  const isValid = crypto.verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: crypto.createPublicKey({ key: header.jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url'),
+  );
+  if (!isValid) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proof signature is invalid');
+
+  const htu = `http://${req.headers.host}${url.pathname}`;
+  if (payload.htm !== req.method || payload.htu !== htu) throw new OAuthError(400, 'invalid_dpop_proof', `DPoP proof is for ${payload.htm} ${payload.htu}, not ${req.method} ${htu}`);
+  if (Math.abs(Date.now() / 1000 - payload.iat) > PROOF_MAX_AGE_S) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proof is too old');
+  if (!payload.jti || seenProofIds.has(payload.jti)) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proof was already used');
+  if (payload.nonce !== DPOP_NONCE) throw new OAuthError(400, 'use_dpop_nonce', 'Authorization server requires nonce in DPoP proof');
+  if (accessToken && payload.ath !== sha256(accessToken)) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP proof is not bound to the access token');
+
+  seenProofIds.add(payload.jti);
+  return getJwkThumbprint(header.jwk);
+};
+
+// --- Clients ---
+
+const isLoopbackRedirect = (redirectUri) => {
+  try {
+    const { protocol, hostname } = new URL(redirectUri);
+    return protocol === 'http:' && (hostname === '127.0.0.1' || hostname === '[::1]');
+  } catch {
+    return false;
+  }
+};
+
+/** Resolves the redirect URIs `clientId` may use: from its metadata document, or its query for loopback clients. */
+const getClientRedirectUris = async (clientId) => {
+  let url;
+  try {
+    url = new URL(clientId);
+  } catch {
+    throw new OAuthError(400, 'invalid_client', 'client_id is not a URL');
+  }
+
+  if (url.protocol === 'http:' && url.hostname === 'localhost') {
+    const redirectUris = url.searchParams.getAll('redirect_uri');
+    return redirectUris.length > 0 ? redirectUris : ['http://127.0.0.1/', 'http://[::1]/'];
+  }
+  if (url.protocol !== 'https:') throw new OAuthError(400, 'invalid_client', 'client_id must be an https URL or a loopback client');
+
+  const response = await fetch(clientId, { headers: { Accept: 'application/json' } }).catch(() => null);
+  if (!response?.ok) throw new OAuthError(400, 'invalid_client', `Could not fetch the client metadata from ${clientId}`);
+  const metadata = await response.json().catch(() => null);
+  if (metadata?.client_id !== clientId) throw new OAuthError(400, 'invalid_client', 'client_id in the metadata document does not match');
+  if (metadata.dpop_bound_access_tokens !== true) throw new OAuthError(400, 'invalid_client', 'Client must request DPoP-bound access tokens');
+  return metadata.redirect_uris || [];
+};
+
+// --- Tokens ---
+
+const issueTokens = (clientId, jkt) => {
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+  accessTokens.set(accessToken, { clientId, jkt, expiresAt: Date.now() + TOKEN_TTL_S * 1000 });
+  refreshTokens.set(refreshToken, { clientId, jkt });
+  return {
+    access_token: accessToken,
+    token_type: 'DPoP',
+    refresh_token: refreshToken,
+    scope: SCOPE,
+    sub: DID,
+    expires_in: TOKEN_TTL_S,
+  };
+};
+
+// --- Handlers ---
+
+const handleProtectedResource = (req, res) => {
+  send(res, 200, { resource: ISSUER, authorization_servers: [ISSUER], scopes_supported: [], bearer_methods_supported: ['header'] });
+};
+
+const handleServerMetadata = (req, res) => {
+  send(res, 200, {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/oauth/authorize`,
+    token_endpoint: `${ISSUER}/oauth/token`,
+    pushed_authorization_request_endpoint: `${ISSUER}/oauth/par`,
+    revocation_endpoint: `${ISSUER}/oauth/revoke`,
+    require_pushed_authorization_requests: true,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none'],
+    dpop_signing_alg_values_supported: ['ES256'],
+    scopes_supported: SCOPE.split(' '),
+    authorization_response_iss_parameter_supported: true,
+    client_id_metadata_document_supported: true,
+  });
+};
+
+const handleDidDocument = (req, res) => {
+  send(res, 200, {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: DID,
+    alsoKnownAs: [`at://${HANDLE}`],
+    service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: ISSUER }],
+  });
+};
+
+const handlePushedAuthorizationRequest = async (req, res, url) => {
+  const jkt = verifyDpopProof(req, url);
+  const form = await readForm(req);
+  const clientId = form.get('client_id');
+  const redirectUri = form.get('redirect_uri');
+  if (!clientId || !redirectUri) throw new OAuthError(400, 'invalid_request', 'client_id and redirect_uri are required');
+  if (form.get('response_type') !== 'code') throw new OAuthError(400, 'unsupported_response_type', 'Only the code response type is supported');
+  if (form.get('code_challenge_method') !== 'S256' || !form.get('code_challenge')) throw new OAuthError(400, 'invalid_request', 'PKCE with S256 is required');
+  if (!(form.get('scope') || '').split(' ').includes('atproto')) throw new OAuthError(400, 'invalid_scope', 'The atproto scope is required');
+
+  const redirectUris = await getClientRedirectUris(clientId);
+  const isAllowed = redirectUris.includes(redirectUri) || (clientId.startsWith('http://localhost') && isLoopbackRedirect(redirectUri) && redirectUris.some(isLoopbackRedirect));
+  if (!isAllowed) throw new OAuthError(400, 'invalid_request', `redirect_uri ${redirectUri} is not registered for the client`);
+
+  const requestUri = `urn:ietf:params:oauth:request_uri:req-${randomToken()}`;
+  requests.set(requestUri, {
+    clientId,
+    redirectUri,
+    state: form.get('state'),
+    codeChallenge: form.get('code_challenge'),
+    loginHint: form.get('login_hint'),
+    jkt,
+    expiresAt: Date.now() + REQUEST_TTL_MS,
+  });
+  console.log(`📨 Authorization request from ${clientId}`);
+  send(res, 201, { request_uri: requestUri, expires_in: REQUEST_TTL_MS / 1000 }, { 'DPoP-Nonce': DPOP_NONCE });
+};
+
+const getPendingRequest = (requestUri, clientId) => {
+  const request = requests.get(requestUri);
+  if (!request || request.expiresAt < Date.now() || (clientId && request.clientId !== clientId)) return null;
+  return request;
+};
+
+const redirectToClient = (res, requestUri, isApproved) => {
+  const request = requests.get(requestUri);
+  requests.delete(requestUri);
+  const params = new URLSearchParams({ iss: ISSUER });
+  if (request.state) params.set('state', request.state);
+  if (isApproved) {
+    const code = randomToken();
+    codes.set(code, { ...request, expiresAt: Date.now() + REQUEST_TTL_MS });
+    params.set('code', code);
+  } else {
+    params.set('error', 'access_denied');
+    params.set('error_description', 'The user denied the authorization request');
+  }
+  console.log(isApproved ? `✅ Approved ${request.clientId}` : `🚫 Denied ${request.clientId}`);
+  res.writeHead(302, { Location: `${request.redirectUri}?${params}` });
+  res.end();
+};
+
+const handleAuthorizePage = (req, res, url) => {
+  const requestUri = url.searchParams.get('request_uri');
+  const request = getPendingRequest(requestUri, url.searchParams.get('client_id'));
+  if (!request) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end('Unknown or expired authorization request');
+  }
+  if (process.env.STUB_AUTO_APPROVE) return redirectToClient(res, requestUri, true);
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html>
+<html>
+  <head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>Mock authorization server</title></head>
+  <body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem">
+    <h1>Sign in as @${escapeHtml(HANDLE)}?</h1>
+    <p><code>${escapeHtml(request.clientId)}</code> is asking for access to your account.</p>
+    ${request.loginHint ? `<p>Requested account: <code>${escapeHtml(request.loginHint)}</code></p>` : ''}
+    <form method="post" action="/oauth/authorize">
+      <input type="hidden" name="request_uri" value="${escapeHtml(requestUri)}">
+      <button type="submit" name="decision" value="approve">Approve</button>
+      <button type="submit" name="decision" value="deny">Deny</button>
+    </form>
+  </body>
+</html>`);
+};
+
+const handleAuthorizeDecision = async (req, res) => {
+  const form = await readForm(req);
+  const requestUri = form.get('request_uri');
+  if (!getPendingRequest(requestUri)) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end('Unknown or expired authorization request');
+  }
+  redirectToClient(res, requestUri, form.get('decision') === 'approve');
+};
+
+const handleToken = async (req, res, url) => {
+  const jkt = verifyDpopProof(req, url);
+  const form = await readForm(req);
+  const clientId = form.get('client_id');
+
+  if (form.get('grant_type') === 'authorization_code') {
+    const grant = codes.get(form.get('code'));
+    // Codes are single use, whatever the outcome
+    codes.delete(form.get('code'));
+    if (!grant || grant.expiresAt < Date.now()) throw new OAuthError(400, 'invalid_grant', 'Unknown or expired authorization code');
+    if (grant.clientId !== clientId || grant.redirectUri !== form.get('redirect_uri')) throw new OAuthError(400, 'invalid_grant', 'Code was issued to another client or redirect_uri');
+    if (sha256(form.get('code_verifier') || '') !== grant.codeChallenge) throw new OAuthError(400, 'invalid_grant', 'PKCE verification failed');
+    if (grant.jkt !== jkt) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP key differs from the one used for the authorization request');
+    console.log(`🔑 Issued tokens to ${clientId}`);
+    return send(res, 200, issueTokens(clientId, jkt), { 'DPoP-Nonce': DPOP_NONCE, 'Cache-Control': 'no-store' });
+  }
+
+  if (form.get('grant_type') === 'refresh_token') {
+    const grant = refreshTokens.get(form.get('refresh_token'));
+    if (!grant || grant.clientId !== clientId) throw new OAuthError(400, 'invalid_grant', 'Unknown refresh token');
+    if (grant.jkt !== jkt) throw new OAuthError(400, 'invalid_dpop_proof', 'DPoP key differs from the one the token is bound to');
+    // Refresh tokens rotate, as they do on real servers
+    refreshTokens.delete(form.get('refresh_token'));
+    console.log(`🔄 Refreshed tokens for ${clientId}`);
+    return send(res, 200, issueTokens(clientId, jkt), { 'DPoP-Nonce': DPOP_NONCE, 'Cache-Control': 'no-store' });
+  }
+
+  throw new OAuthError(400, 'unsupported_grant_type', `Unsupported grant_type ${form.get('grant_type')}`);
+};
+
+const handleRevoke = async (req, res) => {
+  const form = await readForm(req);
+  const token = form.get('token');
+  accessTokens.delete(token);
+  refreshTokens.delete(token);
+  send(res, 200, {}, { 'DPoP-Nonce': DPOP_NONCE });
+};
+
+const handleGetSession = (req, res, url) => {
+  const match = /^DPoP (.+)$/.exec(req.headers.authorization || '');
+  if (!match) return send(res, 401, { error: 'AuthMissing', message: 'DPoP authorization required' });
+  const token = match[1];
+
+  let jkt;
+  try {
+    jkt = verifyDpopProof(req, url, token);
+  } catch (error) {
+    // Resource servers report proof problems in WWW-Authenticate, not the body
+    if (!(error instanceof OAuthError)) throw error;
+    return send(res, 401, { error: 'InvalidToken', message: error.message }, {
+      'WWW-Authenticate': `DPoP error="${error.error}", error_description="${error.message}"`,
+      'DPoP-Nonce': DPOP_NONCE,
+    });
+  }
+
+  const grant = accessTokens.get(token);
+  if (!grant || grant.expiresAt < Date.now() || grant.jkt !== jkt) {
+    return send(res, 401, { error: 'InvalidToken', message: 'Access token is invalid or expired' }, {
+      'WWW-Authenticate': 'DPoP error="invalid_token", error_description="Access token is invalid or expired"',
+      'DPoP-Nonce': DPOP_NONCE,
+    });
+  }
+  send(res, 200, { did: DID, handle: HANDLE, active: true }, { 'DPoP-Nonce': DPOP_NONCE });
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, DPoP, atproto-accept-labelers, atproto-proxy');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'DPoP-Nonce, WWW-Authenticate');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, ISSUER);
+  try {
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /.well-known/oauth-protected-resource':
+        return handleProtectedResource(req, res);
+      case 'GET /.well-known/oauth-authorization-server':
+        return handleServerMetadata(req, res);
+      case 'GET /.well-known/did.json':
+        return handleDidDocument(req, res);
+      case 'POST /oauth/par':
+        return await handlePushedAuthorizationRequest(req, res, url);
+      case 'GET /oauth/authorize':
+        return handleAuthorizePage(req, res, url);
+      case 'POST /oauth/authorize':
+        return await handleAuthorizeDecision(req, res);
+      case 'POST /oauth/token':
+        return await handleToken(req, res, url);
+      case 'POST /oauth/revoke':
+        return await handleRevoke(req, res);
+      case 'GET /xrpc/com.atproto.server.getSession':
+        return handleGetSession(req, res, url);
+      default:
+        return send(res, 404, { error: 'MethodNotImplemented', message: `${url.pathname} is not implemented` });
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      console.error(`❌ ${error.error}: ${error.message}`);
+      return send(res, error.status, { error: error.error, error_description: error.message }, { 'DPoP-Nonce': DPOP_NONCE });
+    }
+    console.error(error);
+    send(res, 500, { error: 'server_error', error_description: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 Mock OAuth server listening on ${ISSUER} for @${HANDLE} (${DID})`);
+});
@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+
+const http = require('http');
+const crypto = require('crypto');
+
+/**
+ * Local stand-in for the Bluesky video service (app.bsky.video.*)
+ *
+ * Accepts uploads, walks each job through fake processing states and then stores the
+ * file, untouched, on the uploader's PDS with the service auth token it was sent, the
+ * way the real service stores its transcoded output. Start the app with
+ *
+ *   EXPO_PUBLIC_VIDEO_SERVICE_URL=http://localhost:8787 EXPO_PUBLIC_VIDEO_SERVICE_DID=did:web:localhost
+ *
+ * Environment:
+ *   PORT                 port to listen on (default 8787)
+ *   STUB_PROCESSING_MS   how long a job takes to process (default 6000)
+ *   STUB_FAIL            set to make every job fail during processing
+ *   STUB_LIMIT_REACHED   set to report that the daily upload limit is used up
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const PROCESSING_MS = Number(process.env.STUB_PROCESSING_MS) || 6000;
+const DAILY_VIDEOS = 25;
+const DAILY_BYTES = 10 * 1024 * 1024 * 1024;
+
+// Processing states reported before completion, each taking an equal share of PROCESSING_MS
+const STATES = ['JOB_STATE_CREATED', 'JOB_STATE_ENCODING', 'JOB_STATE_SCANNING', 'JOB_STATE_UPLOADING'];
+
+const jobs = new Map();
+const jobsByHash = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const getBearerToken = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+// The token isn't verified, only read: its audience says which PDS to store the blob on
+const decodeToken = (token) => {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const toJobStatus = (job) => ({
+  jobId: job.jobId,
+  did: job.did,
+  state: job.state,
+  progress: job.progress,
+  blob: job.blob,
+  error: job.error,
+  message: job.message,
+});
+
+const storeOnPds = async (job) => {
+  const aud = decodeToken(job.token)?.aud || '';
+  if (!aud.startsWith('did:web:')) throw new Error(`Token audience ${aud} is not a did:web PDS`);
+  const host = aud.slice('did:web:'.length);
+  const protocol = /^(localhost|127\.0\.0\.1)(:|$)/.test(host) ? 'http' : 'https';
+  const res = await fetch(`${protocol}://${host}/xrpc/com.atproto.repo.uploadBlob`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${job.token}`, 'Content-Type': job.mimeType },
+    body: job.data,
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.message || `PDS rejected the blob with status ${res.status}`);
+  return body.blob;
+};
+
+const advanceJob = (job) => {
+  if (job.state === 'JOB_STATE_COMPLETED' || job.state === 'JOB_STATE_FAILED' || job.isStoring) return;
+
+  const elapsed = Date.now() - job.createdAt;
+  if (elapsed < PROCESSING_MS) {
+    const stepMs = PROCESSING_MS / STATES.length;
+    const step = Math.floor(elapsed / stepMs);
+    job.state = STATES[step];
+    job.progress = Math.round(((elapsed % stepMs) / stepMs) * 100);
+    return;
+  }
+
+  if (process.env.STUB_FAIL) {
+    job.state = 'JOB_STATE_FAILED';
+    job.error = 'processing_failed';
+    job.message = 'Video processing failed (STUB_FAIL is set)';
+    return;
+  }
+
+  job.isStoring = true;
+  job.state = 'JOB_STATE_UPLOADING';
+  job.progress = 100;
+  storeOnPds(job)
+    .then(blob => {
+      job.state = 'JOB_STATE_COMPLETED';
+      job.progress = 100;
+      job.blob = blob;
+      console.log(`✅ Job ${job.jobId} completed`);
+    })
+    .catch(error => {
+      job.state = 'JOB_STATE_FAILED';
+      job.error = 'upload_failed';
+      job.message = error.message;
+      console.error(`❌ Job ${job.jobId} failed: ${error.message}`);
+    })
+    .finally(() => {
+      job.isStoring = false;
+      job.data = null;
+    });
+};
+
+const handleGetUploadLimits = (req, res) => {
+  if (!getBearerToken(req)) return send(res, 401, { error: 'AuthMissing', message: 'Authentication required' });
+  if (process.env.STUB_LIMIT_REACHED) {
+    return send(res, 200, { canUpload: false, remainingDailyVideos: 0, remainingDailyBytes: 0, message: 'Daily upload limit reached (STUB_LIMIT_REACHED is set)' });
+  }
+  send(res, 200, { canUpload: true, remainingDailyVideos: DAILY_VIDEOS, remainingDailyBytes: DAILY_BYTES });
+};
+
+const handleUploadVideo = async (req, res, url) => {
+  const token = getBearerToken(req);
+  if (!token) return send(res, 401, { error: 'AuthMissing', message: 'Authentication required' });
+  const did = url.searchParams.get('did');
+  if (!did) return send(res, 400, { error: 'InvalidRequest', message: 'Missing did' });
+
+  const data = await readBody(req);
+  if (data.length === 0) return send(res, 400, { error: 'InvalidRequest', message: 'Empty upload' });
+
+  // Like the real service, a video that's already been uploaded points back at its job
+  const hash = crypto.createHash('sha256').update(did).update(data).digest('hex');
+  const existing = jobs.get(jobsByHash.get(hash));
+  if (existing && existing.state !== 'JOB_STATE_FAILED') {
+    return send(res, 409, { error: 'already_exists', message: 'Video already uploaded', jobId: existing.jobId });
+  }
+
+  const job = {
+    jobId: crypto.randomUUID(),
+    did,
+    token,
+    data,
+    mimeType: req.headers['content-type'] || 'video/mp4',
+    createdAt: Date.now(),
+    state: STATES[0],
+    progress: 0,
+  };
+  jobs.set(job.jobId, job);
+  jobsByHash.set(hash, job.jobId);
+  console.log(`📥 Job ${job.jobId}: ${(data.length / 1024 / 1024).toFixed(1)} MB from ${did}`);
+  send(res, 200, { jobStatus: toJobStatus(job) });
+};
+
+const handleGetJobStatus = (req, res, url) => {
+  const job = jobs.get(url.searchParams.get('jobId'));
+  if (!job) return send(res, 404, { error: 'NotFound', message: 'Job not found' });
+  advanceJob(job);
+  send(res, 200, { jobStatus: toJobStatus(job) });
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, atproto-accept-labelers');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  try {
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /xrpc/app.bsky.video.getUploadLimits':
+        return handleGetUploadLimits(req, res);
+      case 'POST /xrpc/app.bsky.video.uploadVideo':
+        return await handleUploadVideo(req, res, url);
+      case 'GET /xrpc/app.bsky.video.getJobStatus':
+        return handleGetJobStatus(req, res, url);
+      default:
+        return send(res, 404, { error: 'MethodNotImplemented', message: `${url.pathname} is not implemented` });
+    }
+  } catch (error) {
+    console.error(error);
+    send(res, 500, { error: 'InternalServerError', message: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🎬 Video service stub listening on http://localhost:${PORT}`);
+});